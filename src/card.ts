@@ -5,16 +5,30 @@
 
 import { LitElement, html, css, PropertyValues } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { HomeAssistant, TRVZBSchedulerCardConfig, WeeklySchedule, DayOfWeek, MQTTWeeklySchedule, DAYS_OF_WEEK } from './models/types';
-import { getScheduleFromSensor, deriveDaySensorEntityId, saveSchedule, getEntityInfo, entityExists, isInvalidSensorState } from './services/ha-service';
-import { createEmptyWeeklySchedule, serializeWeeklySchedule } from './models/schedule';
+import { HomeAssistant, TRVZBSchedulerCardConfig, WeeklySchedule, DayOfWeek, MQTTWeeklySchedule, DAYS_OF_WEEK, TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS, WeekTime, ViewMode, LintOptions } from './models/types';
+import { getScheduleFromSensor, resolveDaySensorEntityId, saveSchedule, saveScheduleToEntities, getEntityInfo, getTemperatureLimits, entityExists, isEntityAvailable, isInvalidSensorState, setHvacMode, setTargetTemperature, SaveResult, DeviceOptions, EntityInfo, ServiceError } from './services/ha-service';
+import { createEmptyWeeklySchedule, copyDaySchedule, serializeWeeklySchedule, parseWeeklySchedule, getChangedDays, getSetpointSummary } from './models/schedule';
+import { ScheduleHistory } from './models/history';
+import { Outbox, OutboxEntry, loadOutbox, queueSchedule, removeFromOutbox } from './models/outbox';
+import { SyncStatus, DaySyncState, markDaysPending, updateSyncStatus, markPendingTimedOut, getUnconfirmedDays } from './models/sync-status';
+import { diffWeeklySchedule, DayScheduleDiff, DeviceScheduleDiff } from './models/schedule-diff';
+import { VacationSnapshot, VacationSnapshots, loadVacationSnapshots, updateVacationSnapshot, createVacationSchedule } from './models/vacation';
+import { detectScheduleOverride, ScheduleOverride, SCHEDULE_HVAC_MODE } from './models/override';
 import { cardStyles, getTemperatureColor } from './styles/card-styles';
+import { getWeekTime, uses12HourClock, formatDisplayTime, resolveFirstDayOfWeek, getDayOrder, sortDays } from './utils/time';
+import { DEFAULT_LINT_OPTIONS, alignTemperatureLimits } from './utils/validation';
+import { localize, getLanguage, formatDayName, formatDayList } from './localize/localize';
 
 // Import child components (they will be registered separately)
 import './components/schedule-week-view';
 import './components/schedule-graph-view';
+import './components/schedule-stats-view';
 import './components/day-schedule-editor';
 import './components/copy-schedule-dialog';
+import './components/save-diff-dialog';
+import './components/schedule-io-dialog';
+import './components/vacation-dialog';
+import './components/simplify-dialog';
 
 @customElement('trvzb-scheduler-card')
 export class TRVZBSchedulerCard extends LitElement {
@@ -38,13 +52,47 @@ export class TRVZBSchedulerCard extends LitElement {
 
   // Internal state
   @state() private _schedule: WeeklySchedule | null = null;
-  @state() private _viewMode: 'week' | 'graph' = 'week';
+  @state() private _viewMode: ViewMode = 'week';
   @state() private _editingDay: DayOfWeek | null = null;
+  @state() private _editingDays: DayOfWeek[] = [];
   @state() private _showCopyDialog: boolean = false;
   @state() private _copySourceDay: DayOfWeek | null = null;
   @state() private _saving: boolean = false;
   @state() private _error: string | null = null;
   @state() private _hasUnsavedChanges: boolean = false;
+  @state() private _saveDiff: DayScheduleDiff[] | null = null;
+  @state() private _saveDeviceDiffs: DeviceScheduleDiff[] | null = null; // "all devices" mode, one per target
+  // Vacation start or restore waiting for the save diff dialog
+  private _pendingVacation: { schedule: WeeklySchedule; start?: { temperature: number; regular: MQTTWeeklySchedule } } | null = null;
+  @state() private _showIODialog: boolean = false;
+  @state() private _showSimplifyDialog: boolean = false;
+  @state() private _showVacationDialog: boolean = false;
+
+  // Regular schedules saved when vacation mode was started (persisted in localStorage)
+  @state() private _vacations: VacationSnapshots = {};
+
+  // Multi-entity state: the device currently shown, and whether edits go to several devices
+  @state() private _activeEntity: string = '';
+  @state() private _editAll: boolean = false;
+  @state() private _targetEntities: string[] = [];
+  @state() private _saveResults: SaveResult[] | null = null;
+
+  // Days sent by the last successful save, shown as feedback until the next edit
+  @state() private _sentDays: DayOfWeek[] | null = null;
+
+  // Per-day confirmation status of the last save (single device only)
+  @state() private _syncStatus: SyncStatus | null = null;
+  @state() private _retrying: boolean = false;
+
+  // Schedule sent by the last save and the sensor states at the time it was sent
+  private _syncExpected: MQTTWeeklySchedule | null = null;
+  private _syncBefore: Partial<MQTTWeeklySchedule> = {};
+
+  // Schedules waiting for unavailable devices (persisted in localStorage)
+  @state() private _outbox: Outbox = {};
+
+  // Devices whose queued schedule is currently being resent
+  private _resending = new Set<string>();
 
   // Track previous entity ID for change detection
   private _previousEntityId: string | null = null;
@@ -58,12 +106,55 @@ export class TRVZBSchedulerCard extends LitElement {
   // Unique ID for current pending save operation (prevents race conditions on rapid saves)
   private _pendingSaveId: number = 0;
 
+  // Select value for the "all devices" option in the entity selector
+  private static readonly ALL_ENTITIES_VALUE = '__all__';
+
   // Timeout duration for pending save expiry (30 seconds)
   private static readonly PENDING_SAVE_TIMEOUT_MS = 30000;
 
+  // Current day and time in the Home Assistant timezone, refreshed every minute
+  @state() private _now: WeekTime = getWeekTime(new Date());
+
+  // True while a resume/switch-to-auto service call is running
+  @state() private _overrideBusy: boolean = false;
+
+  // Timeout ID for the next minute refresh of _now
+  private _nowTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
   // Cached hash of sensor states for efficient change detection
   private _lastSensorStateHash: string | null = null;
 
+  // Undo/redo snapshots of schedule edits
+  private _history = new ScheduleHistory();
+
+  // True while a graph drag is in progress (all its intermediate updates form one undo step)
+  private _dragInProgress: boolean = false;
+
+  // Schedule last loaded from or saved to the device (MQTT format), null if not known
+  private _savedSchedule: MQTTWeeklySchedule | null = null;
+
+  /**
+   * Device addressing options for an entity from card config
+   * The configured device name and schedule sensors belong to the primary entity;
+   * others are auto-resolved
+   */
+  private _getDeviceOptions(entityId: string): DeviceOptions {
+    const isPrimary = entityId === this.config?.entity;
+    return {
+      baseTopic: this.config?.base_topic,
+      deviceName: isPrimary ? this.config.device_name : undefined,
+      scheduleSensors: isPrimary ? this.config.schedule_sensors : undefined,
+      writeMethod: this.config?.write_method,
+    };
+  }
+
+  /**
+   * Get the day schedule text entity ID for an entity
+   */
+  private _getDaySensorId(hass: HomeAssistant, entityId: string, day: DayOfWeek): string {
+    return resolveDaySensorEntityId(hass, entityId, day, this._getDeviceOptions(entityId));
+  }
+
   /**
    * Compute a simple hash of all day sensor states for efficient change detection
    * Returns a string like "state1|state2|...|state7" or null if any sensor is missing
@@ -71,7 +162,7 @@ export class TRVZBSchedulerCard extends LitElement {
   private _computeSensorStateHash(hass: HomeAssistant, entityId: string): string | null {
     const states: string[] = [];
     for (const day of DAYS_OF_WEEK) {
-      const daySensorId = deriveDaySensorEntityId(entityId, day);
+      const daySensorId = this._getDaySensorId(hass, entityId, day);
       const sensor = hass.states[daySensorId];
       // Include 'undefined' marker for missing sensors to detect appearance/disappearance
       states.push(sensor ? sensor.state : '\0');
@@ -79,6 +170,148 @@ export class TRVZBSchedulerCard extends LitElement {
     return states.join('|');
   }
 
+  /**
+   * Read the current day sensor states for an entity
+   * Days whose sensor is missing or has no valid state are left out
+   */
+  private _readDaySensorStates(entityId: string): Partial<MQTTWeeklySchedule> {
+    const states: Partial<MQTTWeeklySchedule> = {};
+    for (const day of DAYS_OF_WEEK) {
+      const sensor = this.hass.states[this._getDaySensorId(this.hass, entityId, day)];
+      if (sensor && !isInvalidSensorState(sensor.state)) {
+        states[day] = sensor.state;
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Start waiting for the sensors to report a saved schedule
+   * When the timeout expires, days still pending are marked as timed out
+   */
+  private _startPendingSave(expected: MQTTWeeklySchedule): void {
+    // Clear any existing pending save timeout
+    this._clearPendingSave();
+
+    // Store the schedule in MQTT format to compare with sensor updates
+    this._pendingSaveSchedule = expected;
+
+    // Generate unique ID for this save operation (prevents race conditions on rapid saves)
+    const saveId = Date.now();
+    this._pendingSaveId = saveId;
+
+    // Set timeout to clear pending save if sensors never update (e.g., Z2M bug)
+    // Store timeout ID first, then verify both saveId and timeoutId match to prevent race conditions
+    const timeoutId = setTimeout(() => {
+      if (this._pendingSaveId === saveId && this._pendingSaveTimeoutId === timeoutId) {
+        this._clearPendingSave();
+        if (this._syncStatus) {
+          this._syncStatus = markPendingTimedOut(this._syncStatus);
+          this._queueUnconfirmedDays();
+        }
+      }
+    }, TRVZBSchedulerCard.PENDING_SAVE_TIMEOUT_MS);
+    this._pendingSaveTimeoutId = timeoutId;
+  }
+
+  /**
+   * Update the per-day sync status from the current sensor states
+   */
+  private _refreshSyncStatus(entityId: string): void {
+    if (!this._syncStatus || !this._syncExpected) {
+      return;
+    }
+    this._syncStatus = updateSyncStatus(
+      this._syncStatus,
+      this._syncExpected,
+      this._syncBefore,
+      this._readDaySensorStates(entityId)
+    );
+  }
+
+  /**
+   * Move days the device did not confirm to the outbox if it has gone unavailable
+   * They are resent automatically once the device is back
+   */
+  private _queueUnconfirmedDays(): void {
+    if (!this.hass || !this._syncStatus || !this._syncExpected || this._editAll) {
+      return;
+    }
+    const days = getUnconfirmedDays(this._syncStatus);
+    if (days.length > 0 && !isEntityAvailable(this.hass, this._activeEntity)) {
+      this._outbox = queueSchedule(this._outbox, this._activeEntity, this._syncExpected, days);
+    }
+  }
+
+  /**
+   * Configured devices that have a schedule waiting in the outbox
+   */
+  private get _queuedEntities(): string[] {
+    return this._entities.filter(entityId => this._outbox[entityId]);
+  }
+
+  /**
+   * Resend queued schedules for devices that have become available
+   * A device is resent to when it comes back, or once when the card first sees
+   * it available (e.g. after a page reload)
+   */
+  private _flushOutbox(oldHass?: HomeAssistant): void {
+    for (const entityId of this._queuedEntities) {
+      if (this._resending.has(entityId) || !isEntityAvailable(this.hass, entityId)) {
+        continue;
+      }
+      if (oldHass && isEntityAvailable(oldHass, entityId)) {
+        continue;
+      }
+      void this._resendQueued(entityId, this._outbox[entityId]);
+    }
+  }
+
+  /**
+   * Send a queued schedule and remove it from the outbox on success
+   * On failure the entry stays queued for the next time the device comes back
+   */
+  private async _resendQueued(entityId: string, entry: OutboxEntry): Promise<void> {
+    this._resending.add(entityId);
+    try {
+      const trackSync = entityId === this._activeEntity && !this._editAll;
+      const sensorStates = trackSync ? this._readDaySensorStates(entityId) : {};
+      const sent = await saveSchedule(
+        this.hass,
+        entityId,
+        parseWeeklySchedule(entry.schedule),
+        this._getDeviceOptions(entityId),
+        entry.days
+      );
+
+      // Keep the entry if it was re-queued while sending (the outbox is reloaded
+      // on every change, so compare the queueing time rather than the object)
+      if (this._outbox[entityId]?.queuedAt === entry.queuedAt) {
+        this._outbox = removeFromOutbox(this._outbox, entityId);
+      }
+
+      if (trackSync && entityId === this._activeEntity && sent.length > 0) {
+        this._syncExpected = entry.schedule;
+        this._syncBefore = sensorStates;
+        this._syncStatus = markDaysPending(sent);
+        this._startPendingSave(entry.schedule);
+      }
+    } catch (error) {
+      console.error(`Failed to resend queued schedule for ${entityId}:`, error);
+    } finally {
+      this._resending.delete(entityId);
+    }
+  }
+
+  /**
+   * Forget the sync status of the last save
+   */
+  private _clearSyncStatus(): void {
+    this._syncStatus = null;
+    this._syncExpected = null;
+    this._syncBefore = {};
+  }
+
   /**
    * Clear pending save state and associated timeout
    * Call this when sensors have caught up or on error
@@ -98,7 +331,7 @@ export class TRVZBSchedulerCard extends LitElement {
    */
   private _allDaySensorsMatch(entityId: string, pendingSchedule: MQTTWeeklySchedule): boolean {
     for (const day of DAYS_OF_WEEK) {
-      const daySensorId = deriveDaySensorEntityId(entityId, day);
+      const daySensorId = this._getDaySensorId(this.hass, entityId, day);
       const sensor = this.hass.states[daySensorId];
       const expectedState = pendingSchedule[day];
 
@@ -131,9 +364,8 @@ export class TRVZBSchedulerCard extends LitElement {
 
     // Check if any sensor appeared with valid data (not just state changes)
     for (const day of DAYS_OF_WEEK) {
-      const daySensorId = deriveDaySensorEntityId(entityId, day);
-      const oldSensor = oldHass.states[daySensorId];
-      const newSensor = this.hass.states[daySensorId];
+      const oldSensor = oldHass.states[this._getDaySensorId(oldHass, entityId, day)];
+      const newSensor = this.hass.states[this._getDaySensorId(this.hass, entityId, day)];
 
       // Only trigger reload if sensor appeared with valid data
       if (!oldSensor && newSensor && !isInvalidSensorState(newSensor.state)) {
@@ -159,7 +391,7 @@ export class TRVZBSchedulerCard extends LitElement {
   private _getMissingSensors(entityId: string): string[] {
     const missing: string[] = [];
     for (const day of DAYS_OF_WEEK) {
-      const daySensorId = deriveDaySensorEntityId(entityId, day);
+      const daySensorId = this._getDaySensorId(this.hass, entityId, day);
       if (!entityExists(this.hass, daySensorId)) {
         missing.push(daySensorId);
       }
@@ -172,17 +404,122 @@ export class TRVZBSchedulerCard extends LitElement {
    * Called by Home Assistant when the card is configured
    */
   public setConfig(config: TRVZBSchedulerCardConfig): void {
-    if (!config.entity) {
+    // Combine entity and entities into one de-duplicated list, entity first
+    const entities = [...new Set([config.entity, ...(config.entities || [])].filter(Boolean))];
+
+    if (entities.length === 0) {
       throw new Error('You must specify an entity');
     }
 
     this.config = {
       ...config,
+      entity: entities[0],
+      entities,
       view_mode: config.view_mode || 'week'
     };
 
     // Set initial view mode from config
     this._viewMode = this.config.view_mode || 'week';
+
+    // Start on the first device, editing it alone
+    this._activeEntity = entities[0];
+    this._editAll = false;
+    this._targetEntities = [...entities];
+    this._saveResults = null;
+    this._clearSyncStatus();
+    this._outbox = loadOutbox();
+    this._vacations = loadVacationSnapshots();
+  }
+
+  /**
+   * All configured climate entities
+   */
+  private get _entities(): string[] {
+    return this.config?.entities || [];
+  }
+
+  /**
+   * Temperature limits for editing, from the entity attributes and config overrides
+   * In "all devices" mode the limits must suit every target, so the narrowest range
+   * and the coarsest step win
+   */
+  private get _temperatureLimits(): TemperatureLimits {
+    if (!this.hass || !this.config) {
+      return DEFAULT_TEMPERATURE_LIMITS;
+    }
+
+    const overrides: Partial<TemperatureLimits> = {
+      min: this.config.min_temp,
+      max: this.config.max_temp,
+      step: this.config.target_temp_step,
+    };
+
+    const entityIds = this._editAll && this._targetEntities.length > 0
+      ? this._targetEntities
+      : [this._activeEntity];
+    const all = entityIds.map(entityId => getTemperatureLimits(this.hass, entityId, overrides));
+
+    // A coarser step of one device can leave another device's limits off a step
+    const combined = alignTemperatureLimits({
+      min: Math.max(...all.map(limits => limits.min)),
+      max: Math.min(...all.map(limits => limits.max)),
+      step: Math.max(...all.map(limits => limits.step)),
+    });
+    return combined.min < combined.max ? combined : all[0];
+  }
+
+  /**
+   * Lint warning thresholds from the config
+   */
+  private get _lintOptions(): LintOptions {
+    return {
+      ...DEFAULT_LINT_OPTIONS,
+      comfortTemp: this.config?.comfort_temp ?? DEFAULT_LINT_OPTIONS.comfortTemp,
+      comfortCap: this.config?.comfort_cap ?? DEFAULT_LINT_OPTIONS.comfortCap,
+      maxJump: this.config?.max_jump ?? DEFAULT_LINT_OPTIONS.maxJump,
+    };
+  }
+
+  /**
+   * Language of the Home Assistant user
+   */
+  private get _language(): string {
+    return getLanguage(this.hass);
+  }
+
+  /**
+   * Whether the user displays times on the 12-hour clock
+   */
+  private get _hour12(): boolean {
+    return uses12HourClock(this.hass?.locale);
+  }
+
+  /**
+   * First day of the week in the views, from the card option or the Home Assistant locale
+   */
+  private get _firstDayOfWeek(): DayOfWeek {
+    return resolveFirstDayOfWeek(this.config?.first_day_of_week, this.hass?.locale);
+  }
+
+  /**
+   * Translate a string into the user's language
+   */
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this._language, params);
+  }
+
+  /**
+   * Translated message for an error thrown by the Home Assistant service layer
+   * Other errors keep their message; the fallback is used when there is none
+   */
+  private _formatError(error: unknown, fallbackKey: string): string {
+    if (error instanceof ServiceError) {
+      const params = typeof error.params.day === 'string'
+        ? { ...error.params, day: formatDayName(error.params.day as DayOfWeek, this._language) }
+        : error.params;
+      return this._localize(`service_errors.${error.code}`, params);
+    }
+    return error instanceof Error ? error.message : this._localize(fallbackKey);
   }
 
   /**
@@ -198,7 +535,60 @@ export class TRVZBSchedulerCard extends LitElement {
    */
   disconnectedCallback(): void {
     super.disconnectedCallback();
+    this.removeEventListener('keydown', this._handleKeyDown);
     this._clearPendingSave();
+    if (this._nowTimeoutId !== null) {
+      clearTimeout(this._nowTimeoutId);
+      this._nowTimeoutId = null;
+    }
+  }
+
+  /**
+   * Lifecycle: component connected to DOM
+   * Listen for undo/redo shortcuts coming from anywhere inside the card
+   * and start refreshing the current time
+   */
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.addEventListener('keydown', this._handleKeyDown);
+    this._updateNow();
+    this._scheduleNowRefresh();
+  }
+
+  /**
+   * Lifecycle: before render
+   * Pick up a changed Home Assistant timezone right away
+   */
+  protected willUpdate(changedProps: PropertyValues): void {
+    super.willUpdate(changedProps);
+    if (changedProps.has('hass')) {
+      this._updateNow();
+    }
+  }
+
+  /**
+   * Recompute the current day and time in the Home Assistant timezone
+   * Falls back to the browser clock when hass.config.time_zone is not known
+   */
+  private _updateNow(): void {
+    const now = getWeekTime(new Date(), this.hass?.config?.time_zone);
+    if (now.day !== this._now.day || now.minutes !== this._now.minutes) {
+      this._now = now;
+    }
+  }
+
+  /**
+   * Refresh the current time at the start of every minute
+   */
+  private _scheduleNowRefresh(): void {
+    if (this._nowTimeoutId !== null) {
+      clearTimeout(this._nowTimeoutId);
+    }
+    this._nowTimeoutId = setTimeout(() => {
+      this._nowTimeoutId = null;
+      this._updateNow();
+      this._scheduleNowRefresh();
+    }, 60000 - (Date.now() % 60000));
   }
 
   /**
@@ -209,7 +599,10 @@ export class TRVZBSchedulerCard extends LitElement {
     super.updated(changedProps);
 
     if (changedProps.has('hass') && this.hass && this.config) {
-      const currentEntityId = this.config.entity;
+      const currentEntityId = this._activeEntity;
+
+      // Resend schedules queued while a device was unavailable
+      this._flushOutbox(changedProps.get('hass') as HomeAssistant | undefined);
 
       // Check if entity changed or if this is the first load
       if (currentEntityId !== this._previousEntityId) {
@@ -223,6 +616,9 @@ export class TRVZBSchedulerCard extends LitElement {
         return;
       }
 
+      // Track per-day confirmation of the last save, including late confirmations
+      this._refreshSyncStatus(currentEntityId);
+
       // If we have a pending save, check if all sensors now match what we saved
       if (this._pendingSaveSchedule) {
         if (this._allDaySensorsMatch(currentEntityId, this._pendingSaveSchedule)) {
@@ -248,7 +644,7 @@ export class TRVZBSchedulerCard extends LitElement {
    * Load schedule from 7 day sensor entities
    */
   private _loadSchedule(): void {
-    if (!this.hass || !this.config?.entity) {
+    if (!this.hass || !this._activeEntity) {
       return;
     }
 
@@ -256,58 +652,174 @@ export class TRVZBSchedulerCard extends LitElement {
     this._error = null;
 
     // Check if climate entity exists (still needed for saving and entity info)
-    if (!entityExists(this.hass, this.config.entity)) {
-      this._error = `Climate entity not found: ${this.config.entity}`;
+    if (!entityExists(this.hass, this._activeEntity)) {
+      this._error = this._localize('card.entity_not_found', { entity: this._activeEntity });
       this._schedule = null;
       return;
     }
 
     // Check if all day sensors exist
-    const missingSensors = this._getMissingSensors(this.config.entity);
+    const missingSensors = this._getMissingSensors(this._activeEntity);
 
     if (missingSensors.length > 0) {
-      this._error = `Schedule sensors not found: ${missingSensors.join(', ')}`;
+      this._error = this._localize('card.sensors_not_found', { sensors: missingSensors.join(', ') });
       this._schedule = null;
       return;
     }
 
     // Get schedule from all day sensors
-    const schedule = getScheduleFromSensor(this.hass, this.config.entity);
+    const schedule = getScheduleFromSensor(this.hass, this._activeEntity, this._getDeviceOptions(this._activeEntity));
+
+    // Edits made against the previous schedule can no longer be undone meaningfully
+    this._history.clear();
+    this._dragInProgress = false;
 
-    if (schedule) {
+    // A schedule waiting in the outbox is newer than what the device reports
+    const queued = this._outbox[this._activeEntity];
+    if (queued) {
+      this._schedule = parseWeeklySchedule(queued.schedule);
+      this._savedSchedule = queued.schedule;
+      this._hasUnsavedChanges = false;
+    } else if (schedule) {
       this._schedule = schedule;
+      this._savedSchedule = serializeWeeklySchedule(schedule);
       this._hasUnsavedChanges = false;
     } else {
       // Sensors exist but have no valid schedule - use default
       this._schedule = createEmptyWeeklySchedule();
+      this._savedSchedule = null;
+      this._hasUnsavedChanges = true;
+      this._error = this._localize('card.no_valid_schedule');
+    }
+  }
+
+  /**
+   * Replace the schedule with an edited version, recording an undo step
+   *
+   * @param schedule - The new schedule
+   * @param inProgress - True for intermediate updates of a drag gesture; only the
+   *                     first update of a gesture records an undo step
+   */
+  private _applyEdit(schedule: WeeklySchedule, inProgress: boolean = false): void {
+    if (!this._schedule) {
+      return;
+    }
+
+    if (!this._dragInProgress) {
+      this._history.record(this._schedule);
+    }
+    this._dragInProgress = inProgress;
+
+    this._schedule = schedule;
+    this._hasUnsavedChanges = true;
+    this._sentDays = null;
+  }
+
+  /**
+   * Recompute unsaved state after the schedule was replaced by undo/redo
+   */
+  private _updateUnsavedState(): void {
+    if (!this._schedule || !this._savedSchedule) {
       this._hasUnsavedChanges = true;
-      this._error = 'No valid schedule found on sensors. Using default schedule.';
+      return;
+    }
+    const changedDays = getChangedDays(serializeWeeklySchedule(this._schedule), this._savedSchedule);
+    this._hasUnsavedChanges = changedDays.length > 0;
+  }
+
+  /**
+   * Undo the last schedule edit
+   */
+  private _undo(): void {
+    if (!this._schedule || this._saving) {
+      return;
+    }
+    const previous = this._history.undo(this._schedule);
+    if (previous) {
+      this._dragInProgress = false;
+      this._schedule = previous;
+      this._updateUnsavedState();
+    }
+  }
+
+  /**
+   * Redo the last undone schedule edit
+   */
+  private _redo(): void {
+    if (!this._schedule || this._saving) {
+      return;
+    }
+    const next = this._history.redo(this._schedule);
+    if (next) {
+      this._dragInProgress = false;
+      this._schedule = next;
+      this._updateUnsavedState();
     }
   }
 
+  /**
+   * Handle keyboard shortcuts: Ctrl+Z undo, Ctrl+Shift+Z / Ctrl+Y redo
+   * Text inputs keep their native undo behaviour
+   */
+  private _handleKeyDown = (e: KeyboardEvent): void => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) {
+      return;
+    }
+
+    const origin = e.composedPath()[0];
+    if (origin instanceof HTMLTextAreaElement ||
+        (origin instanceof HTMLInputElement && origin.type === 'text')) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      this._undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      this._redo();
+    }
+  };
+
   /**
    * Handle day selected from week/list view
    */
   private _handleDaySelected(e: CustomEvent<{ day: DayOfWeek }>): void {
     this._editingDay = e.detail.day;
+    this._editingDays = [e.detail.day];
+  }
+
+  /**
+   * Handle several days selected in week view
+   * Opens the combined editor on the first of them
+   */
+  private _handleDaysSelected(e: CustomEvent<{ days: DayOfWeek[] }>): void {
+    if (e.detail.days.length === 0) {
+      return;
+    }
+    this._editingDay = e.detail.days[0];
+    this._editingDays = [...e.detail.days];
   }
 
   /**
    * Handle schedule changed in day editor
    */
-  private _handleScheduleChanged(e: CustomEvent<{ day: DayOfWeek; schedule: any }>): void {
+  private _handleScheduleChanged(
+    e: CustomEvent<{ day: DayOfWeek; schedule: any; days?: DayOfWeek[]; schedules?: Partial<WeeklySchedule>; save?: boolean }>
+  ): void {
     if (!this._schedule) {
       return;
     }
 
-    // Update the schedule for the specific day
-    this._schedule = {
-      ...this._schedule,
-      [e.detail.day]: e.detail.schedule
-    };
-
-    // Mark as having unsaved changes
-    this._hasUnsavedChanges = true;
+    // Update the schedule for the specific day, the other days of a combined edit
+    // (each edited on its own), or every day the schedule replaces
+    // Graph drags emit save: false while moving and save: true on release
+    const updated = { ...this._schedule, ...e.detail.schedules };
+    for (const day of e.detail.days || [e.detail.day]) {
+      updated[day] = day === e.detail.day ? e.detail.schedule : copyDaySchedule(e.detail.schedule);
+    }
+    this._applyEdit(updated, e.detail.save === false);
   }
 
   /**
@@ -340,8 +852,7 @@ export class TRVZBSchedulerCard extends LitElement {
       };
     }
 
-    this._schedule = updatedSchedule;
-    this._hasUnsavedChanges = true;
+    this._applyEdit(updatedSchedule);
 
     // Close dialog
     this._handleDialogClosed();
@@ -352,6 +863,7 @@ export class TRVZBSchedulerCard extends LitElement {
    */
   private _handleEditorClosed(): void {
     this._editingDay = null;
+    this._editingDays = [];
   }
 
   /**
@@ -363,111 +875,902 @@ export class TRVZBSchedulerCard extends LitElement {
   }
 
   /**
-   * Save schedule to device
+   * Get display name for a climate entity
    */
-  private async _saveSchedule(): Promise<void> {
-    if (!this.hass || !this.config?.entity || !this._schedule || this._saving) {
-      return;
-    }
-
-    this._saving = true;
-    this._error = null;
-
-    // Clear any existing pending save timeout
-    this._clearPendingSave();
-
-    // Store the schedule in MQTT format to compare with sensor updates
-    this._pendingSaveSchedule = serializeWeeklySchedule(this._schedule);
+  private _getEntityName(entityId: string): string {
+    const info = this.hass ? getEntityInfo(this.hass, entityId) : null;
+    return info?.name || entityId;
+  }
 
-    // Generate unique ID for this save operation (prevents race conditions on rapid saves)
-    const saveId = Date.now();
-    this._pendingSaveId = saveId;
+  /**
+   * Handle device selector change
+   * "All devices" keeps the current schedule so it can be published everywhere;
+   * picking a single device loads that device's schedule
+   */
+  private _handleEntitySelected(e: Event): void {
+    const value = (e.target as HTMLSelectElement).value;
+    this._saveResults = null;
+    this._sentDays = null;
 
-    // Set timeout to clear pending save if sensors never update (e.g., Z2M bug)
-    // Store timeout ID first, then verify both saveId and timeoutId match to prevent race conditions
-    const timeoutId = setTimeout(() => {
-      if (this._pendingSaveId === saveId && this._pendingSaveTimeoutId === timeoutId) {
-        this._clearPendingSave();
-      }
-    }, TRVZBSchedulerCard.PENDING_SAVE_TIMEOUT_MS);
-    this._pendingSaveTimeoutId = timeoutId;
+    if (value === TRVZBSchedulerCard.ALL_ENTITIES_VALUE) {
+      this._editAll = true;
+      return;
+    }
 
-    try {
-      await saveSchedule(this.hass, this.config.entity, this._schedule);
-      this._hasUnsavedChanges = false;
-      this._error = null;
-    } catch (error) {
-      this._error = error instanceof Error ? error.message : 'Failed to save schedule';
-      console.error('Save schedule error:', error);
-      // Clear pending on error so we can detect external changes again
+    this._editAll = false;
+    if (value !== this._activeEntity) {
+      this._activeEntity = value;
+      this._previousEntityId = value;
       this._clearPendingSave();
-    } finally {
-      this._saving = false;
+      this._clearSyncStatus();
+      this._loadSchedule();
     }
   }
 
   /**
-   * Toggle view mode between week and graph
+   * Toggle whether a device receives the schedule in "all devices" mode
    */
-  private _toggleViewMode(): void {
-    this._viewMode = this._viewMode === 'week' ? 'graph' : 'week';
+  private _toggleTargetEntity(entityId: string): void {
+    this._targetEntities = this._targetEntities.includes(entityId)
+      ? this._targetEntities.filter(id => id !== entityId)
+      : this._entities.filter(id => id === entityId || this._targetEntities.includes(id));
   }
 
   /**
-   * Render the card
+   * Render the device selector (only when several entities are configured)
    */
-  protected render() {
-    if (!this.config) {
-      return html`<ha-card>
-        <div class="message message-error">
-          Configuration required
-        </div>
-      </ha-card>`;
+  private _renderEntitySelector() {
+    if (this._entities.length < 2) {
+      return '';
     }
 
-    // Get entity info for display
-    const entityInfo = this.hass ? getEntityInfo(this.hass, this.config.entity) : null;
-    const cardTitle = this.config.name || entityInfo?.name || this.config.entity;
-
+    return html`
+      <div class="entity-selector">
+        <select
+          class="entity-select"
+          .value=${this._editAll ? TRVZBSchedulerCard.ALL_ENTITIES_VALUE : this._activeEntity}
+          @change=${this._handleEntitySelected}
+          ?disabled=${this._saving}
+          title=${this._localize(this._hasUnsavedChanges ? 'card.switch_device_blocked' : 'card.select_device')}
+        >
+          ${this._entities.map(entityId => html`
+            <option
+              value=${entityId}
+              ?selected=${!this._editAll && entityId === this._activeEntity}
+              ?disabled=${this._hasUnsavedChanges && entityId !== this._activeEntity}
+            >
+              ${this._getEntityName(entityId)}
+            </option>
+          `)}
+          <option value=${TRVZBSchedulerCard.ALL_ENTITIES_VALUE} ?selected=${this._editAll}>
+            ${this._localize('card.all_devices_count', { count: this._entities.length })}
+          </option>
+        </select>
+
+        ${this._editAll
+          ? html`
+              <div class="entity-chips">
+                ${this._entities.map(entityId => html`
+                  <button
+                    class="entity-chip ${this._targetEntities.includes(entityId) ? 'active' : ''}"
+                    data-entity=${entityId}
+                    @click=${() => this._toggleTargetEntity(entityId)}
+                    aria-pressed=${this._targetEntities.includes(entityId) ? 'true' : 'false'}
+                  >
+                    ${this._getEntityName(entityId)}
+                  </button>
+                `)}
+              </div>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Render the at-a-glance status line below the title:
+   * the scheduled setpoint now and next, and the device's actual temperatures
+   */
+  private _renderHeaderStatus(entityInfo: EntityInfo | null) {
+    let summary: string | null = null;
+    if (this._schedule) {
+      const { current, next } = getSetpointSummary(this._schedule, this._now);
+      if (current) {
+        summary = this._localize('card.setpoint_now', { temperature: current.temperature });
+        if (next) {
+          const params = { temperature: next.temperature, time: formatDisplayTime(next.time, this._hour12) };
+          const when = next.daysAhead === 0
+            ? this._localize('card.setpoint_next_today', params)
+            : next.daysAhead === 1
+              ? this._localize('card.setpoint_next_tomorrow', params)
+              : this._localize('card.setpoint_next_day', { ...params, day: formatDayName(next.day, this._language, true) });
+          summary += ` → ${when}`;
+        }
+      }
+    }
+
+    // Actual device temperatures only make sense for a single device
+    const temps: string[] = [];
+    if (!this._editAll && entityInfo?.currentTemp !== undefined) {
+      temps.push(this._localize('card.room_temperature', { temperature: entityInfo.currentTemp }));
+    }
+    if (!this._editAll && entityInfo?.targetTemp !== undefined) {
+      temps.push(this._localize('card.target_temperature', { temperature: entityInfo.targetTemp }));
+    }
+
+    const vacation = this._editAll ? undefined : this._vacations[this._activeEntity];
+
+    if (!summary && temps.length === 0 && !vacation) {
+      return '';
+    }
+
+    return html`
+      <div class="header-status">
+        ${vacation ? html`<span class="vacation-indicator">🏖 ${this._localize('card.vacation_indicator', { temperature: vacation.temperature })}</span>` : ''}
+        ${summary ? html`<span class="setpoint-summary">${summary}</span>` : ''}
+        ${temps.length > 0 ? html`<span class="entity-temps">${temps.join(' · ')}</span>` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Detect whether the active device is not following the schedule on the device
+   * Compares against the saved schedule, not unsaved edits
+   */
+  private _getScheduleOverride(entityInfo: EntityInfo | null): ScheduleOverride | null {
+    if (this._editAll || !entityInfo?.available || !this._savedSchedule) {
+      return null;
+    }
+
+    const { current } = getSetpointSummary(parseWeeklySchedule(this._savedSchedule), this._now);
+    return detectScheduleOverride(entityInfo, current?.temperature ?? null);
+  }
+
+  /**
+   * Render a warning when the device is not following its schedule
+   */
+  private _renderOverrideBanner(entityInfo: EntityInfo | null) {
+    const override = this._getScheduleOverride(entityInfo);
+    if (!override) {
+      return '';
+    }
+
+    const details: string[] = [];
+    if (override.reasons.includes('mode')) {
+      details.push(this._localize('card.override_mode', { mode: override.hvacMode ?? '' }));
+    }
+    if (override.reasons.includes('target')) {
+      details.push(this._localize('card.override_target', {
+        target: override.targetTemp ?? '',
+        scheduled: override.scheduledTemp ?? '',
+      }));
+    }
+
+    return html`
+      <div class="message message-warning override-banner">
+        <span class="override-text">${details.join(' ')}</span>
+        <div class="override-actions">
+          ${override.scheduledTemp !== undefined
+            ? html`
+                <button
+                  class="button button-secondary resume-schedule-button"
+                  @click=${() => this._resumeSchedule(override)}
+                  ?disabled=${this._overrideBusy}
+                >
+                  ${this._localize('card.resume_schedule')}
+                </button>
+              `
+            : ''}
+          ${override.reasons.includes('mode')
+            ? html`
+                <button
+                  class="button button-secondary switch-auto-button"
+                  @click=${this._switchToAuto}
+                  ?disabled=${this._overrideBusy}
+                >
+                  ${this._localize('card.switch_to_auto')}
+                </button>
+              `
+            : ''}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Put the device back on its schedule: switch to auto mode if needed and
+   * set the target to the setpoint the schedule asks for right now
+   */
+  private async _resumeSchedule(override: ScheduleOverride): Promise<void> {
+    if (!this.hass || override.scheduledTemp === undefined || this._overrideBusy) {
+      return;
+    }
+
+    this._overrideBusy = true;
+    this._error = null;
+    try {
+      if (override.reasons.includes('mode')) {
+        await setHvacMode(this.hass, this._activeEntity, SCHEDULE_HVAC_MODE);
+      }
+      await setTargetTemperature(this.hass, this._activeEntity, override.scheduledTemp);
+    } catch (error) {
+      this._error = this._formatError(error, 'card.resume_failed');
+    } finally {
+      this._overrideBusy = false;
+    }
+  }
+
+  /**
+   * Switch the device to auto mode so it follows its schedule from the next transition
+   */
+  private async _switchToAuto(): Promise<void> {
+    if (!this.hass || this._overrideBusy) {
+      return;
+    }
+
+    this._overrideBusy = true;
+    this._error = null;
+    try {
+      await setHvacMode(this.hass, this._activeEntity, SCHEDULE_HVAC_MODE);
+    } catch (error) {
+      this._error = this._formatError(error, 'card.switch_auto_failed');
+    } finally {
+      this._overrideBusy = false;
+    }
+  }
+
+  /**
+   * Set or clear the vacation snapshot of an entity and persist it
+   */
+  private _updateVacation(entityId: string, snapshot: VacationSnapshot | undefined): void {
+    this._vacations = updateVacationSnapshot(this._vacations, entityId, snapshot);
+  }
+
+  /**
+   * Open the vacation dialog
+   */
+  private _openVacationDialog(): void {
+    this._showVacationDialog = true;
+  }
+
+  /**
+   * Handle vacation dialog closed without starting
+   */
+  private _handleVacationDialogClosed(): void {
+    this._showVacationDialog = false;
+  }
+
+  /**
+   * Start vacation mode: review the flat week in the save diff dialog
+   * The snapshot is the schedule on the device, so starting is refused while
+   * there are unsaved edits that would be lost
+   */
+  private _handleVacationConfirmed(e: CustomEvent<{ temperature: number }>): void {
+    this._showVacationDialog = false;
+    if (!this._schedule || this._saving || this._editAll || this._refuseWithUnsavedChanges()) {
+      return;
+    }
+
+    const { temperature } = e.detail;
+    this._requestVacationSave({
+      schedule: createVacationSchedule(temperature),
+      start: { temperature, regular: this._savedSchedule || serializeWeeklySchedule(this._schedule) },
+    });
+  }
+
+  /**
+   * End vacation mode: review the regular schedule in the save diff dialog
+   */
+  private _restoreRegularSchedule(): void {
+    const snapshot = this._vacations[this._activeEntity];
+    if (!snapshot || !this._schedule || this._saving || this._refuseWithUnsavedChanges()) {
+      return;
+    }
+
+    this._requestVacationSave({ schedule: parseWeeklySchedule(snapshot.schedule) });
+  }
+
+  /**
+   * Show an error instead of replacing unsaved edits
+   * @returns True if there are unsaved edits
+   */
+  private _refuseWithUnsavedChanges(): boolean {
+    if (this._hasUnsavedChanges) {
+      this._error = this._localize('card.vacation_unsaved_changes');
+    }
+    return this._hasUnsavedChanges;
+  }
+
+  /**
+   * Open the save diff dialog for a vacation schedule; it is only loaded once confirmed
+   */
+  private _requestVacationSave(vacation: NonNullable<TRVZBSchedulerCard['_pendingVacation']>): void {
+    if (!this.hass) {
+      return;
+    }
+    this._error = null;
+    this._pendingVacation = vacation;
+    this._saveDiff = this._diffAgainstDevice(this._activeEntity, vacation.schedule);
+  }
+
+  /**
+   * Publish a confirmed vacation schedule and update the snapshots
+   * A new snapshot is kept, or the old one dropped, only once the save succeeded
+   */
+  private async _saveVacationSchedule(vacation: NonNullable<TRVZBSchedulerCard['_pendingVacation']>): Promise<void> {
+    const entityId = this._activeEntity;
+
+    this._applyEdit(vacation.schedule);
+    await this._saveSchedule();
+    if (this._error) {
+      return;
+    }
+
+    this._updateVacation(entityId, vacation.start
+      ? { schedule: vacation.start.regular, temperature: vacation.start.temperature, startedAt: Date.now() }
+      : undefined);
+  }
+
+  /**
+   * Render the vacation notice with the restore action
+   */
+  private _renderVacationBanner() {
+    const snapshot = this._editAll ? undefined : this._vacations[this._activeEntity];
+    if (!snapshot) {
+      return '';
+    }
+
+    return html`
+      <div class="message message-info vacation-banner">
+        <span>
+          ${this._localize('card.vacation_since', {
+            date: new Date(snapshot.startedAt).toLocaleDateString(this._language),
+            temperature: snapshot.temperature,
+          })}
+        </span>
+        <button
+          class="button button-primary restore-schedule-button"
+          @click=${this._restoreRegularSchedule}
+          ?disabled=${this._saving}
+        >
+          ${this._localize('card.restore_schedule')}
+        </button>
+      </div>
+    `;
+  }
+
+  /**
+   * Render a notice while the active device has a schedule in the outbox
+   */
+  private _renderQueuedNotice() {
+    const queued = this._editAll ? undefined : this._outbox[this._activeEntity];
+    if (!queued) {
+      return '';
+    }
+
+    const days = queued.days.length === DAYS_OF_WEEK.length
+      ? this._localize('card.whole_week')
+      : formatDayList(sortDays(queued.days, this._firstDayOfWeek), this._language);
+    return html`
+      <div class="message message-info outbox-notice">
+        ${this._localize('card.queued_notice', { device: this._getEntityName(this._activeEntity), days })}
+      </div>
+    `;
+  }
+
+  /**
+   * Render which days the last save sent to the device
+   */
+  private _renderSentDays() {
+    if (!this._sentDays || this._error) {
+      return '';
+    }
+
+    const message = this._sentDays.length === 0
+      ? this._localize('card.no_changed_days')
+      : this._sentDays.length === DAYS_OF_WEEK.length
+        ? this._localize('card.sent_whole_week')
+        : this._localize('card.sent_days', {
+          days: formatDayList(sortDays(this._sentDays, this._firstDayOfWeek), this._language),
+        });
+
+    return html`<div class="message message-success save-feedback">${message}</div>`;
+  }
+
+  /**
+   * Render the confirmation status of each day sent by the last save
+   */
+  private _renderSyncStatus() {
+    if (!this._syncStatus || this._editAll) {
+      return '';
+    }
+
+    const labels: Record<DaySyncState, string> = {
+      pending: this._localize('card.sync_pending'),
+      confirmed: this._localize('card.sync_confirmed'),
+      mismatch: this._localize('card.sync_mismatch'),
+      timed_out: this._localize('card.sync_timed_out'),
+    };
+    const unconfirmed = getUnconfirmedDays(this._syncStatus);
+
+    return html`
+      <div class="sync-status">
+        ${getDayOrder(this._firstDayOfWeek).filter(day => this._syncStatus?.[day]).map(day => {
+          const state = this._syncStatus![day]!;
+          return html`
+            <span
+              class="sync-day ${state.replace('_', '-')}"
+              data-day=${day}
+              title="${formatDayName(day, this._language)}: ${labels[state]}"
+            >
+              ${formatDayName(day, this._language, true)}
+            </span>
+          `;
+        })}
+        ${unconfirmed.length > 0
+          ? html`
+              <button
+                class="button button-secondary retry-sync-button"
+                @click=${this._retryUnconfirmed}
+                ?disabled=${this._retrying || this._saving}
+              >
+                ${this._localize(this._retrying ? 'card.retrying' : 'card.retry_unconfirmed')}
+              </button>
+            `
+          : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Send the days the device did not confirm again
+   * Uses the schedule from the last save, so unsaved edits are not published
+   */
+  private async _retryUnconfirmed(): Promise<void> {
+    if (!this.hass || !this._syncStatus || !this._syncExpected || this._retrying) {
+      return;
+    }
+
+    const days = getUnconfirmedDays(this._syncStatus);
+    if (days.length === 0) {
+      return;
+    }
+
+    this._retrying = true;
+    this._error = null;
+    try {
+      this._syncBefore = this._readDaySensorStates(this._activeEntity);
+      const sent = await saveSchedule(
+        this.hass,
+        this._activeEntity,
+        parseWeeklySchedule(this._syncExpected),
+        this._getDeviceOptions(this._activeEntity),
+        days
+      );
+      this._syncStatus = markDaysPending(sent, this._syncStatus);
+      this._startPendingSave(this._syncExpected);
+    } catch (error) {
+      this._error = this._formatError(error, 'card.save_failed');
+      console.error('Retry save error:', error);
+    } finally {
+      this._retrying = false;
+    }
+  }
+
+  /**
+   * Render per-device results of the last multi-device save
+   */
+  private _renderSaveResults() {
+    if (!this._saveResults) {
+      return '';
+    }
+
+    return html`
+      <ul class="save-results">
+        ${this._saveResults.map(result => html`
+          <li class="save-result ${result.queued ? 'queued' : result.success ? 'success' : 'failed'}">
+            ${result.queued ? '⏳' : result.success ? '✓' : '✗'} ${this._getEntityName(result.entityId)}${result.queued ? `: ${this._localize('card.queued_until_available')}` : ''}${result.error ? `: ${this._formatError(result.error, 'card.save_failed')}` : ''}
+          </li>
+        `)}
+      </ul>
+    `;
+  }
+
+  /**
+   * Open the import/export dialog
+   */
+  private _openIODialog(): void {
+    this._showIODialog = true;
+  }
+
+  /**
+   * Handle import/export dialog closed
+   */
+  private _handleIODialogClosed(): void {
+    this._showIODialog = false;
+  }
+
+  /**
+   * Handle schedule imported from import/export dialog
+   * The imported schedule replaces the current one as an unsaved, undoable edit
+   */
+  private _handleScheduleImported(e: CustomEvent<{ schedule: WeeklySchedule }>): void {
+    this._applyEdit(e.detail.schedule);
+    this._showIODialog = false;
+  }
+
+  /**
+   * Open the week-wide simplify preview
+   */
+  private _openSimplifyDialog(): void {
+    this._showSimplifyDialog = true;
+  }
+
+  /**
+   * Handle simplify dialog closed without applying
+   */
+  private _handleSimplifyDialogClosed(): void {
+    this._showSimplifyDialog = false;
+  }
+
+  /**
+   * Handle simplified schedule from the simplify dialog
+   * Applied as an unsaved, undoable edit like an import
+   */
+  private _handleSimplifyConfirmed(e: CustomEvent<{ schedule: WeeklySchedule }>): void {
+    this._applyEdit(e.detail.schedule);
+    this._showSimplifyDialog = false;
+  }
+
+  /**
+   * Show the pre-save diff dialog comparing the edited schedule to the device
+   * In "all devices" mode every target device is compared, since each of them
+   * gets the edited schedule
+   */
+  private _requestSave(): void {
+    if (!this.hass || !this._activeEntity || !this._schedule || this._saving) {
+      return;
+    }
+
+    if (this._editAll && this._targetEntities.length === 0) {
+      this._error = this._localize('card.select_target_device');
+      return;
+    }
+
+    if (this._editAll) {
+      this._saveDeviceDiffs = this._targetEntities.map(entityId => ({
+        entityId,
+        name: this._getEntityName(entityId),
+        diff: this._diffAgainstDevice(entityId),
+      }));
+    } else {
+      this._saveDiff = this._diffAgainstDevice(this._activeEntity);
+    }
+  }
+
+  /**
+   * Diff the edited schedule against a device
+   * Compares against what the sensors report right now, not what was loaded,
+   * so edits made elsewhere since loading show up as changes we would overwrite
+   */
+  private _diffAgainstDevice(entityId: string, schedule: WeeklySchedule = this._schedule!): DayScheduleDiff[] {
+    const deviceSchedule = getScheduleFromSensor(this.hass, entityId, this._getDeviceOptions(entityId));
+    return diffWeeklySchedule(
+      deviceSchedule ? serializeWeeklySchedule(deviceSchedule) : null,
+      serializeWeeklySchedule(schedule)
+    );
+  }
+
+  /**
+   * Handle save confirmed from diff dialog
+   */
+  private _handleSaveConfirmed(): void {
+    const vacation = this._pendingVacation;
+    this._saveDiff = null;
+    this._saveDeviceDiffs = null;
+    this._pendingVacation = null;
+    if (vacation) {
+      this._saveVacationSchedule(vacation);
+    } else {
+      this._saveSchedule();
+    }
+  }
+
+  /**
+   * Handle diff dialog closed without saving
+   */
+  private _handleSaveDiffClosed(): void {
+    this._saveDiff = null;
+    this._saveDeviceDiffs = null;
+    this._pendingVacation = null;
+  }
+
+  /**
+   * Save schedule to device
+   */
+  private async _saveSchedule(): Promise<void> {
+    if (!this.hass || !this._activeEntity || !this._schedule || this._saving) {
+      return;
+    }
+
+    if (this._editAll && this._targetEntities.length === 0) {
+      this._error = this._localize('card.select_target_device');
+      return;
+    }
+
+    this._saving = true;
+    this._error = null;
+    this._saveResults = null;
+    this._sentDays = null;
+    this._clearSyncStatus();
+
+    const pendingSchedule = serializeWeeklySchedule(this._schedule);
+    // The loaded device only gets the schedule (and a new baseline) when it is a target
+    const savesActive = !this._editAll || this._targetEntities.includes(this._activeEntity);
+
+    try {
+      if (this._editAll) {
+        if (savesActive) {
+          this._startPendingSave(pendingSchedule);
+        }
+
+        // Devices that are unavailable get the schedule from the outbox once they are back
+        const offline = this._targetEntities.filter(entityId => !isEntityAvailable(this.hass, entityId));
+        const online = this._targetEntities.filter(entityId => !offline.includes(entityId));
+        for (const entityId of offline) {
+          this._outbox = queueSchedule(this._outbox, entityId, pendingSchedule, DAYS_OF_WEEK);
+        }
+
+        // Publish to every available device and report each outcome
+        const results = await saveScheduleToEntities(
+          this.hass,
+          online,
+          this._schedule,
+          entityId => this._getDeviceOptions(entityId)
+        );
+        for (const result of results) {
+          if (result.success) {
+            this._outbox = removeFromOutbox(this._outbox, result.entityId);
+          }
+        }
+        this._saveResults = this._targetEntities.map(entityId =>
+          results.find(result => result.entityId === entityId)
+            || { entityId, success: true, queued: true }
+        );
+
+        const failed = results.filter(result => !result.success);
+        if (failed.length > 0) {
+          throw new Error(this._localize('card.save_failed_devices', { failed: failed.length, total: this._targetEntities.length }));
+        }
+      } else {
+        // Send only the days edited since the schedule was loaded (the whole week if unknown),
+        // plus any days still waiting in the outbox
+        const queued = this._outbox[this._activeEntity];
+        const changed = this._savedSchedule
+          ? getChangedDays(pendingSchedule, this._savedSchedule)
+          : DAYS_OF_WEEK;
+        const days = queued
+          ? DAYS_OF_WEEK.filter(day => changed.includes(day) || queued.days.includes(day))
+          : changed;
+
+        if (!isEntityAvailable(this.hass, this._activeEntity)) {
+          // Publishing now would be lost, keep the schedule until the device is back
+          if (days.length > 0) {
+            this._outbox = queueSchedule(this._outbox, this._activeEntity, pendingSchedule, days);
+          }
+        } else {
+          const sensorStates = this._readDaySensorStates(this._activeEntity);
+          this._startPendingSave(pendingSchedule);
+          this._sentDays = await saveSchedule(
+            this.hass,
+            this._activeEntity,
+            this._schedule,
+            this._getDeviceOptions(this._activeEntity),
+            days
+          );
+          this._outbox = removeFromOutbox(this._outbox, this._activeEntity);
+
+          if (this._sentDays.length > 0) {
+            this._syncExpected = pendingSchedule;
+            this._syncBefore = sensorStates;
+            this._syncStatus = markDaysPending(this._sentDays);
+            this._refreshSyncStatus(this._activeEntity);
+          }
+        }
+      }
+      if (savesActive) {
+        this._savedSchedule = pendingSchedule;
+      }
+      this._history.clear();
+      this._dragInProgress = false;
+      this._hasUnsavedChanges = false;
+      this._error = null;
+    } catch (error) {
+      this._error = this._formatError(error, 'card.save_failed');
+      console.error('Save schedule error:', error);
+      // Clear pending on error so we can detect external changes again
+      this._clearPendingSave();
+    } finally {
+      this._saving = false;
+    }
+  }
+
+  /**
+   * Toggle view mode between week and graph
+   */
+  private _toggleViewMode(): void {
+    this._viewMode = this._viewMode === 'week' ? 'graph' : 'week';
+  }
+
+  /**
+   * Open the statistics view, or return to the week view
+   */
+  private _toggleStatsView(): void {
+    this._viewMode = this._viewMode === 'stats' ? 'week' : 'stats';
+  }
+
+  /**
+   * Render the card
+   */
+  protected render() {
+    if (!this.config) {
+      return html`<ha-card>
+        <div class="message message-error">
+          ${this._localize('card.configuration_required')}
+        </div>
+      </ha-card>`;
+    }
+
+    // Get entity info for display
+    const entityInfo = this.hass ? getEntityInfo(this.hass, this._activeEntity) : null;
+    const cardTitle = this.config.name
+      || (this._editAll ? this._localize('card.all_devices') : entityInfo?.name || this._activeEntity);
+    const temperatureLimits = this._temperatureLimits;
+    const lintOptions = this._lintOptions;
+    const queuedEntities = this._queuedEntities;
+    const language = this._language;
+    const hour12 = this._hour12;
+    const firstDayOfWeek = this._firstDayOfWeek;
+
     return html`
       <ha-card>
         <div class="card-header">
-          <span class="card-title">${cardTitle}</span>
+          <div class="card-title-group">
+            <span class="card-title">${cardTitle}</span>
+            ${this._renderHeaderStatus(entityInfo)}
+          </div>
           <div class="card-actions">
             <button
               class="button button-icon"
               @click=${this._toggleViewMode}
-              title="Toggle view mode"
+              title=${this._localize('card.toggle_view')}
             >
               ${this._viewMode === 'week' ? '📅' : '📊'}
             </button>
+            <button
+              class="button button-icon stats-button ${this._viewMode === 'stats' ? 'active' : ''}"
+              @click=${this._toggleStatsView}
+              title=${this._localize('card.statistics')}
+              aria-label=${this._localize('card.statistics')}
+              aria-pressed=${this._viewMode === 'stats' ? 'true' : 'false'}
+            >
+              Σ
+            </button>
+            <button
+              class="button button-icon undo-button"
+              @click=${this._undo}
+              ?disabled=${!this._history.canUndo() || this._saving}
+              title=${this._localize('card.undo_title')}
+              aria-label=${this._localize('card.undo')}
+            >
+              ↶
+            </button>
+            <button
+              class="button button-icon redo-button"
+              @click=${this._redo}
+              ?disabled=${!this._history.canRedo() || this._saving}
+              title=${this._localize('card.redo_title')}
+              aria-label=${this._localize('card.redo')}
+            >
+              ↷
+            </button>
+            <button
+              class="button button-icon io-button"
+              @click=${this._openIODialog}
+              ?disabled=${!this._schedule}
+              title=${this._localize('card.import_export_title')}
+              aria-label=${this._localize('card.import_export_label')}
+            >
+              ⇅
+            </button>
+            <button
+              class="button button-icon simplify-button"
+              @click=${this._openSimplifyDialog}
+              ?disabled=${!this._schedule || this._saving}
+              title=${this._localize('card.simplify_title')}
+              aria-label=${this._localize('card.simplify_label')}
+            >
+              ✂
+            </button>
+            <button
+              class="button button-icon vacation-button"
+              @click=${this._openVacationDialog}
+              ?disabled=${!this._schedule || this._editAll || this._saving || !!this._vacations[this._activeEntity]}
+              title=${this._localize('card.vacation_title')}
+              aria-label=${this._localize('card.vacation_label')}
+            >
+              🏖
+            </button>
+            ${queuedEntities.length > 0
+              ? html`
+                  <span
+                    class="outbox-badge"
+                    title=${this._localize('card.waiting_to_send', {
+                      devices: queuedEntities.map(id => this._getEntityName(id)).join(', '),
+                    })}
+                  >
+                    ⏳ ${queuedEntities.length}
+                  </span>
+                `
+              : ''}
             <button
               class="button button-primary save-button ${this._saving ? 'loading' : ''}"
-              @click=${this._saveSchedule}
-              ?disabled=${!this._hasUnsavedChanges || this._saving}
+              @click=${this._requestSave}
+              ?disabled=${(!this._hasUnsavedChanges && !this._editAll) || this._saving}
             >
-              ${this._saving ? 'Saving...' : 'Save'}
+              ${this._localize(this._saving ? 'card.saving' : 'card.save')}
             </button>
           </div>
         </div>
 
         <div class="card-content">
+          ${this._renderEntitySelector()}
+
           ${this._error
             ? html`<div class="message message-error">${this._error}</div>`
             : ''}
 
+          ${this._renderVacationBanner()}
+          ${this._renderOverrideBanner(entityInfo)}
+          ${this._renderQueuedNotice()}
+          ${this._renderSaveResults()}
+          ${this._renderSentDays()}
+          ${this._renderSyncStatus()}
+
           ${!this._schedule
             ? html`<div class="loading-spinner"><div class="spinner"></div></div>`
             : this._viewMode === 'week'
             ? html`
                 <schedule-week-view
                   .schedule=${this._schedule}
+                  .now=${this._now}
+                  .language=${language}
+                  .firstDayOfWeek=${firstDayOfWeek}
+                  .hour12=${hour12}
                   @day-selected=${this._handleDaySelected}
+                  @days-selected=${this._handleDaysSelected}
                 ></schedule-week-view>
               `
+            : this._viewMode === 'stats'
+            ? html`
+                <schedule-stats-view
+                  .schedule=${this._schedule}
+                  .comfortTemp=${lintOptions.comfortTemp}
+                  .language=${language}
+                  .firstDayOfWeek=${firstDayOfWeek}
+                ></schedule-stats-view>
+              `
             : html`
                 <schedule-graph-view
                   .schedule=${this._schedule}
+                  .limits=${temperatureLimits}
+                  .lintOptions=${lintOptions}
+                  .now=${this._now}
+                  .language=${language}
+                  .firstDayOfWeek=${firstDayOfWeek}
+                  .hour12=${hour12}
+                  .hass=${this.hass}
+                  .entityId=${this._activeEntity}
                   @schedule-changed=${this._handleScheduleChanged}
                   @copy-requested=${this._handleCopyRequested}
                 ></schedule-graph-view>
@@ -479,7 +1782,13 @@ export class TRVZBSchedulerCard extends LitElement {
         ? html`
             <day-schedule-editor
               .day=${this._editingDay}
+              .days=${this._editingDays}
               .schedule=${this._schedule[this._editingDay]}
+              .weekSchedule=${this._schedule}
+              .limits=${temperatureLimits}
+              .lintOptions=${lintOptions}
+              .language=${language}
+              .hour12=${hour12}
               .open=${true}
               @schedule-changed=${this._handleScheduleChanged}
               @copy-requested=${this._handleCopyRequested}
@@ -492,12 +1801,69 @@ export class TRVZBSchedulerCard extends LitElement {
         ? html`
             <copy-schedule-dialog
               .sourceDay=${this._copySourceDay}
+              .language=${language}
+              .firstDayOfWeek=${firstDayOfWeek}
               .open=${true}
               @copy-confirmed=${this._handleCopyConfirmed}
               @dialog-closed=${this._handleDialogClosed}
             ></copy-schedule-dialog>
           `
         : ''}
+
+      ${this._showIODialog && this._schedule
+        ? html`
+            <schedule-io-dialog
+              .schedule=${this._schedule}
+              .limits=${temperatureLimits}
+              .language=${language}
+              .hour12=${hour12}
+              .open=${true}
+              @schedule-imported=${this._handleScheduleImported}
+              @dialog-closed=${this._handleIODialogClosed}
+            ></schedule-io-dialog>
+          `
+        : ''}
+
+      ${this._showSimplifyDialog && this._schedule
+        ? html`
+            <simplify-dialog
+              .schedule=${this._schedule}
+              .language=${language}
+              .hour12=${hour12}
+              .firstDayOfWeek=${firstDayOfWeek}
+              .open=${true}
+              @simplify-confirmed=${this._handleSimplifyConfirmed}
+              @dialog-closed=${this._handleSimplifyDialogClosed}
+            ></simplify-dialog>
+          `
+        : ''}
+
+      ${this._showVacationDialog
+        ? html`
+            <vacation-dialog
+              .open=${true}
+              .limits=${this._temperatureLimits}
+              .language=${language}
+              @vacation-confirmed=${this._handleVacationConfirmed}
+              @dialog-closed=${this._handleVacationDialogClosed}
+            ></vacation-dialog>
+          `
+        : ''}
+
+      ${this._saveDiff || this._saveDeviceDiffs
+        ? html`
+            <save-diff-dialog
+              .diff=${this._saveDiff ?? []}
+              .devices=${this._saveDeviceDiffs ?? []}
+              .language=${language}
+              .hour12=${hour12}
+              .firstDayOfWeek=${firstDayOfWeek}
+              .open=${true}
+              @save-confirmed=${this._handleSaveConfirmed}
+              @dialog-closed=${this._handleSaveDiffClosed}
+            ></save-diff-dialog>
+          `
+        : ''}
     `;
   }
 }
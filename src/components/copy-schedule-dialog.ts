@@ -1,6 +1,8 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { DayOfWeek } from '../models/types';
+import { DayOfWeek, DEFAULT_FIRST_DAY_OF_WEEK } from '../models/types';
+import { getDayOrder, getWeekdays, getWeekendDays } from '../utils/time';
+import { localize, localizePlural, formatDayName, DEFAULT_LANGUAGE } from '../localize/localize';
 import { cardStyles } from '../styles/card-styles';
 
 /**
@@ -17,22 +19,14 @@ export class CopyScheduleDialog extends LitElement {
   @property({ type: Boolean })
   open = false;
 
-  @state()
-  private selectedDays = new Set<DayOfWeek>();
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
 
-  // All days in the desired display order
-  private readonly ALL_DAYS: DayOfWeek[] = [
-    'sunday',
-    'monday',
-    'tuesday',
-    'wednesday',
-    'thursday',
-    'friday',
-    'saturday',
-  ];
+  @property({ type: String })
+  firstDayOfWeek: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK;
 
-  private readonly WEEKDAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
-  private readonly WEEKEND: DayOfWeek[] = ['saturday', 'sunday'];
+  @state()
+  private selectedDays = new Set<DayOfWeek>();
 
   static styles = [
     cardStyles,
@@ -149,7 +143,7 @@ export class CopyScheduleDialog extends LitElement {
    */
   private _selectWeekdays(): void {
     const newSelected = new Set<DayOfWeek>();
-    this.WEEKDAYS.forEach(day => {
+    getWeekdays(this.firstDayOfWeek).forEach(day => {
       if (day !== this.sourceDay) {
         newSelected.add(day);
       }
@@ -162,7 +156,7 @@ export class CopyScheduleDialog extends LitElement {
    */
   private _selectWeekend(): void {
     const newSelected = new Set<DayOfWeek>();
-    this.WEEKEND.forEach(day => {
+    getWeekendDays(this.firstDayOfWeek).forEach(day => {
       if (day !== this.sourceDay) {
         newSelected.add(day);
       }
@@ -175,7 +169,7 @@ export class CopyScheduleDialog extends LitElement {
    */
   private _selectAll(): void {
     const newSelected = new Set<DayOfWeek>();
-    this.ALL_DAYS.forEach(day => {
+    getDayOrder(this.firstDayOfWeek).forEach(day => {
       if (day !== this.sourceDay) {
         newSelected.add(day);
       }
@@ -240,10 +234,10 @@ export class CopyScheduleDialog extends LitElement {
   }
 
   /**
-   * Capitalize first letter of a string
+   * Translate a string into the dialog language
    */
-  private _capitalize(str: string): string {
-    return str.charAt(0).toUpperCase() + str.slice(1);
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this.language, params);
   }
 
   render() {
@@ -251,13 +245,13 @@ export class CopyScheduleDialog extends LitElement {
       return html``;
     }
 
-    const availableDays = this.ALL_DAYS.filter(day => day !== this.sourceDay);
+    const availableDays = getDayOrder(this.firstDayOfWeek).filter(day => day !== this.sourceDay);
 
     return html`
       <div class="modal-overlay" @click=${this._handleOverlayClick}>
         <div class="modal">
           <div class="modal-header">
-            <h2 class="modal-title">Copy ${this._capitalize(this.sourceDay)} schedule to...</h2>
+            <h2 class="modal-title">${this._localize('copy.title', { day: formatDayName(this.sourceDay, this.language) })}</h2>
           </div>
 
           <div class="modal-content">
@@ -266,30 +260,30 @@ export class CopyScheduleDialog extends LitElement {
               <button
                 class="quick-select-button"
                 @click=${this._selectWeekdays}
-                title="Select Monday through Friday"
+                title=${this._localize('copy.weekdays_title')}
               >
-                Weekdays
+                ${this._localize('common.weekdays')}
               </button>
               <button
                 class="quick-select-button"
                 @click=${this._selectWeekend}
-                title="Select Saturday and Sunday"
+                title=${this._localize('copy.weekend_title')}
               >
-                Weekend
+                ${this._localize('common.weekend')}
               </button>
               <button
                 class="quick-select-button"
                 @click=${this._selectAll}
-                title="Select all days except ${this._capitalize(this.sourceDay)}"
+                title=${this._localize('copy.all_title', { day: formatDayName(this.sourceDay, this.language) })}
               >
-                All
+                ${this._localize('copy.all')}
               </button>
               <button
                 class="quick-select-button"
                 @click=${this._clearSelection}
-                title="Clear all selections"
+                title=${this._localize('copy.clear_title')}
               >
-                Clear
+                ${this._localize('common.clear')}
               </button>
             </div>
 
@@ -307,7 +301,7 @@ export class CopyScheduleDialog extends LitElement {
                       @change=${(e: Event) => this._handleCheckboxChange(day, e)}
                       @click=${(e: Event) => e.stopPropagation()}
                     />
-                    <span class="day-checkbox-label">${this._capitalize(day)}</span>
+                    <span class="day-checkbox-label">${formatDayName(day, this.language)}</span>
                   </label>
                 `
               )}
@@ -316,14 +310,14 @@ export class CopyScheduleDialog extends LitElement {
 
           <div class="modal-footer">
             <button class="button button-secondary" @click=${this._handleClose}>
-              Cancel
+              ${this._localize('common.cancel')}
             </button>
             <button
               class="button button-primary"
               @click=${this._handleCopy}
               ?disabled=${this.selectedDays.size === 0}
             >
-              Copy to ${this.selectedDays.size} ${this.selectedDays.size === 1 ? 'day' : 'days'}
+              ${localizePlural('copy.confirm', this.selectedDays.size, this.language)}
             </button>
           </div>
         </div>
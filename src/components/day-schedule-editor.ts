@@ -1,14 +1,17 @@
 /**
  * Day Schedule Editor Component
- * Modal dialog for editing a single day's schedule
+ * Modal dialog for editing a single day's schedule, or several days at once
  */
 
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { repeat } from 'lit/directives/repeat.js';
-import { DayOfWeek, DaySchedule, Transition } from '../models/types';
-import { copyDaySchedule, ensureMidnightTransition, sortTransitions, generateTransitionId } from '../models/schedule';
-import { validateDaySchedule } from '../utils/validation';
+import { DayOfWeek, DaySchedule, WeeklySchedule, Transition, TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS, LintOptions, ValidationError } from '../models/types';
+import { copyDaySchedule, ensureMidnightTransition, sortTransitions, generateTransitionId, serializeDaySchedule, applyTransitionEdit, TransitionEdit } from '../models/schedule';
+import { diffDaySchedule, formatTransitionChange, TransitionChange } from '../models/schedule-diff';
+import { simplifyDaySchedule } from '../models/schedule-simplify';
+import { validateDaySchedule, clampTemperature, lintDaySchedule, DEFAULT_LINT_OPTIONS } from '../utils/validation';
+import { localize, localizePlural, formatDayName, formatDayList, formatValidationError, formatLintWarning, DEFAULT_LANGUAGE } from '../localize/localize';
 import { cardStyles } from '../styles/card-styles';
 import './transition-editor';
 
@@ -18,6 +21,8 @@ import './transition-editor';
 export interface ScheduleChangedEvent {
   day: DayOfWeek;
   schedule: DaySchedule;
+  days?: DayOfWeek[]; // all days the schedule replaces (combined editing, "apply to all")
+  schedules?: Partial<Record<DayOfWeek, DaySchedule>>; // other days, each edited on its own (combined editing)
 }
 
 export interface CopyRequestedEvent {
@@ -27,7 +32,10 @@ export interface CopyRequestedEvent {
 
 /**
  * Day Schedule Editor Component
- * Provides a modal dialog for editing a single day's heating schedule
+ * Provides a modal dialog for editing a single day's heating schedule.
+ * With several days, the first day's schedule is edited and every change
+ * applies the result to all of them; where the other days differ is shown
+ * until they agree.
  */
 @customElement('day-schedule-editor')
 export class DayScheduleEditor extends LitElement {
@@ -83,6 +91,18 @@ export class DayScheduleEditor extends LitElement {
         margin: 4px 0;
       }
 
+      .day-disagreements {
+        display: block;
+      }
+
+      .disagreement-changes {
+        margin: 2px 0 0;
+        padding-left: 16px;
+        list-style: none;
+        font-family: monospace;
+        font-size: 13px;
+      }
+
       .button-row {
         display: flex;
         gap: 8px;
@@ -131,12 +151,48 @@ export class DayScheduleEditor extends LitElement {
   @property({ type: Object })
   schedule: DaySchedule = { transitions: [] };
 
+  /**
+   * All days being edited together, including day (empty or [day] for a single day)
+   */
+  @property({ type: Array })
+  days: DayOfWeek[] = [];
+
+  /**
+   * The whole weekly schedule, used to compare the other selected days
+   */
+  @property({ type: Object })
+  weekSchedule: WeeklySchedule | null = null;
+
   /**
    * Whether the editor modal is open
    */
   @property({ type: Boolean })
   open = false;
 
+  /**
+   * Temperature limits of the device being edited
+   */
+  @property({ type: Object })
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS;
+
+  /**
+   * Thresholds for the (non-blocking) lint warnings
+   */
+  @property({ type: Object })
+  lintOptions: LintOptions = DEFAULT_LINT_OPTIONS;
+
+  /**
+   * Language for labels and messages
+   */
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
+
+  /**
+   * Show times on the 12-hour clock
+   */
+  @property({ type: Boolean })
+  hour12 = false;
+
   /**
    * Working copy of the schedule (modified until saved)
    */
@@ -147,7 +203,13 @@ export class DayScheduleEditor extends LitElement {
    * Validation errors
    */
   @state()
-  private _errors: string[] = [];
+  private _errors: ValidationError[] = [];
+
+  /**
+   * Result of the last simplification, cleared by the next edit
+   */
+  @state()
+  private _simplifyMessage = '';
 
   /**
    * Lifecycle: When properties change, update working copy
@@ -163,6 +225,7 @@ export class DayScheduleEditor extends LitElement {
       // Create a working copy when editor opens
       this._workingSchedule = copyDaySchedule(this.schedule);
       this._errors = [];
+      this._simplifyMessage = '';
     }
   }
 
@@ -209,7 +272,7 @@ export class DayScheduleEditor extends LitElement {
     const newTransition: Transition = {
       id: generateTransitionId(),
       time: defaultTime,
-      temperature: defaultTemp
+      temperature: clampTemperature(defaultTemp, this.limits)
     };
 
     this._workingSchedule = {
@@ -217,7 +280,7 @@ export class DayScheduleEditor extends LitElement {
     };
 
     // Auto-save after adding transition
-    this._autoSave();
+    this._autoSave({ type: 'add', after: newTransition });
   }
 
   /**
@@ -225,7 +288,8 @@ export class DayScheduleEditor extends LitElement {
    * Auto-saves after updating
    */
   private _updateTransitionById(id: string | undefined, transition: Transition) {
-    if (!id) return;
+    const before = this._workingSchedule.transitions.find(t => t.id === id);
+    if (!id || !before) return;
 
     const transitions = this._workingSchedule.transitions.map(t =>
       t.id === id ? { ...transition, id } : t
@@ -236,7 +300,7 @@ export class DayScheduleEditor extends LitElement {
     };
 
     // Auto-save after updating transition
-    this._autoSave();
+    this._autoSave({ type: 'update', before, after: transition });
   }
 
   /**
@@ -244,7 +308,8 @@ export class DayScheduleEditor extends LitElement {
    * Auto-saves after deleting
    */
   private _deleteTransitionById(id: string | undefined) {
-    if (!id) return;
+    const before = this._workingSchedule.transitions.find(t => t.id === id);
+    if (!id || !before) return;
 
     const transitions = this._workingSchedule.transitions.filter(t => t.id !== id);
 
@@ -253,7 +318,22 @@ export class DayScheduleEditor extends LitElement {
     };
 
     // Auto-save after deleting transition
-    this._autoSave();
+    this._autoSave({ type: 'delete', before });
+  }
+
+  /**
+   * Remove redundant transitions
+   * Auto-saves after simplifying
+   */
+  private _simplify() {
+    const result = simplifyDaySchedule(this._workingSchedule);
+    if (result.freedSlots === 0) {
+      return;
+    }
+
+    this._workingSchedule = result.schedule;
+    this._autoSave(schedule => simplifyDaySchedule(schedule).schedule);
+    this._simplifyMessage = localizePlural('day_editor.simplified', result.freedSlots, this.language);
   }
 
   /**
@@ -274,7 +354,7 @@ export class DayScheduleEditor extends LitElement {
     this._workingSchedule = schedule;
 
     // Now validate
-    const result = validateDaySchedule(schedule);
+    const result = validateDaySchedule(schedule, this.limits);
     this._errors = result.errors;
 
     return result.valid;
@@ -284,8 +364,14 @@ export class DayScheduleEditor extends LitElement {
    * Auto-save the schedule
    * Applies auto-fixes and immediately dispatches the schedule-changed event
    * This is called automatically whenever transitions are added, updated, or deleted
+   *
+   * When several days are edited, the edit is repeated on each other day's own
+   * schedule, so days that differ keep their differences. Without an edit the
+   * schedule replaces all of them ("apply to all").
    */
-  private _autoSave() {
+  private _autoSave(edit?: TransitionEdit | ((schedule: DaySchedule) => DaySchedule)) {
+    this._simplifyMessage = '';
+
     // Apply auto-fixes (midnight transition, sorting, deduplication)
     let schedule = { ...this._workingSchedule };
     schedule = ensureMidnightTransition(schedule);
@@ -295,15 +381,26 @@ export class DayScheduleEditor extends LitElement {
     this._workingSchedule = schedule;
 
     // Validate to show any errors, but don't block saving
-    const result = validateDaySchedule(schedule);
+    const result = validateDaySchedule(schedule, this.limits);
     this._errors = result.errors;
 
+    const others = this._getDays().slice(1);
+    const weekSchedule = this.weekSchedule;
+    let detail: ScheduleChangedEvent;
+    if (edit && weekSchedule && others.length > 0) {
+      const apply = typeof edit === 'function' ? edit : (day: DaySchedule) => applyTransitionEdit(day, edit);
+      detail = {
+        day: this.day,
+        schedule: this._workingSchedule,
+        schedules: Object.fromEntries(others.map(day => [day, apply(weekSchedule[day])]))
+      };
+    } else {
+      detail = { day: this.day, schedule: this._workingSchedule, days: this._getDays() };
+    }
+
     // Dispatch schedule-changed event (auto-save)
     this.dispatchEvent(new CustomEvent<ScheduleChangedEvent>('schedule-changed', {
-      detail: {
-        day: this.day,
-        schedule: this._workingSchedule
-      },
+      detail,
       bubbles: true,
       composed: true
     }));
@@ -363,10 +460,76 @@ export class DayScheduleEditor extends LitElement {
   }
 
   /**
-   * Get display name for day
+   * All days being edited, the edited day first
+   */
+  private _getDays(): DayOfWeek[] {
+    return [this.day, ...this.days.filter(day => day !== this.day)];
+  }
+
+  /**
+   * Translate a string into the editor language
+   */
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this.language, params);
+  }
+
+  /**
+   * Get display name for the edited day(s)
    */
   private _getDayDisplayName(): string {
-    return this.day.charAt(0).toUpperCase() + this.day.slice(1);
+    const days = this._getDays();
+    return days.length === 1
+      ? formatDayName(this.day, this.language)
+      : formatDayList(days, this.language, true);
+  }
+
+  /**
+   * Differences between the other selected days and the edited schedule
+   * Each change describes what happens to that day when the edit is applied to all
+   */
+  private _getDisagreements(): Array<{ day: DayOfWeek; changes: TransitionChange[] }> {
+    if (!this.weekSchedule) {
+      return [];
+    }
+
+    const edited = serializeDaySchedule(this._workingSchedule);
+    return this._getDays().slice(1)
+      .map(day => ({
+        day,
+        changes: diffDaySchedule(serializeDaySchedule(this.weekSchedule![day]), edited)
+          .filter(change => change.type !== 'unchanged'),
+      }))
+      .filter(disagreement => disagreement.changes.length > 0);
+  }
+
+  /**
+   * Render where the other selected days differ from the edited one
+   */
+  private _renderDisagreements() {
+    const disagreements = this._getDisagreements();
+    if (disagreements.length === 0) {
+      return '';
+    }
+
+    return html`
+      <div class="message message-info day-disagreements">
+        <strong>${this._localize('day_editor.days_differ')}</strong>
+        ${this._localize('day_editor.days_differ_hint')}
+        <ul class="error-list">
+          ${disagreements.map(({ day, changes }) => html`
+            <li data-day=${day}>
+              ${formatDayName(day, this.language)}
+              <ul class="disagreement-changes">
+                ${changes.map(change => html`<li class="diff-change ${change.type}">${formatTransitionChange(change, this.hour12)}</li>`)}
+              </ul>
+            </li>
+          `)}
+        </ul>
+        <button class="button button-secondary apply-all-button" @click=${() => this._autoSave()}>
+          ${this._localize('day_editor.apply_all', { count: this._getDays().length })}
+        </button>
+      </div>
+    `;
   }
 
   render() {
@@ -376,18 +539,20 @@ export class DayScheduleEditor extends LitElement {
 
     const canAddTransition = this._workingSchedule.transitions.length < 6;
     const hasErrors = this._errors.length > 0;
+    const warnings = lintDaySchedule(this._workingSchedule, this.lintOptions);
+    const redundant = simplifyDaySchedule(this._workingSchedule).freedSlots;
 
     return html`
       <div class="modal-overlay" @click=${this._handleOverlayClick}>
         <div class="modal">
           <!-- Modal Header -->
           <div class="modal-header">
-            <h2 class="modal-title">${this._getDayDisplayName()} Schedule</h2>
+            <h2 class="modal-title">${this._localize('day_editor.title', { days: this._getDayDisplayName() })}</h2>
             <button
               class="button-icon close"
               @click=${this._close}
-              title="Close editor"
-              aria-label="Close editor"
+              title=${this._localize('day_editor.close')}
+              aria-label=${this._localize('day_editor.close')}
             >
               <svg
                 width="20"
@@ -411,13 +576,29 @@ export class DayScheduleEditor extends LitElement {
               <!-- Validation Errors -->
               ${hasErrors ? html`
                 <div class="message message-error">
-                  <strong>Validation Errors:</strong>
+                  <strong>${this._localize('day_editor.validation_errors')}</strong>
                   <ul class="error-list">
-                    ${this._errors.map(error => html`<li>${error}</li>`)}
+                    ${this._errors.map(error => html`<li>${formatValidationError(error, this.language, this.hour12)}</li>`)}
                   </ul>
                 </div>
               ` : ''}
 
+              <!-- Lint Warnings (do not block saving) -->
+              ${warnings.length > 0 ? html`
+                <div class="message message-warning lint-warnings">
+                  <strong>${this._localize('day_editor.warnings')}</strong>
+                  <ul class="error-list">
+                    ${warnings.map(warning => html`<li data-code=${warning.code}>${formatLintWarning(warning, this.language, this.hour12)}</li>`)}
+                  </ul>
+                </div>
+              ` : ''}
+
+              ${this._renderDisagreements()}
+
+              ${this._simplifyMessage
+                ? html`<div class="message message-success simplify-message">${this._simplifyMessage}</div>`
+                : ''}
+
               <!-- Transitions List -->
               <div class="transitions-container">
                 <div class="transitions-list">
@@ -429,6 +610,9 @@ export class DayScheduleEditor extends LitElement {
                         .index=${index}
                         .transition=${transition}
                         .canDelete=${this._workingSchedule.transitions.length > 1}
+                        .limits=${this.limits}
+                        .language=${this.language}
+                        .hour12=${this.hour12}
                         @transition-changed=${this._handleTransitionChange}
                         @transition-deleted=${this._handleTransitionDelete}
                       ></transition-editor>
@@ -443,15 +627,27 @@ export class DayScheduleEditor extends LitElement {
                   class="button button-primary"
                   ?disabled=${!canAddTransition}
                   @click=${this._addTransition}
-                  title=${canAddTransition ? 'Add new transition' : 'Maximum 6 transitions per day'}
+                  title=${this._localize(canAddTransition ? 'day_editor.add_title' : 'common.max_transitions')}
+                >
+                  ${this._localize('common.add_transition')}
+                </button>
+                <button
+                  class="button button-secondary simplify-button"
+                  ?disabled=${redundant === 0}
+                  @click=${this._simplify}
+                  title=${redundant > 0
+                    ? localizePlural('day_editor.simplify_title', redundant, this.language)
+                    : this._localize('day_editor.no_redundant')}
                 >
-                  + Add Transition
+                  ${redundant > 0
+                    ? this._localize('day_editor.simplify_count', { count: redundant })
+                    : this._localize('day_editor.simplify')}
                 </button>
                 <button
                   class="button button-secondary"
                   @click=${this._requestCopy}
                 >
-                  Copy to Other Days...
+                  ${this._localize('day_editor.copy')}
                 </button>
               </div>
             </div>
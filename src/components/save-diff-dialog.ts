@@ -0,0 +1,303 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { DayOfWeek, DEFAULT_FIRST_DAY_OF_WEEK } from '../models/types';
+import { DayScheduleDiff, DeviceScheduleDiff, formatTransitionChange } from '../models/schedule-diff';
+import { getDayOrder } from '../utils/time';
+import { localize, localizePlural, formatDayName, DEFAULT_LANGUAGE } from '../localize/localize';
+import { cardStyles } from '../styles/card-styles';
+
+/**
+ * Save Diff Dialog Component
+ *
+ * A modal dialog shown before publishing a schedule. Lists, per day, which
+ * transitions will be added, removed or changed compared to the device.
+ * Days without changes are collapsed and can be expanded on demand.
+ * When several devices are saved at once (devices), each gets its own list.
+ */
+@customElement('save-diff-dialog')
+export class SaveDiffDialog extends LitElement {
+  @property({ type: Array })
+  diff: DayScheduleDiff[] = [];
+
+  // One diff per device, replacing diff when set
+  @property({ type: Array })
+  devices: DeviceScheduleDiff[] = [];
+
+  @property({ type: Boolean })
+  open = false;
+
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
+
+  @property({ type: Boolean })
+  hour12 = false;
+
+  @property({ type: String })
+  firstDayOfWeek: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK;
+
+  // Expanded days, keyed by entity ID and day (see _dayKey)
+  @state()
+  private expandedDays = new Set<string>();
+
+  static styles = [
+    cardStyles,
+    css`
+      :host {
+        display: block;
+      }
+
+      .diff-devices {
+        display: flex;
+        flex-direction: column;
+        gap: 16px;
+      }
+
+      .diff-device-name {
+        margin: 0 0 8px;
+        font-size: 15px;
+        font-weight: 600;
+      }
+
+      .diff-days {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .diff-day {
+        border: 1px solid var(--divider-color);
+        border-radius: 8px;
+        overflow: hidden;
+      }
+
+      .diff-day.changed {
+        border-color: var(--primary-color);
+      }
+
+      .diff-day-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        width: 100%;
+        padding: 10px 14px;
+        border: none;
+        background: var(--primary-background-color, #f5f5f5);
+        color: var(--primary-text-color);
+        font-size: 14px;
+        font-weight: 600;
+        text-transform: capitalize;
+        cursor: pointer;
+      }
+
+      .diff-day-summary {
+        font-size: 12px;
+        font-weight: 500;
+        color: var(--secondary-text-color);
+        text-transform: none;
+      }
+
+      .diff-changes {
+        list-style: none;
+        margin: 0;
+        padding: 8px 14px;
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        font-family: monospace;
+        font-size: 13px;
+      }
+
+      .diff-change.added {
+        color: var(--success-color, #4caf50);
+      }
+
+      .diff-change.removed {
+        color: var(--error-color, #f44336);
+        text-decoration: line-through;
+      }
+
+      .diff-change.changed {
+        color: var(--warning-color, #ff9800);
+      }
+
+      .diff-change.unchanged {
+        color: var(--secondary-text-color);
+      }
+    `,
+  ];
+
+  /**
+   * Lifecycle: expand changed days whenever the dialog opens with a new diff
+   */
+  willUpdate(changedProperties: Map<string, unknown>) {
+    if ((changedProperties.has('open') || changedProperties.has('diff') || changedProperties.has('devices')) && this.open) {
+      this.expandedDays = new Set(this._getDiffs().flatMap(({ entityId, diff }) =>
+        diff.filter(d => d.changed).map(d => this._dayKey(entityId, d.day))
+      ));
+    }
+  }
+
+  /**
+   * The diffs to show: one per device, or the single diff without an entity
+   */
+  private _getDiffs(): Array<{ entityId: string; diff: DayScheduleDiff[] }> {
+    return this.devices.length > 0 ? this.devices : [{ entityId: '', diff: this.diff }];
+  }
+
+  /**
+   * Key of a device's day in expandedDays
+   */
+  private _dayKey(entityId: string, day: DayOfWeek): string {
+    return `${entityId}|${day}`;
+  }
+
+  /**
+   * Toggle a day between collapsed and expanded
+   */
+  private _toggleDay(key: string): void {
+    const expanded = new Set(this.expandedDays);
+    if (expanded.has(key)) {
+      expanded.delete(key);
+    } else {
+      expanded.add(key);
+    }
+    this.expandedDays = expanded;
+  }
+
+  /**
+   * Handle the save action
+   */
+  private _handleConfirm(): void {
+    this.dispatchEvent(new CustomEvent('save-confirmed', {
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * Handle dialog close (cancel)
+   */
+  private _handleClose(): void {
+    this.dispatchEvent(new CustomEvent('dialog-closed', {
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * Handle overlay click to close dialog
+   */
+  private _handleOverlayClick(e: MouseEvent): void {
+    if (e.target === e.currentTarget) {
+      this._handleClose();
+    }
+  }
+
+  /**
+   * Summarise a day's changes for the collapsed header
+   */
+  private _formatSummary(dayDiff: DayScheduleDiff): string {
+    const count = dayDiff.changes.filter(c => c.type !== 'unchanged').length;
+    if (count === 0) {
+      return this._localize('save_diff.no_changes');
+    }
+    return localizePlural('save_diff.changes', count, this.language);
+  }
+
+  /**
+   * Translate a string into the dialog language
+   */
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this.language, params);
+  }
+
+  /**
+   * Render the per-day changes of one device
+   */
+  private _renderDiff(entityId: string, diff: DayScheduleDiff[]) {
+    const changedCount = diff.filter(d => d.changed).length;
+    const dayOrder = getDayOrder(this.firstDayOfWeek);
+    const days = [...diff].sort((a, b) => dayOrder.indexOf(a.day) - dayOrder.indexOf(b.day));
+
+    return html`
+      ${changedCount === 0
+        ? html`<div class="message message-info">${this._localize('save_diff.no_differences')}</div>`
+        : ''}
+
+      <div class="diff-days">
+        ${days.map(dayDiff => {
+          const key = this._dayKey(entityId, dayDiff.day);
+          const expanded = this.expandedDays.has(key);
+          return html`
+            <div class="diff-day ${dayDiff.changed ? 'changed' : 'unchanged'}" data-day=${dayDiff.day}>
+              <button
+                class="diff-day-header"
+                @click=${() => this._toggleDay(key)}
+                aria-expanded=${expanded ? 'true' : 'false'}
+              >
+                <span>${formatDayName(dayDiff.day, this.language)}</span>
+                <span class="diff-day-summary">${this._formatSummary(dayDiff)}</span>
+              </button>
+              ${expanded
+                ? html`
+                    <ul class="diff-changes">
+                      ${dayDiff.changes.map(change => html`
+                        <li class="diff-change ${change.type}">${formatTransitionChange(change, this.hour12)}</li>
+                      `)}
+                    </ul>
+                  `
+                : ''}
+            </div>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  render() {
+    if (!this.open) {
+      return html``;
+    }
+
+    return html`
+      <div class="modal-overlay" @click=${this._handleOverlayClick}>
+        <div class="modal">
+          <div class="modal-header">
+            <h2 class="modal-title">${this._localize('save_diff.title')}</h2>
+          </div>
+
+          <div class="modal-content">
+            ${this.devices.length > 0
+              ? html`
+                  <div class="message message-warning">${this._localize('save_diff.overwrite_devices')}</div>
+                  <div class="diff-devices">
+                    ${this.devices.map(device => html`
+                      <section class="diff-device" data-entity=${device.entityId}>
+                        <h3 class="diff-device-name">${device.name}</h3>
+                        ${this._renderDiff(device.entityId, device.diff)}
+                      </section>
+                    `)}
+                  </div>
+                `
+              : this._renderDiff('', this.diff)}
+          </div>
+
+          <div class="modal-footer">
+            <button class="button button-secondary" @click=${this._handleClose}>
+              ${this._localize('common.cancel')}
+            </button>
+            <button class="button button-primary confirm-save-button" @click=${this._handleConfirm}>
+              ${this._localize('save_diff.confirm')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'save-diff-dialog': SaveDiffDialog;
+  }
+}
@@ -1,12 +1,30 @@
 import { LitElement, html, css, svg } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { cardStyles, getTemperatureColor } from '../styles/card-styles.js';
-import { WeeklySchedule, DayOfWeek, Transition, DaySchedule } from '../models/types.js';
+import { WeeklySchedule, DayOfWeek, Transition, DaySchedule, TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS, DEFAULT_FIRST_DAY_OF_WEEK, WeekTime, LintOptions, LintWarning, HomeAssistant } from '../models/types.js';
 import { sortTransitions, copyDaySchedule } from '../models/schedule.js';
+import { HistoryWeek, TemperatureHistory, TemperatureSample, getHistoryPeriod } from '../models/temperature-history.js';
+import { canFetchHistory, fetchTemperatureHistory } from '../services/ha-service.js';
+import { clampTemperature, lintDaySchedule, DEFAULT_LINT_OPTIONS } from '../utils/validation.js';
+import { minutesToTime, timeToMinutes, formatDisplayTime, formatHourLabel, getDayOrder, getWeekdays, getWeekendDays, getWeekTime } from '../utils/time.js';
+import { localize, formatDayName, formatLintWarning, DEFAULT_LANGUAGE } from '../localize/localize.js';
 
 /**
  * Schedule Graph View Component
  * Displays an interactive temperature chart for the selected day with draggable points
+ * When the selected day is today, a line marks the current time
+ * Transitions with lint warnings are ringed and the warnings listed below the chart
+ *
+ * Keyboard: Tab moves between points, arrow keys move the focused point by the
+ * snap step (time) and temperature step, Insert adds a point after it, Delete
+ * removes it, and PageUp/PageDown switch to the previous/next day
+ *
+ * Compare mode overlays other days as ghost lines, each in its own color, with
+ * a legend to toggle them. Only the selected day can be edited.
+ *
+ * With hass and an entity set, the recorded room temperature (and optionally
+ * the device's target) of the selected weekday in the current or previous
+ * week can be drawn under the schedule.
  */
 @customElement('schedule-graph-view')
 export class ScheduleGraphView extends LitElement {
@@ -71,6 +89,17 @@ export class ScheduleGraphView extends LitElement {
         cursor: not-allowed;
       }
 
+      .day-button.has-warnings::after {
+        content: '!';
+        margin-left: 4px;
+        color: rgb(255, 152, 0);
+        font-weight: 700;
+      }
+
+      .day-button.active.has-warnings::after {
+        color: white;
+      }
+
       /* Chart container */
       .chart-wrapper {
         position: relative;
@@ -116,6 +145,130 @@ export class ScheduleGraphView extends LitElement {
         stroke-linejoin: round;
       }
 
+      .ghost-line {
+        fill: none;
+        stroke-width: 2;
+        stroke-dasharray: 6 4;
+        stroke-linejoin: round;
+        opacity: 0.55;
+        pointer-events: none;
+      }
+
+      /* Compare mode legend */
+      .compare-legend {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 6px;
+        justify-content: center;
+      }
+
+      .legend-toggle {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+        padding: 4px 10px;
+        border: 1px solid var(--divider-color, #dddddd);
+        background: var(--card-background-color, #ffffff);
+        color: var(--secondary-text-color, #666666);
+        border-radius: 12px;
+        font-size: 12px;
+        cursor: pointer;
+      }
+
+      .legend-toggle.shown {
+        color: var(--primary-text-color, #333333);
+        border-color: var(--secondary-text-color, #666666);
+      }
+
+      .legend-toggle.editing {
+        font-weight: 600;
+        cursor: default;
+      }
+
+      .legend-swatch {
+        width: 14px;
+        height: 3px;
+        border-radius: 2px;
+        opacity: 0.3;
+      }
+
+      .legend-toggle.shown .legend-swatch {
+        opacity: 1;
+      }
+
+      .history-line,
+      .history-target-line {
+        fill: none;
+        stroke-width: 2;
+        stroke-linejoin: round;
+        pointer-events: none;
+      }
+
+      .history-line {
+        stroke: var(--state-climate-heat-color, #ff8100);
+        opacity: 0.8;
+      }
+
+      .history-target-line {
+        stroke: var(--secondary-text-color, #666666);
+        stroke-dasharray: 2 3;
+        opacity: 0.7;
+      }
+
+      /* Recorded history controls */
+      .history-controls {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        justify-content: center;
+        gap: 12px;
+        font-size: 12px;
+        color: var(--secondary-text-color, #666666);
+      }
+
+      .history-controls label {
+        display: inline-flex;
+        align-items: center;
+        gap: 6px;
+      }
+
+      .history-select {
+        padding: 4px 8px;
+        border: 1px solid var(--divider-color, #dddddd);
+        border-radius: 6px;
+        font-size: 12px;
+        background: var(--card-background-color, #ffffff);
+        color: var(--primary-text-color, #333333);
+      }
+
+      .history-swatch {
+        width: 14px;
+        height: 0;
+        border-top: 2px solid var(--state-climate-heat-color, #ff8100);
+      }
+
+      .history-swatch.target {
+        border-top: 2px dotted var(--secondary-text-color, #666666);
+      }
+
+      .history-status.error {
+        color: var(--error-color, #f44336);
+      }
+
+      .now-line {
+        stroke: var(--error-color, #f44336);
+        stroke-width: 2;
+        pointer-events: none;
+      }
+
+      .now-label {
+        fill: var(--error-color, #f44336);
+        font-size: 9px;
+        font-weight: 600;
+        pointer-events: none;
+        font-family: var(--paper-font-body1_-_font-family, Arial, sans-serif);
+      }
+
       .point-group {
         cursor: grab;
         pointer-events: auto;
@@ -126,6 +279,23 @@ export class ScheduleGraphView extends LitElement {
         cursor: grabbing;
       }
 
+      .warning-ring {
+        fill: none;
+        stroke: rgb(255, 152, 0);
+        stroke-width: 2;
+        stroke-dasharray: 3 2;
+        pointer-events: none;
+      }
+
+      .lint-warnings {
+        margin-bottom: 0;
+      }
+
+      .lint-warnings ul {
+        margin: 0;
+        padding-left: 20px;
+      }
+
       .temperature-point {
         transition: r 0.2s ease, stroke-width 0.2s ease;
         pointer-events: auto;
@@ -139,6 +309,23 @@ export class ScheduleGraphView extends LitElement {
         stroke-width: 4;
       }
 
+      .point-group:focus {
+        outline: none;
+      }
+
+      .focus-ring {
+        fill: none;
+        stroke: var(--primary-color, #03a9f4);
+        stroke-width: 3;
+        pointer-events: none;
+      }
+
+      .keyboard-hint {
+        font-size: 12px;
+        color: var(--secondary-text-color, #666666);
+        text-align: center;
+      }
+
       .point-label {
         fill: var(--primary-text-color, #333333);
         font-size: 10px;
@@ -241,6 +428,31 @@ export class ScheduleGraphView extends LitElement {
   @property({ type: Boolean })
   disabled = false;
 
+  @property({ type: Object })
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS;
+
+  @property({ type: Object })
+  now: WeekTime | null = null;
+
+  @property({ type: Object })
+  lintOptions: LintOptions = DEFAULT_LINT_OPTIONS;
+
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
+
+  @property({ type: Boolean })
+  hour12 = false;
+
+  @property({ type: String })
+  firstDayOfWeek: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK;
+
+  // Used to fetch recorded history of the entity
+  @property({ attribute: false })
+  hass?: HomeAssistant;
+
+  @property({ type: String })
+  entityId = '';
+
   @state()
   private selectedDay: DayOfWeek = 'monday';
 
@@ -256,51 +468,98 @@ export class ScheduleGraphView extends LitElement {
   @state()
   private isDragging: boolean = false;
 
+  // Point that has keyboard focus, also the one reachable with Tab
+  @state()
+  private focusedPoint: number | null = null;
+
+  // Compare mode: other days drawn as ghost lines behind the selected day
+  @state()
+  private compareMode = false;
+
+  @state()
+  private compareDays = new Set<DayOfWeek>();
+
+  // Recorded history: which occurrence of the selected day, or off
+  @state()
+  private historyWeek: HistoryWeek | null = null;
+
+  @state()
+  private showTargetHistory = false;
+
+  @state()
+  private history: TemperatureHistory | null = null;
+
+  @state()
+  private historyFailed = false;
+
+  // Minutes of the day covered by the fetched history
+  private historyEnd = 0;
+
+  // Key of the last history request; responses to earlier requests are dropped
+  private historyRequest = '';
+
+  // Minutes between fetches of today's history while the clock advances
+  private readonly HISTORY_REFRESH = 5;
+
+  // Move DOM focus to focusedPoint after the next render (set by keyboard actions)
+  private restoreFocus = false;
+
+  // Time step for keyboard moves and drag snapping (minutes)
+  private readonly TIME_STEP = 15;
+
   // Minimum distance (in pixels) to move before considering it a drag
   private readonly DRAG_THRESHOLD = 5;
 
-  // Day order for display (Monday-Sunday)
-  private readonly dayOrder: DayOfWeek[] = [
-    'monday',
-    'tuesday',
-    'wednesday',
-    'thursday',
-    'friday',
-    'saturday',
-    'sunday',
-  ];
+  // Day order for display, starting on the first day of the week
+  private get dayOrder(): DayOfWeek[] {
+    return getDayOrder(this.firstDayOfWeek);
+  }
+
+  // Line color of each day in compare mode
+  private readonly DAY_COLORS: Record<DayOfWeek, string> = {
+    monday: '#1e88e5',
+    tuesday: '#43a047',
+    wednesday: '#fb8c00',
+    thursday: '#8e24aa',
+    friday: '#e53935',
+    saturday: '#00897b',
+    sunday: '#6d4c41',
+  };
 
   // Chart dimensions and layout constants
   private readonly CHART_PADDING = { top: 20, right: 20, bottom: 40, left: 50 };
   private readonly TEMP_PADDING = 5;
-  private readonly TEMP_ABSOLUTE_MIN = 4;
-  private readonly TEMP_ABSOLUTE_MAX = 35;
   private readonly HOUR_MIN = 0;
   private readonly HOUR_MAX = 24;
 
   /**
    * Get dynamic temperature range based on current day's schedule
+   * The range never extends beyond the device limits
    */
   private getTempRange(): { min: number; max: number } {
     const daySchedule = this.getCurrentDaySchedule();
+    const { min: limitMin, max: limitMax } = this.limits;
 
     if (!daySchedule || daySchedule.transitions.length === 0) {
-      return { min: 15, max: 25 };
+      return { min: Math.max(limitMin, 15), max: Math.min(limitMax, 25) };
     }
 
-    const temps = daySchedule.transitions.map(t => t.temperature);
+    // Ghost lines and recorded history must fit as well
+    const temps = [daySchedule, ...this.getGhostDays().map(day => this.schedule![day])]
+      .flatMap(schedule => schedule.transitions.map(t => t.temperature))
+      .concat(this.getHistorySamples().map(sample => sample.temperature));
     const minTemp = Math.min(...temps);
     const maxTemp = Math.max(...temps);
 
-    const rangeMin = Math.max(this.TEMP_ABSOLUTE_MIN, Math.floor(minTemp - this.TEMP_PADDING));
-    const rangeMax = Math.min(this.TEMP_ABSOLUTE_MAX, Math.ceil(maxTemp + this.TEMP_PADDING));
+    const rangeMin = Math.max(limitMin, Math.floor(minTemp - this.TEMP_PADDING));
+    const rangeMax = Math.min(limitMax, Math.ceil(maxTemp + this.TEMP_PADDING));
 
     const range = rangeMax - rangeMin;
     if (range < 10) {
       const midpoint = (rangeMin + rangeMax) / 2;
       return {
-        min: Math.max(this.TEMP_ABSOLUTE_MIN, Math.floor(midpoint - 5)),
-        max: Math.min(this.TEMP_ABSOLUTE_MAX, Math.ceil(midpoint + 5))
+        min: Math.max(limitMin, Math.floor(midpoint - 5)),
+        max: Math.min(limitMax, Math.ceil(midpoint + 5))
       };
     }
 
@@ -310,6 +569,7 @@ export class ScheduleGraphView extends LitElement {
   private selectDay(day: DayOfWeek): void {
     if (this.disabled) return;
     this.selectedDay = day;
+    this.focusedPoint = null;
   }
 
   private getCurrentDaySchedule(): DaySchedule | null {
@@ -317,6 +577,98 @@ export class ScheduleGraphView extends LitElement {
     return this.schedule[this.selectedDay] || null;
   }
 
+  /**
+   * Days drawn as ghost lines: the compared days other than the selected one
+   */
+  private getGhostDays(): DayOfWeek[] {
+    if (!this.compareMode || !this.schedule) return [];
+    return this.dayOrder.filter(
+      day => day !== this.selectedDay && this.compareDays.has(day) && this.schedule![day]?.transitions.length > 0
+    );
+  }
+
+  /**
+   * Turn compare mode on or off
+   * Compare mode starts with the days of the same kind as the selected day, so a
+   * weekday is compared with the other weekdays and a weekend day with the weekend
+   */
+  private toggleCompareMode(): void {
+    this.compareMode = !this.compareMode;
+    if (this.compareMode) {
+      const weekend = getWeekendDays(this.firstDayOfWeek);
+      this.compareDays = new Set(
+        weekend.includes(this.selectedDay) ? weekend : getWeekdays(this.firstDayOfWeek)
+      );
+    }
+  }
+
+  /**
+   * Show or hide a day's ghost line
+   */
+  private toggleCompareDay(day: DayOfWeek): void {
+    const days = new Set(this.compareDays);
+    if (days.has(day)) {
+      days.delete(day);
+    } else {
+      days.add(day);
+    }
+    this.compareDays = days;
+  }
+
+  /**
+   * Recorded samples shown on the chart
+   */
+  private getHistorySamples(): TemperatureSample[] {
+    if (!this.history) return [];
+    return this.showTargetHistory ? [...this.history.current, ...this.history.target] : this.history.current;
+  }
+
+  /**
+   * Fetch the recorded temperatures of the selected day when the entity, day or
+   * week changes. Today's history is fetched again as the clock advances.
+   */
+  private requestHistory(): void {
+    if (!this.historyWeek || !this.entityId || !this.hass || !canFetchHistory(this.hass)) {
+      this.historyRequest = '';
+      this.history = null;
+      this.historyFailed = false;
+      return;
+    }
+
+    const now = new Date();
+    const today = this.now ?? getWeekTime(now, this.hass.config?.time_zone);
+    const { start, end } = getHistoryPeriod(now, today, this.selectedDay, this.historyWeek);
+
+    const period = `${this.entityId}|${start.getTime()}|`;
+    const request = period + Math.floor(end.getTime() / (this.HISTORY_REFRESH * 60_000));
+    if (request === this.historyRequest) return;
+
+    // Keep the lines of the same day while it is refreshed
+    if (!this.historyRequest.startsWith(period)) {
+      this.history = null;
+    }
+    this.historyRequest = request;
+    this.historyFailed = false;
+
+    fetchTemperatureHistory(this.hass, this.entityId, start, end).then(
+      history => {
+        if (this.historyRequest !== request) return;
+        this.historyEnd = (end.getTime() - start.getTime()) / 60_000;
+        this.history = history;
+      },
+      () => {
+        if (this.historyRequest !== request) return;
+        this.history = null;
+        this.historyFailed = true;
+      }
+    );
+  }
+
+  private handleHistoryWeekChange(e: Event): void {
+    const value = (e.target as HTMLSelectElement).value;
+    this.historyWeek = value ? (value as HistoryWeek) : null;
+  }
+
   private hourToX(hour: number, width: number): number {
     const chartWidth = width - this.CHART_PADDING.left - this.CHART_PADDING.right;
     return this.CHART_PADDING.left + (hour / 24) * chartWidth;
@@ -343,8 +695,7 @@ export class ScheduleGraphView extends LitElement {
     const normalized = 1 - relY / chartHeight;
     const temp = min + normalized * (max - min);
 
-    const rounded = Math.round(temp * 2) / 2;
-    return Math.max(this.TEMP_ABSOLUTE_MIN, Math.min(this.TEMP_ABSOLUTE_MAX, rounded));
+    return clampTemperature(temp, this.limits);
   }
 
   private timeToHours(time: string): number {
@@ -589,15 +940,19 @@ export class ScheduleGraphView extends LitElement {
 
     const newTransition: Transition = {
       time: defaultTime,
-      temperature: defaultTemp,
+      temperature: clampTemperature(defaultTemp, this.limits),
     };
 
     transitions.push(newTransition);
     this.dispatchTransitionUpdate(transitions, true);
   }
 
-  private formatDayName(day: DayOfWeek): string {
-    return day.charAt(0).toUpperCase() + day.slice(1).substring(0, 2);
+  /**
+   * Lint warnings for a day (none when the day has no schedule)
+   */
+  private getDayWarnings(day: DayOfWeek): LintWarning[] {
+    const daySchedule = this.schedule?.[day];
+    return daySchedule ? lintDaySchedule(daySchedule, this.lintOptions) : [];
   }
 
   private renderDaySelector() {
@@ -606,11 +961,11 @@ export class ScheduleGraphView extends LitElement {
         ${this.dayOrder.map(
           (day) => html`
             <button
-              class="day-button ${this.selectedDay === day ? 'active' : ''}"
+              class="day-button ${this.selectedDay === day ? 'active' : ''} ${this.getDayWarnings(day).length > 0 ? 'has-warnings' : ''}"
               @click="${() => this.selectDay(day)}"
               ?disabled="${this.disabled}"
             >
-              ${this.formatDayName(day)}
+              ${formatDayName(day, this.language, true)}
             </button>
           `
         )}
@@ -677,7 +1032,7 @@ export class ScheduleGraphView extends LitElement {
           y="${height - this.CHART_PADDING.bottom + 15}"
           text-anchor="middle"
         >
-          ${hour}
+          ${formatHourLabel(hour, this.hour12)}
         </text>
       `);
     }
@@ -713,11 +1068,91 @@ export class ScheduleGraphView extends LitElement {
     return elements;
   }
 
+  private renderNowLine(width: number, height: number) {
+    if (!this.now || this.now.day !== this.selectedDay) {
+      return null;
+    }
+
+    const x = this.hourToX(this.now.minutes / 60, width);
+    return svg`
+      <g class="now-marker">
+        <line
+          class="now-line"
+          x1="${x}"
+          y1="${this.CHART_PADDING.top}"
+          x2="${x}"
+          y2="${height - this.CHART_PADDING.bottom}"
+        />
+        <text class="now-label" x="${x}" y="${this.CHART_PADDING.top - 6}" text-anchor="middle">
+          ${formatDisplayTime(minutesToTime(this.now.minutes), this.hour12)}
+        </text>
+      </g>
+    `;
+  }
+
   private renderTemperatureLine(transitions: Transition[], width: number, height: number) {
     if (transitions.length === 0) {
       return null;
     }
 
+    const stroke = this.compareMode ? `stroke: ${this.DAY_COLORS[this.selectedDay]}` : '';
+
+    return svg`
+      <path class="temperature-line" d="${this.getLinePath(transitions, width, height)}" style="${stroke}" />
+    `;
+  }
+
+  /**
+   * Ghost lines of the compared days, drawn behind the selected day
+   */
+  private renderGhostLines(width: number, height: number) {
+    return this.getGhostDays().map(day => svg`
+      <path
+        class="ghost-line"
+        data-day="${day}"
+        d="${this.getLinePath(this.schedule![day].transitions, width, height)}"
+        stroke="${this.DAY_COLORS[day]}"
+      />
+    `);
+  }
+
+  /**
+   * Recorded room temperature, and the device's target when enabled, drawn
+   * under the schedule
+   */
+  private renderHistoryLines(width: number, height: number) {
+    if (!this.history) return null;
+
+    const { current, target } = this.history;
+    return svg`
+      ${this.showTargetHistory && target.length > 0
+        ? svg`<path class="history-target-line" d="${this.getHistoryPath(target, width, height)}" />`
+        : null}
+      ${current.length > 0
+        ? svg`<path class="history-line" d="${this.getHistoryPath(current, width, height)}" />`
+        : null}
+    `;
+  }
+
+  /**
+   * SVG path of recorded samples: each value holds until the next one, the last
+   * until the end of the recorded period. Values are kept inside the chart.
+   */
+  private getHistoryPath(samples: TemperatureSample[], width: number, height: number): string {
+    const { min, max } = this.getTempRange();
+
+    return samples.map((sample, i) => {
+      const x = this.hourToX(sample.minutes / 60, width);
+      const y = this.tempToY(Math.max(min, Math.min(max, sample.temperature)), height);
+      const nextMinutes = i < samples.length - 1 ? samples[i + 1].minutes : Math.max(sample.minutes, this.historyEnd);
+      return `${i === 0 ? 'M' : 'L'} ${x},${y} L ${this.hourToX(nextMinutes / 60, width)},${y}`;
+    }).join(' ');
+  }
+
+  /**
+   * SVG path of a day's temperature as steps that hold until the next transition
+   */
+  private getLinePath(transitions: Transition[], width: number, height: number): string {
     const pathParts: string[] = [];
 
     for (let i = 0; i < transitions.length; i++) {
@@ -743,14 +1178,18 @@ export class ScheduleGraphView extends LitElement {
       pathParts.push(`L ${nextX},${y}`);
     }
 
-    const pathData = pathParts.join(' ');
-
-    return svg`
-      <path class="temperature-line" d="${pathData}" />
-    `;
+    return pathParts.join(' ');
   }
 
-  private renderTemperaturePoints(transitions: Transition[], width: number, height: number) {
+  private renderTemperaturePoints(
+    transitions: Transition[],
+    width: number,
+    height: number,
+    warnings: LintWarning[] = []
+  ) {
+    const warnedIndexes = new Set(warnings.map(warning => warning.index));
+    const tabStop = this.focusedPoint !== null && this.focusedPoint < transitions.length ? this.focusedPoint : 0;
+
     return transitions.map((transition, index) => {
       const hours = this.timeToHours(transition.time);
       const x = this.hourToX(hours, width);
@@ -758,13 +1197,26 @@ export class ScheduleGraphView extends LitElement {
       const color = getTemperatureColor(transition.temperature);
       const isDragging = this.draggingPoint === index;
       const isTimeFixed = index === 0;
+      const hasWarning = warnedIndexes.has(index);
+      const isFocused = this.focusedPoint === index;
 
       return svg`
         <g
-          class="point-group"
+          class="point-group ${hasWarning ? 'has-warning' : ''} ${isFocused ? 'focused' : ''}"
           data-point-index="${index}"
           style="cursor: ${isTimeFixed ? 'ns-resize' : 'grab'};"
+          tabindex="${!this.disabled && index === tabStop ? 0 : -1}"
+          role="button"
+          aria-label=${localize(isTimeFixed ? 'graph.point_label_fixed' : 'graph.point_label', this.language, {
+            time: formatDisplayTime(transition.time, this.hour12),
+            temperature: transition.temperature,
+          })}
+          @keydown=${(e: KeyboardEvent) => this.handlePointKeyDown(index, e)}
+          @focus=${() => { this.focusedPoint = index; }}
+          @blur=${() => this.handlePointBlur(index)}
         >
+          ${isFocused ? svg`<circle class="focus-ring" cx="${x}" cy="${y}" r="14" />` : null}
+          ${hasWarning ? svg`<circle class="warning-ring" cx="${x}" cy="${y}" r="11" />` : null}
           <circle
             class="temperature-point ${isDragging ? 'dragging' : ''}"
             cx="${x}"
@@ -789,7 +1241,7 @@ export class ScheduleGraphView extends LitElement {
             text-anchor="middle"
             fill="${isTimeFixed ? 'var(--info-color, #2196F3)' : 'var(--secondary-text-color, #666666)'}"
           >
-            ${transition.time}${isTimeFixed ? ' (time fixed)' : ''}
+            ${formatDisplayTime(transition.time, this.hour12)}${isTimeFixed ? ` ${localize('graph.time_fixed', this.language)}` : ''}
           </text>
         </g>
       `;
@@ -803,13 +1255,14 @@ export class ScheduleGraphView extends LitElement {
       return html`
         <div class="chart-wrapper">
           <div style="text-align: center; padding: 40px; color: var(--secondary-text-color);">
-            No schedule data available for ${this.selectedDay}
+            ${localize('graph.no_data_for_day', this.language, { day: formatDayName(this.selectedDay, this.language) })}
           </div>
         </div>
       `;
     }
 
     const transitions = daySchedule.transitions;
+    const warnings = this.getDayWarnings(this.selectedDay);
 
     return html`
       <div class="chart-wrapper">
@@ -820,13 +1273,240 @@ export class ScheduleGraphView extends LitElement {
         >
           ${this.renderGridLines(this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT)}
           ${this.renderAxes(this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT)}
+          ${this.renderHistoryLines(this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT)}
+          ${this.renderNowLine(this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT)}
+          ${this.renderGhostLines(this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT)}
           ${this.renderTemperatureLine(transitions, this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT)}
-          ${this.renderTemperaturePoints(transitions, this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT)}
+          ${this.renderTemperaturePoints(transitions, this.VIEWBOX_WIDTH, this.VIEWBOX_HEIGHT, warnings)}
         </svg>
       </div>
+      ${this.compareMode ? this.renderCompareLegend() : ''}
+      ${this.renderHistoryControls()}
+      <div class="keyboard-hint">${localize('graph.keyboard_hint', this.language)}</div>
+      ${warnings.length > 0
+        ? html`
+            <div class="message message-warning lint-warnings">
+              <ul>
+                ${warnings.map(warning => html`<li data-code=${warning.code}>${formatLintWarning(warning, this.language, this.hour12)}</li>`)}
+              </ul>
+            </div>
+          `
+        : ''}
+    `;
+  }
+
+  /**
+   * Legend of compare mode, with a toggle per day
+   * The selected day is always shown and marked as the one being edited
+   */
+  private renderCompareLegend() {
+    return html`
+      <div class="compare-legend">
+        ${this.dayOrder.map(day => {
+          const editing = day === this.selectedDay;
+          const shown = editing || this.compareDays.has(day);
+          return html`
+            <button
+              class="legend-toggle ${shown ? 'shown' : ''} ${editing ? 'editing' : ''}"
+              data-day=${day}
+              aria-pressed=${shown ? 'true' : 'false'}
+              ?disabled=${editing}
+              title=${localize(editing ? 'graph.compare_editing' : 'graph.compare_toggle', this.language, {
+                day: formatDayName(day, this.language),
+              })}
+              @click=${() => this.toggleCompareDay(day)}
+            >
+              <span class="legend-swatch" style="background: ${this.DAY_COLORS[day]}"></span>
+              ${formatDayName(day, this.language, true)}
+            </button>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  /**
+   * Controls of the recorded history, shown when the history can be fetched
+   */
+  private renderHistoryControls() {
+    if (!this.entityId || !canFetchHistory(this.hass)) return '';
+
+    let status = '';
+    if (this.historyFailed) {
+      status = localize('graph.history_failed', this.language);
+    } else if (this.historyWeek && !this.history) {
+      status = localize('graph.history_loading', this.language);
+    } else if (this.history && this.history.current.length === 0) {
+      status = localize('graph.history_empty', this.language);
+    }
+
+    return html`
+      <div class="history-controls">
+        <label>
+          <span class="history-swatch"></span>
+          ${localize('graph.history', this.language)}
+          <select class="history-select" .value=${this.historyWeek ?? ''} @change=${this.handleHistoryWeekChange}>
+            <option value="" ?selected=${!this.historyWeek}>${localize('graph.history_off', this.language)}</option>
+            <option value="current" ?selected=${this.historyWeek === 'current'}>
+              ${localize('graph.history_current', this.language)}
+            </option>
+            <option value="previous" ?selected=${this.historyWeek === 'previous'}>
+              ${localize('graph.history_previous', this.language)}
+            </option>
+          </select>
+        </label>
+        ${this.historyWeek
+          ? html`
+              <label>
+                <input
+                  type="checkbox"
+                  class="history-target-toggle"
+                  .checked=${this.showTargetHistory}
+                  @change=${(e: Event) => { this.showTargetHistory = (e.target as HTMLInputElement).checked; }}
+                />
+                <span class="history-swatch target"></span>
+                ${localize('graph.history_target', this.language)}
+              </label>
+            `
+          : ''}
+        ${status ? html`<span class="history-status ${this.historyFailed ? 'error' : ''}">${status}</span>` : ''}
+      </div>
     `;
   }
 
+  /**
+   * Keyboard actions on a focused point
+   */
+  private handlePointKeyDown(index: number, event: KeyboardEvent): void {
+    if (this.disabled) return;
+
+    const transitions = this.getCurrentDaySchedule()?.transitions;
+    if (!transitions || !transitions[index]) return;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        this.moveTransitionTime(index, event.key === 'ArrowLeft' ? -this.TIME_STEP : this.TIME_STEP);
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown':
+        this.moveTransitionTemperature(index, event.key === 'ArrowUp' ? this.limits.step : -this.limits.step);
+        break;
+      case 'Tab': {
+        const next = event.shiftKey ? index - 1 : index + 1;
+        if (next < 0 || next >= transitions.length) {
+          return; // Leave the chart
+        }
+        this.focusPoint(next);
+        break;
+      }
+      case 'Insert':
+        this.insertTransitionAfter(index);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (index === 0 || transitions.length <= 1) return;
+        this.removeTransitionAtIndex(index);
+        this.focusPoint(index - 1);
+        break;
+      case 'PageUp':
+      case 'PageDown':
+        this.switchDay(event.key === 'PageUp' ? -1 : 1);
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  }
+
+  /**
+   * Forget the focused point when focus leaves the chart points
+   * Skipped while a keyboard action is moving focus to another point
+   */
+  private handlePointBlur(index: number): void {
+    if (!this.restoreFocus && this.focusedPoint === index) {
+      this.focusedPoint = null;
+    }
+  }
+
+  /**
+   * Focus a point after the next render
+   */
+  private focusPoint(index: number): void {
+    this.focusedPoint = index;
+    this.restoreFocus = true;
+    this.requestUpdate();
+  }
+
+  /**
+   * Move a transition in time, staying between its neighbours
+   * The first transition is fixed at 00:00. A transition closer than a step to
+   * the neighbour it moves towards stays where it is.
+   */
+  private moveTransitionTime(index: number, deltaMinutes: number): void {
+    const transitions = [...this.getCurrentDaySchedule()!.transitions];
+    if (index === 0) return;
+
+    const min = timeToMinutes(transitions[index - 1].time) + this.TIME_STEP;
+    const max = index < transitions.length - 1
+      ? timeToMinutes(transitions[index + 1].time) - this.TIME_STEP
+      : 24 * 60 - this.TIME_STEP;
+    const current = timeToMinutes(transitions[index].time);
+    const minutes = deltaMinutes > 0
+      ? Math.min(max, current + deltaMinutes)
+      : Math.max(min, current + deltaMinutes);
+    if (deltaMinutes > 0 ? minutes <= current : minutes >= current) return;
+
+    transitions[index] = { ...transitions[index], time: minutesToTime(minutes) };
+    this.dispatchTransitionUpdate(transitions, true);
+    this.focusPoint(index);
+  }
+
+  /**
+   * Change a transition's temperature within the device limits
+   */
+  private moveTransitionTemperature(index: number, delta: number): void {
+    const transitions = [...this.getCurrentDaySchedule()!.transitions];
+    const temperature = clampTemperature(transitions[index].temperature + delta, this.limits);
+    if (temperature === transitions[index].temperature) return;
+
+    transitions[index] = { ...transitions[index], temperature };
+    this.dispatchTransitionUpdate(transitions, true);
+    this.focusPoint(index);
+  }
+
+  /**
+   * Insert a transition halfway between a point and the next one (or midnight)
+   * The new transition keeps the point's temperature and gets focus
+   */
+  private insertTransitionAfter(index: number): void {
+    const transitions = [...this.getCurrentDaySchedule()!.transitions];
+    if (transitions.length >= 6) return;
+
+    const start = timeToMinutes(transitions[index].time);
+    const end = index < transitions.length - 1 ? timeToMinutes(transitions[index + 1].time) : 24 * 60;
+    const minutes = Math.round((start + end) / 2 / this.TIME_STEP) * this.TIME_STEP;
+    if (minutes <= start || minutes >= end) return;
+
+    transitions.splice(index + 1, 0, {
+      time: minutesToTime(minutes),
+      temperature: transitions[index].temperature,
+    });
+    this.dispatchTransitionUpdate(transitions, true);
+    this.focusPoint(index + 1);
+  }
+
+  /**
+   * Switch to the previous or next day, keeping keyboard focus in the chart
+   */
+  private switchDay(offset: number): void {
+    const position = this.dayOrder.indexOf(this.selectedDay);
+    const day = this.dayOrder[(position + offset + this.dayOrder.length) % this.dayOrder.length];
+    this.selectDay(day);
+    this.focusPoint(0);
+  }
+
   private renderActionButtons() {
     const daySchedule = this.getCurrentDaySchedule();
     const canAdd = daySchedule && daySchedule.transitions.length < 6;
@@ -837,17 +1517,25 @@ export class ScheduleGraphView extends LitElement {
           class="action-button"
           @click="${this.addTransition}"
           ?disabled="${!canAdd || this.disabled}"
-          title="${canAdd ? 'Add new temperature transition' : 'Maximum 6 transitions per day'}"
+          title=${localize(canAdd ? 'graph.add_title' : 'common.max_transitions', this.language)}
         >
-          + Add Transition
+          ${localize('common.add_transition', this.language)}
         </button>
         <button
           class="action-button secondary"
           @click="${this.copyToOtherDays}"
           ?disabled="${this.disabled}"
-          title="Copy this day's schedule to other days"
+          title=${localize('graph.copy_title', this.language)}
         >
-          Copy to Other Days
+          ${localize('graph.copy', this.language)}
+        </button>
+        <button
+          class="action-button secondary compare-toggle"
+          @click="${this.toggleCompareMode}"
+          aria-pressed=${this.compareMode ? 'true' : 'false'}
+          title=${localize('graph.compare_title', this.language)}
+        >
+          ${localize(this.compareMode ? 'graph.compare_off' : 'graph.compare', this.language)}
         </button>
       </div>
     `;
@@ -869,7 +1557,7 @@ export class ScheduleGraphView extends LitElement {
     if (!this.schedule) {
       return html`
         <div class="empty-state">
-          <div class="empty-state-text">No schedule data available</div>
+          <div class="empty-state-text">${localize('common.no_schedule_data', this.language)}</div>
         </div>
       `;
     }
@@ -887,7 +1575,21 @@ export class ScheduleGraphView extends LitElement {
   private boundSvgTouchStart: ((e: Event) => void) | null = null;
   private boundSvgDblClick: ((e: Event) => void) | null = null;
 
+  protected willUpdate(): void {
+    this.requestHistory();
+  }
+
   protected updated(): void {
+    if (this.restoreFocus && this.focusedPoint !== null) {
+      const point = this.renderRoot.querySelector<SVGGElement>(
+        `.point-group[data-point-index="${this.focusedPoint}"]`
+      );
+      if (point) {
+        point.focus();
+        this.restoreFocus = false;
+      }
+    }
+
     const svg = this.renderRoot.querySelector('.chart-svg');
     if (svg) {
       if (!this.boundSvgMouseDown) {
@@ -0,0 +1,351 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { WeeklySchedule, DayOfWeek, TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS } from '../models/types';
+import { parseWeeklySchedule } from '../models/schedule';
+import { exportSchedule, parseScheduleImport, ScheduleExportFormat, ScheduleImportError } from '../models/schedule-io';
+import { validateWeeklySchedule } from '../utils/validation';
+import { localize, formatValidationError, formatDayName, DEFAULT_LANGUAGE } from '../localize/localize';
+import { cardStyles } from '../styles/card-styles';
+
+/**
+ * Schedule Import/Export Dialog Component
+ *
+ * A modal dialog for exporting the current weekly schedule as JSON, YAML or
+ * raw Z2M strings, and for importing a schedule in any of those formats.
+ * Imported schedules are validated before the schedule-imported event is sent.
+ */
+@customElement('schedule-io-dialog')
+export class ScheduleIODialog extends LitElement {
+  @property({ type: Object })
+  schedule: WeeklySchedule | null = null;
+
+  @property({ type: Boolean })
+  open = false;
+
+  @property({ type: Object })
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS;
+
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
+
+  @property({ type: Boolean })
+  hour12 = false;
+
+  @state()
+  private mode: 'export' | 'import' = 'export';
+
+  @state()
+  private format: ScheduleExportFormat = 'json';
+
+  @state()
+  private importText = '';
+
+  @state()
+  private errors: string[] = [];
+
+  @state()
+  private copied = false;
+
+  private readonly FORMATS: ScheduleExportFormat[] = ['json', 'yaml', 'raw'];
+
+  static styles = [
+    cardStyles,
+    css`
+      :host {
+        display: block;
+      }
+
+      .io-textarea {
+        width: 100%;
+        min-height: 200px;
+        padding: 10px;
+        border: 1px solid var(--divider-color);
+        border-radius: 6px;
+        background: var(--card-background-color);
+        color: var(--primary-text-color);
+        font-family: monospace;
+        font-size: 13px;
+        box-sizing: border-box;
+        resize: vertical;
+      }
+
+      .io-row {
+        display: flex;
+        gap: 8px;
+        align-items: center;
+        flex-wrap: wrap;
+        margin-bottom: 12px;
+      }
+
+      .io-select {
+        padding: 8px 12px;
+        border: 1px solid var(--divider-color);
+        border-radius: 6px;
+        font-size: 14px;
+        background: var(--card-background-color);
+        color: var(--primary-text-color);
+        cursor: pointer;
+      }
+
+      .io-hint {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 8px;
+      }
+
+      .error-list {
+        margin: 0;
+        padding-left: 20px;
+      }
+    `,
+  ];
+
+  /**
+   * Translate a string into the dialog language
+   */
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this.language, params);
+  }
+
+  /**
+   * Label of an export format
+   */
+  private _formatLabel(format: ScheduleExportFormat): string {
+    return format === 'raw' ? this._localize('io.format_raw') : format.toUpperCase();
+  }
+
+  /**
+   * Translated message for an import parse error
+   */
+  private _formatImportError(error: unknown): string {
+    if (error instanceof ScheduleImportError) {
+      const params = typeof error.params.day === 'string'
+        ? { ...error.params, day: formatDayName(error.params.day as DayOfWeek, this.language) }
+        : error.params;
+      return this._localize(`import_errors.${error.code}`, params);
+    }
+    return error instanceof Error ? error.message : this._localize('io.parse_failed');
+  }
+
+  /**
+   * Export text for the current schedule and format
+   */
+  private _getExportText(): string {
+    return this.schedule ? exportSchedule(this.schedule, this.format) : '';
+  }
+
+  /**
+   * Switch between export and import mode
+   */
+  private _setMode(mode: 'export' | 'import'): void {
+    this.mode = mode;
+    this.errors = [];
+    this.copied = false;
+  }
+
+  /**
+   * Handle export format change
+   */
+  private _handleFormatChange(e: Event): void {
+    this.format = (e.target as HTMLSelectElement).value as ScheduleExportFormat;
+    this.copied = false;
+  }
+
+  /**
+   * Copy export text to the clipboard
+   */
+  private async _copyExport(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(this._getExportText());
+      this.copied = true;
+    } catch (error) {
+      console.error('Failed to copy schedule:', error);
+    }
+  }
+
+  /**
+   * Download export text as a file
+   */
+  private _downloadExport(): void {
+    const extension = this.format === 'raw' ? 'txt' : this.format;
+    const blob = new Blob([this._getExportText()], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trvzb-schedule.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Handle import textarea input
+   */
+  private _handleImportInput(e: Event): void {
+    this.importText = (e.target as HTMLTextAreaElement).value;
+    this.errors = [];
+  }
+
+  /**
+   * Load import text from a selected file
+   */
+  private async _handleFileSelected(e: Event): Promise<void> {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (!file) {
+      return;
+    }
+    this.importText = await file.text();
+    this.errors = [];
+  }
+
+  /**
+   * Parse, validate and dispatch the imported schedule
+   */
+  private _handleImport(): void {
+    let schedule: WeeklySchedule;
+    try {
+      schedule = parseWeeklySchedule(parseScheduleImport(this.importText));
+    } catch (error) {
+      this.errors = [this._formatImportError(error)];
+      return;
+    }
+
+    const result = validateWeeklySchedule(schedule, this.limits);
+    if (!result.valid) {
+      this.errors = result.errors.map(error => formatValidationError(error, this.language, this.hour12));
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent('schedule-imported', {
+      detail: { schedule },
+      bubbles: true,
+      composed: true,
+    }));
+    this.importText = '';
+  }
+
+  /**
+   * Handle dialog close (cancel)
+   */
+  private _handleClose(): void {
+    this.dispatchEvent(new CustomEvent('dialog-closed', {
+      bubbles: true,
+      composed: true,
+    }));
+    this.importText = '';
+    this.errors = [];
+  }
+
+  /**
+   * Handle overlay click to close dialog
+   */
+  private _handleOverlayClick(e: MouseEvent): void {
+    if (e.target === e.currentTarget) {
+      this._handleClose();
+    }
+  }
+
+  private _renderExport() {
+    return html`
+      <div class="io-row">
+        <select class="io-select export-format" .value=${this.format} @change=${this._handleFormatChange}>
+          ${this.FORMATS.map(format => html`
+            <option value=${format} ?selected=${format === this.format}>${this._formatLabel(format)}</option>
+          `)}
+        </select>
+      </div>
+      <textarea class="io-textarea export-text" readonly .value=${this._getExportText()}></textarea>
+      ${this.format === 'raw'
+        ? html`<div class="io-hint">${this._localize('io.raw_hint')}</div>`
+        : ''}
+    `;
+  }
+
+  private _renderImport() {
+    return html`
+      ${this.errors.length > 0
+        ? html`
+            <div class="message message-error">
+              <ul class="error-list">
+                ${this.errors.map(error => html`<li>${error}</li>`)}
+              </ul>
+            </div>
+          `
+        : ''}
+      <div class="io-row">
+        <input type="file" accept=".json,.yaml,.yml,.txt" @change=${this._handleFileSelected} />
+      </div>
+      <textarea
+        class="io-textarea import-text"
+        .value=${this.importText}
+        @input=${this._handleImportInput}
+        placeholder='{"monday": "00:00/18 06:00/21", ...}'
+      ></textarea>
+      <div class="io-hint">${this._localize('io.import_hint')}</div>
+    `;
+  }
+
+  render() {
+    if (!this.open) {
+      return html``;
+    }
+
+    return html`
+      <div class="modal-overlay" @click=${this._handleOverlayClick}>
+        <div class="modal">
+          <div class="modal-header">
+            <h2 class="modal-title">${this._localize('io.title')}</h2>
+          </div>
+
+          <div class="modal-content">
+            <div class="view-toggle">
+              <button
+                class="view-toggle-button ${this.mode === 'export' ? 'active' : ''}"
+                @click=${() => this._setMode('export')}
+              >
+                ${this._localize('io.export')}
+              </button>
+              <button
+                class="view-toggle-button import-tab ${this.mode === 'import' ? 'active' : ''}"
+                @click=${() => this._setMode('import')}
+              >
+                ${this._localize('io.import')}
+              </button>
+            </div>
+
+            ${this.mode === 'export' ? this._renderExport() : this._renderImport()}
+          </div>
+
+          <div class="modal-footer">
+            <button class="button button-secondary" @click=${this._handleClose}>
+              ${this._localize('common.close')}
+            </button>
+            ${this.mode === 'export'
+              ? html`
+                  <button class="button button-secondary" @click=${this._downloadExport}>
+                    ${this._localize('io.download')}
+                  </button>
+                  <button class="button button-primary" @click=${this._copyExport}>
+                    ${this._localize(this.copied ? 'io.copied' : 'io.copy')}
+                  </button>
+                `
+              : html`
+                  <button
+                    class="button button-primary import-button"
+                    @click=${this._handleImport}
+                    ?disabled=${!this.importText.trim()}
+                  >
+                    ${this._localize('io.import')}
+                  </button>
+                `}
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'schedule-io-dialog': ScheduleIODialog;
+  }
+}
@@ -0,0 +1,139 @@
+import { LitElement, html, css, TemplateResult } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { cardStyles } from '../styles/card-styles.js';
+import { WeeklySchedule, DayOfWeek, DEFAULT_FIRST_DAY_OF_WEEK, DEFAULT_COMFORT_TEMPERATURE } from '../models/types.js';
+import { calculateWeeklyStats, ScheduleStats } from '../models/schedule-stats.js';
+import { getDayOrder } from '../utils/time.js';
+import { localize, formatDayName, DEFAULT_LANGUAGE } from '../localize/localize.js';
+
+/**
+ * Schedule Statistics View Component
+ *
+ * Summarizes the weekly schedule in a table with one row per day and a
+ * week total: hours at or above the comfort temperature, time-weighted
+ * average setpoint, setpoint range and free transition slots.
+ */
+@customElement('schedule-stats-view')
+export class ScheduleStatsView extends LitElement {
+  @property({ type: Object }) schedule?: WeeklySchedule;
+  @property({ type: Number }) comfortTemp = DEFAULT_COMFORT_TEMPERATURE;
+  @property({ type: String }) language = DEFAULT_LANGUAGE;
+  @property({ type: String }) firstDayOfWeek: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK;
+
+  static styles = [
+    cardStyles,
+    css`
+      :host {
+        display: block;
+      }
+
+      .stats-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 14px;
+      }
+
+      .stats-table th,
+      .stats-table td {
+        padding: 6px 8px;
+        text-align: right;
+        border-bottom: 1px solid var(--divider-color);
+      }
+
+      .stats-table th:first-child,
+      .stats-table td:first-child {
+        text-align: left;
+      }
+
+      .stats-table th {
+        font-size: 12px;
+        font-weight: 500;
+        color: var(--secondary-text-color);
+      }
+
+      .stats-table tr.week-row td {
+        font-weight: 600;
+        border-bottom: none;
+        border-top: 2px solid var(--divider-color);
+      }
+
+      .stats-hint {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+        margin-top: 8px;
+      }
+    `
+  ];
+
+  private get dayOrder(): DayOfWeek[] {
+    return getDayOrder(this.firstDayOfWeek);
+  }
+
+  /**
+   * Format a number with at most one decimal
+   */
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 10) / 10);
+  }
+
+  /**
+   * Format a temperature, or a dash when there is none
+   */
+  private formatTemperature(value: number | null): string {
+    return value === null ? '–' : `${this.formatNumber(value)}°C`;
+  }
+
+  /**
+   * Render a statistics row
+   */
+  private renderRow(label: string, stats: ScheduleStats, className: string, key: string): TemplateResult {
+    return html`
+      <tr class=${className} data-row=${key}>
+        <td>${label}</td>
+        <td class="comfort-hours">${localize('stats.hours', this.language, { hours: this.formatNumber(stats.comfortHours) })}</td>
+        <td class="average-temp">${this.formatTemperature(stats.averageTemp)}</td>
+        <td class="min-temp">${this.formatTemperature(stats.minTemp)}</td>
+        <td class="max-temp">${this.formatTemperature(stats.maxTemp)}</td>
+        <td class="free-slots">${stats.freeSlots}/${stats.totalSlots}</td>
+      </tr>
+    `;
+  }
+
+  /**
+   * Main render method
+   */
+  render(): TemplateResult {
+    if (!this.schedule) {
+      return html``;
+    }
+
+    const stats = calculateWeeklyStats(this.schedule, this.comfortTemp);
+
+    return html`
+      <table class="stats-table">
+        <thead>
+          <tr>
+            <th>${localize('stats.day', this.language)}</th>
+            <th title=${localize('stats.comfort_title', this.language, { temperature: this.comfortTemp })}>≥ ${this.comfortTemp}°C</th>
+            <th title=${localize('stats.average_title', this.language)}>${localize('stats.average', this.language)}</th>
+            <th>${localize('stats.min', this.language)}</th>
+            <th>${localize('stats.max', this.language)}</th>
+            <th title=${localize('stats.free_slots_title', this.language)}>${localize('stats.free_slots', this.language)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${this.dayOrder.map(day =>
+            this.renderRow(formatDayName(day, this.language, true), stats.days[day], 'day-row', day))}
+          ${this.renderRow(localize('stats.week', this.language), stats.week, 'week-row', 'week')}
+        </tbody>
+      </table>
+      <div class="stats-hint">${localize('stats.hint', this.language)}</div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'schedule-stats-view': ScheduleStatsView;
+  }
+}
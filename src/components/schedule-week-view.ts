@@ -1,19 +1,32 @@
 import { LitElement, html, css, TemplateResult } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 import { cardStyles, getTemperatureColor } from '../styles/card-styles.js';
-import { WeeklySchedule, DayOfWeek } from '../models/types.js';
+import { WeeklySchedule, DayOfWeek, WeekTime, DEFAULT_FIRST_DAY_OF_WEEK } from '../models/types.js';
+import { getActiveTransitionIndex } from '../models/schedule.js';
+import { formatDisplayTime, getDayOrder, getWeekdays, getWeekendDays } from '../utils/time.js';
+import { localize, localizePlural, formatDayName, DEFAULT_LANGUAGE } from '../localize/localize.js';
 
 /**
  * Schedule Week View Component
  *
  * Displays the weekly schedule in a visual calendar grid format.
- * Shows 7 columns (Sunday through Saturday) with transition blocks
- * representing time ranges and temperatures.
+ * Shows 7 columns, starting on the first day of the week (Monday by default), with transition blocks
+ * representing time ranges and temperatures. The block in effect right now
+ * is highlighted in today's column.
+ *
+ * Several days can be selected with shift-click (or Ctrl/Cmd-click) or the
+ * weekday/weekend chips, and edited together (days-selected event).
  */
 @customElement('schedule-week-view')
 export class ScheduleWeekView extends LitElement {
   @property({ type: Object }) schedule?: WeeklySchedule;
   @property({ type: Boolean }) disabled = false;
+  @property({ type: Object }) now: WeekTime | null = null;
+  @property({ type: String }) language = DEFAULT_LANGUAGE;
+  @property({ type: Boolean }) hour12 = false;
+  @property({ type: String }) firstDayOfWeek: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK;
+
+  @state() private selectedDays = new Set<DayOfWeek>();
 
   static styles = [
     cardStyles,
@@ -43,6 +56,62 @@ export class ScheduleWeekView extends LitElement {
         font-weight: 500;
       }
 
+      .day-column.today .day-header {
+        background: var(--primary-color);
+        color: white;
+      }
+
+      .transition-block.active-slot {
+        outline: 2px solid var(--primary-text-color);
+        outline-offset: -2px;
+        font-weight: 700;
+      }
+
+      .day-column.selected {
+        border-color: var(--primary-color);
+        box-shadow: 0 0 0 2px var(--primary-color);
+      }
+
+      .selection-bar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        flex-wrap: wrap;
+        margin-bottom: 8px;
+      }
+
+      .selection-chip {
+        padding: 4px 12px;
+        border: 1px solid var(--divider-color);
+        border-radius: 16px;
+        background: var(--card-background-color);
+        color: var(--primary-text-color);
+        font-size: 12px;
+        cursor: pointer;
+      }
+
+      .selection-chip.active {
+        background: var(--primary-color);
+        border-color: var(--primary-color);
+        color: white;
+      }
+
+      .selection-chip:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      .selection-hint {
+        font-size: 12px;
+        color: var(--secondary-text-color);
+      }
+
+      .selection-actions {
+        display: flex;
+        gap: 8px;
+        margin-left: auto;
+      }
+
       .empty-subtext {
         font-size: 14px;
         margin-top: 8px;
@@ -51,35 +120,26 @@ export class ScheduleWeekView extends LitElement {
     `
   ];
 
-  private readonly dayOrder: DayOfWeek[] = [
-    'monday',
-    'tuesday',
-    'wednesday',
-    'thursday',
-    'friday',
-    'saturday',
-    'sunday'
-  ];
-
-  private readonly dayAbbreviations: Record<DayOfWeek, string> = {
-    sunday: 'Sun',
-    monday: 'Mon',
-    tuesday: 'Tue',
-    wednesday: 'Wed',
-    thursday: 'Thu',
-    friday: 'Fri',
-    saturday: 'Sat'
-  };
+  private get dayOrder(): DayOfWeek[] {
+    return getDayOrder(this.firstDayOfWeek);
+  }
 
   /**
    * Handle day column click
-   * Dispatches a custom event with the selected day
+   * Shift, Ctrl or Cmd toggles the day in the selection; a plain click
+   * clears the selection and dispatches a custom event with the day
    */
-  private handleDayClick(day: DayOfWeek): void {
+  private handleDayClick(day: DayOfWeek, event?: MouseEvent | KeyboardEvent): void {
     if (this.disabled) {
       return;
     }
 
+    if (event && (event.shiftKey || event.ctrlKey || event.metaKey)) {
+      this.toggleDaySelection(day);
+      return;
+    }
+
+    this.selectedDays = new Set();
     this.dispatchEvent(
       new CustomEvent('day-selected', {
         detail: { day },
@@ -89,6 +149,102 @@ export class ScheduleWeekView extends LitElement {
     );
   }
 
+  /**
+   * Add a day to the selection, or remove it
+   */
+  private toggleDaySelection(day: DayOfWeek): void {
+    const selected = new Set(this.selectedDays);
+    if (selected.has(day)) {
+      selected.delete(day);
+    } else {
+      selected.add(day);
+    }
+    this.selectedDays = selected;
+  }
+
+  /**
+   * Clear the selection
+   */
+  private clearSelection(): void {
+    this.selectedDays = new Set();
+  }
+
+  /**
+   * Select a preset group of days, or clear it when it is already selected
+   */
+  private selectPreset(days: DayOfWeek[]): void {
+    this.selectedDays = this.isPresetSelected(days) ? new Set() : new Set(days);
+  }
+
+  /**
+   * Check whether exactly the given days are selected
+   */
+  private isPresetSelected(days: DayOfWeek[]): boolean {
+    return this.selectedDays.size === days.length && days.every(day => this.selectedDays.has(day));
+  }
+
+  /**
+   * Open the combined editor for the selected days
+   * Dispatches a custom event with the days in display order
+   */
+  private editSelectedDays(): void {
+    const days = this.dayOrder.filter(day => this.selectedDays.has(day));
+    if (this.disabled || days.length === 0) {
+      return;
+    }
+
+    this.selectedDays = new Set();
+    this.dispatchEvent(
+      new CustomEvent('days-selected', {
+        detail: { days },
+        bubbles: true,
+        composed: true
+      })
+    );
+  }
+
+  /**
+   * Render the weekday/weekend chips and the selection actions
+   */
+  private renderSelectionBar(): TemplateResult {
+    const count = this.selectedDays.size;
+
+    return html`
+      <div class="selection-bar">
+        <button
+          class="selection-chip weekdays-chip ${this.isPresetSelected(getWeekdays(this.firstDayOfWeek)) ? 'active' : ''}"
+          ?disabled=${this.disabled}
+          @click=${() => this.selectPreset(getWeekdays(this.firstDayOfWeek))}
+        >
+          ${localize('common.weekdays', this.language)}
+        </button>
+        <button
+          class="selection-chip weekend-chip ${this.isPresetSelected(getWeekendDays(this.firstDayOfWeek)) ? 'active' : ''}"
+          ?disabled=${this.disabled}
+          @click=${() => this.selectPreset(getWeekendDays(this.firstDayOfWeek))}
+        >
+          ${localize('common.weekend', this.language)}
+        </button>
+        ${count === 0
+          ? html`<span class="selection-hint">${localize('week.selection_hint', this.language)}</span>`
+          : html`
+              <div class="selection-actions">
+                <button class="button button-secondary clear-selection-button" @click=${this.clearSelection}>
+                  ${localize('common.clear', this.language)}
+                </button>
+                <button
+                  class="button button-primary edit-selected-button"
+                  ?disabled=${this.disabled}
+                  @click=${this.editSelectedDays}
+                >
+                  ${localizePlural('week.edit_days', count, this.language)}
+                </button>
+              </div>
+            `}
+      </div>
+    `;
+  }
+
   /**
    * Render a single day column
    */
@@ -96,27 +252,33 @@ export class ScheduleWeekView extends LitElement {
     const daySchedule = this.schedule?.[day];
     const transitions = daySchedule?.transitions || [];
     const hasTransitions = transitions.length > 0;
+    const isToday = this.now?.day === day;
+    const activeIndex = isToday && daySchedule ? getActiveTransitionIndex(daySchedule, this.now!.minutes) : -1;
+    const isSelected = this.selectedDays.has(day);
 
     return html`
       <div
-        class="day-column"
-        @click=${() => this.handleDayClick(day)}
+        class="day-column ${isToday ? 'today' : ''} ${isSelected ? 'selected' : ''}"
+        data-day=${day}
+        @click=${(e: MouseEvent) => this.handleDayClick(day, e)}
         role="button"
         tabindex=${this.disabled ? '-1' : '0'}
-        aria-label="Edit ${day} schedule"
+        aria-label=${localize('week.edit_day_label', this.language, { day: formatDayName(day, this.language) })}
+        aria-pressed=${isSelected ? 'true' : 'false'}
         @keydown=${(e: KeyboardEvent) => {
           if ((e.key === 'Enter' || e.key === ' ') && !this.disabled) {
             e.preventDefault();
-            this.handleDayClick(day);
+            this.handleDayClick(day, e);
           }
         }}
       >
         <div class="day-header">
-          ${this.dayAbbreviations[day]}
+          ${formatDayName(day, this.language, true)}
         </div>
         <div class="day-schedule">
           ${hasTransitions
-            ? transitions.map((transition) => this.renderTransitionBlock(transition.time, transition.temperature))
+            ? transitions.map((transition, index) =>
+                this.renderTransitionBlock(transition.time, transition.temperature, index === activeIndex))
             : this.renderEmptyDay()
           }
         </div>
@@ -126,17 +288,20 @@ export class ScheduleWeekView extends LitElement {
 
   /**
    * Render a single transition block
+   * The active block is the one in effect right now
    */
-  private renderTransitionBlock(time: string, temperature: number): TemplateResult {
+  private renderTransitionBlock(time: string, temperature: number, active: boolean = false): TemplateResult {
     const backgroundColor = getTemperatureColor(temperature);
+    const displayTime = formatDisplayTime(time, this.hour12);
 
     return html`
       <div
-        class="transition-block"
+        class="transition-block ${active ? 'active-slot' : ''}"
         style="background-color: ${backgroundColor}"
-        title="${time} - ${temperature}°C"
+        title="${displayTime} - ${temperature}°C${active ? ` (${localize('week.now', this.language)})` : ''}"
+        aria-current=${active ? 'time' : 'false'}
       >
-        <span class="transition-time">${time}</span>
+        <span class="transition-time">${displayTime}</span>
         <span class="transition-temp">${temperature}°C</span>
       </div>
     `;
@@ -148,7 +313,7 @@ export class ScheduleWeekView extends LitElement {
   private renderEmptyDay(): TemplateResult {
     return html`
       <div class="transition-block" style="background-color: var(--divider-color); color: var(--secondary-text-color);">
-        <span>No schedule</span>
+        <span>${localize('week.no_schedule', this.language)}</span>
       </div>
     `;
   }
@@ -160,8 +325,8 @@ export class ScheduleWeekView extends LitElement {
     return html`
       <div class="empty-placeholder">
         <div class="empty-icon">📅</div>
-        <div class="empty-text">No Schedule Available</div>
-        <div class="empty-subtext">Click on a day to create a schedule</div>
+        <div class="empty-text">${localize('week.empty_title', this.language)}</div>
+        <div class="empty-subtext">${localize('week.empty_hint', this.language)}</div>
       </div>
     `;
   }
@@ -181,6 +346,7 @@ export class ScheduleWeekView extends LitElement {
 
     return html`
       <div class="week-container">
+        ${this.renderSelectionBar()}
         <div class="week-view">
           ${this.dayOrder.map(day => this.renderDayColumn(day))}
         </div>
@@ -0,0 +1,209 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { WeeklySchedule, DayOfWeek, DEFAULT_FIRST_DAY_OF_WEEK } from '../models/types';
+import { sortTransitions } from '../models/schedule';
+import { simplifyWeeklySchedule } from '../models/schedule-simplify';
+import { getDayOrder, formatDisplayTime } from '../utils/time';
+import { localize, localizePlural, formatDayName, DEFAULT_LANGUAGE } from '../localize/localize';
+import { cardStyles } from '../styles/card-styles';
+
+/**
+ * Simplify Dialog Component
+ *
+ * A modal dialog previewing the week-wide simplification: for every day that
+ * has redundant transitions it shows the schedule before, with the transitions
+ * to be removed struck through, and after. Applying it loads the simplified
+ * schedule as unsaved changes.
+ */
+@customElement('simplify-dialog')
+export class SimplifyDialog extends LitElement {
+  @property({ type: Object })
+  schedule: WeeklySchedule | null = null;
+
+  @property({ type: Boolean })
+  open = false;
+
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
+
+  @property({ type: Boolean })
+  hour12 = false;
+
+  @property({ type: String })
+  firstDayOfWeek: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK;
+
+  static styles = [
+    cardStyles,
+    css`
+      :host {
+        display: block;
+      }
+
+      .simplify-days {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .simplify-day {
+        border: 1px solid var(--divider-color);
+        border-radius: 8px;
+        padding: 10px 14px;
+      }
+
+      .simplify-day-header {
+        display: flex;
+        justify-content: space-between;
+        font-size: 14px;
+        font-weight: 600;
+        text-transform: capitalize;
+        margin-bottom: 6px;
+      }
+
+      .simplify-day-summary {
+        font-size: 12px;
+        font-weight: 500;
+        color: var(--secondary-text-color);
+      }
+
+      .simplify-line {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 8px;
+        font-family: monospace;
+        font-size: 13px;
+      }
+
+      .simplify-line-label {
+        width: 48px;
+        color: var(--secondary-text-color);
+        font-family: inherit;
+      }
+
+      .simplify-transition.removed {
+        color: var(--error-color, #f44336);
+        text-decoration: line-through;
+      }
+    `,
+  ];
+
+  /**
+   * Apply the simplified schedule
+   */
+  private _handleConfirm(): void {
+    if (!this.schedule) {
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent('simplify-confirmed', {
+      detail: { schedule: simplifyWeeklySchedule(this.schedule).schedule },
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * Handle dialog close (cancel)
+   */
+  private _handleClose(): void {
+    this.dispatchEvent(new CustomEvent('dialog-closed', {
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * Handle overlay click to close dialog
+   */
+  private _handleOverlayClick(e: MouseEvent): void {
+    if (e.target === e.currentTarget) {
+      this._handleClose();
+    }
+  }
+
+  /**
+   * Translate a string into the dialog language
+   */
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this.language, params);
+  }
+
+  render() {
+    if (!this.open || !this.schedule) {
+      return html``;
+    }
+
+    const schedule = this.schedule;
+    const result = simplifyWeeklySchedule(schedule);
+    const days = getDayOrder(this.firstDayOfWeek).filter(day => result.freedSlots[day] > 0);
+
+    return html`
+      <div class="modal-overlay" @click=${this._handleOverlayClick}>
+        <div class="modal">
+          <div class="modal-header">
+            <h2 class="modal-title">${this._localize('simplify.title')}</h2>
+          </div>
+
+          <div class="modal-content">
+            ${days.length === 0
+              ? html`<div class="message message-info">${this._localize('simplify.nothing_to_remove')}</div>`
+              : html`
+                  <div class="message message-info">
+                    ${localizePlural('simplify.removes', result.totalFreed, this.language)}
+                    ${this._localize('simplify.same_heating')}
+                  </div>
+                  <div class="simplify-days">
+                    ${days.map(day => {
+                      const kept = new Set(result.schedule[day].transitions.map(t => t.id));
+                      return html`
+                        <div class="simplify-day" data-day=${day}>
+                          <div class="simplify-day-header">
+                            <span>${formatDayName(day, this.language)}</span>
+                            <span class="simplify-day-summary">
+                              ${this._localize('simplify.frees_slots', { count: result.freedSlots[day] })}
+                            </span>
+                          </div>
+                          <div class="simplify-line before">
+                            <span class="simplify-line-label">${this._localize('simplify.before')}</span>
+                            ${sortTransitions(schedule[day].transitions).map(t => html`
+                              <span class="simplify-transition ${kept.has(t.id) ? '' : 'removed'}">
+                                ${formatDisplayTime(t.time, this.hour12)}/${t.temperature}
+                              </span>
+                            `)}
+                          </div>
+                          <div class="simplify-line after">
+                            <span class="simplify-line-label">${this._localize('simplify.after')}</span>
+                            ${result.schedule[day].transitions.map(t => html`
+                              <span class="simplify-transition">${formatDisplayTime(t.time, this.hour12)}/${t.temperature}</span>
+                            `)}
+                          </div>
+                        </div>
+                      `;
+                    })}
+                  </div>
+                `}
+          </div>
+
+          <div class="modal-footer">
+            <button class="button button-secondary" @click=${this._handleClose}>
+              ${this._localize('common.cancel')}
+            </button>
+            <button
+              class="button button-primary apply-simplify-button"
+              @click=${this._handleConfirm}
+              ?disabled=${days.length === 0}
+            >
+              ${this._localize('simplify.confirm')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'simplify-dialog': SimplifyDialog;
+  }
+}
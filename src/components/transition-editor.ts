@@ -1,6 +1,9 @@
 import { LitElement, html, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { Transition } from '../models/types';
+import { Transition, TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS } from '../models/types';
+import { clampTemperature } from '../utils/validation';
+import { to12Hour, from12Hour, DayPeriod } from '../utils/time';
+import { localize, DEFAULT_LANGUAGE } from '../localize/localize';
 import { cardStyles, getTemperatureColor } from '../styles/card-styles';
 
 /**
@@ -301,6 +304,15 @@ export class TransitionEditor extends LitElement {
   @property({ type: Boolean })
   disabled = false;
 
+  @property({ type: Object })
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS;
+
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
+
+  @property({ type: Boolean })
+  hour12 = false;
+
   @state()
   private _validationError: string | null = null;
 
@@ -351,6 +363,36 @@ export class TransitionEditor extends LitElement {
     this._updateTime(newTime);
   }
 
+  /**
+   * Handle AM/PM select change, keeping the hour on the 12-hour clock
+   */
+  private _handlePeriodChange(e: Event): void {
+    const select = e.target as HTMLSelectElement;
+    const { hours } = to12Hour(parseInt(this._getHour(), 10));
+    const newHour = from12Hour(hours, select.value as DayPeriod).toString().padStart(2, '0');
+
+    this._updateTime(`${newHour}:${this._getMinute()}`);
+  }
+
+  /**
+   * Hour select options as [value, label]
+   * Values are always 24-hour; on the 12-hour clock the labels run 12, 1 … 11
+   * within the current half of the day
+   */
+  private _getHourOptions(): Array<[string, string]> {
+    if (!this.hour12) {
+      return Array.from({ length: 24 }, (_, i) => {
+        const hour = i.toString().padStart(2, '0');
+        return [hour, hour];
+      });
+    }
+    const { period } = to12Hour(parseInt(this._getHour(), 10));
+    return [12, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map(hour => [
+      from12Hour(hour, period).toString().padStart(2, '0'),
+      hour.toString(),
+    ]);
+  }
+
   /**
    * Update the time value
    */
@@ -415,16 +457,10 @@ export class TransitionEditor extends LitElement {
   }
 
   /**
-   * Clamp temperature to valid range (4-35°C) in 0.5°C steps
+   * Clamp temperature to the device limits, rounded to the device step
    */
   private _clampTemperature(temp: number): number {
-    // Clamp to range
-    let clamped = Math.max(4, Math.min(35, temp));
-
-    // Round to nearest 0.5
-    clamped = Math.round(clamped * 2) / 2;
-
-    return clamped;
+    return clampTemperature(temp, this.limits);
   }
 
   /**
@@ -449,15 +485,23 @@ export class TransitionEditor extends LitElement {
     return this.transition?.temperature ?? 20;
   }
 
+  /**
+   * Translate a string into the editor language
+   */
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this.language, params);
+  }
+
   render() {
     // Guard against undefined transition
     if (!this.transition) {
-      return html`<div class="transition-editor">Loading...</div>`;
+      return html`<div class="transition-editor">${this._localize('transition.loading')}</div>`;
     }
 
     const isFirstTransition = this.index === 0;
     const timeInputDisabled = isFirstTransition || this.disabled;
     const hasError = this._validationError !== null;
+    const { period: currentPeriod } = to12Hour(parseInt(this._getHour(), 10));
 
     return html`
       <div
@@ -470,17 +514,17 @@ export class TransitionEditor extends LitElement {
         <div class="transition-content">
           <!-- Time Input -->
           <div class="time-field">
-            <label class="field-label">Time</label>
+            <label class="field-label">${this._localize('transition.time')}</label>
             <div class="time-picker">
               <select
                 class="time-select ${hasError ? 'error' : ''}"
                 .value=${this._getHour()}
                 @change=${this._handleHourChange}
                 ?disabled=${timeInputDisabled}
-                title=${isFirstTransition ? 'Midnight transition cannot be changed' : 'Select hour'}
+                title=${this._localize(isFirstTransition ? 'transition.midnight_fixed' : 'transition.select_hour')}
               >
-                ${Array.from({ length: 24 }, (_, i) => i.toString().padStart(2, '0')).map(
-                  (hour) => html`<option value=${hour} ?selected=${hour === this._getHour()}>${hour}</option>`
+                ${this._getHourOptions().map(
+                  ([hour, label]) => html`<option value=${hour} ?selected=${hour === this._getHour()}>${label}</option>`
                 )}
               </select>
               <span class="time-separator">:</span>
@@ -489,37 +533,56 @@ export class TransitionEditor extends LitElement {
                 .value=${this._getMinute()}
                 @change=${this._handleMinuteChange}
                 ?disabled=${timeInputDisabled}
-                title=${isFirstTransition ? 'Midnight transition cannot be changed' : 'Select minutes'}
+                title=${this._localize(isFirstTransition ? 'transition.midnight_fixed' : 'transition.select_minutes')}
               >
                 ${['00', '15', '30', '45'].map(
                   (minute) => html`<option value=${minute} ?selected=${minute === this._getMinute()}>${minute}</option>`
                 )}
               </select>
+              ${this.hour12
+                ? html`
+                    <select
+                      class="time-select period-select ${hasError ? 'error' : ''}"
+                      .value=${currentPeriod}
+                      @change=${this._handlePeriodChange}
+                      ?disabled=${timeInputDisabled}
+                      title=${this._localize(isFirstTransition ? 'transition.midnight_fixed' : 'transition.select_period')}
+                    >
+                      ${(['AM', 'PM'] as DayPeriod[]).map(
+                        (period) => html`
+                          <option value=${period} ?selected=${period === currentPeriod}>
+                            ${period}
+                          </option>
+                        `
+                      )}
+                    </select>
+                  `
+                : ''}
             </div>
             ${hasError
               ? html`<div class="error-message">${this._validationError}</div>`
               : ''}
             ${isFirstTransition
               ? html`<div class="error-message" style="color: var(--info-color, #2196F3);">
-                  Fixed at 00:00
+                  ${this._localize('transition.fixed_at_midnight')}
                 </div>`
               : ''}
           </div>
 
           <!-- Temperature Slider -->
           <div class="temperature-field">
-            <label class="field-label">Temperature</label>
+            <label class="field-label">${this._localize('transition.temperature')}</label>
             <div class="temperature-control">
               <input
                 type="range"
                 class="temperature-slider"
-                min="4"
-                max="35"
-                step="0.5"
+                min=${this.limits.min}
+                max=${this.limits.max}
+                step=${this.limits.step}
                 .value=${this._getTemperature().toString()}
                 @input=${this._handleTemperatureChange}
                 ?disabled=${this.disabled}
-                title="Adjust temperature (4-35°C)"
+                title=${this._localize('transition.adjust_temperature', { min: this.limits.min, max: this.limits.max })}
               />
               <div
                 class="temperature-display"
@@ -538,8 +601,8 @@ export class TransitionEditor extends LitElement {
                 <button
                   class="button-icon remove"
                   @click=${this._handleDelete}
-                  title="Delete transition"
-                  aria-label="Delete transition ${this.index + 1}"
+                  title=${this._localize('transition.delete')}
+                  aria-label=${this._localize('transition.delete_label', { number: this.index + 1 })}
                 >
                   <svg
                     width="16"
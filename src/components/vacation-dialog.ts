@@ -0,0 +1,156 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS } from '../models/types';
+import { DEFAULT_VACATION_TEMPERATURE } from '../models/vacation';
+import { clampTemperature } from '../utils/validation';
+import { localize, DEFAULT_LANGUAGE } from '../localize/localize';
+import { cardStyles } from '../styles/card-styles';
+
+/**
+ * Vacation Dialog Component
+ *
+ * A modal dialog for starting vacation mode. The user picks a set-back
+ * temperature; the card replaces the whole week with it and keeps the
+ * regular schedule so it can be restored afterwards.
+ */
+@customElement('vacation-dialog')
+export class VacationDialog extends LitElement {
+  @property({ type: Boolean })
+  open = false;
+
+  @property({ type: Object })
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS;
+
+  @property({ type: String })
+  language = DEFAULT_LANGUAGE;
+
+  @state()
+  private temperature = DEFAULT_VACATION_TEMPERATURE;
+
+  static styles = [
+    cardStyles,
+    css`
+      :host {
+        display: block;
+      }
+
+      .vacation-field {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 12px;
+        font-size: 14px;
+      }
+
+      .vacation-input {
+        width: 90px;
+        padding: 8px 12px;
+        border: 1px solid var(--divider-color);
+        border-radius: 6px;
+        font-size: 14px;
+        background: var(--card-background-color);
+        color: var(--primary-text-color);
+      }
+
+      .vacation-hint {
+        font-size: 13px;
+        color: var(--secondary-text-color);
+      }
+    `,
+  ];
+
+  /**
+   * Handle temperature input
+   */
+  private _handleTemperatureInput(e: Event): void {
+    const value = parseFloat((e.target as HTMLInputElement).value);
+    if (!isNaN(value)) {
+      this.temperature = value;
+    }
+  }
+
+  /**
+   * Confirm with the temperature snapped to the device limits
+   */
+  private _handleConfirm(): void {
+    this.dispatchEvent(new CustomEvent('vacation-confirmed', {
+      detail: { temperature: clampTemperature(this.temperature, this.limits) },
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * Handle dialog close (cancel)
+   */
+  private _handleClose(): void {
+    this.dispatchEvent(new CustomEvent('dialog-closed', {
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  /**
+   * Handle overlay click to close dialog
+   */
+  private _handleOverlayClick(e: MouseEvent): void {
+    if (e.target === e.currentTarget) {
+      this._handleClose();
+    }
+  }
+
+  /**
+   * Translate a string into the dialog language
+   */
+  private _localize(key: string, params?: Record<string, string | number>): string {
+    return localize(key, this.language, params);
+  }
+
+  render() {
+    if (!this.open) {
+      return html``;
+    }
+
+    return html`
+      <div class="modal-overlay" @click=${this._handleOverlayClick}>
+        <div class="modal">
+          <div class="modal-header">
+            <h2 class="modal-title">${this._localize('vacation.title')}</h2>
+          </div>
+
+          <div class="modal-content">
+            <label class="vacation-field">
+              ${this._localize('vacation.hold')}
+              <input
+                class="vacation-input"
+                type="number"
+                min=${this.limits.min}
+                max=${this.limits.max}
+                step=${this.limits.step}
+                .value=${String(this.temperature)}
+                @input=${this._handleTemperatureInput}
+              />
+              ${this._localize('vacation.all_week')}
+            </label>
+            <div class="vacation-hint">${this._localize('vacation.hint')}</div>
+          </div>
+
+          <div class="modal-footer">
+            <button class="button button-secondary" @click=${this._handleClose}>
+              ${this._localize('common.cancel')}
+            </button>
+            <button class="button button-primary start-vacation-button" @click=${this._handleConfirm}>
+              ${this._localize('vacation.confirm')}
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'vacation-dialog': VacationDialog;
+  }
+}
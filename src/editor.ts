@@ -1,7 +1,9 @@
 import { LitElement, html, TemplateResult } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { editorStyles } from './styles/card-styles';
-import type { HomeAssistant, TRVZBSchedulerCardConfig } from './models/types';
+import type { DayOfWeek, HomeAssistant, TRVZBSchedulerCardConfig, ViewMode, WriteMethod } from './models/types';
+import { getDayOrder } from './utils/time';
+import { localize, getLanguage, formatDayName } from './localize/localize';
 
 /**
  * Configuration editor for TRVZB Scheduler Card
@@ -10,6 +12,11 @@ import type { HomeAssistant, TRVZBSchedulerCardConfig } from './models/types';
  * - Entity picker (climate entities only)
  * - Name input (optional card title override)
  * - Default view mode selector (week/graph)
+ * - First day of the week
+ * - Additional devices for multi-entity mode
+ * - Temperature limit overrides
+ * - Zigbee2MQTT base topic and device name
+ * - Write method (MQTT or text entities)
  */
 @customElement('trvzb-scheduler-card-editor')
 export class TRVZBSchedulerCardEditor extends LitElement {
@@ -30,6 +37,13 @@ export class TRVZBSchedulerCardEditor extends LitElement {
     };
   }
 
+  /**
+   * Translate an editor string into the user's language
+   */
+  private _localize(key: string): string {
+    return localize(`editor.${key}`, getLanguage(this.hass));
+  }
+
   /**
    * Dispatch config-changed event to Home Assistant
    * This notifies HA that the configuration has been updated
@@ -86,7 +100,7 @@ export class TRVZBSchedulerCardEditor extends LitElement {
    */
   private _viewModeChanged(e: Event): void {
     const target = e.target as HTMLSelectElement;
-    const value = target.value as 'week' | 'graph';
+    const value = target.value as ViewMode;
 
     if (value === this._config.view_mode) {
       return;
@@ -101,19 +115,165 @@ export class TRVZBSchedulerCardEditor extends LitElement {
   }
 
   /**
-   * Handle schedule sensor input change
+   * Handle first day of week select change
+   * An empty value follows the Home Assistant locale setting
+   */
+  private _firstDayChanged(e: Event): void {
+    const target = e.target as HTMLSelectElement;
+    const value = (target.value || undefined) as DayOfWeek | undefined;
+
+    if (value === this._config.first_day_of_week) {
+      return;
+    }
+
+    this._config = {
+      ...this._config,
+      first_day_of_week: value,
+    };
+
+    this._configChanged();
+  }
+
+  /**
+   * Handle write method select change
+   */
+  private _writeMethodChanged(e: Event): void {
+    const target = e.target as HTMLSelectElement;
+    const value = target.value as WriteMethod;
+
+    if (value === (this._config.write_method || 'mqtt')) {
+      return;
+    }
+
+    this._config = {
+      ...this._config,
+      write_method: value === 'mqtt' ? undefined : value,
+    };
+
+    this._configChanged();
+  }
+
+  /**
+   * Handle additional entities input change (comma-separated list)
    */
-  private _scheduleSensorChanged(e: Event): void {
+  private _entitiesChanged(e: Event): void {
     const target = e.target as HTMLInputElement;
-    const value = target.value;
+    const entities = target.value
+      .split(',')
+      .map((entityId) => entityId.trim())
+      .filter(Boolean);
+
+    if (entities.join(',') === (this._config.entities || []).join(',')) {
+      return;
+    }
+
+    this._config = {
+      ...this._config,
+      entities: entities.length > 0 ? entities : undefined,
+    };
+
+    this._configChanged();
+  }
+
+  /**
+   * Handle schedule sensors template input change
+   */
+  private _scheduleSensorsChanged(e: Event): void {
+    const target = e.target as HTMLInputElement;
+    const value = target.value.trim();
+
+    if (value === this._config.schedule_sensors) {
+      return;
+    }
+
+    this._config = {
+      ...this._config,
+      schedule_sensors: value || undefined,
+    };
+
+    this._configChanged();
+  }
+
+  /**
+   * Handle Zigbee2MQTT base topic input change
+   */
+  private _baseTopicChanged(e: Event): void {
+    const target = e.target as HTMLInputElement;
+    const value = target.value.trim();
+
+    if (value === (this._config.base_topic || '')) {
+      return;
+    }
+
+    this._config = {
+      ...this._config,
+      base_topic: value || undefined,
+    };
+
+    this._configChanged();
+  }
+
+  /**
+   * Handle Zigbee2MQTT device name input change
+   */
+  private _deviceNameChanged(e: Event): void {
+    const target = e.target as HTMLInputElement;
+    const value = target.value.trim();
+
+    if (value === (this._config.device_name || '')) {
+      return;
+    }
+
+    this._config = {
+      ...this._config,
+      device_name: value || undefined,
+    };
+
+    this._configChanged();
+  }
+
+  /**
+   * Handle a temperature limit override input change
+   * An empty input removes the override so the entity's own limit applies
+   */
+  private _temperatureLimitChanged(
+    key: 'min_temp' | 'max_temp' | 'target_temp_step',
+    e: Event
+  ): void {
+    const target = e.target as HTMLInputElement;
+    const parsed = parseFloat(target.value);
+    const value = Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
 
-    if (value === this._config.schedule_sensor) {
+    if (value === this._config[key]) {
       return;
     }
 
     this._config = {
       ...this._config,
-      schedule_sensor: value || undefined,
+      [key]: value,
+    };
+
+    this._configChanged();
+  }
+
+  /**
+   * Handle comfort and warning threshold input change
+   */
+  private _comfortOptionChanged(
+    key: 'comfort_temp' | 'comfort_cap' | 'max_jump',
+    e: Event
+  ): void {
+    const target = e.target as HTMLInputElement;
+    const parsed = parseFloat(target.value);
+    const value = Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+
+    if (value === this._config[key]) {
+      return;
+    }
+
+    this._config = {
+      ...this._config,
+      [key]: value,
     };
 
     this._configChanged();
@@ -179,7 +339,7 @@ export class TRVZBSchedulerCardEditor extends LitElement {
           placeholder="climate.your_trvzb"
         />
         <div class="editor-description">
-          No climate entities found. Enter the entity ID manually.
+          ${this._localize('no_climate_entities')}
         </div>
       `;
     }
@@ -190,7 +350,7 @@ export class TRVZBSchedulerCardEditor extends LitElement {
         .value=${this._config.entity || ''}
         @change=${this._entitySelectChanged}
       >
-        <option value="">Select an entity...</option>
+        <option value="">${this._localize('select_entity')}</option>
         ${climateEntities.map(
           (entity) => html`
             <option value=${entity.id} ?selected=${entity.id === this._config.entity}>
@@ -222,65 +382,239 @@ export class TRVZBSchedulerCardEditor extends LitElement {
         <!-- Entity Picker -->
         <div class="editor-row">
           <label class="editor-label">
-            Entity
+            ${this._localize('entity')}
           </label>
           ${this._renderEntityPicker()}
           <div class="editor-description">
-            Select the Sonoff TRVZB climate entity to manage
+            ${this._localize('entity_description')}
           </div>
         </div>
 
         <!-- Name Input -->
         <div class="editor-row">
           <label class="editor-label">
-            Name (optional)
+            ${this._localize('name')}
           </label>
           <input
             type="text"
             class="editor-input"
             .value=${this._config.name || ''}
             @input=${this._nameChanged}
-            placeholder="Living Room Heating"
+            placeholder=${this._localize('name_placeholder')}
+          />
+          <div class="editor-description">
+            ${this._localize('name_description')}
+          </div>
+        </div>
+
+        <!-- Additional Devices -->
+        <div class="editor-row">
+          <label class="editor-label">
+            ${this._localize('additional_devices')}
+          </label>
+          <input
+            type="text"
+            class="editor-input entities-input"
+            .value=${(this._config.entities || []).join(', ')}
+            @change=${this._entitiesChanged}
+            placeholder="climate.bedroom_trvzb, climate.office_trvzb"
           />
           <div class="editor-description">
-            Override the card title. Leave empty to use the entity name.
+            ${this._localize('additional_devices_description')}
           </div>
         </div>
 
         <!-- View Mode Selector -->
         <div class="editor-row">
           <label class="editor-label">
-            Default View Mode
+            ${this._localize('view_mode')}
           </label>
           <select
-            class="editor-select"
+            class="editor-select view-mode-select"
             .value=${this._config.view_mode || 'week'}
             @change=${this._viewModeChanged}
           >
-            <option value="week">Week View</option>
-            <option value="graph">Graph View</option>
+            <option value="week">${this._localize('view_week')}</option>
+            <option value="graph">${this._localize('view_graph')}</option>
+            <option value="stats">${this._localize('view_stats')}</option>
           </select>
           <div class="editor-description">
-            Choose the default view when the card loads. Week view shows a calendar grid,
-            graph view shows an interactive temperature chart.
+            ${this._localize('view_mode_description')}
           </div>
         </div>
 
-        <!-- Schedule Sensor Override -->
+        <!-- First Day of Week Selector -->
         <div class="editor-row">
           <label class="editor-label">
-            Schedule Sensor (optional)
+            ${this._localize('first_day_of_week')}
+          </label>
+          <select
+            class="editor-select first-day-select"
+            .value=${this._config.first_day_of_week || ''}
+            @change=${this._firstDayChanged}
+          >
+            <option value="" ?selected=${!this._config.first_day_of_week}>
+              ${this._localize('first_day_default')}
+            </option>
+            ${getDayOrder().map(
+              (day) => html`
+                <option value=${day} ?selected=${day === this._config.first_day_of_week}>
+                  ${formatDayName(day, getLanguage(this.hass))}
+                </option>
+              `
+            )}
+          </select>
+          <div class="editor-description">
+            ${this._localize('first_day_description')}
+          </div>
+        </div>
+
+        <!-- Write Method Selector -->
+        <div class="editor-row">
+          <label class="editor-label">
+            ${this._localize('write_method')}
+          </label>
+          <select
+            class="editor-select write-method-select"
+            .value=${this._config.write_method || 'mqtt'}
+            @change=${this._writeMethodChanged}
+          >
+            <option value="mqtt">${this._localize('write_mqtt')}</option>
+            <option value="text">${this._localize('write_text')}</option>
+          </select>
+          <div class="editor-description">
+            ${this._localize('write_method_description')}
+          </div>
+        </div>
+
+        <!-- Schedule Sensors Override -->
+        <div class="editor-row">
+          <label class="editor-label">
+            ${this._localize('schedule_sensors')}
+          </label>
+          ${typeof this._config.schedule_sensors === 'object'
+            ? html`
+                <div class="editor-description">
+                  ${this._localize('schedule_sensors_yaml')}
+                </div>
+              `
+            : html`
+                <input
+                  type="text"
+                  class="editor-input schedule-sensors-input"
+                  .value=${this._config.schedule_sensors || ''}
+                  @change=${this._scheduleSensorsChanged}
+                  placeholder="text.device_weekly_schedule_{day}"
+                />
+                <div class="editor-description">
+                  ${this._localize('schedule_sensors_description')}
+                </div>
+              `}
+        </div>
+
+        <!-- Zigbee2MQTT Base Topic -->
+        <div class="editor-row">
+          <label class="editor-label">
+            ${this._localize('base_topic')}
           </label>
           <input
             type="text"
-            class="editor-input"
-            .value=${this._config.schedule_sensor || ''}
-            @input=${this._scheduleSensorChanged}
-            placeholder="text.device_weekly_schedule"
+            class="editor-input base-topic-input"
+            .value=${this._config.base_topic || ''}
+            @change=${this._baseTopicChanged}
+            placeholder="zigbee2mqtt"
           />
           <div class="editor-description">
-            Override the schedule text entity. By default, the card derives it from the
-            climate entity (e.g., climate.device → text.device_weekly_schedule).
+            ${this._localize('base_topic_description')}
+          </div>
+        </div>
+
+        <!-- Zigbee2MQTT Device Name -->
+        <div class="editor-row">
+          <label class="editor-label">
+            ${this._localize('device_name')}
+          </label>
+          <input
+            type="text"
+            class="editor-input device-name-input"
+            .value=${this._config.device_name || ''}
+            @change=${this._deviceNameChanged}
+            placeholder="Floor1/Kitchen TRV"
+          />
+          <div class="editor-description">
+            ${this._localize('device_name_description')}
+          </div>
+        </div>
+
+        <!-- Temperature Limits Override -->
+        <div class="editor-row">
+          <label class="editor-label">
+            ${this._localize('temperature_limits')}
+          </label>
+          <div class="editor-inline">
+            <input
+              type="number"
+              class="editor-input min-temp-input"
+              .value=${this._config.min_temp?.toString() ?? ''}
+              @change=${(e: Event) => this._temperatureLimitChanged('min_temp', e)}
+              placeholder=${this._localize('min_placeholder')}
+              step="0.5"
+            />
+            <input
+              type="number"
+              class="editor-input max-temp-input"
+              .value=${this._config.max_temp?.toString() ?? ''}
+              @change=${(e: Event) => this._temperatureLimitChanged('max_temp', e)}
+              placeholder=${this._localize('max_placeholder')}
+              step="0.5"
+            />
+            <input
+              type="number"
+              class="editor-input temp-step-input"
+              .value=${this._config.target_temp_step?.toString() ?? ''}
+              @change=${(e: Event) => this._temperatureLimitChanged('target_temp_step', e)}
+              placeholder=${this._localize('step_placeholder')}
+              step="0.1"
+            />
+          </div>
+          <div class="editor-description">
+            ${this._localize('temperature_limits_description')}
+          </div>
+        </div>
+
+        <!-- Comfort Temperature and Warnings -->
+        <div class="editor-row">
+          <label class="editor-label">
+            ${this._localize('comfort')}
+          </label>
+          <div class="editor-inline">
+            <input
+              type="number"
+              class="editor-input comfort-temp-input"
+              .value=${this._config.comfort_temp?.toString() ?? ''}
+              @change=${(e: Event) => this._comfortOptionChanged('comfort_temp', e)}
+              placeholder=${this._localize('comfort_placeholder')}
+              step="0.5"
+            />
+            <input
+              type="number"
+              class="editor-input comfort-cap-input"
+              .value=${this._config.comfort_cap?.toString() ?? ''}
+              @change=${(e: Event) => this._comfortOptionChanged('comfort_cap', e)}
+              placeholder=${this._localize('comfort_cap_placeholder')}
+              step="0.5"
+            />
+            <input
+              type="number"
+              class="editor-input max-jump-input"
+              .value=${this._config.max_jump?.toString() ?? ''}
+              @change=${(e: Event) => this._comfortOptionChanged('max_jump', e)}
+              placeholder=${this._localize('max_jump_placeholder')}
+              step="0.5"
+            />
+          </div>
+          <div class="editor-description">
+            ${this._localize('comfort_description')}
           </div>
         </div>
       </div>
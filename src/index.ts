@@ -15,6 +15,8 @@ import './components/schedule-graph-view';
 import './components/day-schedule-editor';
 import './components/transition-editor';
 import './components/copy-schedule-dialog';
+import './components/save-diff-dialog';
+import './components/schedule-io-dialog';
 
 
 
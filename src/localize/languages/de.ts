@@ -0,0 +1,292 @@
+/**
+ * German translations
+ */
+import type { Translations } from '../localize';
+
+export const de: Translations = {
+  common: {
+    cancel: 'Abbrechen',
+    clear: 'Leeren',
+    close: 'Schließen',
+    weekdays: 'Werktage',
+    weekend: 'Wochenende',
+    add_transition: '+ Schaltpunkt hinzufügen',
+    max_transitions: 'Höchstens 6 Schaltpunkte pro Tag',
+    no_schedule_data: 'Keine Zeitplandaten verfügbar',
+  },
+  days: {
+    sunday: 'Sonntag',
+    monday: 'Montag',
+    tuesday: 'Dienstag',
+    wednesday: 'Mittwoch',
+    thursday: 'Donnerstag',
+    friday: 'Freitag',
+    saturday: 'Samstag',
+  },
+  days_short: {
+    sunday: 'So',
+    monday: 'Mo',
+    tuesday: 'Di',
+    wednesday: 'Mi',
+    thursday: 'Do',
+    friday: 'Fr',
+    saturday: 'Sa',
+  },
+  card: {
+    configuration_required: 'Konfiguration erforderlich',
+    all_devices: 'Alle Geräte',
+    all_devices_count: 'Alle Geräte ({count})',
+    select_device: 'Gerät auswählen',
+    switch_device_blocked: 'Änderungen speichern oder rückgängig machen, bevor du das Gerät wechselst',
+    entity_not_found: 'Klima-Entität nicht gefunden: {entity}',
+    sensors_not_found: 'Zeitplan-Sensoren nicht gefunden: {sensors}. Falls sie umbenannt wurden, schedule_sensors in der Kartenkonfiguration setzen.',
+    no_valid_schedule: 'Kein gültiger Zeitplan in den Sensoren gefunden. Standardzeitplan wird verwendet.',
+    select_target_device: 'Mindestens ein Gerät zum Speichern auswählen',
+    save_failed: 'Zeitplan konnte nicht gespeichert werden',
+    save_failed_devices: 'Zeitplan konnte auf {failed} von {total} Geräten nicht gespeichert werden',
+    resume_failed: 'Zeitplan konnte nicht fortgesetzt werden',
+    switch_auto_failed: 'Wechsel in den Automatikmodus fehlgeschlagen',
+    save: 'Speichern',
+    saving: 'Speichern...',
+    toggle_view: 'Ansicht wechseln',
+    statistics: 'Zeitplan-Statistik',
+    undo: 'Rückgängig',
+    undo_title: 'Rückgängig (Strg+Z)',
+    redo: 'Wiederholen',
+    redo_title: 'Wiederholen (Strg+Umschalt+Z)',
+    import_export_title: 'Zeitplan importieren / exportieren',
+    import_export_label: 'Zeitplan importieren oder exportieren',
+    simplify_title: 'Zeitplan vereinfachen',
+    simplify_label: 'Überflüssige Schaltpunkte entfernen',
+    vacation_title: 'Urlaubsmodus',
+    vacation_label: 'Urlaubsmodus starten',
+    waiting_to_send: 'Wartet auf Senden: {devices}',
+    setpoint_now: 'jetzt {temperature} °C',
+    setpoint_next_today: '{temperature} °C um {time}',
+    setpoint_next_tomorrow: '{temperature} °C morgen um {time}',
+    setpoint_next_day: '{temperature} °C {day} um {time}',
+    room_temperature: 'Raum {temperature} °C',
+    target_temperature: 'Soll {temperature} °C',
+    vacation_indicator: 'Urlaub {temperature} °C',
+    override_mode: 'Das Ventil ist im Modus {mode} und folgt seinem Zeitplan nur im Automatikmodus.',
+    override_target: 'Soll {target} °C weicht vom geplanten Wert {scheduled} °C ab.',
+    resume_schedule: 'Zeitplan fortsetzen',
+    switch_to_auto: 'Auf Automatik schalten',
+    vacation_since: 'Urlaubsmodus seit {date}: {temperature} °C die ganze Woche.',
+    vacation_unsaved_changes: 'Änderungen speichern oder rückgängig machen, bevor du den Urlaubsmodus startest oder beendest',
+    restore_schedule: 'Normalen Zeitplan wiederherstellen',
+    whole_week: 'Die ganze Woche',
+    queued_notice: '{device} ist nicht erreichbar. {days} wird automatisch gesendet, sobald es wieder verfügbar ist.',
+    no_changed_days: 'Keine geänderten Tage zu senden',
+    sent_whole_week: 'Ganze Woche gesendet',
+    sent_days: 'Gesendet: {days}',
+    sync_pending: 'wartet auf Gerät',
+    sync_confirmed: 'bestätigt',
+    sync_mismatch: 'Gerät meldet einen anderen Zeitplan',
+    sync_timed_out: 'keine Bestätigung',
+    retrying: 'Erneuter Versuch...',
+    retry_unconfirmed: 'Unbestätigte Tage erneut senden',
+    queued_until_available: 'wartet, bis das Gerät verfügbar ist',
+  },
+  week: {
+    selection_hint: 'Mit Umschalt-Klick mehrere Tage auswählen',
+    edit_days_one: '{count} Tag bearbeiten',
+    edit_days_other: '{count} Tage bearbeiten',
+    edit_day_label: 'Zeitplan für {day} bearbeiten',
+    now: 'jetzt',
+    no_schedule: 'Kein Zeitplan',
+    empty_title: 'Kein Zeitplan verfügbar',
+    empty_hint: 'Auf einen Tag klicken, um einen Zeitplan anzulegen',
+  },
+  graph: {
+    point_label: '{time}, {temperature}°C',
+    point_label_fixed: '{time}, {temperature}°C, Zeit fest',
+    time_fixed: '(Zeit fest)',
+    no_data_for_day: 'Keine Zeitplandaten für {day} verfügbar',
+    keyboard_hint: 'Tastatur: Tab zu einem Punkt, Pfeiltasten verschieben ihn, Einfg fügt hinzu, Entf entfernt, Bild auf/ab wechselt den Tag',
+    add_title: 'Neuen Temperatur-Schaltpunkt hinzufügen',
+    copy: 'Auf andere Tage kopieren',
+    copy_title: 'Zeitplan dieses Tages auf andere Tage kopieren',
+    compare: 'Vergleichen',
+    compare_off: 'Vergleich ausblenden',
+    compare_title: 'Andere Tage im Diagramm überlagern',
+    compare_toggle: '{day} ein- oder ausblenden',
+    compare_editing: '{day} wird bearbeitet',
+    history: 'Aufgezeichnet',
+    history_off: 'Aus',
+    history_current: 'Diese Woche',
+    history_previous: 'Letzte Woche',
+    history_target: 'Solltemperatur des Geräts',
+    history_loading: 'Verlauf wird geladen…',
+    history_empty: 'Für diesen Tag wurde keine Raumtemperatur aufgezeichnet',
+    history_failed: 'Der Verlauf konnte nicht geladen werden',
+  },
+  stats: {
+    day: 'Tag',
+    comfort_title: 'Stunden mit einem Sollwert von {temperature}°C oder mehr',
+    average: 'Mittel',
+    average_title: 'Zeitgewichteter mittlerer Sollwert',
+    min: 'Min',
+    max: 'Max',
+    free_slots: 'Freie Plätze',
+    free_slots_title: 'Unbenutzte Schaltpunkt-Plätze',
+    week: 'Woche',
+    hours: '{hours} h',
+    hint: 'Aus dem Zeitplan berechnet. Manuelle Änderungen am Gerät sind nicht enthalten.',
+  },
+  day_editor: {
+    title: 'Zeitplan {days}',
+    close: 'Editor schließen',
+    validation_errors: 'Validierungsfehler:',
+    warnings: 'Warnungen:',
+    days_differ: 'Die ausgewählten Tage unterscheiden sich.',
+    days_differ_hint: 'Änderungen gelten für jeden Tag einzeln. Auf alle anwenden würde sie so ändern:',
+    apply_all: 'Auf alle {count} Tage anwenden',
+    add_title: 'Neuen Schaltpunkt hinzufügen',
+    simplify: 'Vereinfachen',
+    simplify_count: 'Vereinfachen (−{count})',
+    simplify_title_one: '{count} überflüssigen Schaltpunkt entfernen',
+    simplify_title_other: '{count} überflüssige Schaltpunkte entfernen',
+    no_redundant: 'Keine überflüssigen Schaltpunkte',
+    simplified_one: '{count} überflüssiger Schaltpunkt entfernt',
+    simplified_other: '{count} überflüssige Schaltpunkte entfernt',
+    copy: 'Auf andere Tage kopieren...',
+  },
+  transition: {
+    loading: 'Laden...',
+    time: 'Zeit',
+    temperature: 'Temperatur',
+    midnight_fixed: 'Der Schaltpunkt um Mitternacht kann nicht verschoben werden',
+    select_hour: 'Stunde auswählen',
+    select_minutes: 'Minuten auswählen',
+    select_period: 'Vormittag oder Nachmittag auswählen',
+    fixed_at_midnight: 'Fest um 00:00',
+    adjust_temperature: 'Temperatur einstellen ({min}-{max}°C)',
+    delete: 'Schaltpunkt löschen',
+    delete_label: 'Schaltpunkt {number} löschen',
+  },
+  copy: {
+    title: 'Zeitplan von {day} kopieren nach...',
+    weekdays_title: 'Montag bis Freitag auswählen',
+    weekend_title: 'Samstag und Sonntag auswählen',
+    all: 'Alle',
+    all_title: 'Alle Tage außer {day} auswählen',
+    clear_title: 'Auswahl aufheben',
+    confirm_one: 'Auf {count} Tag kopieren',
+    confirm_other: 'Auf {count} Tage kopieren',
+  },
+  save_diff: {
+    title: 'Änderungen vor dem Speichern prüfen',
+    no_differences: 'Keine Unterschiede zum Zeitplan auf dem Gerät.',
+    no_changes: 'Keine Änderungen',
+    changes_one: '{count} Änderung',
+    changes_other: '{count} Änderungen',
+    overwrite_devices: 'Beim Speichern wird der Zeitplan auf jedem dieser Geräte ersetzt.',
+    confirm: 'Auf Gerät speichern',
+  },
+  simplify: {
+    title: 'Zeitplan vereinfachen',
+    nothing_to_remove: 'Keine überflüssigen Schaltpunkte zu entfernen.',
+    removes_one: 'Entfernt {count} überflüssigen Schaltpunkt.',
+    removes_other: 'Entfernt {count} überflüssige Schaltpunkte.',
+    same_heating: 'Heizzeiten und Temperaturen bleiben gleich.',
+    frees_slots: 'gibt {count} von 6 Plätzen frei',
+    before: 'Vorher',
+    after: 'Nachher',
+    confirm: 'Vereinfachen',
+  },
+  vacation: {
+    title: 'Urlaubsmodus',
+    hold: 'Die ganze Woche',
+    all_week: '°C halten',
+    hint: 'Die ganze Woche wird durch diese Temperatur ersetzt und an das Gerät gesendet. Dein normaler Zeitplan wird aufbewahrt und kann mit einem Klick wiederhergestellt werden.',
+    confirm: 'Urlaub starten',
+  },
+  io: {
+    title: 'Zeitplan importieren / exportieren',
+    export: 'Exportieren',
+    import: 'Importieren',
+    format_raw: 'Z2M-Zeichenketten',
+    raw_hint: 'Eine Zeile pro Tag, Sonntag bis Samstag.',
+    import_hint: 'JSON, YAML oder sieben Z2M-Zeitplanzeilen (Sonntag bis Samstag) einfügen. Der importierte Zeitplan wird als ungespeicherte Änderung geladen.',
+    download: 'Herunterladen',
+    copy: 'Kopieren',
+    copied: 'Kopiert',
+    parse_failed: 'Zeitplan konnte nicht gelesen werden',
+  },
+  import_errors: {
+    nothing_to_import: 'Nichts zu importieren',
+    invalid_json: 'Ungültiges JSON',
+    json_not_object: 'JSON muss ein Objekt mit einem Eintrag pro Tag sein',
+    missing_day: 'Zeitplan für {day} fehlt',
+    invalid_transition: 'Ungültiger Schaltpunkt "{token}" für {day}. Erwartet wird HH:mm/Temperatur',
+    unrecognized_line: 'Unbekannte Zeile: {line}',
+    wrong_line_count: '{expected} Zeilen erwartet (Sonntag bis Samstag), {found} gefunden',
+  },
+  service_errors: {
+    save_failed: 'Zeitplan konnte nicht gespeichert werden: {reason}',
+    save_day_failed: 'Zeitplan für {day} konnte nicht gespeichert werden: {reason}',
+    hvac_mode_failed: 'HVAC-Modus konnte nicht gesetzt werden: {reason}',
+    temperature_failed: 'Temperatur konnte nicht gesetzt werden: {reason}',
+    history_failed: 'Verlauf konnte nicht geladen werden: {reason}',
+  },
+  validation: {
+    invalid_time: 'Ungültiges Zeitformat: {time}. Erwartet wird HH:mm (00:00 - 23:59)',
+    temperature_out_of_range: 'Temperatur {temperature}°C liegt außerhalb des Bereichs. Erlaubt sind {min}-{max}°C',
+    temperature_off_step: 'Temperatur {temperature}°C ist ungültig. Erlaubt sind Schritte von {step}°C',
+    no_transitions: 'Ein Tageszeitplan braucht mindestens 1 Schaltpunkt',
+    too_many_transitions: 'Zu viele Schaltpunkte: {count}. Höchstens {max} pro Tag',
+    first_not_midnight: 'Der erste Schaltpunkt muss um 00:00 liegen, gefunden {time}',
+    duplicate_times: 'Doppelte Schaltzeiten gefunden. Jede Zeit darf nur einmal vorkommen',
+    not_chronological: 'Schaltpunkte müssen zeitlich sortiert sein: {previous} muss vor {time} liegen',
+    transition_prefix: 'Schaltpunkt {number}: {message}',
+    day_prefix: '{day}: {message}',
+  },
+  lint: {
+    above_comfort_cap: '{time}: {temperature}°C liegt über der Komfortgrenze von {cap}°C',
+    short_interval: '{time}: nur {interval} Minuten nach dem Schaltpunkt um {previous}',
+    repeated_temperature: '{time}: behält {temperature}°C von {previous} bei und kann entfernt werden',
+    large_jump: '{time}: springt um {jump}°C, mehr als {max}°C',
+    below_comfort: 'Erreicht nie die Komforttemperatur von {comfort}°C',
+  },
+  editor: {
+    entity: 'Entität',
+    entity_description: 'Die Sonoff TRVZB Klima-Entität auswählen, die verwaltet werden soll',
+    no_climate_entities: 'Keine Klima-Entitäten gefunden. Die Entitäts-ID manuell eingeben.',
+    select_entity: 'Entität auswählen...',
+    name: 'Name (optional)',
+    name_placeholder: 'Heizung Wohnzimmer',
+    name_description: 'Überschreibt den Kartentitel. Leer lassen, um den Namen der Entität zu verwenden.',
+    additional_devices: 'Weitere Geräte (optional)',
+    additional_devices_description: 'Kommagetrennte Klima-Entitäten. Die Karte zeigt eine Geräteauswahl, um zwischen ihnen zu wechseln oder einen Zeitplan zu bearbeiten und auf allen ausgewählten Geräten gleichzeitig zu speichern.',
+    view_mode: 'Standardansicht',
+    view_week: 'Wochenansicht',
+    view_graph: 'Diagrammansicht',
+    view_stats: 'Statistik',
+    view_mode_description: 'Die Ansicht beim Laden der Karte. Die Wochenansicht zeigt ein Kalenderraster, die Diagrammansicht einen interaktiven Temperaturverlauf, die Statistik Heizstunden und mittlere Sollwerte.',
+    first_day_of_week: 'Erster Wochentag',
+    first_day_default: 'Home Assistant-Einstellung',
+    first_day_description: 'Tag, mit dem Wochenansicht, Diagramm, Statistik und Kopierdialog beginnen. Standardmäßig gilt der erste Wochentag aus deinem Home Assistant-Profil.',
+    write_method: 'Speichermethode',
+    write_mqtt: 'MQTT-Veröffentlichung',
+    write_text: 'Text-Entitäten (text.set_value)',
+    write_method_description: 'MQTT-Veröffentlichung sendet die ganze Woche an Zigbee2MQTT. Text-Entitäten schreibt nur die geänderten Tage über Home Assistant, für Benutzer, die mqtt.publish nicht aufrufen dürfen.',
+    schedule_sensors: 'Zeitplan-Sensoren (optional)',
+    schedule_sensors_yaml: 'Pro Tag in YAML konfiguriert. Zum Ändern die Karte im YAML-Modus bearbeiten.',
+    schedule_sensors_description: 'Vorlage für die Text-Entitäten der Tageszeitpläne, wobei {day} durch sunday … saturday ersetzt wird. Standardmäßig leitet die Karte sie aus der Klima-Entität ab (z. B. climate.device → text.device_weekly_schedule_monday).',
+    base_topic: 'Zigbee2MQTT-Basis-Topic (optional)',
+    base_topic_description: 'Nur nötig, wenn Zigbee2MQTT mit einem eigenen base_topic konfiguriert ist.',
+    device_name: 'Zigbee2MQTT-Gerätename (optional)',
+    device_name_description: 'Der Friendly Name des Geräts in Zigbee2MQTT. Standardmäßig wird er vom Home Assistant Gerät übernommen oder aus der Entitäts-ID abgeleitet, wenn das Gerät unbekannt ist.',
+    temperature_limits: 'Temperaturgrenzen (optional)',
+    min_placeholder: 'Min °C',
+    max_placeholder: 'Max °C',
+    step_placeholder: 'Schritt °C',
+    temperature_limits_description: 'Schränkt die planbaren Temperaturen ein. Leer lassen, um min_temp, max_temp und target_temp_step der Klima-Entität zu verwenden.',
+    comfort: 'Komfort und Warnungen (optional)',
+    comfort_placeholder: 'Komfort 20 °C',
+    comfort_cap_placeholder: 'Grenze 24 °C',
+    max_jump_placeholder: 'Sprung 5 °C',
+    comfort_description: 'Sollwerte ab der Komforttemperatur zählen in der Statistik als Heizstunden. Die Editoren warnen vor Tagen, die sie nie erreichen, vor Sollwerten über der Grenze und vor Temperatursprüngen über dem Sprungwert. Warnungen verhindern nie das Speichern.',
+  },
+};
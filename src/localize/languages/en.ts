@@ -0,0 +1,291 @@
+/**
+ * English translations
+ * The reference table: the other languages have the same keys
+ */
+export const en = {
+  common: {
+    cancel: 'Cancel',
+    clear: 'Clear',
+    close: 'Close',
+    weekdays: 'Weekdays',
+    weekend: 'Weekend',
+    add_transition: '+ Add Transition',
+    max_transitions: 'Maximum 6 transitions per day',
+    no_schedule_data: 'No schedule data available',
+  },
+  days: {
+    sunday: 'Sunday',
+    monday: 'Monday',
+    tuesday: 'Tuesday',
+    wednesday: 'Wednesday',
+    thursday: 'Thursday',
+    friday: 'Friday',
+    saturday: 'Saturday',
+  },
+  days_short: {
+    sunday: 'Sun',
+    monday: 'Mon',
+    tuesday: 'Tue',
+    wednesday: 'Wed',
+    thursday: 'Thu',
+    friday: 'Fri',
+    saturday: 'Sat',
+  },
+  card: {
+    configuration_required: 'Configuration required',
+    all_devices: 'All devices',
+    all_devices_count: 'All devices ({count})',
+    select_device: 'Select device',
+    switch_device_blocked: 'Save or undo changes before switching to another device',
+    entity_not_found: 'Climate entity not found: {entity}',
+    sensors_not_found: 'Schedule sensors not found: {sensors}. Set schedule_sensors in the card configuration if they were renamed.',
+    no_valid_schedule: 'No valid schedule found on sensors. Using default schedule.',
+    select_target_device: 'Select at least one device to save to',
+    save_failed: 'Failed to save schedule',
+    save_failed_devices: 'Failed to save schedule to {failed} of {total} devices',
+    resume_failed: 'Failed to resume schedule',
+    switch_auto_failed: 'Failed to switch to auto mode',
+    save: 'Save',
+    saving: 'Saving...',
+    toggle_view: 'Toggle view mode',
+    statistics: 'Schedule statistics',
+    undo: 'Undo',
+    undo_title: 'Undo (Ctrl+Z)',
+    redo: 'Redo',
+    redo_title: 'Redo (Ctrl+Shift+Z)',
+    import_export_title: 'Import / export schedule',
+    import_export_label: 'Import or export schedule',
+    simplify_title: 'Simplify schedule',
+    simplify_label: 'Remove redundant transitions',
+    vacation_title: 'Vacation mode',
+    vacation_label: 'Start vacation mode',
+    waiting_to_send: 'Waiting to send: {devices}',
+    setpoint_now: '{temperature} °C now',
+    setpoint_next_today: '{temperature} °C at {time}',
+    setpoint_next_tomorrow: '{temperature} °C tomorrow at {time}',
+    setpoint_next_day: '{temperature} °C {day} at {time}',
+    room_temperature: 'Room {temperature} °C',
+    target_temperature: 'Target {temperature} °C',
+    vacation_indicator: 'Vacation {temperature} °C',
+    override_mode: 'The valve is in {mode} mode and only follows its schedule in auto mode.',
+    override_target: 'Target {target} °C differs from the scheduled {scheduled} °C.',
+    resume_schedule: 'Resume schedule',
+    switch_to_auto: 'Switch to auto',
+    vacation_since: 'Vacation mode since {date}: holding {temperature} °C all week.',
+    vacation_unsaved_changes: 'Save or undo changes before starting or ending vacation mode',
+    restore_schedule: 'Restore regular schedule',
+    whole_week: 'The whole week',
+    queued_notice: '{device} is unavailable. {days} will be sent automatically when it comes back.',
+    no_changed_days: 'No changed days to send',
+    sent_whole_week: 'Sent the whole week',
+    sent_days: 'Sent {days}',
+    sync_pending: 'waiting for device',
+    sync_confirmed: 'confirmed',
+    sync_mismatch: 'device reports a different schedule',
+    sync_timed_out: 'no confirmation',
+    retrying: 'Retrying...',
+    retry_unconfirmed: 'Retry unconfirmed days',
+    queued_until_available: 'queued until available',
+  },
+  week: {
+    selection_hint: 'Shift-click to select several days',
+    edit_days_one: 'Edit {count} day',
+    edit_days_other: 'Edit {count} days',
+    edit_day_label: 'Edit {day} schedule',
+    now: 'now',
+    no_schedule: 'No schedule',
+    empty_title: 'No Schedule Available',
+    empty_hint: 'Click on a day to create a schedule',
+  },
+  graph: {
+    point_label: '{time}, {temperature}°C',
+    point_label_fixed: '{time}, {temperature}°C, time fixed',
+    time_fixed: '(time fixed)',
+    no_data_for_day: 'No schedule data available for {day}',
+    keyboard_hint: 'Keyboard: Tab to a point, arrows move it, Insert adds, Delete removes, Page Up/Down switch days',
+    add_title: 'Add new temperature transition',
+    copy: 'Copy to Other Days',
+    copy_title: "Copy this day's schedule to other days",
+    compare: 'Compare',
+    compare_off: 'Hide comparison',
+    compare_title: 'Overlay other days on the chart',
+    compare_toggle: 'Show or hide {day}',
+    compare_editing: '{day} is being edited',
+    history: 'Recorded',
+    history_off: 'Off',
+    history_current: 'This week',
+    history_previous: 'Last week',
+    history_target: 'Device target',
+    history_loading: 'Loading history…',
+    history_empty: 'No room temperature recorded for this day',
+    history_failed: 'Could not load the history',
+  },
+  stats: {
+    day: 'Day',
+    comfort_title: 'Hours with a setpoint of {temperature}°C or more',
+    average: 'Average',
+    average_title: 'Time-weighted average setpoint',
+    min: 'Min',
+    max: 'Max',
+    free_slots: 'Free slots',
+    free_slots_title: 'Unused transition slots',
+    week: 'Week',
+    hours: '{hours} h',
+    hint: 'Computed from the schedule. Manual changes on the device are not included.',
+  },
+  day_editor: {
+    title: '{days} Schedule',
+    close: 'Close editor',
+    validation_errors: 'Validation Errors:',
+    warnings: 'Warnings:',
+    days_differ: 'The selected days differ.',
+    days_differ_hint: 'Changes apply to each day separately. Apply to all would change them as follows:',
+    apply_all: 'Apply to all {count} days',
+    add_title: 'Add new transition',
+    simplify: 'Simplify',
+    simplify_count: 'Simplify (−{count})',
+    simplify_title_one: 'Remove {count} redundant transition',
+    simplify_title_other: 'Remove {count} redundant transitions',
+    no_redundant: 'No redundant transitions',
+    simplified_one: 'Removed {count} redundant transition',
+    simplified_other: 'Removed {count} redundant transitions',
+    copy: 'Copy to Other Days...',
+  },
+  transition: {
+    loading: 'Loading...',
+    time: 'Time',
+    temperature: 'Temperature',
+    midnight_fixed: 'Midnight transition cannot be changed',
+    select_hour: 'Select hour',
+    select_minutes: 'Select minutes',
+    select_period: 'Select AM or PM',
+    fixed_at_midnight: 'Fixed at 00:00',
+    adjust_temperature: 'Adjust temperature ({min}-{max}°C)',
+    delete: 'Delete transition',
+    delete_label: 'Delete transition {number}',
+  },
+  copy: {
+    title: 'Copy {day} schedule to...',
+    weekdays_title: 'Select Monday through Friday',
+    weekend_title: 'Select Saturday and Sunday',
+    all: 'All',
+    all_title: 'Select all days except {day}',
+    clear_title: 'Clear all selections',
+    confirm_one: 'Copy to {count} day',
+    confirm_other: 'Copy to {count} days',
+  },
+  save_diff: {
+    title: 'Review changes before saving',
+    no_differences: 'No differences from the schedule on the device.',
+    no_changes: 'No changes',
+    changes_one: '{count} change',
+    changes_other: '{count} changes',
+    overwrite_devices: 'Saving replaces the schedule on each of these devices.',
+    confirm: 'Save to device',
+  },
+  simplify: {
+    title: 'Simplify schedule',
+    nothing_to_remove: 'No redundant transitions to remove.',
+    removes_one: 'Removes {count} redundant transition.',
+    removes_other: 'Removes {count} redundant transitions.',
+    same_heating: 'The heating times and temperatures stay the same.',
+    frees_slots: 'frees {count} of 6 slots',
+    before: 'Before',
+    after: 'After',
+    confirm: 'Simplify',
+  },
+  vacation: {
+    title: 'Vacation mode',
+    hold: 'Hold',
+    all_week: '°C all week',
+    hint: 'The whole week is replaced with this temperature and sent to the device. Your regular schedule is kept and can be restored with one click.',
+    confirm: 'Start vacation',
+  },
+  io: {
+    title: 'Import / Export Schedule',
+    export: 'Export',
+    import: 'Import',
+    format_raw: 'Z2M strings',
+    raw_hint: 'One line per day, Sunday to Saturday.',
+    import_hint: 'Paste JSON, YAML, or seven Z2M schedule lines (Sunday to Saturday). The imported schedule is loaded as unsaved changes.',
+    download: 'Download',
+    copy: 'Copy',
+    copied: 'Copied',
+    parse_failed: 'Failed to parse schedule',
+  },
+  import_errors: {
+    nothing_to_import: 'Nothing to import',
+    invalid_json: 'Invalid JSON',
+    json_not_object: 'JSON must be an object with one entry per day',
+    missing_day: 'Missing schedule for {day}',
+    invalid_transition: 'Invalid transition "{token}" for {day}. Expected HH:mm/temperature',
+    unrecognized_line: 'Unrecognized line: {line}',
+    wrong_line_count: 'Expected {expected} lines (Sunday to Saturday), found {found}',
+  },
+  service_errors: {
+    save_failed: 'Failed to save schedule: {reason}',
+    save_day_failed: 'Failed to save schedule for {day}: {reason}',
+    hvac_mode_failed: 'Failed to set HVAC mode: {reason}',
+    temperature_failed: 'Failed to set temperature: {reason}',
+    history_failed: 'Failed to fetch history: {reason}',
+  },
+  validation: {
+    invalid_time: 'Invalid time format: {time}. Expected HH:mm (00:00 - 23:59)',
+    temperature_out_of_range: 'Temperature {temperature}°C is out of range. Must be {min}-{max}°C',
+    temperature_off_step: 'Temperature {temperature}°C is invalid. Must be in {step}°C steps',
+    no_transitions: 'Day schedule must have at least 1 transition',
+    too_many_transitions: 'Too many transitions: {count}. Maximum is {max} per day',
+    first_not_midnight: 'First transition must be at 00:00, found {time}',
+    duplicate_times: 'Duplicate transition times found. Each time must be unique',
+    not_chronological: 'Transitions must be in chronological order: {previous} should come before {time}',
+    transition_prefix: 'Transition {number}: {message}',
+    day_prefix: '{day}: {message}',
+  },
+  lint: {
+    above_comfort_cap: '{time}: {temperature}°C is above the comfort cap of {cap}°C',
+    short_interval: '{time}: only {interval} minutes after the transition at {previous}',
+    repeated_temperature: '{time}: keeps {temperature}°C from {previous} and can be removed',
+    large_jump: '{time}: jumps {jump}°C, more than {max}°C',
+    below_comfort: 'Never reaches the comfort temperature of {comfort}°C',
+  },
+  editor: {
+    entity: 'Entity',
+    entity_description: 'Select the Sonoff TRVZB climate entity to manage',
+    no_climate_entities: 'No climate entities found. Enter the entity ID manually.',
+    select_entity: 'Select an entity...',
+    name: 'Name (optional)',
+    name_placeholder: 'Living Room Heating',
+    name_description: 'Override the card title. Leave empty to use the entity name.',
+    additional_devices: 'Additional Devices (optional)',
+    additional_devices_description: 'Comma-separated climate entities. The card shows a device selector to switch between them, or to edit one schedule and save it to all selected devices at once.',
+    view_mode: 'Default View Mode',
+    view_week: 'Week View',
+    view_graph: 'Graph View',
+    view_stats: 'Statistics',
+    view_mode_description: 'Choose the default view when the card loads. Week view shows a calendar grid, graph view shows an interactive temperature chart, statistics shows heating hours and average setpoints.',
+    first_day_of_week: 'First Day of the Week',
+    first_day_default: 'Home Assistant setting',
+    first_day_description: 'Day the week view, graph, statistics and copy dialog start with. By default it follows the first weekday in your Home Assistant profile.',
+    write_method: 'Save Method',
+    write_mqtt: 'MQTT publish',
+    write_text: 'Text entities (text.set_value)',
+    write_method_description: 'MQTT publish sends the whole week to Zigbee2MQTT. Text entities writes only the changed days through Home Assistant, for users who may not call mqtt.publish.',
+    schedule_sensors: 'Schedule Sensors (optional)',
+    schedule_sensors_yaml: 'Configured per day in YAML. Edit the card in YAML mode to change them.',
+    schedule_sensors_description: 'Template for the day schedule text entities, where {day} is replaced by sunday … saturday. By default, the card derives them from the climate entity (e.g., climate.device → text.device_weekly_schedule_monday).',
+    base_topic: 'Zigbee2MQTT Base Topic (optional)',
+    base_topic_description: 'Only needed when Zigbee2MQTT is configured with a custom base_topic.',
+    device_name: 'Zigbee2MQTT Device Name (optional)',
+    device_name_description: "The device's friendly name in Zigbee2MQTT. By default it is taken from the Home Assistant device, or derived from the entity ID if the device is unknown.",
+    temperature_limits: 'Temperature Limits (optional)',
+    min_placeholder: 'Min °C',
+    max_placeholder: 'Max °C',
+    step_placeholder: 'Step °C',
+    temperature_limits_description: 'Restrict the temperatures that can be scheduled. Leave empty to use the min_temp, max_temp and target_temp_step reported by the climate entity.',
+    comfort: 'Comfort and Warnings (optional)',
+    comfort_placeholder: 'Comfort 20 °C',
+    comfort_cap_placeholder: 'Cap 24 °C',
+    max_jump_placeholder: 'Jump 5 °C',
+    comfort_description: 'Setpoints at or above the comfort temperature count as heating hours in the statistics view. The editors warn about days that never reach it, setpoints above the cap and temperature changes larger than the jump. Warnings never block saving.',
+  },
+};
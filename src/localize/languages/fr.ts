@@ -0,0 +1,292 @@
+/**
+ * French translations
+ */
+import type { Translations } from '../localize';
+
+export const fr: Translations = {
+  common: {
+    cancel: 'Annuler',
+    clear: 'Effacer',
+    close: 'Fermer',
+    weekdays: 'Semaine',
+    weekend: 'Week-end',
+    add_transition: '+ Ajouter une plage',
+    max_transitions: '6 plages au maximum par jour',
+    no_schedule_data: 'Aucun programme disponible',
+  },
+  days: {
+    sunday: 'Dimanche',
+    monday: 'Lundi',
+    tuesday: 'Mardi',
+    wednesday: 'Mercredi',
+    thursday: 'Jeudi',
+    friday: 'Vendredi',
+    saturday: 'Samedi',
+  },
+  days_short: {
+    sunday: 'Dim',
+    monday: 'Lun',
+    tuesday: 'Mar',
+    wednesday: 'Mer',
+    thursday: 'Jeu',
+    friday: 'Ven',
+    saturday: 'Sam',
+  },
+  card: {
+    configuration_required: 'Configuration requise',
+    all_devices: 'Tous les appareils',
+    all_devices_count: 'Tous les appareils ({count})',
+    select_device: 'Choisir un appareil',
+    switch_device_blocked: 'Enregistrez ou annulez les modifications avant de changer d\'appareil',
+    entity_not_found: 'Entité climat introuvable : {entity}',
+    sensors_not_found: 'Capteurs de programme introuvables : {sensors}. S\'ils ont été renommés, définissez schedule_sensors dans la configuration de la carte.',
+    no_valid_schedule: 'Aucun programme valide dans les capteurs. Le programme par défaut est utilisé.',
+    select_target_device: 'Choisissez au moins un appareil où enregistrer',
+    save_failed: 'Échec de l\'enregistrement du programme',
+    save_failed_devices: 'Échec de l\'enregistrement du programme sur {failed} appareils sur {total}',
+    resume_failed: 'Impossible de reprendre le programme',
+    switch_auto_failed: 'Impossible de passer en mode automatique',
+    save: 'Enregistrer',
+    saving: 'Enregistrement...',
+    toggle_view: 'Changer de vue',
+    statistics: 'Statistiques du programme',
+    undo: 'Annuler',
+    undo_title: 'Annuler (Ctrl+Z)',
+    redo: 'Rétablir',
+    redo_title: 'Rétablir (Ctrl+Maj+Z)',
+    import_export_title: 'Importer / exporter le programme',
+    import_export_label: 'Importer ou exporter le programme',
+    simplify_title: 'Simplifier le programme',
+    simplify_label: 'Supprimer les plages superflues',
+    vacation_title: 'Mode vacances',
+    vacation_label: 'Démarrer le mode vacances',
+    waiting_to_send: 'En attente d\'envoi : {devices}',
+    setpoint_now: '{temperature} °C maintenant',
+    setpoint_next_today: '{temperature} °C à {time}',
+    setpoint_next_tomorrow: '{temperature} °C demain à {time}',
+    setpoint_next_day: '{temperature} °C {day} à {time}',
+    room_temperature: 'Pièce {temperature} °C',
+    target_temperature: 'Consigne {temperature} °C',
+    vacation_indicator: 'Vacances {temperature} °C',
+    override_mode: 'La vanne est en mode {mode} et ne suit son programme qu\'en mode automatique.',
+    override_target: 'La consigne de {target} °C diffère des {scheduled} °C programmés.',
+    resume_schedule: 'Reprendre le programme',
+    switch_to_auto: 'Passer en automatique',
+    vacation_since: 'Mode vacances depuis le {date} : {temperature} °C toute la semaine.',
+    vacation_unsaved_changes: 'Enregistrez ou annulez les modifications avant de démarrer ou de terminer le mode vacances',
+    restore_schedule: 'Rétablir le programme habituel',
+    whole_week: 'Toute la semaine',
+    queued_notice: '{device} est indisponible. {days} sera envoyé automatiquement à son retour.',
+    no_changed_days: 'Aucun jour modifié à envoyer',
+    sent_whole_week: 'Toute la semaine envoyée',
+    sent_days: 'Envoyé : {days}',
+    sync_pending: 'en attente de l\'appareil',
+    sync_confirmed: 'confirmé',
+    sync_mismatch: 'l\'appareil indique un programme différent',
+    sync_timed_out: 'aucune confirmation',
+    retrying: 'Nouvel essai...',
+    retry_unconfirmed: 'Renvoyer les jours non confirmés',
+    queued_until_available: 'en attente de disponibilité',
+  },
+  week: {
+    selection_hint: 'Maj+clic pour choisir plusieurs jours',
+    edit_days_one: 'Modifier {count} jour',
+    edit_days_other: 'Modifier {count} jours',
+    edit_day_label: 'Modifier le programme du {day}',
+    now: 'maintenant',
+    no_schedule: 'Aucun programme',
+    empty_title: 'Aucun programme disponible',
+    empty_hint: 'Cliquez sur un jour pour créer un programme',
+  },
+  graph: {
+    point_label: '{time}, {temperature}°C',
+    point_label_fixed: '{time}, {temperature}°C, heure fixe',
+    time_fixed: '(heure fixe)',
+    no_data_for_day: 'Aucun programme disponible pour {day}',
+    keyboard_hint: 'Clavier : Tab vers un point, les flèches le déplacent, Inser ajoute, Suppr supprime, Page préc./suiv. change de jour',
+    add_title: 'Ajouter une nouvelle plage de température',
+    copy: 'Copier vers d\'autres jours',
+    copy_title: 'Copier le programme de ce jour vers d\'autres jours',
+    compare: 'Comparer',
+    compare_off: 'Masquer la comparaison',
+    compare_title: 'Superposer d\'autres jours sur le graphique',
+    compare_toggle: 'Afficher ou masquer {day}',
+    compare_editing: '{day} est en cours de modification',
+    history: 'Enregistrée',
+    history_off: 'Non',
+    history_current: 'Cette semaine',
+    history_previous: 'Semaine dernière',
+    history_target: 'Consigne de l\'appareil',
+    history_loading: 'Chargement de l\'historique…',
+    history_empty: 'Aucune température ambiante enregistrée pour ce jour',
+    history_failed: 'Impossible de charger l\'historique',
+  },
+  stats: {
+    day: 'Jour',
+    comfort_title: 'Heures avec une consigne de {temperature}°C ou plus',
+    average: 'Moyenne',
+    average_title: 'Consigne moyenne pondérée dans le temps',
+    min: 'Min',
+    max: 'Max',
+    free_slots: 'Plages libres',
+    free_slots_title: 'Plages non utilisées',
+    week: 'Semaine',
+    hours: '{hours} h',
+    hint: 'Calculé à partir du programme. Les changements manuels sur l\'appareil ne sont pas inclus.',
+  },
+  day_editor: {
+    title: 'Programme {days}',
+    close: 'Fermer l\'éditeur',
+    validation_errors: 'Erreurs de validation :',
+    warnings: 'Avertissements :',
+    days_differ: 'Les jours choisis sont différents.',
+    days_differ_hint: 'Les modifications s\'appliquent à chaque jour séparément. Appliquer aux jours les changerait ainsi :',
+    apply_all: 'Appliquer aux {count} jours',
+    add_title: 'Ajouter une nouvelle plage',
+    simplify: 'Simplifier',
+    simplify_count: 'Simplifier (−{count})',
+    simplify_title_one: 'Supprimer {count} plage superflue',
+    simplify_title_other: 'Supprimer {count} plages superflues',
+    no_redundant: 'Aucune plage superflue',
+    simplified_one: '{count} plage superflue supprimée',
+    simplified_other: '{count} plages superflues supprimées',
+    copy: 'Copier vers d\'autres jours...',
+  },
+  transition: {
+    loading: 'Chargement...',
+    time: 'Heure',
+    temperature: 'Température',
+    midnight_fixed: 'La plage de minuit ne peut pas être déplacée',
+    select_hour: 'Choisir l\'heure',
+    select_minutes: 'Choisir les minutes',
+    select_period: 'Choisir AM ou PM',
+    fixed_at_midnight: 'Fixée à 00:00',
+    adjust_temperature: 'Régler la température ({min}-{max}°C)',
+    delete: 'Supprimer la plage',
+    delete_label: 'Supprimer la plage {number}',
+  },
+  copy: {
+    title: 'Copier le programme du {day} vers...',
+    weekdays_title: 'Choisir du lundi au vendredi',
+    weekend_title: 'Choisir samedi et dimanche',
+    all: 'Tous',
+    all_title: 'Choisir tous les jours sauf {day}',
+    clear_title: 'Effacer la sélection',
+    confirm_one: 'Copier vers {count} jour',
+    confirm_other: 'Copier vers {count} jours',
+  },
+  save_diff: {
+    title: 'Vérifier les modifications avant l\'enregistrement',
+    no_differences: 'Aucune différence avec le programme de l\'appareil.',
+    no_changes: 'Aucune modification',
+    changes_one: '{count} modification',
+    changes_other: '{count} modifications',
+    overwrite_devices: 'L\'enregistrement remplace le programme sur chacun de ces appareils.',
+    confirm: 'Enregistrer sur l\'appareil',
+  },
+  simplify: {
+    title: 'Simplifier le programme',
+    nothing_to_remove: 'Aucune plage superflue à supprimer.',
+    removes_one: 'Supprime {count} plage superflue.',
+    removes_other: 'Supprime {count} plages superflues.',
+    same_heating: 'Les horaires et températures de chauffage restent les mêmes.',
+    frees_slots: 'libère {count} plages sur 6',
+    before: 'Avant',
+    after: 'Après',
+    confirm: 'Simplifier',
+  },
+  vacation: {
+    title: 'Mode vacances',
+    hold: 'Maintenir',
+    all_week: '°C toute la semaine',
+    hint: 'Toute la semaine est remplacée par cette température et envoyée à l\'appareil. Votre programme habituel est conservé et peut être rétabli en un clic.',
+    confirm: 'Démarrer les vacances',
+  },
+  io: {
+    title: 'Importer / exporter le programme',
+    export: 'Exporter',
+    import: 'Importer',
+    format_raw: 'Chaînes Z2M',
+    raw_hint: 'Une ligne par jour, du dimanche au samedi.',
+    import_hint: 'Collez du JSON, du YAML ou sept lignes de programme Z2M (du dimanche au samedi). Le programme importé est chargé comme modification non enregistrée.',
+    download: 'Télécharger',
+    copy: 'Copier',
+    copied: 'Copié',
+    parse_failed: 'Impossible de lire le programme',
+  },
+  import_errors: {
+    nothing_to_import: 'Rien à importer',
+    invalid_json: 'JSON invalide',
+    json_not_object: 'Le JSON doit être un objet avec une entrée par jour',
+    missing_day: 'Programme manquant pour {day}',
+    invalid_transition: 'Plage "{token}" invalide pour {day}. Format attendu HH:mm/température',
+    unrecognized_line: 'Ligne non reconnue : {line}',
+    wrong_line_count: '{expected} lignes attendues (du dimanche au samedi), {found} trouvées',
+  },
+  service_errors: {
+    save_failed: 'Impossible d\'enregistrer le programme : {reason}',
+    save_day_failed: 'Impossible d\'enregistrer le programme du {day} : {reason}',
+    hvac_mode_failed: 'Impossible de définir le mode HVAC : {reason}',
+    temperature_failed: 'Impossible de définir la température : {reason}',
+    history_failed: 'Impossible de charger l\'historique : {reason}',
+  },
+  validation: {
+    invalid_time: 'Format d\'heure invalide : {time}. Format attendu HH:mm (00:00 - 23:59)',
+    temperature_out_of_range: 'La température de {temperature}°C est hors limites. Elle doit être entre {min} et {max}°C',
+    temperature_off_step: 'La température de {temperature}°C est invalide. Elle doit suivre des pas de {step}°C',
+    no_transitions: 'Un programme journalier doit avoir au moins 1 plage',
+    too_many_transitions: 'Trop de plages : {count}. {max} au maximum par jour',
+    first_not_midnight: 'La première plage doit être à 00:00, trouvée à {time}',
+    duplicate_times: 'Heures de plage en double. Chaque heure doit être unique',
+    not_chronological: 'Les plages doivent être dans l\'ordre chronologique : {previous} doit précéder {time}',
+    transition_prefix: 'Plage {number} : {message}',
+    day_prefix: '{day} : {message}',
+  },
+  lint: {
+    above_comfort_cap: '{time} : {temperature}°C dépasse la limite de confort de {cap}°C',
+    short_interval: '{time} : seulement {interval} minutes après la plage de {previous}',
+    repeated_temperature: '{time} : garde les {temperature}°C de {previous} et peut être supprimée',
+    large_jump: '{time} : saut de {jump}°C, plus de {max}°C',
+    below_comfort: 'N\'atteint jamais la température de confort de {comfort}°C',
+  },
+  editor: {
+    entity: 'Entité',
+    entity_description: 'Choisissez l\'entité climat Sonoff TRVZB à gérer',
+    no_climate_entities: 'Aucune entité climat trouvée. Saisissez l\'ID de l\'entité manuellement.',
+    select_entity: 'Choisir une entité...',
+    name: 'Nom (facultatif)',
+    name_placeholder: 'Chauffage du salon',
+    name_description: 'Remplace le titre de la carte. Laissez vide pour utiliser le nom de l\'entité.',
+    additional_devices: 'Appareils supplémentaires (facultatif)',
+    additional_devices_description: 'Entités climat séparées par des virgules. La carte affiche un sélecteur pour passer de l\'une à l\'autre, ou pour modifier un programme et l\'enregistrer sur tous les appareils choisis à la fois.',
+    view_mode: 'Vue par défaut',
+    view_week: 'Vue semaine',
+    view_graph: 'Vue graphique',
+    view_stats: 'Statistiques',
+    view_mode_description: 'La vue affichée au chargement de la carte. La vue semaine montre une grille de calendrier, la vue graphique une courbe de température interactive, les statistiques les heures de chauffe et les consignes moyennes.',
+    first_day_of_week: 'Premier jour de la semaine',
+    first_day_default: 'Réglage de Home Assistant',
+    first_day_description: 'Jour par lequel commencent la vue semaine, le graphique, les statistiques et la fenêtre de copie. Par défaut, il suit le premier jour de la semaine de votre profil Home Assistant.',
+    write_method: 'Méthode d\'enregistrement',
+    write_mqtt: 'Publication MQTT',
+    write_text: 'Entités texte (text.set_value)',
+    write_method_description: 'La publication MQTT envoie toute la semaine à Zigbee2MQTT. Les entités texte n\'écrivent que les jours modifiés via Home Assistant, pour les utilisateurs qui ne peuvent pas appeler mqtt.publish.',
+    schedule_sensors: 'Capteurs de programme (facultatif)',
+    schedule_sensors_yaml: 'Configurés par jour en YAML. Modifiez la carte en mode YAML pour les changer.',
+    schedule_sensors_description: 'Modèle des entités texte des programmes journaliers, où {day} est remplacé par sunday … saturday. Par défaut, la carte les déduit de l\'entité climat (p. ex. climate.device → text.device_weekly_schedule_monday).',
+    base_topic: 'Topic de base Zigbee2MQTT (facultatif)',
+    base_topic_description: 'Nécessaire uniquement si Zigbee2MQTT est configuré avec un base_topic personnalisé.',
+    device_name: 'Nom de l\'appareil dans Zigbee2MQTT (facultatif)',
+    device_name_description: 'Le friendly name de l\'appareil dans Zigbee2MQTT. Par défaut, il est repris de l\'appareil Home Assistant, ou déduit de l\'ID de l\'entité si l\'appareil est inconnu.',
+    temperature_limits: 'Limites de température (facultatif)',
+    min_placeholder: 'Min °C',
+    max_placeholder: 'Max °C',
+    step_placeholder: 'Pas °C',
+    temperature_limits_description: 'Restreint les températures programmables. Laissez vide pour utiliser min_temp, max_temp et target_temp_step fournis par l\'entité climat.',
+    comfort: 'Confort et avertissements (facultatif)',
+    comfort_placeholder: 'Confort 20 °C',
+    comfort_cap_placeholder: 'Limite 24 °C',
+    max_jump_placeholder: 'Saut 5 °C',
+    comfort_description: 'Les consignes égales ou supérieures à la température de confort comptent comme heures de chauffe dans les statistiques. Les éditeurs signalent les jours qui ne l\'atteignent jamais, les consignes au-dessus de la limite et les écarts de température supérieurs au saut. Les avertissements ne bloquent jamais l\'enregistrement.',
+  },
+};
@@ -0,0 +1,292 @@
+/**
+ * Italian translations
+ */
+import type { Translations } from '../localize';
+
+export const it: Translations = {
+  common: {
+    cancel: 'Annulla',
+    clear: 'Azzera',
+    close: 'Chiudi',
+    weekdays: 'Feriali',
+    weekend: 'Fine settimana',
+    add_transition: '+ Aggiungi fascia',
+    max_transitions: 'Massimo 6 fasce al giorno',
+    no_schedule_data: 'Nessun dato di programmazione disponibile',
+  },
+  days: {
+    sunday: 'Domenica',
+    monday: 'Lunedì',
+    tuesday: 'Martedì',
+    wednesday: 'Mercoledì',
+    thursday: 'Giovedì',
+    friday: 'Venerdì',
+    saturday: 'Sabato',
+  },
+  days_short: {
+    sunday: 'Dom',
+    monday: 'Lun',
+    tuesday: 'Mar',
+    wednesday: 'Mer',
+    thursday: 'Gio',
+    friday: 'Ven',
+    saturday: 'Sab',
+  },
+  card: {
+    configuration_required: 'Configurazione richiesta',
+    all_devices: 'Tutti i dispositivi',
+    all_devices_count: 'Tutti i dispositivi ({count})',
+    select_device: 'Seleziona dispositivo',
+    switch_device_blocked: 'Salva o annulla le modifiche prima di passare a un altro dispositivo',
+    entity_not_found: 'Entità clima non trovata: {entity}',
+    sensors_not_found: 'Sensori di programmazione non trovati: {sensors}. Se sono stati rinominati, imposta schedule_sensors nella configurazione della card.',
+    no_valid_schedule: 'Nessuna programmazione valida nei sensori. Viene usata la programmazione predefinita.',
+    select_target_device: 'Seleziona almeno un dispositivo su cui salvare',
+    save_failed: 'Impossibile salvare la programmazione',
+    save_failed_devices: 'Impossibile salvare la programmazione su {failed} dispositivi su {total}',
+    resume_failed: 'Impossibile riprendere la programmazione',
+    switch_auto_failed: 'Impossibile passare alla modalità automatica',
+    save: 'Salva',
+    saving: 'Salvataggio...',
+    toggle_view: 'Cambia vista',
+    statistics: 'Statistiche della programmazione',
+    undo: 'Annulla',
+    undo_title: 'Annulla (Ctrl+Z)',
+    redo: 'Ripeti',
+    redo_title: 'Ripeti (Ctrl+Maiusc+Z)',
+    import_export_title: 'Importa / esporta programmazione',
+    import_export_label: 'Importa o esporta la programmazione',
+    simplify_title: 'Semplifica programmazione',
+    simplify_label: 'Rimuovi le fasce superflue',
+    vacation_title: 'Modalità vacanza',
+    vacation_label: 'Avvia la modalità vacanza',
+    waiting_to_send: 'In attesa di invio: {devices}',
+    setpoint_now: '{temperature} °C ora',
+    setpoint_next_today: '{temperature} °C alle {time}',
+    setpoint_next_tomorrow: '{temperature} °C domani alle {time}',
+    setpoint_next_day: '{temperature} °C {day} alle {time}',
+    room_temperature: 'Stanza {temperature} °C',
+    target_temperature: 'Obiettivo {temperature} °C',
+    vacation_indicator: 'Vacanza {temperature} °C',
+    override_mode: 'La valvola è in modalità {mode} e segue la programmazione solo in modalità automatica.',
+    override_target: 'L\'obiettivo di {target} °C è diverso dai {scheduled} °C programmati.',
+    resume_schedule: 'Riprendi programmazione',
+    switch_to_auto: 'Passa ad automatico',
+    vacation_since: 'Modalità vacanza dal {date}: {temperature} °C per tutta la settimana.',
+    vacation_unsaved_changes: 'Salva o annulla le modifiche prima di avviare o terminare la modalità vacanza',
+    restore_schedule: 'Ripristina programmazione normale',
+    whole_week: 'Tutta la settimana',
+    queued_notice: '{device} non è disponibile. {days} verrà inviato automaticamente quando tornerà disponibile.',
+    no_changed_days: 'Nessun giorno modificato da inviare',
+    sent_whole_week: 'Inviata tutta la settimana',
+    sent_days: 'Inviato: {days}',
+    sync_pending: 'in attesa del dispositivo',
+    sync_confirmed: 'confermato',
+    sync_mismatch: 'il dispositivo riporta una programmazione diversa',
+    sync_timed_out: 'nessuna conferma',
+    retrying: 'Nuovo tentativo...',
+    retry_unconfirmed: 'Reinvia i giorni non confermati',
+    queued_until_available: 'in coda finché non è disponibile',
+  },
+  week: {
+    selection_hint: 'Maiusc+clic per selezionare più giorni',
+    edit_days_one: 'Modifica {count} giorno',
+    edit_days_other: 'Modifica {count} giorni',
+    edit_day_label: 'Modifica la programmazione di {day}',
+    now: 'ora',
+    no_schedule: 'Nessuna programmazione',
+    empty_title: 'Nessuna programmazione disponibile',
+    empty_hint: 'Fai clic su un giorno per creare una programmazione',
+  },
+  graph: {
+    point_label: '{time}, {temperature}°C',
+    point_label_fixed: '{time}, {temperature}°C, orario fisso',
+    time_fixed: '(orario fisso)',
+    no_data_for_day: 'Nessun dato di programmazione disponibile per {day}',
+    keyboard_hint: 'Tastiera: Tab su un punto, le frecce lo spostano, Ins aggiunge, Canc rimuove, Pag su/giù cambia giorno',
+    add_title: 'Aggiungi una nuova fascia di temperatura',
+    copy: 'Copia su altri giorni',
+    copy_title: 'Copia la programmazione di questo giorno su altri giorni',
+    compare: 'Confronta',
+    compare_off: 'Nascondi confronto',
+    compare_title: 'Sovrapponi altri giorni nel grafico',
+    compare_toggle: 'Mostra o nascondi {day}',
+    compare_editing: 'Stai modificando {day}',
+    history: 'Registrata',
+    history_off: 'No',
+    history_current: 'Questa settimana',
+    history_previous: 'Settimana scorsa',
+    history_target: 'Temperatura impostata sul dispositivo',
+    history_loading: 'Caricamento dello storico…',
+    history_empty: 'Nessuna temperatura ambiente registrata per questo giorno',
+    history_failed: 'Impossibile caricare lo storico',
+  },
+  stats: {
+    day: 'Giorno',
+    comfort_title: 'Ore con un setpoint di {temperature}°C o più',
+    average: 'Media',
+    average_title: 'Setpoint medio ponderato nel tempo',
+    min: 'Min',
+    max: 'Max',
+    free_slots: 'Fasce libere',
+    free_slots_title: 'Fasce non utilizzate',
+    week: 'Settimana',
+    hours: '{hours} h',
+    hint: 'Calcolato dalla programmazione. Le modifiche manuali sul dispositivo non sono incluse.',
+  },
+  day_editor: {
+    title: 'Programmazione {days}',
+    close: 'Chiudi editor',
+    validation_errors: 'Errori di validazione:',
+    warnings: 'Avvisi:',
+    days_differ: 'I giorni selezionati sono diversi.',
+    days_differ_hint: 'Le modifiche si applicano a ogni giorno separatamente. Applicando a tutti cambierebbero così:',
+    apply_all: 'Applica a tutti i {count} giorni',
+    add_title: 'Aggiungi una nuova fascia',
+    simplify: 'Semplifica',
+    simplify_count: 'Semplifica (−{count})',
+    simplify_title_one: 'Rimuovi {count} fascia superflua',
+    simplify_title_other: 'Rimuovi {count} fasce superflue',
+    no_redundant: 'Nessuna fascia superflua',
+    simplified_one: 'Rimossa {count} fascia superflua',
+    simplified_other: 'Rimosse {count} fasce superflue',
+    copy: 'Copia su altri giorni...',
+  },
+  transition: {
+    loading: 'Caricamento...',
+    time: 'Orario',
+    temperature: 'Temperatura',
+    midnight_fixed: 'La fascia di mezzanotte non può essere spostata',
+    select_hour: 'Seleziona l\'ora',
+    select_minutes: 'Seleziona i minuti',
+    select_period: 'Seleziona AM o PM',
+    fixed_at_midnight: 'Fissa alle 00:00',
+    adjust_temperature: 'Regola la temperatura ({min}-{max}°C)',
+    delete: 'Elimina fascia',
+    delete_label: 'Elimina la fascia {number}',
+  },
+  copy: {
+    title: 'Copia la programmazione di {day} su...',
+    weekdays_title: 'Seleziona da lunedì a venerdì',
+    weekend_title: 'Seleziona sabato e domenica',
+    all: 'Tutti',
+    all_title: 'Seleziona tutti i giorni tranne {day}',
+    clear_title: 'Azzera la selezione',
+    confirm_one: 'Copia su {count} giorno',
+    confirm_other: 'Copia su {count} giorni',
+  },
+  save_diff: {
+    title: 'Controlla le modifiche prima di salvare',
+    no_differences: 'Nessuna differenza rispetto alla programmazione sul dispositivo.',
+    no_changes: 'Nessuna modifica',
+    changes_one: '{count} modifica',
+    changes_other: '{count} modifiche',
+    overwrite_devices: 'Il salvataggio sostituisce la programmazione su ciascuno di questi dispositivi.',
+    confirm: 'Salva sul dispositivo',
+  },
+  simplify: {
+    title: 'Semplifica programmazione',
+    nothing_to_remove: 'Nessuna fascia superflua da rimuovere.',
+    removes_one: 'Rimuove {count} fascia superflua.',
+    removes_other: 'Rimuove {count} fasce superflue.',
+    same_heating: 'Orari e temperature di riscaldamento restano invariati.',
+    frees_slots: 'libera {count} fasce su 6',
+    before: 'Prima',
+    after: 'Dopo',
+    confirm: 'Semplifica',
+  },
+  vacation: {
+    title: 'Modalità vacanza',
+    hold: 'Mantieni',
+    all_week: '°C per tutta la settimana',
+    hint: 'L\'intera settimana viene sostituita con questa temperatura e inviata al dispositivo. La programmazione normale viene conservata e si può ripristinare con un clic.',
+    confirm: 'Avvia vacanza',
+  },
+  io: {
+    title: 'Importa / esporta programmazione',
+    export: 'Esporta',
+    import: 'Importa',
+    format_raw: 'Stringhe Z2M',
+    raw_hint: 'Una riga per giorno, da domenica a sabato.',
+    import_hint: 'Incolla JSON, YAML o sette righe di programmazione Z2M (da domenica a sabato). La programmazione importata viene caricata come modifica non salvata.',
+    download: 'Scarica',
+    copy: 'Copia',
+    copied: 'Copiato',
+    parse_failed: 'Impossibile leggere la programmazione',
+  },
+  import_errors: {
+    nothing_to_import: 'Niente da importare',
+    invalid_json: 'JSON non valido',
+    json_not_object: 'Il JSON deve essere un oggetto con una voce per giorno',
+    missing_day: 'Programmazione mancante per {day}',
+    invalid_transition: 'Fascia "{token}" non valida per {day}. Formato atteso HH:mm/temperatura',
+    unrecognized_line: 'Riga non riconosciuta: {line}',
+    wrong_line_count: 'Attese {expected} righe (da domenica a sabato), trovate {found}',
+  },
+  service_errors: {
+    save_failed: 'Impossibile salvare la programmazione: {reason}',
+    save_day_failed: 'Impossibile salvare la programmazione di {day}: {reason}',
+    hvac_mode_failed: 'Impossibile impostare la modalità HVAC: {reason}',
+    temperature_failed: 'Impossibile impostare la temperatura: {reason}',
+    history_failed: 'Impossibile caricare lo storico: {reason}',
+  },
+  validation: {
+    invalid_time: 'Formato orario non valido: {time}. Formato atteso HH:mm (00:00 - 23:59)',
+    temperature_out_of_range: 'La temperatura di {temperature}°C è fuori intervallo. Deve essere tra {min} e {max}°C',
+    temperature_off_step: 'La temperatura di {temperature}°C non è valida. Deve essere a passi di {step}°C',
+    no_transitions: 'La programmazione giornaliera deve avere almeno 1 fascia',
+    too_many_transitions: 'Troppe fasce: {count}. Massimo {max} al giorno',
+    first_not_midnight: 'La prima fascia deve essere alle 00:00, trovata alle {time}',
+    duplicate_times: 'Orari delle fasce duplicati. Ogni orario deve essere unico',
+    not_chronological: 'Le fasce devono essere in ordine cronologico: {previous} deve precedere {time}',
+    transition_prefix: 'Fascia {number}: {message}',
+    day_prefix: '{day}: {message}',
+  },
+  lint: {
+    above_comfort_cap: '{time}: {temperature}°C supera il limite di comfort di {cap}°C',
+    short_interval: '{time}: solo {interval} minuti dopo la fascia delle {previous}',
+    repeated_temperature: '{time}: mantiene i {temperature}°C delle {previous} e può essere rimossa',
+    large_jump: '{time}: salto di {jump}°C, più di {max}°C',
+    below_comfort: 'Non raggiunge mai la temperatura di comfort di {comfort}°C',
+  },
+  editor: {
+    entity: 'Entità',
+    entity_description: 'Seleziona l\'entità clima Sonoff TRVZB da gestire',
+    no_climate_entities: 'Nessuna entità clima trovata. Inserisci l\'ID dell\'entità manualmente.',
+    select_entity: 'Seleziona un\'entità...',
+    name: 'Nome (facoltativo)',
+    name_placeholder: 'Riscaldamento soggiorno',
+    name_description: 'Sostituisce il titolo della card. Lascia vuoto per usare il nome dell\'entità.',
+    additional_devices: 'Dispositivi aggiuntivi (facoltativo)',
+    additional_devices_description: 'Entità clima separate da virgole. La card mostra un selettore per passare dall\'una all\'altra, o per modificare una programmazione e salvarla su tutti i dispositivi selezionati insieme.',
+    view_mode: 'Vista predefinita',
+    view_week: 'Vista settimanale',
+    view_graph: 'Vista grafico',
+    view_stats: 'Statistiche',
+    view_mode_description: 'La vista mostrata al caricamento della card. La vista settimanale mostra una griglia a calendario, la vista grafico un grafico interattivo delle temperature, le statistiche le ore di riscaldamento e i setpoint medi.',
+    first_day_of_week: 'Primo giorno della settimana',
+    first_day_default: 'Impostazione di Home Assistant',
+    first_day_description: 'Giorno da cui iniziano la vista settimanale, il grafico, le statistiche e la finestra di copia. Per impostazione predefinita segue il primo giorno della settimana del tuo profilo di Home Assistant.',
+    write_method: 'Metodo di salvataggio',
+    write_mqtt: 'Pubblicazione MQTT',
+    write_text: 'Entità di testo (text.set_value)',
+    write_method_description: 'La pubblicazione MQTT invia l\'intera settimana a Zigbee2MQTT. Le entità di testo scrivono solo i giorni modificati tramite Home Assistant, per gli utenti che non possono chiamare mqtt.publish.',
+    schedule_sensors: 'Sensori di programmazione (facoltativo)',
+    schedule_sensors_yaml: 'Configurati per giorno in YAML. Modifica la card in modalità YAML per cambiarli.',
+    schedule_sensors_description: 'Modello per le entità di testo delle programmazioni giornaliere, dove {day} viene sostituito da sunday … saturday. Per impostazione predefinita la card le ricava dall\'entità clima (ad es. climate.device → text.device_weekly_schedule_monday).',
+    base_topic: 'Topic di base Zigbee2MQTT (facoltativo)',
+    base_topic_description: 'Necessario solo se Zigbee2MQTT è configurato con un base_topic personalizzato.',
+    device_name: 'Nome del dispositivo in Zigbee2MQTT (facoltativo)',
+    device_name_description: 'Il friendly name del dispositivo in Zigbee2MQTT. Per impostazione predefinita è preso dal dispositivo di Home Assistant, o ricavato dall\'ID dell\'entità se il dispositivo non è noto.',
+    temperature_limits: 'Limiti di temperatura (facoltativo)',
+    min_placeholder: 'Min °C',
+    max_placeholder: 'Max °C',
+    step_placeholder: 'Passo °C',
+    temperature_limits_description: 'Limita le temperature programmabili. Lascia vuoto per usare min_temp, max_temp e target_temp_step riportati dall\'entità clima.',
+    comfort: 'Comfort e avvisi (facoltativo)',
+    comfort_placeholder: 'Comfort 20 °C',
+    comfort_cap_placeholder: 'Limite 24 °C',
+    max_jump_placeholder: 'Salto 5 °C',
+    comfort_description: 'I setpoint pari o superiori alla temperatura di comfort contano come ore di riscaldamento nelle statistiche. Gli editor avvisano dei giorni che non la raggiungono mai, dei setpoint sopra il limite e dei salti di temperatura maggiori del salto massimo. Gli avvisi non bloccano mai il salvataggio.',
+  },
+};
@@ -0,0 +1,177 @@
+/**
+ * Localization
+ * Looks up card strings in the bundled translations by the Home Assistant
+ * user language. Unknown languages and missing keys fall back to English.
+ *
+ * Strings use {name} placeholders. Counted strings have _one and _other
+ * variants, picked by localizePlural.
+ */
+
+import { DayOfWeek, HomeAssistant, ValidationError, LintWarning } from '../models/types';
+import { en } from './languages/en';
+import { de } from './languages/de';
+import { it } from './languages/it';
+import { fr } from './languages/fr';
+import { formatDisplayTime } from '../utils/time';
+
+/**
+ * Shape of a translation table (English is the reference)
+ */
+export type Translations = typeof en;
+
+/**
+ * Values substituted for {name} placeholders
+ */
+export type LocalizeParams = Record<string, string | number>;
+
+/**
+ * Bundled translations by language code
+ */
+export const LANGUAGES: Record<string, Translations> = { en, de, it, fr };
+
+/**
+ * Language used when the requested one is not bundled
+ */
+export const DEFAULT_LANGUAGE = 'en';
+
+/**
+ * Pick the bundled language for a requested language tag
+ * Regional variants use their base language, e.g. "de-CH" → "de"
+ *
+ * @param language - Language tag, e.g. "it" or "de-CH"
+ * @returns Bundled language code
+ */
+export function resolveLanguage(language: string | undefined | null): string {
+  if (!language) {
+    return DEFAULT_LANGUAGE;
+  }
+  const normalized = language.toLowerCase().replace('_', '-');
+  if (LANGUAGES[normalized]) {
+    return normalized;
+  }
+  const base = normalized.split('-')[0];
+  return LANGUAGES[base] ? base : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Get the language for a Home Assistant user
+ * hass.locale is the user profile setting in current Home Assistant versions;
+ * hass.language is kept for older ones
+ *
+ * @param hass - Home Assistant object
+ * @returns Bundled language code
+ */
+export function getLanguage(hass?: HomeAssistant | null): string {
+  return resolveLanguage(hass?.locale?.language || hass?.language);
+}
+
+/**
+ * Look up a dotted key in a translation table
+ */
+function lookup(translations: Translations, key: string): string | undefined {
+  let value: unknown = translations;
+  for (const part of key.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Translate a string
+ *
+ * @param key - Dotted key, e.g. "card.save"
+ * @param language - Bundled language code
+ * @param params - Values for {name} placeholders
+ * @returns Translated string, the English string if missing, or the key itself
+ */
+export function localize(key: string, language: string = DEFAULT_LANGUAGE, params: LocalizeParams = {}): string {
+  const template = lookup(LANGUAGES[language] || en, key) ?? lookup(en, key) ?? key;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Translate a counted string, using the key's _one or _other variant
+ * The count is available as the {count} placeholder
+ *
+ * @param key - Dotted key without the _one/_other suffix
+ * @param count - Number the string refers to
+ * @param language - Bundled language code
+ * @param params - Values for other placeholders
+ * @returns Translated string
+ */
+export function localizePlural(
+  key: string,
+  count: number,
+  language: string = DEFAULT_LANGUAGE,
+  params: LocalizeParams = {}
+): string {
+  return localize(`${key}_${count === 1 ? 'one' : 'other'}`, language, { ...params, count });
+}
+
+/**
+ * Translated name of a day
+ *
+ * @param day - Day of the week
+ * @param language - Bundled language code
+ * @param short - Use the abbreviation, e.g. "Mon"
+ * @returns Day name
+ */
+export function formatDayName(day: DayOfWeek, language: string = DEFAULT_LANGUAGE, short: boolean = false): string {
+  return localize(`${short ? 'days_short' : 'days'}.${day}`, language);
+}
+
+/**
+ * Translated list of day names, e.g. "Tuesday, Saturday"
+ */
+export function formatDayList(days: readonly DayOfWeek[], language: string = DEFAULT_LANGUAGE, short: boolean = false): string {
+  return days.map(day => formatDayName(day, language, short)).join(', ');
+}
+
+/**
+ * Message parameters with the transition times (time, previous) formatted for display
+ */
+function formatTimeParams(params: Record<string, string | number>, hour12: boolean): Record<string, string | number> {
+  const formatted = { ...params };
+  for (const key of ['time', 'previous']) {
+    if (typeof formatted[key] === 'string') {
+      formatted[key] = formatDisplayTime(formatted[key] as string, hour12);
+    }
+  }
+  return formatted;
+}
+
+/**
+ * Translated message for a validation error, prefixed with its transition and day
+ *
+ * @param error - Validation error
+ * @param language - Bundled language code
+ * @param hour12 - Show times on the 12-hour clock
+ * @returns Message, e.g. "Monday: Transition 2: Invalid time format: 25:00. ..."
+ */
+export function formatValidationError(error: ValidationError, language: string = DEFAULT_LANGUAGE, hour12: boolean = false): string {
+  let message = localize(`validation.${error.code}`, language, formatTimeParams(error.params, hour12));
+  if (error.transition !== undefined) {
+    message = localize('validation.transition_prefix', language, { number: error.transition, message });
+  }
+  if (error.day) {
+    message = localize('validation.day_prefix', language, { day: formatDayName(error.day, language), message });
+  }
+  return message;
+}
+
+/**
+ * Translated message for a lint warning
+ *
+ * @param warning - Lint warning
+ * @param language - Bundled language code
+ * @param hour12 - Show times on the 12-hour clock
+ * @returns Message
+ */
+export function formatLintWarning(warning: LintWarning, language: string = DEFAULT_LANGUAGE, hour12: boolean = false): string {
+  return localize(`lint.${warning.code}`, language, formatTimeParams(warning.params, hour12));
+}
@@ -0,0 +1,98 @@
+/**
+ * Undo/redo history for schedule edits
+ * Stores snapshots of the weekly schedule taken before each edit
+ */
+
+import { WeeklySchedule, DAYS_OF_WEEK } from './types';
+import { copyDaySchedule } from './schedule';
+
+/**
+ * Default maximum number of undo steps kept in memory
+ */
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Create a deep copy of a weekly schedule
+ * Snapshots must not share transition objects with the live schedule
+ */
+function cloneWeeklySchedule(schedule: WeeklySchedule): WeeklySchedule {
+  const copy = {} as WeeklySchedule;
+  for (const day of DAYS_OF_WEEK) {
+    copy[day] = copyDaySchedule(schedule[day]);
+  }
+  return copy;
+}
+
+/**
+ * Linear undo/redo stack of weekly schedule snapshots
+ *
+ * Callers record the schedule as it was *before* an edit. Undoing swaps the
+ * current schedule for the most recent snapshot and keeps the current one
+ * available for redo. Recording a new edit discards the redo branch.
+ */
+export class ScheduleHistory {
+  private _past: WeeklySchedule[] = [];
+  private _future: WeeklySchedule[] = [];
+
+  constructor(private readonly _limit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  /**
+   * Record the schedule state preceding an edit
+   *
+   * @param previous - Schedule before the edit is applied
+   */
+  record(previous: WeeklySchedule): void {
+    this._past.push(cloneWeeklySchedule(previous));
+    if (this._past.length > this._limit) {
+      this._past.shift();
+    }
+    this._future = [];
+  }
+
+  /**
+   * Step back one edit
+   *
+   * @param current - Schedule currently displayed (kept for redo)
+   * @returns Previous schedule, or null if there is nothing to undo
+   */
+  undo(current: WeeklySchedule): WeeklySchedule | null {
+    const previous = this._past.pop();
+    if (!previous) {
+      return null;
+    }
+    this._future.push(cloneWeeklySchedule(current));
+    return previous;
+  }
+
+  /**
+   * Re-apply the most recently undone edit
+   *
+   * @param current - Schedule currently displayed (kept for undo)
+   * @returns Next schedule, or null if there is nothing to redo
+   */
+  redo(current: WeeklySchedule): WeeklySchedule | null {
+    const next = this._future.pop();
+    if (!next) {
+      return null;
+    }
+    this._past.push(cloneWeeklySchedule(current));
+    return next;
+  }
+
+  canUndo(): boolean {
+    return this._past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this._future.length > 0;
+  }
+
+  /**
+   * Drop all recorded snapshots
+   * Used when the schedule is reloaded from, or saved to, the device
+   */
+  clear(): void {
+    this._past = [];
+    this._future = [];
+  }
+}
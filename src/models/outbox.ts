@@ -0,0 +1,129 @@
+/**
+ * Offline outbox
+ * Keeps schedules that could not be delivered to an unavailable device, keyed
+ * by climate entity ID and persisted in localStorage so they survive a reload
+ */
+
+import { DayOfWeek, MQTTWeeklySchedule, DAYS_OF_WEEK } from './types';
+import { getStorage, loadJSONObject, saveJSONObject } from '../utils/storage';
+
+/**
+ * localStorage key holding the outbox
+ */
+export const OUTBOX_STORAGE_KEY = 'trvzb-scheduler-card-outbox';
+
+/**
+ * A schedule waiting for its device to come back
+ */
+export interface OutboxEntry {
+  schedule: MQTTWeeklySchedule; // full week as last saved
+  days: DayOfWeek[]; // days still to be sent, in DAYS_OF_WEEK order
+  queuedAt: number; // timestamp of the last queueing (ms)
+}
+
+/**
+ * Queued schedules by climate entity ID
+ */
+export type Outbox = Record<string, OutboxEntry>;
+
+/**
+ * Check that a stored value looks like an outbox entry
+ */
+function isOutboxEntry(value: unknown): value is OutboxEntry {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const entry = value as Partial<OutboxEntry>;
+  return typeof entry.schedule === 'object'
+    && entry.schedule !== null
+    && DAYS_OF_WEEK.every(day => typeof entry.schedule![day] === 'string')
+    && Array.isArray(entry.days)
+    && typeof entry.queuedAt === 'number';
+}
+
+/**
+ * Load the outbox from storage
+ * Malformed storage content is ignored rather than thrown
+ *
+ * @param storage - Storage to read (localStorage by default)
+ * @returns Stored outbox, or an empty one
+ */
+export function loadOutbox(storage: Storage | null = getStorage()): Outbox {
+  const data = loadJSONObject(OUTBOX_STORAGE_KEY, storage);
+  const outbox: Outbox = {};
+  for (const [entityId, value] of Object.entries(data || {})) {
+    if (isOutboxEntry(value)) {
+      outbox[entityId] = {
+        ...value,
+        days: DAYS_OF_WEEK.filter(day => value.days.includes(day)),
+      };
+    }
+  }
+  return outbox;
+}
+
+/**
+ * Persist the outbox, removing the storage key when it is empty
+ *
+ * @param outbox - Outbox to store
+ * @param storage - Storage to write (localStorage by default)
+ */
+export function saveOutbox(outbox: Outbox, storage: Storage | null = getStorage()): void {
+  saveJSONObject(OUTBOX_STORAGE_KEY, outbox, storage);
+}
+
+/**
+ * Queue a schedule for a device and persist it
+ * Days already queued for the device are kept and sent from the new schedule.
+ * Storage is re-read first, so entries other cards or tabs queued for their
+ * own devices in the meantime are kept
+ *
+ * @param outbox - Outbox known to the caller, used when storage is unavailable
+ * @param entityId - Climate entity ID
+ * @param schedule - Full weekly schedule (MQTT format)
+ * @param days - Days that need to be sent
+ * @param now - Current timestamp (ms)
+ * @param storage - Storage to read and write (localStorage by default)
+ * @returns Outbox as stored
+ */
+export function queueSchedule(
+  outbox: Outbox,
+  entityId: string,
+  schedule: MQTTWeeklySchedule,
+  days: readonly DayOfWeek[],
+  now: number = Date.now(),
+  storage: Storage | null = getStorage()
+): Outbox {
+  const current = storage ? loadOutbox(storage) : outbox;
+  const queuedDays = current[entityId]?.days || [];
+  const next = {
+    ...current,
+    [entityId]: {
+      schedule: { ...schedule },
+      days: DAYS_OF_WEEK.filter(day => days.includes(day) || queuedDays.includes(day)),
+      queuedAt: now,
+    },
+  };
+  saveOutbox(next, storage);
+  return next;
+}
+
+/**
+ * Remove a device from the outbox and persist it
+ * Storage is re-read first, so only this device's entry is dropped
+ *
+ * @param outbox - Outbox known to the caller, used when storage is unavailable
+ * @param entityId - Climate entity ID
+ * @param storage - Storage to read and write (localStorage by default)
+ * @returns Outbox as stored
+ */
+export function removeFromOutbox(outbox: Outbox, entityId: string, storage: Storage | null = getStorage()): Outbox {
+  const current = storage ? loadOutbox(storage) : outbox;
+  if (!current[entityId]) {
+    return current;
+  }
+  const next = { ...current };
+  delete next[entityId];
+  saveOutbox(next, storage);
+  return next;
+}
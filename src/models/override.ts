@@ -0,0 +1,86 @@
+/**
+ * Manual override detection
+ * TRVZB only follows its weekly schedule in auto mode. A valve left in another
+ * mode, or with a target set by hand, is not doing what the schedule says.
+ * A valve switched off is left alone on purpose and is not reported.
+ */
+
+/**
+ * HVAC mode in which the TRVZB follows its weekly schedule
+ */
+export const SCHEDULE_HVAC_MODE = 'auto';
+
+/**
+ * HVAC mode of a valve switched off on purpose
+ */
+export const OFF_HVAC_MODE = 'off';
+
+/**
+ * Why the device is not following the schedule
+ * - mode:   hvac_mode is not the schedule (auto) mode
+ * - target: the target temperature differs from the scheduled setpoint
+ */
+export type OverrideReason = 'mode' | 'target';
+
+/**
+ * A detected override and the values it was detected from
+ */
+export interface ScheduleOverride {
+  reasons: OverrideReason[];
+  hvacMode?: string;
+  targetTemp?: number;
+  scheduledTemp?: number;
+}
+
+/**
+ * Current climate state relevant to override detection
+ */
+export interface ClimateState {
+  hvacMode?: string;
+  hvacModes?: string[];
+  targetTemp?: number;
+}
+
+/**
+ * Compare the climate state with the scheduled setpoint
+ *
+ * @param climate - Current hvac mode, supported modes and target temperature
+ * @param scheduledTemp - Setpoint the schedule asks for right now (null if unknown)
+ * @returns Detected override, or null when the device follows the schedule
+ */
+export function detectScheduleOverride(
+  climate: ClimateState,
+  scheduledTemp: number | null
+): ScheduleOverride | null {
+  // A valve switched off does not heat, so neither its mode nor its target matters
+  if (climate.hvacMode === OFF_HVAC_MODE) {
+    return null;
+  }
+
+  const reasons: OverrideReason[] = [];
+
+  // Devices without an auto mode cannot follow a schedule on their own
+  const supportsAuto = !climate.hvacModes || climate.hvacModes.includes(SCHEDULE_HVAC_MODE);
+  if (climate.hvacMode && supportsAuto && climate.hvacMode !== SCHEDULE_HVAC_MODE) {
+    reasons.push('mode');
+  }
+
+  if (
+    scheduledTemp !== null
+    && climate.targetTemp !== undefined
+    && Math.abs(climate.targetTemp - scheduledTemp) > 0.01
+  ) {
+    reasons.push('target');
+  }
+
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  return {
+    reasons,
+    hvacMode: climate.hvacMode,
+    targetTemp: climate.targetTemp,
+    scheduledTemp: scheduledTemp ?? undefined,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Schedule diffing
+ * Compares two weekly schedules transition by transition, keyed on transition time
+ */
+
+import { DayOfWeek, MQTTWeeklySchedule, DAYS_OF_WEEK } from './types';
+import { parseDaySchedule } from './schedule';
+import { compareTime, formatDisplayTime } from '../utils/time';
+
+/**
+ * Kind of change for a single transition time
+ */
+export type TransitionChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * Change of a single transition between two day schedules
+ * Transitions are matched by time; a temperature difference at the same time is a change
+ */
+export interface TransitionChange {
+  type: TransitionChangeType;
+  time: string;
+  before?: number; // temperature in the old schedule (absent when added)
+  after?: number;  // temperature in the new schedule (absent when removed)
+}
+
+/**
+ * Differences for one day of the week
+ */
+export interface DayScheduleDiff {
+  day: DayOfWeek;
+  changed: boolean;
+  changes: TransitionChange[];
+}
+
+/**
+ * Differences for one of several devices saved at once
+ */
+export interface DeviceScheduleDiff {
+  entityId: string;
+  name: string;
+  diff: DayScheduleDiff[];
+}
+
+/**
+ * Diff two day schedule strings in MQTT format
+ * Both sides are parsed first, so formatting differences (ordering, decimals) are ignored
+ *
+ * @param before - Old day schedule string, or null if unknown (everything counts as added)
+ * @param after - New day schedule string
+ * @returns Per-time changes sorted chronologically, including unchanged transitions
+ */
+export function diffDaySchedule(before: string | null, after: string): TransitionChange[] {
+  const beforeTemps = new Map<string, number>();
+  if (before !== null) {
+    for (const t of parseDaySchedule(before).transitions) {
+      beforeTemps.set(t.time, t.temperature);
+    }
+  }
+
+  const afterTemps = new Map<string, number>();
+  for (const t of parseDaySchedule(after).transitions) {
+    afterTemps.set(t.time, t.temperature);
+  }
+
+  const times = new Set([...beforeTemps.keys(), ...afterTemps.keys()]);
+  const changes: TransitionChange[] = [];
+
+  for (const time of times) {
+    const oldTemp = beforeTemps.get(time);
+    const newTemp = afterTemps.get(time);
+
+    if (oldTemp === undefined) {
+      changes.push({ type: 'added', time, after: newTemp });
+    } else if (newTemp === undefined) {
+      changes.push({ type: 'removed', time, before: oldTemp });
+    } else {
+      changes.push({
+        type: oldTemp === newTemp ? 'unchanged' : 'changed',
+        time,
+        before: oldTemp,
+        after: newTemp
+      });
+    }
+  }
+
+  return changes.sort((a, b) => compareTime(a.time, b.time));
+}
+
+/**
+ * Describe a single transition change, e.g. "~ 06:00  21°C → 22°C"
+ *
+ * @param change - Transition change
+ * @param hour12 - Show the time on the 12-hour clock
+ * @returns One-line description prefixed with +, − or ~
+ */
+export function formatTransitionChange(change: TransitionChange, hour12: boolean = false): string {
+  const time = formatDisplayTime(change.time, hour12);
+  switch (change.type) {
+    case 'added':
+      return `+ ${time}  ${change.after}°C`;
+    case 'removed':
+      return `− ${time}  ${change.before}°C`;
+    case 'changed':
+      return `~ ${time}  ${change.before}°C → ${change.after}°C`;
+    default:
+      return `  ${time}  ${change.after}°C`;
+  }
+}
+
+/**
+ * Diff two weekly schedules in MQTT format
+ *
+ * @param before - Schedule currently on the device, or null if it cannot be read
+ * @param after - Schedule about to be published
+ * @returns One entry per day in DAYS_OF_WEEK order
+ */
+export function diffWeeklySchedule(before: MQTTWeeklySchedule | null, after: MQTTWeeklySchedule): DayScheduleDiff[] {
+  return DAYS_OF_WEEK.map(day => {
+    const changes = diffDaySchedule(before ? before[day] : null, after[day]);
+    return {
+      day,
+      changed: changes.some(change => change.type !== 'unchanged'),
+      changes
+    };
+  });
+}
@@ -0,0 +1,218 @@
+/**
+ * Schedule import/export
+ * Converts weekly schedules to and from text formats for backup and sharing:
+ * - json: the MQTTWeeklySchedule object (a Z2M `{"weekly_schedule": {...}}` payload is also accepted on import)
+ * - yaml: one `day: "HH:mm/temp ..."` line per day
+ * - raw:  seven lines of `HH:mm/temp ...` strings, Sunday first (DAYS_OF_WEEK order)
+ */
+
+import { WeeklySchedule, MQTTWeeklySchedule, DAYS_OF_WEEK, DayOfWeek } from './types';
+import { serializeWeeklySchedule } from './schedule';
+
+/**
+ * Supported text formats
+ */
+export type ScheduleExportFormat = 'json' | 'yaml' | 'raw';
+
+/**
+ * Reasons an import can fail (messages are looked up by code in the translations)
+ */
+export type ScheduleImportErrorCode =
+  | 'nothing_to_import'
+  | 'invalid_json'
+  | 'json_not_object'
+  | 'missing_day'
+  | 'invalid_transition'
+  | 'unrecognized_line'
+  | 'wrong_line_count';
+
+/**
+ * Error thrown when imported text cannot be parsed
+ * The message is in English; code and params allow translating it
+ */
+export class ScheduleImportError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ScheduleImportErrorCode,
+    public readonly params: Record<string, string | number> = {}
+  ) {
+    super(message);
+    this.name = 'ScheduleImportError';
+  }
+}
+
+/**
+ * A single transition token in MQTT format, e.g. "06:30/21.5"
+ */
+const TRANSITION_TOKEN = /^\d{2}:\d{2}\/\d+(?:\.\d+)?$/;
+
+/**
+ * Export a weekly schedule as text
+ *
+ * @param schedule - Schedule to export
+ * @param format - Target format
+ * @returns Text representation of the schedule
+ */
+export function exportSchedule(schedule: WeeklySchedule, format: ScheduleExportFormat): string {
+  const mqtt = serializeWeeklySchedule(schedule);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(mqtt, null, 2);
+    case 'yaml':
+      return DAYS_OF_WEEK.map(day => `${day}: "${mqtt[day]}"`).join('\n');
+    case 'raw':
+      return DAYS_OF_WEEK.map(day => mqtt[day]).join('\n');
+  }
+}
+
+/**
+ * Check that a day string consists only of well-formed transition tokens
+ *
+ * @throws ScheduleImportError naming the day and the offending token
+ */
+function assertDayString(day: DayOfWeek, value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ScheduleImportError(`Missing schedule for ${day}`, 'missing_day', { day });
+  }
+
+  const trimmed = value.trim();
+  for (const token of trimmed.split(/\s+/)) {
+    if (!TRANSITION_TOKEN.test(token)) {
+      throw new ScheduleImportError(
+        `Invalid transition "${token}" for ${day}. Expected HH:mm/temperature`,
+        'invalid_transition',
+        { token, day }
+      );
+    }
+  }
+  return trimmed;
+}
+
+/**
+ * Build a complete MQTT schedule from a day-keyed object
+ *
+ * @throws ScheduleImportError if any day is missing or malformed
+ */
+function toMQTTSchedule(source: Record<string, unknown>): MQTTWeeklySchedule {
+  const result = {} as MQTTWeeklySchedule;
+  for (const day of DAYS_OF_WEEK) {
+    result[day] = assertDayString(day, source[day]);
+  }
+  return result;
+}
+
+/**
+ * Parse the JSON format (plain object or Z2M set payload)
+ */
+function parseJSON(text: string): MQTTWeeklySchedule {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ScheduleImportError('Invalid JSON', 'invalid_json');
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ScheduleImportError('JSON must be an object with one entry per day', 'json_not_object');
+  }
+
+  const record = data as Record<string, unknown>;
+  const inner = record.weekly_schedule;
+  if (typeof inner === 'object' && inner !== null) {
+    return toMQTTSchedule(inner as Record<string, unknown>);
+  }
+  return toMQTTSchedule(record);
+}
+
+/**
+ * Parse the YAML format
+ * Supports the flat `day: value` mapping produced by exportSchedule,
+ * optionally nested under a `weekly_schedule:` key, with or without quotes
+ */
+function parseYAML(lines: string[]): MQTTWeeklySchedule {
+  const record: Record<string, unknown> = {};
+
+  for (const line of lines) {
+    const match = line.match(/^\s*([a-z_]+)\s*:\s*(.*?)\s*$/i);
+    if (!match) {
+      throw new ScheduleImportError(`Unrecognized line: ${line.trim()}`, 'unrecognized_line', { line: line.trim() });
+    }
+
+    const key = match[1].toLowerCase();
+    let value = match[2];
+    if (key === 'weekly_schedule' && value === '') {
+      continue;
+    }
+
+    const quoted = value.match(/^(["'])(.*)\1$/);
+    if (quoted) {
+      value = quoted[2];
+    }
+    record[key] = value;
+  }
+
+  return toMQTTSchedule(record);
+}
+
+/**
+ * Parse the raw format (seven schedule strings, Sunday first)
+ */
+function parseRaw(lines: string[]): MQTTWeeklySchedule {
+  if (lines.length !== DAYS_OF_WEEK.length) {
+    throw new ScheduleImportError(
+      `Expected ${DAYS_OF_WEEK.length} lines (Sunday to Saturday), found ${lines.length}`,
+      'wrong_line_count',
+      { expected: DAYS_OF_WEEK.length, found: lines.length }
+    );
+  }
+
+  const record: Record<string, unknown> = {};
+  DAYS_OF_WEEK.forEach((day, index) => {
+    record[day] = lines[index];
+  });
+  return toMQTTSchedule(record);
+}
+
+/**
+ * Detect which format a piece of text is in
+ *
+ * @returns Detected format, or null for empty input
+ */
+export function detectScheduleFormat(text: string): ScheduleExportFormat | null {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed.startsWith('{')) {
+    return 'json';
+  }
+  const firstLine = trimmed.split(/\r?\n/)[0].trim();
+  return TRANSITION_TOKEN.test(firstLine.split(/\s+/)[0]) ? 'raw' : 'yaml';
+}
+
+/**
+ * Parse imported text in any supported format into the MQTT schedule format
+ * The result still needs parseWeeklySchedule and validation before use
+ *
+ * @param text - Imported text
+ * @returns MQTT weekly schedule
+ * @throws ScheduleImportError describing why the text could not be parsed
+ */
+export function parseScheduleImport(text: string): MQTTWeeklySchedule {
+  const format = detectScheduleFormat(text);
+  if (!format) {
+    throw new ScheduleImportError('Nothing to import', 'nothing_to_import');
+  }
+
+  if (format === 'json') {
+    return parseJSON(text);
+  }
+
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, ''))
+    .filter(line => line.trim() !== '' && line.trim() !== '---');
+
+  return format === 'raw' ? parseRaw(lines) : parseYAML(lines);
+}
@@ -0,0 +1,68 @@
+/**
+ * Schedule simplification
+ * Removes transitions that do not change the temperature, so that schedules
+ * edited or imported over time get their transition slots back
+ */
+
+import { DaySchedule, WeeklySchedule, DayOfWeek, DAYS_OF_WEEK } from './types';
+import { sortTransitions, removeDuplicateTransitions } from './schedule';
+
+/**
+ * Result of simplifying a day schedule
+ */
+export interface DaySimplifyResult {
+  schedule: DaySchedule;
+  freedSlots: number; // number of transitions removed
+}
+
+/**
+ * Result of simplifying a weekly schedule
+ */
+export interface WeeklySimplifyResult {
+  schedule: WeeklySchedule;
+  freedSlots: Record<DayOfWeek, number>; // transitions removed per day
+  totalFreed: number; // transitions removed in the whole week
+}
+
+/**
+ * Simplify a day schedule
+ * - Zero-length periods (several transitions at the same time) collapse to the
+ *   first one, the same one that is kept when the schedule is serialized
+ * - Transitions that repeat the previous temperature are removed
+ * The first transition is always kept, and kept transitions keep their IDs.
+ *
+ * @param schedule - Day schedule
+ * @returns Simplified schedule and the number of freed transition slots
+ */
+export function simplifyDaySchedule(schedule: DaySchedule): DaySimplifyResult {
+  // A run of equal temperatures collapses to its first transition, so comparing
+  // with the previous transition is the same as comparing with the previous kept one
+  const simplified = removeDuplicateTransitions(sortTransitions(schedule.transitions))
+    .filter((transition, index, all) => index === 0 || transition.temperature !== all[index - 1].temperature);
+
+  return {
+    schedule: { transitions: simplified },
+    freedSlots: schedule.transitions.length - simplified.length,
+  };
+}
+
+/**
+ * Simplify every day of a weekly schedule
+ *
+ * @param schedule - Weekly schedule
+ * @returns Simplified schedule and freed transition slots per day and in total
+ */
+export function simplifyWeeklySchedule(schedule: WeeklySchedule): WeeklySimplifyResult {
+  const simplified = {} as WeeklySchedule;
+  const freedSlots = {} as Record<DayOfWeek, number>;
+  let totalFreed = 0;
+
+  for (const day of DAYS_OF_WEEK) {
+    const result = simplifyDaySchedule(schedule[day]);
+    simplified[day] = result.freedSlots > 0 ? result.schedule : schedule[day];
+    freedSlots[day] = result.freedSlots;
+    totalFreed += result.freedSlots;
+  }
+
+  return { schedule: simplified, freedSlots, totalFreed };
+}
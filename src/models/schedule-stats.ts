@@ -0,0 +1,136 @@
+/**
+ * Schedule statistics
+ * Heating hours, time-weighted average and setpoint range per day and per week,
+ * computed from the schedule alone (not from what the valve actually did)
+ */
+
+import { WeeklySchedule, DaySchedule, DayOfWeek, DAYS_OF_WEEK, DEFAULT_COMFORT_TEMPERATURE } from './types';
+import { sortTransitions } from './schedule';
+import { timeToMinutes } from '../utils/time';
+
+/**
+ * Maximum number of transitions the TRVZB stores per day
+ */
+export const MAX_TRANSITIONS_PER_DAY = 6;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Statistics for a day or a whole week
+ * Temperatures are null when there is no schedule to compute them from
+ */
+export interface ScheduleStats {
+  comfortHours: number; // hours with a setpoint at or above the comfort threshold
+  averageTemp: number | null; // time-weighted average setpoint (°C)
+  minTemp: number | null; // lowest setpoint in effect (°C)
+  maxTemp: number | null; // highest setpoint in effect (°C)
+  freeSlots: number; // unused transition slots
+  totalSlots: number; // available transition slots
+}
+
+/**
+ * Statistics for each day and for the week as a whole
+ */
+export interface WeeklyScheduleStats {
+  days: Record<DayOfWeek, ScheduleStats>;
+  week: ScheduleStats;
+}
+
+/**
+ * Calculate statistics for a single day
+ *
+ * @param schedule - Day schedule
+ * @param comfortTemp - Comfort threshold (°C)
+ * @param carryOverTemp - Setpoint in effect before the day's first transition
+ *                        (the previous day's last setpoint); defaults to the first transition
+ * @returns Day statistics
+ */
+export function calculateDayStats(
+  schedule: DaySchedule,
+  comfortTemp: number = DEFAULT_COMFORT_TEMPERATURE,
+  carryOverTemp?: number
+): ScheduleStats {
+  const transitions = sortTransitions(schedule.transitions);
+  const freeSlots = Math.max(0, MAX_TRANSITIONS_PER_DAY - transitions.length);
+
+  // Build [start, temperature] segments covering the whole day
+  const segments: Array<{ start: number; temperature: number }> = transitions.map(t => ({
+    start: timeToMinutes(t.time),
+    temperature: t.temperature,
+  }));
+  const leadingTemp = carryOverTemp ?? segments[0]?.temperature;
+  if (leadingTemp !== undefined && (segments.length === 0 || segments[0].start > 0)) {
+    segments.unshift({ start: 0, temperature: leadingTemp });
+  }
+
+  if (segments.length === 0) {
+    return {
+      comfortHours: 0,
+      averageTemp: null,
+      minTemp: null,
+      maxTemp: null,
+      freeSlots,
+      totalSlots: MAX_TRANSITIONS_PER_DAY,
+    };
+  }
+
+  let comfortMinutes = 0;
+  let weightedSum = 0;
+  segments.forEach((segment, index) => {
+    const end = index < segments.length - 1 ? segments[index + 1].start : MINUTES_PER_DAY;
+    const duration = end - segment.start;
+    weightedSum += segment.temperature * duration;
+    if (segment.temperature >= comfortTemp) {
+      comfortMinutes += duration;
+    }
+  });
+
+  const temperatures = segments.map(segment => segment.temperature);
+  return {
+    comfortHours: comfortMinutes / 60,
+    averageTemp: weightedSum / MINUTES_PER_DAY,
+    minTemp: Math.min(...temperatures),
+    maxTemp: Math.max(...temperatures),
+    freeSlots,
+    totalSlots: MAX_TRANSITIONS_PER_DAY,
+  };
+}
+
+/**
+ * Calculate statistics for every day and for the whole week
+ * Each day starts with the previous day's last setpoint, Sunday with Saturday's
+ *
+ * @param schedule - Weekly schedule
+ * @param comfortTemp - Comfort threshold (°C)
+ * @returns Per-day and weekly statistics
+ */
+export function calculateWeeklyStats(
+  schedule: WeeklySchedule,
+  comfortTemp: number = DEFAULT_COMFORT_TEMPERATURE
+): WeeklyScheduleStats {
+  const days = {} as Record<DayOfWeek, ScheduleStats>;
+
+  DAYS_OF_WEEK.forEach((day, index) => {
+    const previous = DAYS_OF_WEEK[(index + DAYS_OF_WEEK.length - 1) % DAYS_OF_WEEK.length];
+    const previousTransitions = sortTransitions(schedule[previous].transitions);
+    const carryOver = previousTransitions[previousTransitions.length - 1]?.temperature;
+    days[day] = calculateDayStats(schedule[day], comfortTemp, carryOver);
+  });
+
+  const all = DAYS_OF_WEEK.map(day => days[day]);
+  const averages = all.map(stats => stats.averageTemp).filter((t): t is number => t !== null);
+  const minimums = all.map(stats => stats.minTemp).filter((t): t is number => t !== null);
+  const maximums = all.map(stats => stats.maxTemp).filter((t): t is number => t !== null);
+
+  return {
+    days,
+    week: {
+      comfortHours: all.reduce((sum, stats) => sum + stats.comfortHours, 0),
+      averageTemp: averages.length > 0 ? averages.reduce((sum, t) => sum + t, 0) / averages.length : null,
+      minTemp: minimums.length > 0 ? Math.min(...minimums) : null,
+      maxTemp: maximums.length > 0 ? Math.max(...maximums) : null,
+      freeSlots: all.reduce((sum, stats) => sum + stats.freeSlots, 0),
+      totalSlots: MAX_TRANSITIONS_PER_DAY * DAYS_OF_WEEK.length,
+    },
+  };
+}
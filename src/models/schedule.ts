@@ -3,8 +3,8 @@
  * Handles conversion between MQTT format and internal representation
  */
 
-import { DaySchedule, Transition, WeeklySchedule, MQTTWeeklySchedule, DayOfWeek } from './types';
-import { compareTime } from '../utils/time';
+import { DaySchedule, Transition, WeeklySchedule, MQTTWeeklySchedule, DayOfWeek, DAYS_OF_WEEK, WeekTime } from './types';
+import { compareTime, timeToMinutes } from '../utils/time';
 
 /**
  * Counter for generating unique transition IDs within a session
@@ -240,3 +240,157 @@ export function removeDuplicateTransitions(transitions: Transition[]): Transitio
 
   return result;
 }
+
+/**
+ * A change to one transition, keyed on its time so it can be repeated on another day
+ * - add:    a new transition
+ * - update: the transition at before.time changes the fields that differ in after
+ * - delete: the transition at before.time is removed
+ */
+export type TransitionEdit =
+  | { type: 'add'; after: Transition }
+  | { type: 'update'; before: Transition; after: Transition }
+  | { type: 'delete'; before: Transition };
+
+/**
+ * Repeat a transition edit on a day schedule
+ * Only the edited fields change, so an update of the temperature keeps the
+ * day's own time and the other way round. Days without a transition at the
+ * edited time, or already at 6 transitions for an add, are left unchanged;
+ * a transition moved or added onto an existing time replaces it.
+ *
+ * @param schedule - Day schedule to edit
+ * @param edit - Edit made on another day
+ * @returns Edited schedule with a midnight transition, sorted
+ */
+export function applyTransitionEdit(schedule: DaySchedule, edit: TransitionEdit): DaySchedule {
+  let transitions = schedule.transitions;
+  let edited: Transition;
+
+  if (edit.type === 'add') {
+    if (transitions.length >= 6) {
+      return schedule;
+    }
+    edited = { ...edit.after, id: generateTransitionId() };
+  } else {
+    const existing = transitions.find(t => t.time === edit.before.time);
+    if (!existing) {
+      return schedule;
+    }
+    transitions = transitions.filter(t => t !== existing);
+    if (edit.type === 'delete') {
+      return ensureMidnightTransition({ transitions });
+    }
+    edited = {
+      ...existing,
+      time: edit.after.time !== edit.before.time ? edit.after.time : existing.time,
+      temperature: edit.after.temperature !== edit.before.temperature ? edit.after.temperature : existing.temperature,
+    };
+  }
+
+  return ensureMidnightTransition({
+    transitions: [...transitions.filter(t => t.time !== edited.time), edited]
+  });
+}
+
+/**
+ * List the days whose MQTT schedule strings differ between two weekly schedules
+ *
+ * @param current - Schedule being edited (MQTT format)
+ * @param baseline - Schedule to compare against (MQTT format)
+ * @returns Days that differ, in DAYS_OF_WEEK order
+ */
+export function getChangedDays(current: MQTTWeeklySchedule, baseline: MQTTWeeklySchedule): DayOfWeek[] {
+  return DAYS_OF_WEEK.filter(day => current[day] !== baseline[day]);
+}
+
+/**
+ * Find the transition in effect at a time of day
+ * The last transition at or before the given time wins
+ *
+ * @param schedule - Day schedule
+ * @param minutes - Minutes since midnight
+ * @returns Index into schedule.transitions, or -1 if none is in effect
+ */
+export function getActiveTransitionIndex(schedule: DaySchedule, minutes: number): number {
+  let activeIndex = -1;
+  let activeMinutes = -1;
+  schedule.transitions.forEach((transition, index) => {
+    const start = timeToMinutes(transition.time);
+    if (start <= minutes && start > activeMinutes) {
+      activeIndex = index;
+      activeMinutes = start;
+    }
+  });
+  return activeIndex;
+}
+
+/**
+ * A scheduled setpoint and the transition that starts it
+ */
+export interface ScheduledSetpoint {
+  day: DayOfWeek;
+  time: string;
+  temperature: number;
+}
+
+/**
+ * An upcoming setpoint, relative to the current day
+ */
+export interface UpcomingSetpoint extends ScheduledSetpoint {
+  daysAhead: number; // 0 = later today, 1 = tomorrow, ...
+}
+
+/**
+ * What the schedule asks for right now and what comes next
+ */
+export interface SetpointSummary {
+  current: ScheduledSetpoint | null;
+  next: UpcomingSetpoint | null;
+}
+
+/**
+ * Summarise the current and next scheduled setpoint
+ * A day without a transition at or before the current time continues the
+ * previous day's last setpoint. The next setpoint is the first later transition
+ * that changes the temperature, looking ahead into the following days if needed.
+ *
+ * @param schedule - Weekly schedule
+ * @param now - Current day and time
+ * @returns Current and next setpoint (null when the schedule has no transitions)
+ */
+export function getSetpointSummary(schedule: WeeklySchedule, now: WeekTime): SetpointSummary {
+  const todayIndex = DAYS_OF_WEEK.indexOf(now.day);
+  const dayAt = (offset: number): DayOfWeek => DAYS_OF_WEEK[(todayIndex + offset + 14) % 7];
+  const sortedDay = (day: DayOfWeek): Transition[] => sortTransitions(schedule[day]?.transitions || []);
+
+  // Current: last transition at or before now, carrying over from earlier days
+  let current: ScheduledSetpoint | null = null;
+  for (let offset = 0; offset >= -7 && !current; offset--) {
+    const day = dayAt(offset);
+    const started = sortedDay(day).filter(t => offset < 0 || timeToMinutes(t.time) <= now.minutes);
+    const last = started[started.length - 1];
+    if (last) {
+      current = { day, time: last.time, temperature: last.temperature };
+    }
+  }
+
+  // Next: first later transition with a different temperature, up to a week ahead
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = dayAt(offset);
+    for (const transition of sortedDay(day)) {
+      const start = timeToMinutes(transition.time);
+      if ((offset === 0 && start <= now.minutes) || (offset === 7 && start > now.minutes)) {
+        continue;
+      }
+      if (!current || transition.temperature !== current.temperature) {
+        return {
+          current,
+          next: { day, time: transition.time, temperature: transition.temperature, daysAhead: offset },
+        };
+      }
+    }
+  }
+
+  return { current, next: null };
+}
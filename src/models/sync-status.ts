@@ -0,0 +1,104 @@
+/**
+ * Per-day sync status
+ * Tracks whether days sent to the device have been confirmed by the day sensors
+ */
+
+import { DayOfWeek, MQTTWeeklySchedule, DAYS_OF_WEEK } from './types';
+
+/**
+ * Sync state of a single day after a save
+ * - pending:   sent, waiting for the sensor to report the new value
+ * - confirmed: the sensor reports the value that was sent
+ * - mismatch:  the sensor reported a different value than was sent
+ * - timed_out: the sensor did not update before the confirmation timeout
+ */
+export type DaySyncState = 'pending' | 'confirmed' | 'mismatch' | 'timed_out';
+
+/**
+ * Sync state for each day that was sent
+ */
+export type SyncStatus = Partial<Record<DayOfWeek, DaySyncState>>;
+
+/**
+ * Start tracking the given days as pending
+ *
+ * @param days - Days that were sent
+ * @param previous - Existing status to carry over for days not sent
+ * @returns Status with the sent days marked pending
+ */
+export function markDaysPending(days: readonly DayOfWeek[], previous: SyncStatus = {}): SyncStatus {
+  const status: SyncStatus = { ...previous };
+  for (const day of days) {
+    status[day] = 'pending';
+  }
+  return status;
+}
+
+/**
+ * Update the sync status from the current sensor states
+ * A day is confirmed as soon as its sensor reports the sent value, even after
+ * a mismatch or timeout. A pending day becomes a mismatch when its sensor
+ * changes to anything other than the value it had when the save was sent.
+ *
+ * @param status - Current sync status
+ * @param expected - Schedule that was sent (MQTT format)
+ * @param before - Sensor states when the save was sent
+ * @param actual - Current sensor states
+ * @returns New sync status (the same object when nothing changed)
+ */
+export function updateSyncStatus(
+  status: SyncStatus,
+  expected: MQTTWeeklySchedule,
+  before: Partial<MQTTWeeklySchedule>,
+  actual: Partial<MQTTWeeklySchedule>
+): SyncStatus {
+  let changed = false;
+  const next: SyncStatus = { ...status };
+
+  for (const day of DAYS_OF_WEEK) {
+    const current = status[day];
+    if (!current || current === 'confirmed') {
+      continue;
+    }
+
+    let state: DaySyncState = current;
+    if (actual[day] === expected[day]) {
+      state = 'confirmed';
+    } else if (current === 'pending' && actual[day] !== undefined && actual[day] !== before[day]) {
+      state = 'mismatch';
+    }
+
+    if (state !== current) {
+      next[day] = state;
+      changed = true;
+    }
+  }
+
+  return changed ? next : status;
+}
+
+/**
+ * Mark all days still pending as timed out
+ *
+ * @param status - Current sync status
+ * @returns New sync status
+ */
+export function markPendingTimedOut(status: SyncStatus): SyncStatus {
+  const next: SyncStatus = { ...status };
+  for (const day of DAYS_OF_WEEK) {
+    if (next[day] === 'pending') {
+      next[day] = 'timed_out';
+    }
+  }
+  return next;
+}
+
+/**
+ * Get the days that the device did not confirm (mismatch or timed out)
+ *
+ * @param status - Current sync status
+ * @returns Unconfirmed days in DAYS_OF_WEEK order
+ */
+export function getUnconfirmedDays(status: SyncStatus): DayOfWeek[] {
+  return DAYS_OF_WEEK.filter(day => status[day] === 'mismatch' || status[day] === 'timed_out');
+}
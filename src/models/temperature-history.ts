@@ -0,0 +1,117 @@
+/**
+ * Recorded temperature history
+ * The climate entity's current_temperature and target temperature attributes,
+ * as recorded by Home Assistant, for one day of the schedule. Used to show
+ * whether a room actually reaches the scheduled setpoint in time.
+ */
+
+import { DayOfWeek, WeekTime, DAYS_OF_WEEK } from './types';
+
+/**
+ * Which occurrence of a weekday to show
+ * - current:  the most recent one (today, or earlier in the last seven days)
+ * - previous: the one a week before that
+ */
+export type HistoryWeek = 'current' | 'previous';
+
+/**
+ * One recorded value, at minutes since the start of the day
+ */
+export interface TemperatureSample {
+  minutes: number;
+  temperature: number;
+}
+
+/**
+ * Recorded temperatures of one day
+ */
+export interface TemperatureHistory {
+  current: TemperatureSample[]; // room temperature (current_temperature)
+  target: TemperatureSample[];  // target temperature of the device
+}
+
+/**
+ * A state in the compressed format of the history/history_during_period
+ * websocket command
+ * - s:  state
+ * - a:  attributes
+ * - lu: last updated, seconds since the epoch
+ */
+export interface CompressedHistoryState {
+  s: string;
+  a?: Record<string, unknown>;
+  lu: number;
+}
+
+/**
+ * Time period of a weekday's history
+ * Days are taken as 24 hours back from the start of today, so a day with a
+ * daylight saving change is off by an hour.
+ *
+ * @param now - Current moment
+ * @param today - Day and minutes of now in the Home Assistant timezone
+ * @param day - Weekday to show
+ * @param week - Most recent occurrence of the day, or the one before
+ * @returns Start of the day and its end (not later than now)
+ */
+export function getHistoryPeriod(
+  now: Date,
+  today: WeekTime,
+  day: DayOfWeek,
+  week: HistoryWeek = 'current'
+): { start: Date; end: Date } {
+  const daysAgo = (DAYS_OF_WEEK.indexOf(today.day) - DAYS_OF_WEEK.indexOf(day) + 7) % 7
+    + (week === 'previous' ? 7 : 0);
+
+  const startOfToday = new Date(now.getTime() - today.minutes * 60_000);
+  startOfToday.setSeconds(0, 0);
+
+  const start = new Date(startOfToday.getTime() - daysAgo * 24 * 60 * 60_000);
+  const end = new Date(Math.min(start.getTime() + 24 * 60 * 60_000, now.getTime()));
+  return { start, end };
+}
+
+/**
+ * Read a temperature attribute, ignoring missing and non-numeric values
+ */
+function readTemperature(attributes: Record<string, unknown> | undefined, key: string): number | null {
+  const value = attributes?.[key];
+  const temperature = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(temperature) ? temperature : null;
+}
+
+/**
+ * Convert recorded states into samples for the chart
+ * States recorded before the start of the day are moved to its start; states
+ * that do not change a temperature are dropped.
+ *
+ * @param states - States of the climate entity, oldest first
+ * @param start - Start of the day
+ * @returns Room and target temperature samples
+ */
+export function parseTemperatureHistory(states: CompressedHistoryState[], start: Date): TemperatureHistory {
+  const history: TemperatureHistory = { current: [], target: [] };
+
+  const add = (samples: TemperatureSample[], minutes: number, temperature: number | null): void => {
+    if (temperature === null) {
+      return;
+    }
+    const last = samples[samples.length - 1];
+    if (last && last.temperature === temperature) {
+      return;
+    }
+    if (last && last.minutes === minutes) {
+      last.temperature = temperature;
+      return;
+    }
+    samples.push({ minutes, temperature });
+  };
+
+  for (const state of states) {
+    const minutes = Math.min(24 * 60, Math.max(0, (state.lu * 1000 - start.getTime()) / 60_000));
+    add(history.current, minutes, readTemperature(state.a, 'current_temperature'));
+    add(history.target, minutes, readTemperature(state.a, 'temperature'));
+  }
+
+  return history;
+}
@@ -2,15 +2,22 @@
 export type DayOfWeek = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
 
 // Ordered array of days of the week - single source of truth for iteration
+// (MQTT and Date.getDay() order; views use getDayOrder for display)
 export const DAYS_OF_WEEK: readonly DayOfWeek[] = [
   'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
 ] as const;
 
+// Days of the weekend, for the weekday/weekend selection presets
+export const WEEKEND_DAYS: readonly DayOfWeek[] = ['saturday', 'sunday'] as const;
+
+// First day of the week when neither the card nor Home Assistant sets one
+export const DEFAULT_FIRST_DAY_OF_WEEK: DayOfWeek = 'monday';
+
 // A single transition (time + temperature)
 export interface Transition {
   id?: string;         // unique identifier for UI tracking (not persisted to MQTT)
   time: string;        // "HH:mm" format (24h)
-  temperature: number; // 4-35°C, 0.5°C steps
+  temperature: number; // within the device's TemperatureLimits (4-35°C, 0.5°C steps by default)
 }
 
 // Schedule for a single day
@@ -29,19 +36,100 @@ export interface WeeklySchedule {
   saturday: DaySchedule;
 }
 
+// A moment within the weekly cycle, in the Home Assistant server timezone
+export interface WeekTime {
+  day: DayOfWeek;
+  minutes: number; // minutes since midnight (0-1439)
+}
+
+// Setpoint limits of a device
+export interface TemperatureLimits {
+  min: number;  // lowest allowed temperature (°C)
+  max: number;  // highest allowed temperature (°C)
+  step: number; // temperature resolution (°C)
+}
+
+// TRVZB hardware limits, used when the climate entity does not report its own
+export const DEFAULT_TEMPERATURE_LIMITS: TemperatureLimits = { min: 4, max: 35, step: 0.5 };
+
+// Comfort threshold for counting heated hours and for the below-comfort lint (°C)
+export const DEFAULT_COMFORT_TEMPERATURE = 20;
+
+// Day schedule text entity overrides: either an entity ID per day, or a template
+// such as "text.kitchen_schedule_{day}" (a string without {day} is used as a prefix)
+export type ScheduleSensorsConfig = string | Partial<Record<DayOfWeek, string>>;
+
+// How schedules are written to the device
+// mqtt: publish a weekly_schedule payload to Zigbee2MQTT
+// text: call text.set_value on each day schedule text entity
+export type WriteMethod = 'mqtt' | 'text';
+
 // Card configuration
 export interface TRVZBSchedulerCardConfig {
   type: string;
-  entity: string;           // climate entity ID
+  entity: string;           // climate entity ID (initially selected device when entities is set)
+  entities?: string[];      // optional list of climate entity IDs to switch between or edit together
   name?: string;            // optional display name
-  view_mode?: 'week' | 'graph'; // default view mode
-  schedule_sensor?: string; // optional override for schedule sensor entity ID
+  view_mode?: ViewMode;     // default view mode
+  schedule_sensors?: ScheduleSensorsConfig; // optional override for the day schedule text entities
+  write_method?: WriteMethod; // how to save schedules (default "mqtt")
+  min_temp?: number;        // optional override for the entity's min_temp
+  max_temp?: number;        // optional override for the entity's max_temp
+  target_temp_step?: number; // optional override for the entity's target_temp_step
+  base_topic?: string;      // Zigbee2MQTT base_topic (default "zigbee2mqtt")
+  device_name?: string;     // Zigbee2MQTT friendly name of the entity's device (default: auto-resolved)
+  comfort_temp?: number;    // setpoint counted as heating in the statistics view (default 20)
+  comfort_cap?: number;     // warn about setpoints above this temperature (default 24)
+  max_jump?: number;        // warn about temperature changes larger than this (default 5)
+  first_day_of_week?: DayOfWeek; // first day shown in the views (default: Home Assistant locale)
 }
 
+// Card view modes
+export type ViewMode = 'week' | 'graph' | 'stats';
+
 // Home Assistant types (simplified)
 export interface HomeAssistant {
   states: Record<string, HassEntity>;
+  entities?: Record<string, HassEntityRegistryEntry>; // entity registry (not available in older HA versions)
+  devices?: Record<string, HassDeviceRegistryEntry>;  // device registry (not available in older HA versions)
+  config?: HassConfig;
+  language?: string;   // user language (older HA versions)
+  locale?: HassLocale; // user profile settings
   callService: (domain: string, service: string, data: Record<string, unknown>) => Promise<void>;
+  callWS?: <T>(message: Record<string, unknown>) => Promise<T>; // websocket command
+}
+
+export interface HassConfig {
+  time_zone?: string; // IANA timezone of the Home Assistant server, e.g. "Europe/Berlin"
+}
+
+export interface HassLocale {
+  language: string;         // e.g. "de" or "en-GB"
+  time_format?: TimeFormat; // clock used to display times
+  first_weekday?: FirstWeekday; // first day of the week in calendars
+}
+
+/**
+ * Home Assistant first weekday setting
+ * "language" follows the user language
+ */
+export type FirstWeekday = 'language' | DayOfWeek;
+
+/**
+ * Home Assistant time format setting
+ * "language" follows the user language, "system" the browser locale
+ */
+export type TimeFormat = 'language' | 'system' | '12' | '24';
+
+export interface HassEntityRegistryEntry {
+  entity_id: string;
+  device_id?: string | null;
+}
+
+export interface HassDeviceRegistryEntry {
+  id: string;
+  name: string | null;         // name given by the integration (the Zigbee2MQTT friendly name)
+  name_by_user?: string | null; // name set in the HA UI, ignored for MQTT topics
 }
 
 export interface HassEntity {
@@ -50,10 +138,50 @@ export interface HassEntity {
   attributes: Record<string, unknown>;
 }
 
+// Validation error codes (messages are looked up by code in the translations)
+export type ValidationErrorCode =
+  | 'invalid_time'             // time is not HH:mm
+  | 'temperature_out_of_range' // temperature outside the limits
+  | 'temperature_off_step'     // temperature not a multiple of the step
+  | 'no_transitions'           // day has no transitions
+  | 'too_many_transitions'     // day has more than 6 transitions
+  | 'first_not_midnight'       // first transition is not at 00:00
+  | 'duplicate_times'          // two transitions at the same time
+  | 'not_chronological';       // transitions out of order
+
+export interface ValidationError {
+  code: ValidationErrorCode;
+  params: Record<string, string | number>; // values for the message placeholders
+  transition?: number; // 1-based position of the transition the error refers to
+  day?: DayOfWeek;     // day the error refers to (weekly validation only)
+}
+
 // Validation result
 export interface ValidationResult {
   valid: boolean;
-  errors: string[];
+  errors: ValidationError[];
+}
+
+// Lint warning: the schedule is valid but probably not what was intended
+export type LintCode =
+  | 'short_interval'       // two transitions less than minInterval apart
+  | 'repeated_temperature' // transition keeps the previous temperature
+  | 'large_jump'           // temperature changes by more than maxJump
+  | 'above_comfort_cap'    // setpoint above comfortCap
+  | 'below_comfort';       // day never reaches comfortTemp
+
+export interface LintWarning {
+  code: LintCode;
+  params: Record<string, string | number>; // values for the message placeholders
+  index?: number; // index of the transition the warning refers to (sorted order)
+}
+
+// Thresholds for schedule lint warnings
+export interface LintOptions {
+  minInterval: number; // shortest sensible interval between transitions (minutes)
+  maxJump: number;     // largest sensible temperature change at one transition (°C)
+  comfortCap: number;  // highest sensible setpoint (°C)
+  comfortTemp: number; // setpoint every day should reach at least once (°C)
 }
 
 // MQTT schedule format (what Z2M expects)
@@ -0,0 +1,117 @@
+/**
+ * Vacation mode
+ * Replaces the week with a flat set-back schedule and keeps a snapshot of the
+ * regular schedule per climate entity in localStorage, so it can be restored
+ * after the trip even if the page was reloaded in between
+ */
+
+import { WeeklySchedule, MQTTWeeklySchedule, DAYS_OF_WEEK } from './types';
+import { getStorage, loadJSONObject, saveJSONObject } from '../utils/storage';
+
+/**
+ * localStorage key holding the vacation snapshots
+ */
+export const VACATION_STORAGE_KEY = 'trvzb-scheduler-card-vacation';
+
+/**
+ * Default set-back temperature while on vacation (°C)
+ */
+export const DEFAULT_VACATION_TEMPERATURE = 15;
+
+/**
+ * Regular schedule saved when vacation mode was started
+ */
+export interface VacationSnapshot {
+  schedule: MQTTWeeklySchedule; // regular schedule to restore
+  temperature: number; // set-back temperature used during the vacation
+  startedAt: number; // timestamp when vacation mode was started (ms)
+}
+
+/**
+ * Vacation snapshots by climate entity ID
+ */
+export type VacationSnapshots = Record<string, VacationSnapshot>;
+
+/**
+ * Check that a stored value looks like a vacation snapshot
+ */
+function isVacationSnapshot(value: unknown): value is VacationSnapshot {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const snapshot = value as Partial<VacationSnapshot>;
+  return typeof snapshot.schedule === 'object'
+    && snapshot.schedule !== null
+    && DAYS_OF_WEEK.every(day => typeof snapshot.schedule![day] === 'string')
+    && typeof snapshot.temperature === 'number'
+    && typeof snapshot.startedAt === 'number';
+}
+
+/**
+ * Create a week that holds one temperature all day, every day
+ *
+ * @param temperature - Set-back temperature (°C)
+ * @returns Weekly schedule with a single midnight transition per day
+ */
+export function createVacationSchedule(temperature: number): WeeklySchedule {
+  const schedule = {} as WeeklySchedule;
+  for (const day of DAYS_OF_WEEK) {
+    schedule[day] = { transitions: [{ time: '00:00', temperature }] };
+  }
+  return schedule;
+}
+
+/**
+ * Load the vacation snapshots from storage
+ * Malformed storage content is ignored rather than thrown
+ *
+ * @param storage - Storage to read (localStorage by default)
+ * @returns Stored snapshots, or none
+ */
+export function loadVacationSnapshots(storage: Storage | null = getStorage()): VacationSnapshots {
+  const data = loadJSONObject(VACATION_STORAGE_KEY, storage);
+  const snapshots: VacationSnapshots = {};
+  for (const [entityId, value] of Object.entries(data || {})) {
+    if (isVacationSnapshot(value)) {
+      snapshots[entityId] = value;
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Persist the vacation snapshots, removing the storage key when there are none
+ *
+ * @param snapshots - Snapshots to store
+ * @param storage - Storage to write (localStorage by default)
+ */
+export function saveVacationSnapshots(snapshots: VacationSnapshots, storage: Storage | null = getStorage()): void {
+  saveJSONObject(VACATION_STORAGE_KEY, snapshots, storage);
+}
+
+/**
+ * Set or clear the snapshot of one climate entity in storage
+ * Storage is re-read first, so snapshots other cards or tabs saved for their
+ * own entities in the meantime are kept
+ *
+ * @param snapshots - Snapshots known to the caller, used when storage is unavailable
+ * @param entityId - Climate entity ID
+ * @param snapshot - New snapshot, or undefined to clear it
+ * @param storage - Storage to read and write (localStorage by default)
+ * @returns Snapshots as stored
+ */
+export function updateVacationSnapshot(
+  snapshots: VacationSnapshots,
+  entityId: string,
+  snapshot: VacationSnapshot | undefined,
+  storage: Storage | null = getStorage()
+): VacationSnapshots {
+  const next = { ...(storage ? loadVacationSnapshots(storage) : snapshots) };
+  if (snapshot) {
+    next[entityId] = snapshot;
+  } else {
+    delete next[entityId];
+  }
+  saveVacationSnapshots(next, storage);
+  return next;
+}
@@ -3,8 +3,43 @@
  * Handles reading/writing TRVZB schedules via Home Assistant and MQTT
  */
 
-import { HomeAssistant, WeeklySchedule, MQTTWeeklySchedule, DAYS_OF_WEEK, DayOfWeek } from '../models/types';
+import { HomeAssistant, WeeklySchedule, MQTTWeeklySchedule, DAYS_OF_WEEK, DayOfWeek, TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS, ScheduleSensorsConfig, WriteMethod } from '../models/types';
 import { parseWeeklySchedule, serializeWeeklySchedule, createEmptyWeeklySchedule } from '../models/schedule';
+import { CompressedHistoryState, TemperatureHistory, parseTemperatureHistory } from '../models/temperature-history';
+import { alignTemperatureLimits } from '../utils/validation';
+
+/**
+ * Reasons a call to Home Assistant can fail (messages are looked up by code in the translations)
+ */
+export type ServiceErrorCode =
+  | 'save_failed'
+  | 'save_day_failed'
+  | 'hvac_mode_failed'
+  | 'temperature_failed'
+  | 'history_failed';
+
+/**
+ * Error thrown when a call to Home Assistant fails
+ * The message is in English; code and params allow translating it. The reason
+ * param is the message of the underlying error, as Home Assistant reported it
+ */
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ServiceErrorCode,
+    public readonly params: Record<string, string | number> = {}
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+/**
+ * Message of a caught error, for the reason param of a ServiceError
+ */
+function getErrorReason(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
 
 /**
  * Invalid sensor states that indicate no valid data is available
@@ -49,6 +84,76 @@ export interface EntityInfo {
   available: boolean;
   currentTemp?: number;
   targetTemp?: number;
+  hvacMode?: string;    // current HVAC mode (the climate entity state)
+  hvacModes?: string[]; // HVAC modes the device supports
+}
+
+/**
+ * Default Zigbee2MQTT base topic
+ */
+export const DEFAULT_BASE_TOPIC = 'zigbee2mqtt';
+
+/**
+ * How to address a device in Zigbee2MQTT (from card config)
+ */
+export interface DeviceOptions {
+  baseTopic?: string;  // Z2M base_topic, defaults to DEFAULT_BASE_TOPIC
+  deviceName?: string; // Z2M friendly name, auto-resolved when not set
+  scheduleSensors?: ScheduleSensorsConfig; // day schedule text entities, derived when not set
+  writeMethod?: WriteMethod; // how to save, defaults to "mqtt"
+}
+
+/**
+ * Convert a name to an entity ID slug the way Home Assistant does
+ * e.g. "Floor1/Kitchen TRV" -> "floor1_kitchen_trv"
+ *
+ * @param name - Device or entity name
+ * @returns Lowercase slug of letters, digits and single underscores
+ */
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Resolve the Zigbee2MQTT friendly name for a climate entity
+ * Order: configured name, the device name from the HA device registry
+ * (Z2M registers devices under their friendly name), then the entity ID slug
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Climate entity ID
+ * @param options - Optional configured device name
+ * @returns Z2M friendly name
+ */
+export function resolveDeviceName(hass: HomeAssistant, entityId: string, options: DeviceOptions = {}): string {
+  if (options.deviceName) {
+    return options.deviceName;
+  }
+
+  const deviceId = hass.entities?.[entityId]?.device_id;
+  const deviceName = deviceId ? hass.devices?.[deviceId]?.name : null;
+  if (deviceName) {
+    return deviceName;
+  }
+
+  return extractFriendlyName(entityId);
+}
+
+/**
+ * Get the MQTT topic used to send commands to a device
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Climate entity ID
+ * @param options - Optional base topic and device name
+ * @returns Topic such as "zigbee2mqtt/Floor1/Kitchen TRV/set"
+ */
+export function getDeviceSetTopic(hass: HomeAssistant, entityId: string, options: DeviceOptions = {}): string {
+  const baseTopic = (options.baseTopic || DEFAULT_BASE_TOPIC).replace(/\/+$/, '');
+  return `${baseTopic}/${resolveDeviceName(hass, entityId, options)}/set`;
 }
 
 /**
@@ -57,11 +162,68 @@ export interface EntityInfo {
  *
  * @param climateEntityId - Climate entity ID (e.g., "climate.living_room_trvzb")
  * @param day - Day of week (e.g., "monday")
+ * @param deviceName - Optional Z2M friendly name to derive the entity ID from instead
  * @returns Text entity ID (e.g., "text.living_room_trvzb_weekly_schedule_monday")
  */
-export function deriveDaySensorEntityId(climateEntityId: string, day: DayOfWeek): string {
-  const deviceName = extractFriendlyName(climateEntityId);
-  return `text.${deviceName}_weekly_schedule_${day}`;
+export function deriveDaySensorEntityId(climateEntityId: string, day: DayOfWeek, deviceName?: string): string {
+  const slug = deviceName ? slugify(deviceName) : extractFriendlyName(climateEntityId);
+  return `text.${slug}_weekly_schedule_${day}`;
+}
+
+/**
+ * Get the configured text entity ID for a day, if any
+ *
+ * @param scheduleSensors - Per-day mapping, "{day}" template or prefix
+ * @param day - Day of week
+ * @returns Configured entity ID, or null when the day is not configured
+ */
+export function getConfiguredDaySensorEntityId(
+  scheduleSensors: ScheduleSensorsConfig | undefined,
+  day: DayOfWeek
+): string | null {
+  if (!scheduleSensors) {
+    return null;
+  }
+
+  if (typeof scheduleSensors === 'string') {
+    return scheduleSensors.includes('{day}')
+      ? scheduleSensors.split('{day}').join(day)
+      : `${scheduleSensors}${day}`;
+  }
+
+  return scheduleSensors[day] || null;
+}
+
+/**
+ * Resolve the day schedule text entity ID for a climate entity
+ * Uses the configured schedule sensors first; otherwise derives it from the
+ * resolved device name, falling back to the climate entity slug when no
+ * sensor exists under the device name
+ *
+ * @param hass - Home Assistant instance
+ * @param climateEntityId - Climate entity ID
+ * @param day - Day of week
+ * @param options - Optional configured device name
+ * @returns Text entity ID
+ */
+export function resolveDaySensorEntityId(
+  hass: HomeAssistant,
+  climateEntityId: string,
+  day: DayOfWeek,
+  options: DeviceOptions = {}
+): string {
+  const configured = getConfiguredDaySensorEntityId(options.scheduleSensors, day);
+  if (configured) {
+    return configured;
+  }
+
+  const fromDeviceName = deriveDaySensorEntityId(climateEntityId, day, resolveDeviceName(hass, climateEntityId, options));
+  const fromEntityId = deriveDaySensorEntityId(climateEntityId, day);
+
+  if (fromDeviceName !== fromEntityId && !(fromDeviceName in hass.states) && fromEntityId in hass.states) {
+    return fromEntityId;
+  }
+  return fromDeviceName;
 }
 
 /**
@@ -78,34 +240,27 @@ export function deriveSensorEntityId(climateEntityId: string): string {
   return `text.${deviceName}_weekly_schedule`;
 }
 
-/**
- * Get the sensor entity ID for reading schedule
- * Uses configured override or derives from climate entity
- *
- * @param climateEntityId - Climate entity ID
- * @param configuredSensor - Optional configured sensor entity ID override
- * @returns Sensor entity ID to use for reading schedule
- */
-export function getSensorEntityId(climateEntityId: string, configuredSensor?: string): string {
-  return configuredSensor || deriveSensorEntityId(climateEntityId);
-}
-
 /**
  * Get the weekly schedule from 7 separate day text entities
  * Reads from the state of each text.{device}_weekly_schedule_{day}
  *
  * @param hass - Home Assistant instance
  * @param climateEntityId - Climate entity ID (e.g., "climate.living_room_trvzb")
+ * @param options - Optional device addressing from card config
  * @returns Weekly schedule or null if not found
  */
-export function getScheduleFromSensor(hass: HomeAssistant, climateEntityId: string): WeeklySchedule | null {
+export function getScheduleFromSensor(
+  hass: HomeAssistant,
+  climateEntityId: string,
+  options: DeviceOptions = {}
+): WeeklySchedule | null {
   try {
     const mqttSchedule: Partial<MQTTWeeklySchedule> = {};
     const missingDays: string[] = [];
 
     // Read each day's schedule from its own sensor
     for (const day of DAYS_OF_WEEK) {
-      const daySensorId = deriveDaySensorEntityId(climateEntityId, day);
+      const daySensorId = resolveDaySensorEntityId(hass, climateEntityId, day, options);
       const sensorEntity = hass.states[daySensorId];
 
       if (!sensorEntity) {
@@ -183,31 +338,92 @@ export function getEntitySchedule(hass: HomeAssistant, entityId: string): Weekly
 }
 
 /**
- * Save a weekly schedule to the device via MQTT
+ * Write changed days to the day schedule text entities via text.set_value
+ * Days whose text entity already holds the new value are skipped
+ * Days are written one at a time so a failure names the day it stopped at
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Climate entity ID
+ * @param mqttSchedule - Schedule to write, in MQTT format
+ * @param days - Days to consider writing
+ * @param options - Optional device addressing
+ * @returns Days that were written
+ * @throws Error naming the day that failed
+ */
+async function writeScheduleToTextEntities(
+  hass: HomeAssistant,
+  entityId: string,
+  mqttSchedule: MQTTWeeklySchedule,
+  days: readonly DayOfWeek[],
+  options: DeviceOptions
+): Promise<DayOfWeek[]> {
+  const written: DayOfWeek[] = [];
+
+  for (const day of days) {
+    const daySensorId = resolveDaySensorEntityId(hass, entityId, day, options);
+    if (hass.states[daySensorId]?.state === mqttSchedule[day]) {
+      continue;
+    }
+
+    try {
+      await hass.callService('text', 'set_value', {
+        entity_id: daySensorId,
+        value: mqttSchedule[day]
+      });
+    } catch (error) {
+      const reason = getErrorReason(error);
+      throw new ServiceError(`${day}: ${reason}`, 'save_day_failed', { day, reason });
+    }
+    written.push(day);
+  }
+
+  return written;
+}
+
+/**
+ * Save a weekly schedule to the device
+ * Publishes via MQTT by default, or writes the day text entities when
+ * options.writeMethod is "text". Only the given days are sent; over MQTT
+ * they go out as one partial weekly_schedule payload
  *
  * @param hass - Home Assistant instance
  * @param entityId - Climate entity ID
  * @param schedule - Weekly schedule to save
- * @throws Error if save fails
+ * @param options - Optional device addressing and write method
+ * @param days - Days to send (defaults to the whole week)
+ * @returns Days that were sent, in DAYS_OF_WEEK order
+ * @throws ServiceError if save fails
  */
 export async function saveSchedule(
   hass: HomeAssistant,
   entityId: string,
-  schedule: WeeklySchedule
-): Promise<void> {
+  schedule: WeeklySchedule,
+  options: DeviceOptions = {},
+  days: readonly DayOfWeek[] = DAYS_OF_WEEK
+): Promise<DayOfWeek[]> {
   try {
-    // Extract device friendly name from entity_id
-    const friendlyName = extractFriendlyName(entityId);
-
     // Serialize the schedule to MQTT format
     const mqttSchedule = serializeWeeklySchedule(schedule);
+    const daysToSend = DAYS_OF_WEEK.filter(day => days.includes(day));
+
+    if (options.writeMethod === 'text') {
+      return await writeScheduleToTextEntities(hass, entityId, mqttSchedule, daysToSend, options);
+    }
 
-    // Construct the MQTT topic
-    const topic = `zigbee2mqtt/${friendlyName}/set`;
+    if (daysToSend.length === 0) {
+      return [];
+    }
+
+    // Construct the MQTT topic from the base topic and device friendly name
+    const topic = getDeviceSetTopic(hass, entityId, options);
 
-    // Prepare the payload
+    // Prepare the payload with just the days being sent
+    const weeklySchedule: Partial<MQTTWeeklySchedule> = {};
+    for (const day of daysToSend) {
+      weeklySchedule[day] = mqttSchedule[day];
+    }
     const payload = JSON.stringify({
-      weekly_schedule: mqttSchedule
+      weekly_schedule: weeklySchedule
     });
 
     // Call mqtt.publish service
@@ -215,12 +431,162 @@ export async function saveSchedule(
       topic: topic,
       payload: payload
     });
+
+    return daysToSend;
   } catch (error) {
     console.error(`Error saving schedule for ${entityId}:`, error);
-    throw new Error(`Failed to save schedule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const message = `Failed to save schedule: ${getErrorReason(error)}`;
+    if (error instanceof ServiceError) {
+      throw new ServiceError(message, error.code, error.params);
+    }
+    throw new ServiceError(message, 'save_failed', { reason: getErrorReason(error) });
+  }
+}
+
+/**
+ * Outcome of saving a schedule to one device
+ */
+export interface SaveResult {
+  entityId: string;
+  success: boolean;
+  days?: DayOfWeek[]; // days sent, when successful
+  queued?: boolean; // device was unavailable, schedule kept in the outbox
+  error?: Error; // why the save failed, usually a ServiceError
+}
+
+/**
+ * Save the same weekly schedule to several devices
+ * Every device is attempted even if others fail
+ *
+ * @param hass - Home Assistant instance
+ * @param entityIds - Climate entity IDs to save to
+ * @param schedule - Weekly schedule to save
+ * @param optionsFor - Device addressing for each entity
+ * @returns One result per entity, in the same order as entityIds
+ */
+export async function saveScheduleToEntities(
+  hass: HomeAssistant,
+  entityIds: string[],
+  schedule: WeeklySchedule,
+  optionsFor: (entityId: string) => DeviceOptions = () => ({})
+): Promise<SaveResult[]> {
+  const outcomes = await Promise.allSettled(
+    entityIds.map(entityId => saveSchedule(hass, entityId, schedule, optionsFor(entityId)))
+  );
+
+  return outcomes.map((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      return { entityId: entityIds[index], success: true, days: outcome.value };
+    }
+    return {
+      entityId: entityIds[index],
+      success: false,
+      error: outcome.reason instanceof Error ? outcome.reason : new Error('Unknown error')
+    };
+  });
+}
+
+/**
+ * Set the HVAC mode of a climate entity
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Climate entity ID
+ * @param hvacMode - Mode to switch to, e.g. "auto"
+ * @throws ServiceError if the service call fails
+ */
+export async function setHvacMode(hass: HomeAssistant, entityId: string, hvacMode: string): Promise<void> {
+  try {
+    await hass.callService('climate', 'set_hvac_mode', {
+      entity_id: entityId,
+      hvac_mode: hvacMode
+    });
+  } catch (error) {
+    console.error(`Error setting HVAC mode for ${entityId}:`, error);
+    const reason = getErrorReason(error);
+    throw new ServiceError(`Failed to set HVAC mode: ${reason}`, 'hvac_mode_failed', { reason });
+  }
+}
+
+/**
+ * Set the target temperature of a climate entity
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Climate entity ID
+ * @param temperature - Target temperature (°C)
+ * @throws ServiceError if the service call fails
+ */
+export async function setTargetTemperature(hass: HomeAssistant, entityId: string, temperature: number): Promise<void> {
+  try {
+    await hass.callService('climate', 'set_temperature', {
+      entity_id: entityId,
+      temperature
+    });
+  } catch (error) {
+    console.error(`Error setting temperature for ${entityId}:`, error);
+    const reason = getErrorReason(error);
+    throw new ServiceError(`Failed to set temperature: ${reason}`, 'temperature_failed', { reason });
+  }
+}
+
+/**
+ * Whether recorder history can be fetched (hass.callWS is not available in
+ * every frontend version)
+ */
+export function canFetchHistory(hass: HomeAssistant | null | undefined): boolean {
+  return typeof hass?.callWS === 'function';
+}
+
+/**
+ * Fetch the recorded room and target temperature of a climate entity
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Climate entity ID
+ * @param start - Start of the period
+ * @param end - End of the period
+ * @returns Temperature samples, in minutes since start
+ * @throws ServiceError if the history cannot be fetched
+ */
+export async function fetchTemperatureHistory(
+  hass: HomeAssistant,
+  entityId: string,
+  start: Date,
+  end: Date
+): Promise<TemperatureHistory> {
+  if (!hass.callWS) {
+    const reason = 'websocket commands are not available';
+    throw new ServiceError(`Failed to fetch history: ${reason}`, 'history_failed', { reason });
+  }
+
+  try {
+    const response = await hass.callWS<Record<string, CompressedHistoryState[]>>({
+      type: 'history/history_during_period',
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      entity_ids: [entityId],
+      minimal_response: false,
+      no_attributes: false,
+      significant_changes_only: false,
+    });
+    return parseTemperatureHistory(response?.[entityId] || [], start);
+  } catch (error) {
+    console.error(`Error fetching history for ${entityId}:`, error);
+    const reason = getErrorReason(error);
+    throw new ServiceError(`Failed to fetch history: ${reason}`, 'history_failed', { reason });
   }
 }
 
+/**
+ * Check if an entity exists and is not unavailable
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Entity ID
+ * @returns True if the entity can currently be reached
+ */
+export function isEntityAvailable(hass: HomeAssistant, entityId: string): boolean {
+  const entity = hass.states[entityId];
+  return !!entity && entity.state !== 'unavailable';
+}
+
 /**
  * Get basic entity information for display
  *
@@ -240,7 +606,7 @@ export function getEntityInfo(hass: HomeAssistant, entityId: string): EntityInfo
     const name = (entity.attributes.friendly_name as string) || entityId;
 
     // Check availability - entity state should not be 'unavailable'
-    const available = entity.state !== 'unavailable';
+    const available = isEntityAvailable(hass, entityId);
 
     // Get current temperature
     const currentTemp = entity.attributes.current_temperature as number | undefined;
@@ -248,11 +614,19 @@ export function getEntityInfo(hass: HomeAssistant, entityId: string): EntityInfo
     // Get target temperature - try multiple attribute names
     const targetTemp = (entity.attributes.temperature || entity.attributes.target_temperature) as number | undefined;
 
+    // The state of a climate entity is its HVAC mode
+    const hvacMode = isInvalidSensorState(entity.state) ? undefined : entity.state;
+    const hvacModes = Array.isArray(entity.attributes.hvac_modes)
+      ? entity.attributes.hvac_modes as string[]
+      : undefined;
+
     return {
       name,
       available,
       currentTemp,
-      targetTemp
+      targetTemp,
+      hvacMode,
+      hvacModes
     };
   } catch (error) {
     console.error(`Error getting entity info for ${entityId}:`, error);
@@ -260,6 +634,46 @@ export function getEntityInfo(hass: HomeAssistant, entityId: string): EntityInfo
   }
 }
 
+/**
+ * Read a positive numeric attribute, ignoring missing or malformed values
+ */
+function readPositiveNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+/**
+ * Get the temperature limits for a climate entity
+ * Reads min_temp, max_temp and target_temp_step from the entity attributes;
+ * overrides (from card config) take precedence, and the TRVZB hardware
+ * limits fill in anything neither provides
+ *
+ * @param hass - Home Assistant instance
+ * @param entityId - Climate entity ID
+ * @param overrides - Optional per-field overrides
+ * @returns Temperature limits on a step, with min < max and a positive step
+ */
+export function getTemperatureLimits(
+  hass: HomeAssistant,
+  entityId: string,
+  overrides: Partial<TemperatureLimits> = {}
+): TemperatureLimits {
+  const attributes = hass.states[entityId]?.attributes || {};
+
+  const limits: TemperatureLimits = {
+    min: readPositiveNumber(overrides.min) ?? readPositiveNumber(attributes.min_temp) ?? DEFAULT_TEMPERATURE_LIMITS.min,
+    max: readPositiveNumber(overrides.max) ?? readPositiveNumber(attributes.max_temp) ?? DEFAULT_TEMPERATURE_LIMITS.max,
+    step: readPositiveNumber(overrides.step) ?? readPositiveNumber(attributes.target_temp_step) ?? DEFAULT_TEMPERATURE_LIMITS.step,
+  };
+
+  if (limits.min >= limits.max) {
+    console.warn(`Invalid temperature limits for ${entityId}: ${limits.min}-${limits.max}°C, using defaults`);
+    return { ...DEFAULT_TEMPERATURE_LIMITS, step: limits.step };
+  }
+
+  return alignTemperatureLimits(limits);
+}
+
 /**
  * Extract device friendly name from climate entity_id
  * Handles "climate.device_name" format
@@ -66,12 +66,178 @@ export const cardStyles = css`
     flex: 1;
   }
 
+  .card-title-group {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+    flex: 1;
+    min-width: 0;
+  }
+
+  .header-status {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 4px 12px;
+    font-size: 13px;
+    color: var(--secondary-text-color);
+  }
+
+  .setpoint-summary {
+    color: var(--primary-text-color);
+    font-weight: 500;
+  }
+
   .card-actions {
     display: flex;
     gap: 6px;
     align-items: center;
   }
 
+  /* Device Selector (multi-entity mode) */
+  .entity-selector {
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    margin-bottom: 12px;
+  }
+
+  .entity-select {
+    padding: 8px 12px;
+    border: 1px solid var(--divider-color);
+    border-radius: 6px;
+    font-size: 14px;
+    background: var(--card-background-color);
+    color: var(--primary-text-color);
+    cursor: pointer;
+  }
+
+  .entity-chips {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 6px;
+  }
+
+  .entity-chip {
+    padding: 4px 10px;
+    border: 1px solid var(--divider-color);
+    border-radius: 16px;
+    background: var(--card-background-color);
+    color: var(--secondary-text-color);
+    font-size: 12px;
+    cursor: pointer;
+    transition: all 0.2s ease;
+  }
+
+  .entity-chip.active {
+    background: var(--primary-color);
+    border-color: var(--primary-color);
+    color: white;
+  }
+
+  .save-results {
+    list-style: none;
+    margin: 0 0 12px;
+    padding: 0;
+    font-size: 13px;
+  }
+
+  .save-result.success {
+    color: var(--success-color, #4caf50);
+  }
+
+  .save-result.failed {
+    color: var(--error-color);
+  }
+
+  .save-result.queued {
+    color: var(--warning-color, #ff9800);
+  }
+
+  /* Manual Override Banner */
+  .override-banner {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    justify-content: space-between;
+    gap: 8px;
+  }
+
+  .override-actions {
+    display: flex;
+    gap: 6px;
+  }
+
+  .override-actions .button {
+    padding: 4px 12px;
+    font-size: 12px;
+  }
+
+  /* Vacation Mode */
+  .vacation-banner {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    justify-content: space-between;
+    gap: 8px;
+  }
+
+  .vacation-banner .button {
+    padding: 4px 12px;
+    font-size: 12px;
+  }
+
+  .vacation-indicator {
+    color: var(--info-color, #2196f3);
+    font-weight: 500;
+  }
+
+  /* Offline Outbox */
+  .outbox-badge {
+    display: inline-flex;
+    align-items: center;
+    padding: 2px 8px;
+    border-radius: 12px;
+    background: var(--warning-color, #ff9800);
+    color: white;
+    font-size: 12px;
+    font-weight: 500;
+    white-space: nowrap;
+  }
+
+  /* Per-day Sync Status */
+  .sync-status {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 6px;
+    margin-bottom: 12px;
+  }
+
+  .sync-day {
+    padding: 2px 8px;
+    border: 1px solid var(--divider-color);
+    border-radius: 12px;
+    font-size: 12px;
+    text-transform: capitalize;
+    color: var(--secondary-text-color);
+  }
+
+  .sync-day.confirmed {
+    border-color: var(--success-color, #4caf50);
+    color: var(--success-color, #4caf50);
+  }
+
+  .sync-day.mismatch,
+  .sync-day.timed-out {
+    border-color: var(--error-color);
+    color: var(--error-color);
+  }
+
+  .retry-sync-button {
+    padding: 4px 12px;
+    font-size: 12px;
+  }
+
   /* View Mode Toggle */
   .view-toggle {
     display: flex;
@@ -501,6 +667,11 @@ export const cardStyles = css`
     color: white;
   }
 
+  .button-icon.active {
+    border-color: var(--primary-color);
+    color: var(--primary-color);
+  }
+
   /* Save Button with Loading State */
   .save-button {
     padding: 8px 16px;
@@ -923,6 +1094,16 @@ export const editorStyles = css`
     line-height: 1.4;
   }
 
+  .editor-inline {
+    display: flex;
+    gap: 8px;
+  }
+
+  .editor-inline .editor-input {
+    flex: 1;
+    min-width: 0;
+  }
+
   .editor-error {
     color: var(--error-color);
     font-size: 12px;
@@ -0,0 +1,63 @@
+/**
+ * Browser storage utilities
+ * Small JSON wrappers around localStorage that never throw, so the card keeps
+ * working when storage is disabled, full or contains stale data
+ */
+
+/**
+ * Get localStorage if the browser allows access to it
+ */
+export function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read and parse a JSON object from storage
+ *
+ * @param key - Storage key
+ * @param storage - Storage to read (localStorage by default)
+ * @returns Parsed object, or null if missing or not a JSON object
+ */
+export function loadJSONObject(key: string, storage: Storage | null = getStorage()): Record<string, unknown> | null {
+  const raw = storage?.getItem(key);
+  if (!raw) {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return null;
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Store a JSON object, removing the key when the object is empty
+ *
+ * @param key - Storage key
+ * @param value - Object to store
+ * @param storage - Storage to write (localStorage by default)
+ */
+export function saveJSONObject(key: string, value: object, storage: Storage | null = getStorage()): void {
+  if (!storage) {
+    return;
+  }
+  try {
+    if (Object.keys(value).length === 0) {
+      storage.removeItem(key);
+    } else {
+      storage.setItem(key, JSON.stringify(value));
+    }
+  } catch (error) {
+    console.error(`Failed to store ${key}:`, error);
+  }
+}
@@ -1,17 +1,110 @@
 /**
  * Time utilities for TRVZB Scheduler Card
- * All functions work with HH:mm format (24-hour)
+ * All functions work with HH:mm format (24-hour); only the display
+ * helpers produce 12-hour times
  */
 
+import { DayOfWeek, WeekTime, DAYS_OF_WEEK, WEEKEND_DAYS, DEFAULT_FIRST_DAY_OF_WEEK, HassLocale } from '../models/types';
+
 /**
- * Format hours and minutes to HH:mm string
+ * Half of the day on a 12-hour clock
  */
-export function formatTime(hours: number, minutes: number): string {
-  const h = hours.toString().padStart(2, '0');
+export type DayPeriod = 'AM' | 'PM';
+
+/**
+ * Format hours and minutes to HH:mm string, or to h:mm AM/PM for display
+ *
+ * @param hours - Hours (0-23)
+ * @param minutes - Minutes (0-59)
+ * @param hour12 - Use the 12-hour clock, e.g. "7:00 PM"
+ */
+export function formatTime(hours: number, minutes: number, hour12: boolean = false): string {
   const m = minutes.toString().padStart(2, '0');
+  if (hour12) {
+    const { hours: h, period } = to12Hour(hours);
+    return `${h}:${m} ${period}`;
+  }
+  const h = hours.toString().padStart(2, '0');
   return `${h}:${m}`;
 }
 
+/**
+ * Format an HH:mm time for display
+ * Times that cannot be parsed are returned unchanged
+ *
+ * @param time - Time in HH:mm format
+ * @param hour12 - Use the 12-hour clock
+ */
+export function formatDisplayTime(time: string, hour12: boolean = false): string {
+  if (!hour12) {
+    return time;
+  }
+  try {
+    const { hours, minutes } = parseTime(time);
+    return formatTime(hours, minutes, true);
+  } catch {
+    return time;
+  }
+}
+
+/**
+ * Compact hour label for chart axes, e.g. "6" or "6a"
+ *
+ * @param hour - Hour (0-24, where 24 is the end of the day)
+ * @param hour12 - Use the 12-hour clock
+ */
+export function formatHourLabel(hour: number, hour12: boolean = false): string {
+  if (!hour12) {
+    return hour.toString();
+  }
+  const { hours, period } = to12Hour(hour % 24);
+  return `${hours}${period === 'AM' ? 'a' : 'p'}`;
+}
+
+/**
+ * Convert 24-hour hours to the 12-hour clock
+ * 0 is 12 AM (midnight) and 12 is 12 PM (noon)
+ */
+export function to12Hour(hours: number): { hours: number; period: DayPeriod } {
+  return {
+    hours: hours % 12 === 0 ? 12 : hours % 12,
+    period: hours < 12 ? 'AM' : 'PM',
+  };
+}
+
+/**
+ * Convert 12-hour clock hours back to 24-hour hours
+ * 12 AM is 0 and 12 PM is 12
+ */
+export function from12Hour(hours: number, period: DayPeriod): number {
+  return (hours % 12) + (period === 'PM' ? 12 : 0);
+}
+
+/**
+ * Whether times should be displayed on the 12-hour clock
+ * Follows the Home Assistant time format setting. Without locale settings
+ * (older Home Assistant versions) times are shown on the 24-hour clock.
+ *
+ * @param locale - hass.locale
+ * @returns True for the 12-hour clock
+ */
+export function uses12HourClock(locale?: HassLocale | null): boolean {
+  if (!locale) {
+    return false;
+  }
+  if (locale.time_format === '12' || locale.time_format === '24') {
+    return locale.time_format === '12';
+  }
+  const language = locale.time_format === 'system' ? undefined : locale.language;
+  try {
+    const hourCycle = new Intl.DateTimeFormat(language, { hour: 'numeric' }).resolvedOptions().hourCycle;
+    return hourCycle === 'h11' || hourCycle === 'h12';
+  } catch {
+    // Unknown language tag
+    return false;
+  }
+}
+
 /**
  * Parse HH:mm string to hours and minutes
  * @throws Error if time format is invalid
@@ -85,3 +178,117 @@ export function generateTimeOptions(stepMinutes: number = 15): string[] {
 
   return options;
 }
+
+/**
+ * Cached formatters by timezone (creating Intl formatters is comparatively slow)
+ */
+const weekTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the day of week and minutes since midnight of a date in a timezone
+ * Falls back to the browser timezone when none is given or it is not recognized
+ *
+ * @param date - Moment to convert
+ * @param timeZone - IANA timezone, e.g. hass.config.time_zone
+ * @returns Day and minutes in that timezone
+ */
+export function getWeekTime(date: Date, timeZone?: string): WeekTime {
+  if (timeZone) {
+    try {
+      let formatter = weekTimeFormatters.get(timeZone);
+      if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone,
+          weekday: 'long',
+          hour: '2-digit',
+          minute: '2-digit',
+          hourCycle: 'h23',
+        });
+        weekTimeFormatters.set(timeZone, formatter);
+      }
+
+      const parts: Record<string, string> = {};
+      for (const part of formatter.formatToParts(date)) {
+        parts[part.type] = part.value;
+      }
+      const day = parts.weekday.toLowerCase() as DayOfWeek;
+      if (DAYS_OF_WEEK.includes(day)) {
+        return { day, minutes: (parseInt(parts.hour, 10) % 24) * 60 + parseInt(parts.minute, 10) };
+      }
+    } catch {
+      // Unknown timezone - use the browser clock below
+    }
+  }
+
+  return { day: DAYS_OF_WEEK[date.getDay()], minutes: date.getHours() * 60 + date.getMinutes() };
+}
+
+/**
+ * Days of the week in display order
+ *
+ * @param firstDay - Day the week starts on
+ * @returns All seven days, starting with firstDay
+ */
+export function getDayOrder(firstDay: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK): DayOfWeek[] {
+  const start = DAYS_OF_WEEK.indexOf(firstDay);
+  return DAYS_OF_WEEK.map((_, index) => DAYS_OF_WEEK[(start + index) % DAYS_OF_WEEK.length]);
+}
+
+/**
+ * Sort days into display order
+ *
+ * @param days - Days in any order
+ * @param firstDay - Day the week starts on
+ */
+export function sortDays(days: readonly DayOfWeek[], firstDay: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK): DayOfWeek[] {
+  return getDayOrder(firstDay).filter(day => days.includes(day));
+}
+
+/**
+ * Monday to Friday in display order
+ */
+export function getWeekdays(firstDay: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK): DayOfWeek[] {
+  return getDayOrder(firstDay).filter(day => !WEEKEND_DAYS.includes(day));
+}
+
+/**
+ * Saturday and Sunday in display order
+ */
+export function getWeekendDays(firstDay: DayOfWeek = DEFAULT_FIRST_DAY_OF_WEEK): DayOfWeek[] {
+  return sortDays(WEEKEND_DAYS, firstDay);
+}
+
+/**
+ * Get the first day of the week
+ * The card option wins, then the Home Assistant first weekday setting; for
+ * "language" the first day is taken from the locale data of the user language
+ *
+ * @param configured - first_day_of_week card option
+ * @param locale - hass.locale
+ * @returns Day the week starts on
+ */
+export function resolveFirstDayOfWeek(configured?: DayOfWeek, locale?: HassLocale | null): DayOfWeek {
+  if (configured && DAYS_OF_WEEK.includes(configured)) {
+    return configured;
+  }
+  const weekday = locale?.first_weekday;
+  if (weekday && weekday !== 'language' && DAYS_OF_WEEK.includes(weekday)) {
+    return weekday;
+  }
+  if (locale?.language) {
+    try {
+      // weekInfo is a getter in some engines and getWeekInfo() in others; 1 is Monday, 7 is Sunday
+      const intlLocale = new Intl.Locale(locale.language) as Intl.Locale & {
+        weekInfo?: { firstDay: number };
+        getWeekInfo?: () => { firstDay: number };
+      };
+      const firstDay = (intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo)?.firstDay;
+      if (firstDay) {
+        return DAYS_OF_WEEK[firstDay % 7];
+      }
+    } catch {
+      // Unknown language tag or no week data
+    }
+  }
+  return DEFAULT_FIRST_DAY_OF_WEEK;
+}
@@ -1,10 +1,14 @@
 /**
  * Validation utilities for TRVZB schedules
- * Implements all validation rules from the design document
+ * Implements all validation rules from the design document, plus lint
+ * warnings for schedules that are valid but probably not intended.
+ * Errors and warnings carry a code and parameters; the messages come from
+ * the translations (see localize/localize.ts).
  */
 
-import { Transition, DaySchedule, WeeklySchedule, ValidationResult, DayOfWeek } from '../models/types';
-import { parseTime } from './time';
+import { Transition, DaySchedule, WeeklySchedule, ValidationResult, ValidationError, DayOfWeek, TemperatureLimits, DEFAULT_TEMPERATURE_LIMITS, LintOptions, LintWarning, DAYS_OF_WEEK, DEFAULT_COMFORT_TEMPERATURE } from '../models/types';
+import { sortTransitions } from '../models/schedule';
+import { parseTime, timeToMinutes } from './time';
 
 /**
  * Check if a time string is valid HH:mm format
@@ -19,36 +23,81 @@ export function isValidTime(time: string): boolean {
 }
 
 /**
- * Check if temperature is valid (4-35°C, 0.5°C steps)
+ * Check if temperature is within range
+ * Defaults to the TRVZB hardware limits (4-35°C)
  */
-export function isValidTemperature(temp: number): boolean {
-  // Check range
-  if (temp < 4 || temp > 35) {
-    return false;
-  }
+export function isTemperatureInRange(temp: number, limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS): boolean {
+  return temp >= limits.min && temp <= limits.max;
+}
+
+/**
+ * Check if temperature is a whole multiple of the step
+ * Tolerates floating point noise (e.g. 0.1 steps)
+ */
+function isOnStep(temp: number, step: number): boolean {
+  const steps = temp / step;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+}
+
+/**
+ * Check if temperature is valid (in range and on a step)
+ * Defaults to the TRVZB hardware limits (4-35°C, 0.5°C steps)
+ */
+export function isValidTemperature(temp: number, limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS): boolean {
+  return isTemperatureInRange(temp, limits) && isOnStep(temp, limits.step);
+}
+
+/**
+ * Move limits that are not on a step inwards to the nearest step
+ * Steps count from 0, like the slider values and isValidTemperature, so a
+ * min_temp of 4.2 with 0.5 steps becomes 4.5. Limits closer together than a
+ * step are returned unchanged.
+ */
+export function alignTemperatureLimits(limits: TemperatureLimits): TemperatureLimits {
+  const min = parseFloat((Math.ceil(limits.min / limits.step - 1e-9) * limits.step).toFixed(4));
+  const max = parseFloat((Math.floor(limits.max / limits.step + 1e-9) * limits.step).toFixed(4));
+  return min < max ? { ...limits, min, max } : limits;
+}
+
+/**
+ * Clamp a temperature to the limits and round it to the nearest step
+ */
+export function clampTemperature(temp: number, limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS): number {
+  const clamped = Math.max(limits.min, Math.min(limits.max, temp));
 
-  // Check 0.5°C steps (multiply by 2 to check if it's a whole number)
-  const doubled = temp * 2;
-  return Number.isInteger(doubled);
+  // Round to the step, trimming floating point noise from the multiplication
+  const rounded = parseFloat((Math.round(clamped / limits.step) * limits.step).toFixed(4));
+
+  // Rounding can step outside limits that are not themselves on a step
+  return Math.max(limits.min, Math.min(limits.max, rounded));
 }
 
 /**
  * Validate a single transition
  */
-export function validateTransition(transition: Transition): ValidationResult {
-  const errors: string[] = [];
+export function validateTransition(
+  transition: Transition,
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS
+): ValidationResult {
+  const errors: ValidationError[] = [];
 
   // Validate time format
   if (!isValidTime(transition.time)) {
-    errors.push(`Invalid time format: ${transition.time}. Expected HH:mm (00:00 - 23:59)`);
+    errors.push({ code: 'invalid_time', params: { time: transition.time } });
   }
 
   // Validate temperature
-  if (!isValidTemperature(transition.temperature)) {
-    if (transition.temperature < 4 || transition.temperature > 35) {
-      errors.push(`Temperature ${transition.temperature}°C is out of range. Must be 4-35°C`);
+  if (!isValidTemperature(transition.temperature, limits)) {
+    if (!isTemperatureInRange(transition.temperature, limits)) {
+      errors.push({
+        code: 'temperature_out_of_range',
+        params: { temperature: transition.temperature, min: limits.min, max: limits.max },
+      });
     } else {
-      errors.push(`Temperature ${transition.temperature}°C is invalid. Must be in 0.5°C steps`);
+      errors.push({
+        code: 'temperature_off_step',
+        params: { temperature: transition.temperature, step: limits.step },
+      });
     }
   }
 
@@ -61,41 +110,42 @@ export function validateTransition(transition: Transition): ValidationResult {
 /**
  * Validate a day schedule
  */
-export function validateDaySchedule(schedule: DaySchedule): ValidationResult {
-  const errors: string[] = [];
+export function validateDaySchedule(
+  schedule: DaySchedule,
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS
+): ValidationResult {
+  const errors: ValidationError[] = [];
   const transitions = schedule.transitions;
 
   // Check minimum transitions
   if (transitions.length === 0) {
-    errors.push('Day schedule must have at least 1 transition');
+    errors.push({ code: 'no_transitions', params: {} });
     return { valid: false, errors };
   }
 
   // Check maximum transitions
   if (transitions.length > 6) {
-    errors.push(`Too many transitions: ${transitions.length}. Maximum is 6 per day`);
+    errors.push({ code: 'too_many_transitions', params: { count: transitions.length, max: 6 } });
   }
 
   // Check first transition is at 00:00
   if (transitions[0].time !== '00:00') {
-    errors.push(`First transition must be at 00:00, found ${transitions[0].time}`);
+    errors.push({ code: 'first_not_midnight', params: { time: transitions[0].time } });
   }
 
   // Validate each transition
   transitions.forEach((transition, index) => {
-    const result = validateTransition(transition);
-    if (!result.valid) {
-      result.errors.forEach(error => {
-        errors.push(`Transition ${index + 1}: ${error}`);
-      });
-    }
+    const result = validateTransition(transition, limits);
+    result.errors.forEach(error => {
+      errors.push({ ...error, transition: index + 1 });
+    });
   });
 
   // Check for duplicate times
   const times = transitions.map(t => t.time);
   const uniqueTimes = new Set(times);
   if (times.length !== uniqueTimes.size) {
-    errors.push('Duplicate transition times found. Each time must be unique');
+    errors.push({ code: 'duplicate_times', params: {} });
   }
 
   // Check chronological order
@@ -113,7 +163,7 @@ export function validateDaySchedule(schedule: DaySchedule): ValidationResult {
     const currMinutes = currH * 60 + currM;
 
     if (currMinutes <= prevMinutes) {
-      errors.push(`Transitions must be in chronological order: ${prevTime} should come before ${currTime}`);
+      errors.push({ code: 'not_chronological', params: { previous: prevTime, time: currTime } });
     }
   }
 
@@ -126,19 +176,18 @@ export function validateDaySchedule(schedule: DaySchedule): ValidationResult {
 /**
  * Validate a weekly schedule
  */
-export function validateWeeklySchedule(schedule: WeeklySchedule): ValidationResult {
-  const errors: string[] = [];
-  const days: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-
-  days.forEach(day => {
+export function validateWeeklySchedule(
+  schedule: WeeklySchedule,
+  limits: TemperatureLimits = DEFAULT_TEMPERATURE_LIMITS
+): ValidationResult {
+  const errors: ValidationError[] = [];
+  DAYS_OF_WEEK.forEach(day => {
     const daySchedule = schedule[day];
-    const result = validateDaySchedule(daySchedule);
+    const result = validateDaySchedule(daySchedule, limits);
 
-    if (!result.valid) {
-      result.errors.forEach(error => {
-        errors.push(`${day.charAt(0).toUpperCase() + day.slice(1)}: ${error}`);
-      });
-    }
+    result.errors.forEach(error => {
+      errors.push({ ...error, day });
+    });
   });
 
   return {
@@ -146,3 +195,97 @@ export function validateWeeklySchedule(schedule: WeeklySchedule): ValidationResu
     errors
   };
 }
+
+/**
+ * Default lint thresholds
+ */
+export const DEFAULT_LINT_OPTIONS: LintOptions = {
+  minInterval: 15,
+  maxJump: 5,
+  comfortCap: 24,
+  comfortTemp: DEFAULT_COMFORT_TEMPERATURE,
+};
+
+/**
+ * Lint a day schedule
+ * Warnings point out schedules that are valid but probably not intended.
+ * They never make a schedule invalid, so they must not block saving.
+ *
+ * @param schedule - Day schedule
+ * @param options - Lint thresholds (missing ones use DEFAULT_LINT_OPTIONS)
+ * @returns Warnings in transition order, the day-wide comfort warning last
+ */
+export function lintDaySchedule(
+  schedule: DaySchedule,
+  options: Partial<LintOptions> = {}
+): LintWarning[] {
+  const { minInterval, maxJump, comfortCap, comfortTemp } = { ...DEFAULT_LINT_OPTIONS, ...options };
+  const warnings: LintWarning[] = [];
+  const transitions = sortTransitions(schedule.transitions);
+
+  transitions.forEach((transition, index) => {
+    if (transition.temperature > comfortCap) {
+      warnings.push({
+        code: 'above_comfort_cap',
+        params: { time: transition.time, temperature: transition.temperature, cap: comfortCap },
+        index,
+      });
+    }
+
+    const previous = transitions[index - 1];
+    if (!previous || !isValidTime(previous.time) || !isValidTime(transition.time)) {
+      return;
+    }
+
+    const interval = timeToMinutes(transition.time) - timeToMinutes(previous.time);
+    if (interval > 0 && interval < minInterval) {
+      warnings.push({
+        code: 'short_interval',
+        params: { time: transition.time, interval, previous: previous.time },
+        index,
+      });
+    }
+
+    const jump = Math.abs(transition.temperature - previous.temperature);
+    if (jump === 0) {
+      warnings.push({
+        code: 'repeated_temperature',
+        params: { time: transition.time, temperature: transition.temperature, previous: previous.time },
+        index,
+      });
+    } else if (jump > maxJump) {
+      warnings.push({
+        code: 'large_jump',
+        params: { time: transition.time, jump: Math.round(jump * 10) / 10, max: maxJump },
+        index,
+      });
+    }
+  });
+
+  if (transitions.length > 0 && transitions.every(t => t.temperature < comfortTemp)) {
+    warnings.push({
+      code: 'below_comfort',
+      params: { comfort: comfortTemp },
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Lint a weekly schedule
+ *
+ * @param schedule - Weekly schedule
+ * @param options - Lint thresholds (missing ones use DEFAULT_LINT_OPTIONS)
+ * @returns Warnings for each day
+ */
+export function lintWeeklySchedule(
+  schedule: WeeklySchedule,
+  options: Partial<LintOptions> = {}
+): Record<DayOfWeek, LintWarning[]> {
+  const warnings = {} as Record<DayOfWeek, LintWarning[]>;
+  for (const day of DAYS_OF_WEEK) {
+    warnings[day] = lintDaySchedule(schedule[day], options);
+  }
+  return warnings;
+}
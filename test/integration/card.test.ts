@@ -6,6 +6,7 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TRVZBSchedulerCard } from '../../src/card';
 import { HomeAssistant, DayOfWeek, WeeklySchedule } from '../../src/models/types';
+import { parseWeeklySchedule, parseDaySchedule, serializeWeeklySchedule } from '../../src/models/schedule';
 import {
   createTestScenario,
   createMockHass,
@@ -16,8 +17,11 @@ import {
   createMockSchedule,
   MockServiceCallRecorder,
   SAMPLE_ENTITY_ID,
+  SAMPLE_WEEKLY_SCHEDULE,
   TestScenario
 } from '../mocks/hass-mock';
+import { loadOutbox, saveOutbox, queueSchedule, OUTBOX_STORAGE_KEY } from '../../src/models/outbox';
+import { loadVacationSnapshots, saveVacationSnapshots } from '../../src/models/vacation';
 
 /**
  * Helper: Create and mount card element to DOM
@@ -67,6 +71,17 @@ function dispatchCustomEvent<T = any>(
   return target.dispatchEvent(event);
 }
 
+/**
+ * Helper: Click the save button and confirm the pre-save diff dialog
+ */
+async function clickSaveAndConfirm(card: TRVZBSchedulerCard): Promise<void> {
+  queryShadow<HTMLButtonElement>(card, '.save-button')!.click();
+  await card.updateComplete;
+  const dialog = queryShadow(card, 'save-diff-dialog') as HTMLElement & { updateComplete: Promise<boolean> };
+  await dialog.updateComplete;
+  dialog.shadowRoot!.querySelector<HTMLButtonElement>('.confirm-save-button')!.click();
+}
+
 describe('TRVZBSchedulerCard - Integration Tests', () => {
   let card: TRVZBSchedulerCard;
   let scenario: TestScenario;
@@ -84,6 +99,9 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
     if (card && card.parentNode) {
       card.parentNode.removeChild(card);
     }
+
+    // Drop schedules a test left in the outbox
+    localStorage.clear();
   });
 
   describe('Card Initialization', () => {
@@ -762,8 +780,7 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
       await waitForUpdate(card);
 
       // Click save
-      const saveButton = queryShadow<HTMLButtonElement>(card, '.save-button');
-      saveButton!.click();
+      await clickSaveAndConfirm(card);
 
       // Wait for async operation
       await waitForUpdate(card);
@@ -788,8 +805,7 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
       await waitForUpdate(card);
 
       // Save
-      const saveButton = queryShadow<HTMLButtonElement>(card, '.save-button');
-      saveButton!.click();
+      await clickSaveAndConfirm(card);
       await waitForUpdate(card);
       await new Promise(resolve => setTimeout(resolve, 10));
 
@@ -814,16 +830,64 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
       await waitForUpdate(card);
 
       // Save
-      const saveButton = queryShadow<HTMLButtonElement>(card, '.save-button');
-      saveButton!.click();
+      await clickSaveAndConfirm(card);
       await waitForUpdate(card);
       await new Promise(resolve => setTimeout(resolve, 10));
 
       const lastCall = scenario.recorder.getLastCall();
       const payload = JSON.parse(lastCall?.data.payload as string);
       expect(payload).toHaveProperty('weekly_schedule');
-      expect(payload.weekly_schedule).toHaveProperty('monday');
-      expect(payload.weekly_schedule).toHaveProperty('sunday');
+      expect(payload.weekly_schedule).toEqual({ monday: '00:00/20' });
+    });
+
+    it('should send only the days changed since loading', async () => {
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      const view = queryShadow(card, 'schedule-graph-view')!;
+
+      dispatchCustomEvent(view, 'schedule-changed', {
+        day: 'tuesday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 19 }] }
+      });
+      dispatchCustomEvent(view, 'schedule-changed', {
+        day: 'saturday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 17 }] }
+      });
+      await waitForUpdate(card);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(Object.keys(payload.weekly_schedule)).toEqual(['tuesday', 'saturday']);
+      expect(queryShadow(card, '.save-feedback')!.textContent).toContain('Sent Tuesday, Saturday');
+    });
+
+    it('should not resend a day edited back to its loaded value', async () => {
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      const view = queryShadow(card, 'schedule-graph-view')!;
+      const originalMonday = (card as any)._schedule.monday;
+
+      dispatchCustomEvent(view, 'schedule-changed', {
+        day: 'monday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 25 }] }
+      });
+      dispatchCustomEvent(view, 'schedule-changed', {
+        day: 'monday' as DayOfWeek,
+        schedule: originalMonday
+      });
+      dispatchCustomEvent(view, 'schedule-changed', {
+        day: 'friday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 19 }] }
+      });
+      await waitForUpdate(card);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(Object.keys(payload.weekly_schedule)).toEqual(['friday']);
     });
 
     it('should show loading state during save', async () => {
@@ -840,8 +904,7 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
       await waitForUpdate(card);
 
       // Click save but don't wait for completion
-      const saveButton = queryShadow<HTMLButtonElement>(card, '.save-button');
-      saveButton!.click();
+      await clickSaveAndConfirm(card);
 
       // Immediately check for loading state
       const isSaving = (card as any)._saving;
@@ -864,8 +927,7 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
       expect((card as any)._hasUnsavedChanges).toBe(true);
 
       // Save
-      const saveButton = queryShadow<HTMLButtonElement>(card, '.save-button');
-      saveButton!.click();
+      await clickSaveAndConfirm(card);
       await waitForUpdate(card);
       await new Promise(resolve => setTimeout(resolve, 10));
 
@@ -894,8 +956,7 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
       await waitForUpdate(card);
 
       // Try to save
-      const saveButton = queryShadow<HTMLButtonElement>(card, '.save-button');
-      saveButton!.click();
+      await clickSaveAndConfirm(card);
       await waitForUpdate(card);
       await new Promise(resolve => setTimeout(resolve, 10));
 
@@ -979,6 +1040,1840 @@ describe('TRVZBSchedulerCard - Integration Tests', () => {
     });
   });
 
+  describe('Pre-save Diff', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      const weekView = queryShadow(card, 'schedule-week-view');
+      dispatchCustomEvent(weekView!, 'day-selected', { day: 'monday' as DayOfWeek });
+      await waitForUpdate(card);
+
+      const dayEditor = queryShadow(card, 'day-schedule-editor');
+      dispatchCustomEvent(dayEditor!, 'schedule-changed', {
+        day: 'monday' as DayOfWeek,
+        schedule: {
+          transitions: [
+            { time: '00:00', temperature: 18 },
+            { time: '06:00', temperature: 23 },
+            { time: '08:00', temperature: 19 },
+            { time: '17:00', temperature: 22 }
+          ]
+        }
+      });
+      await waitForUpdate(card);
+    });
+
+    it('should open diff dialog instead of publishing when save is clicked', async () => {
+      queryShadow<HTMLButtonElement>(card, '.save-button')!.click();
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, 'save-diff-dialog')).toBeTruthy();
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(0);
+    });
+
+    it('should list changes for edited day against the device schedule', async () => {
+      queryShadow<HTMLButtonElement>(card, '.save-button')!.click();
+      await waitForUpdate(card);
+
+      const diff = (card as any)._saveDiff;
+      const monday = diff.find((d: any) => d.day === 'monday');
+      expect(monday.changed).toBe(true);
+      expect(monday.changes).toContainEqual({ type: 'changed', time: '06:00', before: 21, after: 23 });
+      expect(monday.changes).toContainEqual({ type: 'removed', time: '22:00', before: 18 });
+
+      const tuesday = diff.find((d: any) => d.day === 'tuesday');
+      expect(tuesday.changed).toBe(false);
+    });
+
+    it('should expand changed days and collapse unchanged days', async () => {
+      queryShadow<HTMLButtonElement>(card, '.save-button')!.click();
+      await waitForUpdate(card);
+
+      const dialog = queryShadow(card, 'save-diff-dialog') as any;
+      await dialog.updateComplete;
+
+      expect(dialog.shadowRoot.querySelector('[data-day="monday"] .diff-changes')).toBeTruthy();
+      expect(dialog.shadowRoot.querySelector('[data-day="tuesday"] .diff-changes')).toBeNull();
+    });
+
+    it('should close dialog without publishing when cancelled', async () => {
+      queryShadow<HTMLButtonElement>(card, '.save-button')!.click();
+      await waitForUpdate(card);
+
+      const dialog = queryShadow(card, 'save-diff-dialog')!;
+      dispatchCustomEvent(dialog, 'dialog-closed', {});
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, 'save-diff-dialog')).toBeNull();
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(0);
+      expect((card as any)._hasUnsavedChanges).toBe(true);
+    });
+
+    it('should publish after confirming the diff', async () => {
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(queryShadow(card, 'save-diff-dialog')).toBeNull();
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(1);
+    });
+  });
+
+  describe('Import/Export', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    it('should open import/export dialog from header button', async () => {
+      queryShadow<HTMLButtonElement>(card, '.io-button')!.click();
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, 'schedule-io-dialog')).toBeTruthy();
+    });
+
+    it('should load imported schedule as unsaved, undoable changes', async () => {
+      queryShadow<HTMLButtonElement>(card, '.io-button')!.click();
+      await waitForUpdate(card);
+
+      const dialog = queryShadow(card, 'schedule-io-dialog')!;
+      dispatchCustomEvent(dialog, 'schedule-imported', {
+        schedule: parseWeeklySchedule(createMockSchedule('minimal'))
+      });
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, 'schedule-io-dialog')).toBeNull();
+      expect((card as any)._schedule.monday.transitions).toHaveLength(1);
+      expect((card as any)._hasUnsavedChanges).toBe(true);
+      expect(queryShadow<HTMLButtonElement>(card, '.undo-button')!.disabled).toBe(false);
+    });
+
+    it('should show validation errors and not import invalid schedules', async () => {
+      queryShadow<HTMLButtonElement>(card, '.io-button')!.click();
+      await waitForUpdate(card);
+
+      const dialog = queryShadow(card, 'schedule-io-dialog') as any;
+      await dialog.updateComplete;
+      dialog.shadowRoot.querySelector('.import-tab').click();
+      await dialog.updateComplete;
+
+      const textarea = dialog.shadowRoot.querySelector('.import-text') as HTMLTextAreaElement;
+      textarea.value = JSON.stringify({ ...createMockSchedule(), monday: '00:00/40' });
+      textarea.dispatchEvent(new Event('input'));
+      await dialog.updateComplete;
+
+      dialog.shadowRoot.querySelector('.import-button').click();
+      await dialog.updateComplete;
+
+      expect(dialog.shadowRoot.querySelector('.message-error').textContent).toContain('out of range');
+      expect((card as any)._hasUnsavedChanges).toBe(false);
+    });
+  });
+
+  describe('Multi-entity Mode', () => {
+    const BEDROOM_ID = 'climate.bedroom_trvzb';
+    const BEDROOM_SCHEDULE = createMockSchedule('minimal');
+
+    beforeEach(async () => {
+      const bedroom = createMockTRVZBEntity('bedroom_trvzb', BEDROOM_SCHEDULE);
+      scenario.hass.states[bedroom.entity_id] = bedroom;
+      Object.assign(scenario.hass.states, createMockDaySensors('bedroom_trvzb', BEDROOM_SCHEDULE));
+
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        entities: [BEDROOM_ID]
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    /**
+     * Helper: Pick an option in the device selector
+     */
+    async function selectEntity(value: string): Promise<void> {
+      const select = queryShadow<HTMLSelectElement>(card, '.entity-select')!;
+      select.value = value;
+      select.dispatchEvent(new Event('change'));
+      await waitForUpdate(card);
+    }
+
+    it('should not render the device selector for a single entity', async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, '.entity-selector')).toBeNull();
+    });
+
+    it('should list every configured device plus an all devices option', () => {
+      const options = queryShadowAll<HTMLOptionElement>(card, '.entity-select option');
+      expect(options.map(option => option.value)).toEqual([scenario.entityId, BEDROOM_ID, '__all__']);
+    });
+
+    it('should accept entities without a separate entity option', () => {
+      const standalone = createCard();
+      standalone.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: '',
+        entities: [BEDROOM_ID, scenario.entityId, BEDROOM_ID]
+      });
+
+      expect(standalone.config.entity).toBe(BEDROOM_ID);
+      expect(standalone.config.entities).toEqual([BEDROOM_ID, scenario.entityId]);
+      standalone.remove();
+    });
+
+    it('should load the selected device schedule', async () => {
+      await selectEntity(BEDROOM_ID);
+
+      expect((card as any)._activeEntity).toBe(BEDROOM_ID);
+      expect(serializeWeeklySchedule((card as any)._schedule).monday).toBe(BEDROOM_SCHEDULE.monday);
+      expect(queryShadow(card, '.card-title')!.textContent).toContain('Bedroom Trvzb');
+    });
+
+    it('should publish to every selected device in all devices mode', async () => {
+      await selectEntity('__all__');
+      expect(queryShadowAll(card, '.entity-chip').length).toBe(2);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      const calls = scenario.recorder.getCalls('mqtt', 'publish');
+      expect(calls.map(call => call.data.topic)).toEqual([
+        'zigbee2mqtt/living_room_trvzb/set',
+        'zigbee2mqtt/bedroom_trvzb/set'
+      ]);
+      expect(queryShadowAll(card, '.save-result.success').length).toBe(2);
+    });
+
+    it('should skip devices deselected in all devices mode', async () => {
+      await selectEntity('__all__');
+      queryShadow<HTMLButtonElement>(card, `.entity-chip[data-entity="${BEDROOM_ID}"]`)!.click();
+      await waitForUpdate(card);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(1);
+      expect(scenario.recorder.getLastCall()!.data.topic).toBe('zigbee2mqtt/living_room_trvzb/set');
+    });
+
+    it('should show a diff for each target device in all devices mode', async () => {
+      await selectEntity('__all__');
+      (card as any)._applyEdit({ ...(card as any)._schedule, tuesday: { transitions: [{ time: '00:00', temperature: 19 }] } });
+      await waitForUpdate(card);
+
+      queryShadow<HTMLButtonElement>(card, '.save-button')!.click();
+      await waitForUpdate(card);
+      const dialog = queryShadow(card, 'save-diff-dialog') as any;
+      await dialog.updateComplete;
+
+      const devices = (card as any)._saveDeviceDiffs;
+      expect(devices.map((device: any) => device.entityId)).toEqual([scenario.entityId, BEDROOM_ID]);
+      // The bedroom has a different schedule, so its Monday is overwritten too
+      const changedDays = (entityId: string) => devices
+        .find((device: any) => device.entityId === entityId).diff
+        .filter((day: any) => day.changed).map((day: any) => day.day);
+      expect(changedDays(scenario.entityId)).toEqual(['tuesday']);
+      expect(changedDays(BEDROOM_ID)).toContain('monday');
+
+      const sections = dialog.shadowRoot.querySelectorAll('.diff-device');
+      expect(Array.from(sections).map((section: any) => section.dataset.entity)).toEqual([scenario.entityId, BEDROOM_ID]);
+      expect(sections[1].querySelector('.diff-device-name').textContent).toContain('Bedroom Trvzb');
+      expect(sections[1].querySelector('[data-day="monday"] .diff-changes')).toBeTruthy();
+    });
+
+    it('should keep the loaded device baseline when it is not a target', async () => {
+      await selectEntity('__all__');
+      const baseline = (card as any)._savedSchedule;
+      queryShadow<HTMLButtonElement>(card, `.entity-chip[data-entity="${scenario.entityId}"]`)!.click();
+      await waitForUpdate(card);
+      (card as any)._applyEdit({ ...(card as any)._schedule, tuesday: { transitions: [{ time: '00:00', temperature: 19 }] } });
+      await waitForUpdate(card);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getLastCall()!.data.topic).toBe('zigbee2mqtt/bedroom_trvzb/set');
+      expect((card as any)._savedSchedule).toEqual(baseline);
+      expect((card as any)._pendingSaveSchedule).toBeNull();
+    });
+
+    it('should report devices that failed to save', async () => {
+      const callService = scenario.hass.callService;
+      scenario.hass.callService = async (domain, service, data) => {
+        if ((data as any)?.topic === 'zigbee2mqtt/bedroom_trvzb/set') {
+          throw new Error('Broker offline');
+        }
+        return callService(domain, service, data);
+      };
+
+      await selectEntity('__all__');
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect(queryShadowAll(card, '.save-result.success').length).toBe(1);
+      expect(queryShadow(card, '.save-result.failed')!.textContent).toContain('Broker offline');
+      expect((card as any)._error).toContain('1 of 2 devices');
+    });
+  });
+
+  describe('Temperature Limits', () => {
+    async function openEditor(): Promise<HTMLElement & { limits: any; updateComplete: Promise<boolean> }> {
+      (card as any)._editingDay = 'monday';
+      await waitForUpdate(card);
+      return queryShadow(card, 'day-schedule-editor') as any;
+    }
+
+    it('should read limits from the climate entity', async () => {
+      scenario.hass.states[scenario.entityId].attributes.min_temp = 5;
+      scenario.hass.states[scenario.entityId].attributes.max_temp = 28;
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      const editor = await openEditor();
+      expect(editor.limits).toEqual({ min: 5, max: 28, step: 0.5 });
+
+      await editor.updateComplete;
+      const slider = editor.shadowRoot!
+        .querySelector('transition-editor')!.shadowRoot!
+        .querySelector<HTMLInputElement>('.temperature-slider')!;
+      expect(slider.min).toBe('5');
+      expect(slider.max).toBe('28');
+    });
+
+    it('should move entity limits that are not on a step to the next step', async () => {
+      scenario.hass.states[scenario.entityId].attributes.min_temp = 4.2;
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      const editor = await openEditor();
+      expect(editor.limits).toEqual({ min: 4.5, max: 35, step: 0.5 });
+
+      await editor.updateComplete;
+      const slider = editor.shadowRoot!
+        .querySelector('transition-editor')!.shadowRoot!
+        .querySelector<HTMLInputElement>('.temperature-slider')!;
+      expect(slider.min).toBe('4.5');
+    });
+
+    it('should let card config override the entity limits', async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        max_temp: 24,
+        target_temp_step: 1
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      expect((card as any)._temperatureLimits).toEqual({ min: 4, max: 24, step: 1 });
+    });
+
+    it('should fall back to the TRVZB defaults when the entity reports nothing', async () => {
+      const attributes = scenario.hass.states[scenario.entityId].attributes;
+      delete attributes.min_temp;
+      delete attributes.max_temp;
+      delete attributes.target_temp_step;
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      expect((card as any)._temperatureLimits).toEqual({ min: 4, max: 35, step: 0.5 });
+    });
+
+    it('should use the narrowest limits of all target devices', async () => {
+      const bedroom = createMockClimateEntityWithoutSchedule('bedroom_trvzb');
+      scenario.hass.states[bedroom.entity_id] = bedroom;
+      Object.assign(scenario.hass.states, createMockDaySensors('bedroom_trvzb'));
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        entities: [bedroom.entity_id]
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      (card as any)._editAll = true;
+      expect((card as any)._temperatureLimits).toEqual({ min: 7, max: 30, step: 1 });
+    });
+
+    it('should report out-of-range temperatures in the day editor', async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        max_temp: 20
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      const editor = await openEditor();
+      (editor as any)._validate();
+      await editor.updateComplete;
+
+      expect(editor.shadowRoot!.querySelector('.message-error')!.textContent).toContain('Must be 4-20°C');
+    });
+  });
+
+  describe('Zigbee2MQTT Addressing', () => {
+    it('should publish to the configured base topic and device name', async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        base_topic: 'z2m',
+        device_name: 'Floor1/Living Room TRV'
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      dispatchCustomEvent(queryShadow(card, 'schedule-graph-view')!, 'schedule-changed', {
+        day: 'monday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 19 }] }
+      });
+      await waitForUpdate(card);
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getLastCall()?.data.topic).toBe('z2m/Floor1/Living Room TRV/set');
+    });
+
+    it('should read day sensors named after the configured device', async () => {
+      const schedule = createMockSchedule('minimal');
+      Object.assign(scenario.hass.states, createMockDaySensors('floor1_living_room_trv', schedule));
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        device_name: 'Floor1/Living Room TRV'
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      expect(serializeWeeklySchedule((card as any)._schedule).monday).toBe(schedule.monday);
+    });
+  });
+
+  describe('Schedule Sensor Overrides', () => {
+    /**
+     * Helper: Move the day sensors to renamed entity IDs
+     */
+    function renameDaySensors(schedule = createMockSchedule('minimal')): void {
+      for (const entityId of Object.keys(scenario.daySensors)) {
+        delete scenario.hass.states[entityId];
+      }
+      for (const day of Object.keys(schedule) as DayOfWeek[]) {
+        scenario.hass.states[`text.heating_${day}`] = {
+          entity_id: `text.heating_${day}`,
+          state: schedule[day],
+          attributes: {}
+        };
+      }
+    }
+
+    it('should report missing sensors when they were renamed', async () => {
+      renameDaySensors();
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      expect((card as any)._error).toContain('Schedule sensors not found');
+      expect((card as any)._error).toContain('schedule_sensors');
+    });
+
+    it('should load the schedule from a sensor template', async () => {
+      const schedule = createMockSchedule('minimal');
+      renameDaySensors(schedule);
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        schedule_sensors: 'text.heating_{day}'
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      expect((card as any)._error).toBeNull();
+      expect(serializeWeeklySchedule((card as any)._schedule)).toEqual(schedule);
+    });
+
+    it('should load the schedule from a per-day mapping', async () => {
+      const schedule = createMockSchedule('minimal');
+      renameDaySensors(schedule);
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        schedule_sensors: Object.fromEntries(
+          (Object.keys(schedule) as DayOfWeek[]).map(day => [day, `text.heating_${day}`])
+        )
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      expect(serializeWeeklySchedule((card as any)._schedule)).toEqual(schedule);
+    });
+
+    it('should reload when a configured sensor changes', async () => {
+      renameDaySensors();
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        schedule_sensors: 'text.heating_'
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      const states = { ...scenario.hass.states };
+      states['text.heating_monday'] = { ...states['text.heating_monday'], state: '00:00/23' };
+      card.hass = { ...scenario.hass, states };
+      await waitForUpdate(card);
+
+      expect((card as any)._schedule.monday.transitions[0].temperature).toBe(23);
+    });
+
+    it('should confirm a save once the configured sensors catch up', async () => {
+      renameDaySensors();
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        schedule_sensors: 'text.heating_{day}'
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      (card as any)._hasUnsavedChanges = true;
+      await waitForUpdate(card);
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+      expect((card as any)._pendingSaveSchedule).not.toBeNull();
+
+      const saved = (card as any)._pendingSaveSchedule;
+      expect((card as any)._allDaySensorsMatch(scenario.entityId, saved)).toBe(true);
+    });
+  });
+
+  describe('Text Entity Write Method', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        write_method: 'text'
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    it('should write changed days with text.set_value instead of MQTT', async () => {
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      dispatchCustomEvent(queryShadow(card, 'schedule-graph-view')!, 'schedule-changed', {
+        day: 'wednesday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 19 }] }
+      });
+      await waitForUpdate(card);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(0);
+      expect(scenario.recorder.getCalls('text', 'set_value').map(call => call.data)).toEqual([
+        { entity_id: 'text.living_room_trvzb_weekly_schedule_wednesday', value: '00:00/19' }
+      ]);
+    });
+  });
+
+  describe('Sync Status', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    /**
+     * Edit the given days in the graph view and save them
+     */
+    async function editAndSave(days: Partial<Record<DayOfWeek, number>>): Promise<void> {
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      const view = queryShadow(card, 'schedule-graph-view')!;
+      for (const [day, temperature] of Object.entries(days)) {
+        dispatchCustomEvent(view, 'schedule-changed', {
+          day: day as DayOfWeek,
+          schedule: { transitions: [{ time: '00:00', temperature }] }
+        });
+      }
+      await waitForUpdate(card);
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+    }
+
+    /**
+     * Report new day sensor states to the card
+     */
+    async function reportSensors(values: Partial<Record<DayOfWeek, string>>): Promise<void> {
+      const states = { ...card.hass.states };
+      for (const [day, value] of Object.entries(values)) {
+        const id = `text.living_room_trvzb_weekly_schedule_${day}`;
+        states[id] = { ...states[id], state: value };
+      }
+      card.hass = { ...card.hass, states };
+      await waitForUpdate(card);
+    }
+
+    function syncDayClass(day: DayOfWeek): string | undefined {
+      return queryShadow(card, `.sync-day[data-day="${day}"]`)?.className;
+    }
+
+    it('should mark sent days pending until their sensors confirm', async () => {
+      await editAndSave({ monday: 19, friday: 22 });
+
+      expect(syncDayClass('monday')).toContain('pending');
+      expect(syncDayClass('friday')).toContain('pending');
+      expect(queryShadow(card, '.sync-day[data-day="tuesday"]')).toBeNull();
+
+      await reportSensors({ monday: '00:00/19' });
+      expect(syncDayClass('monday')).toContain('confirmed');
+      expect(syncDayClass('friday')).toContain('pending');
+
+      await reportSensors({ friday: '00:00/22' });
+      expect(syncDayClass('friday')).toContain('confirmed');
+      expect(queryShadow(card, '.retry-sync-button')).toBeNull();
+    });
+
+    it('should flag a day whose sensor reports a different schedule', async () => {
+      await editAndSave({ monday: 19 });
+
+      await reportSensors({ monday: '00:00/17' });
+
+      expect(syncDayClass('monday')).toContain('mismatch');
+      expect(queryShadow(card, '.retry-sync-button')).toBeTruthy();
+    });
+
+    it('should mark days timed out instead of giving up silently', async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      await editAndSave({ monday: 19, friday: 22 });
+      await reportSensors({ monday: '00:00/19' });
+
+      vi.advanceTimersByTime(30000);
+      await waitForUpdate(card);
+
+      expect(syncDayClass('monday')).toContain('confirmed');
+      expect(syncDayClass('friday')).toContain('timed-out');
+      expect((card as any)._pendingSaveSchedule).toBeNull();
+    });
+
+    it('should still confirm a day that reports after the timeout', async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      await editAndSave({ friday: 22 });
+
+      vi.advanceTimersByTime(30000);
+      await waitForUpdate(card);
+      await reportSensors({ friday: '00:00/22' });
+
+      expect(syncDayClass('friday')).toContain('confirmed');
+    });
+
+    it('should resend only the unconfirmed days on retry', async () => {
+      await editAndSave({ monday: 19, friday: 22 });
+      await reportSensors({ monday: '00:00/19', friday: '00:00/16' });
+      const callsBefore = scenario.recorder.getCallCount('mqtt', 'publish');
+
+      queryShadow<HTMLButtonElement>(card, '.retry-sync-button')!.click();
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(callsBefore + 1);
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(payload.weekly_schedule).toEqual({ friday: '00:00/22' });
+      expect(syncDayClass('friday')).toContain('pending');
+      expect(syncDayClass('monday')).toContain('confirmed');
+    });
+
+    it('should clear the status when the card is reconfigured', async () => {
+      await editAndSave({ monday: 19 });
+      expect(queryShadow(card, '.sync-status')).toBeTruthy();
+
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        view_mode: 'week'
+      });
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, '.sync-status')).toBeNull();
+    });
+  });
+
+  describe('Offline Outbox', () => {
+    const CONFIG = {
+      type: 'custom:trvzb-scheduler-card',
+      entity: SAMPLE_ENTITY_ID
+    };
+
+    /**
+     * Report the climate entity as available or unavailable
+     */
+    async function setAvailable(available: boolean): Promise<void> {
+      const states = { ...card.hass.states };
+      states[scenario.entityId] = { ...states[scenario.entityId], state: available ? 'heat' : 'unavailable' };
+      card.hass = { ...card.hass, states };
+      await waitForUpdate(card);
+      // Let an automatic resend finish
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await waitForUpdate(card);
+    }
+
+    /**
+     * Edit a day in the graph view and save it
+     */
+    async function editAndSave(day: DayOfWeek, temperature: number): Promise<void> {
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      dispatchCustomEvent(queryShadow(card, 'schedule-graph-view')!, 'schedule-changed', {
+        day,
+        schedule: { transitions: [{ time: '00:00', temperature }] }
+      });
+      await waitForUpdate(card);
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+    }
+
+    beforeEach(async () => {
+      card.setConfig(CONFIG);
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    it('should queue instead of publishing while the device is unavailable', async () => {
+      await setAvailable(false);
+      await editAndSave('monday', 19);
+
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(0);
+      expect(queryShadow(card, '.outbox-badge')!.textContent).toContain('1');
+      expect(queryShadow(card, '.outbox-notice')!.textContent).toContain('Monday will be sent automatically');
+      expect((card as any)._hasUnsavedChanges).toBe(false);
+
+      const stored = loadOutbox();
+      expect(stored[scenario.entityId].days).toEqual(['monday']);
+      expect(stored[scenario.entityId].schedule.monday).toBe('00:00/19');
+    });
+
+    it('should merge further edits into the queued schedule', async () => {
+      await setAvailable(false);
+      await editAndSave('monday', 19);
+      await editAndSave('friday', 22);
+
+      const entry = loadOutbox()[scenario.entityId];
+      expect(entry.days).toEqual(['monday', 'friday']);
+      expect(entry.schedule.monday).toBe('00:00/19');
+      expect(entry.schedule.friday).toBe('00:00/22');
+    });
+
+    it('should resend automatically when the device comes back', async () => {
+      await setAvailable(false);
+      await editAndSave('monday', 19);
+      await setAvailable(true);
+
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(1);
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(payload.weekly_schedule).toEqual({ monday: '00:00/19' });
+      expect(queryShadow(card, '.outbox-badge')).toBeNull();
+      expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+      expect(queryShadow(card, '.sync-day[data-day="monday"]')!.className).toContain('pending');
+    });
+
+    it('should resend a schedule queued before the page was reloaded', async () => {
+      saveOutbox(queueSchedule({}, scenario.entityId, { ...SAMPLE_WEEKLY_SCHEDULE, sunday: '00:00/16' }, ['sunday']));
+
+      card.remove();
+      card = createCard();
+      card.setConfig(CONFIG);
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+      await waitForUpdate(card);
+
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(payload.weekly_schedule).toEqual({ sunday: '00:00/16' });
+      expect(loadOutbox()).toEqual({});
+    });
+
+    it('should show the queued schedule while waiting', async () => {
+      saveOutbox(queueSchedule({}, scenario.entityId, { ...SAMPLE_WEEKLY_SCHEDULE, sunday: '00:00/16' }, ['sunday']));
+      const states = { ...scenario.hass.states };
+      states[scenario.entityId] = { ...states[scenario.entityId], state: 'unavailable' };
+
+      card.remove();
+      card = createCard();
+      card.setConfig(CONFIG);
+      card.hass = { ...scenario.hass, states };
+      await waitForUpdate(card);
+
+      expect((card as any)._schedule.sunday.transitions[0].temperature).toBe(16);
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(0);
+    });
+
+    it('should queue unavailable devices when saving to all devices', async () => {
+      const recorder = new MockServiceCallRecorder();
+      const bedroom = createMockTRVZBEntity('bedroom_trvzb');
+      const hass = createMockHass({
+        states: {
+          ...scenario.hass.states,
+          [bedroom.entity_id]: { ...bedroom, state: 'unavailable' },
+          ...createMockDaySensors('bedroom_trvzb')
+        },
+        recorder
+      });
+      card.setConfig({ ...CONFIG, entities: [bedroom.entity_id] });
+      card.hass = hass;
+      await waitForUpdate(card);
+
+      (card as any)._editAll = true;
+      await waitForUpdate(card);
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect(recorder.getCallCount('mqtt', 'publish')).toBe(1);
+      expect(loadOutbox()[bedroom.entity_id].days).toHaveLength(7);
+      expect(queryShadow(card, '.save-result.queued')!.textContent).toContain('queued until available');
+    });
+
+    it('should count queued devices in the failed save message', async () => {
+      const bedroom = createMockTRVZBEntity('bedroom_trvzb');
+      const kitchen = createMockTRVZBEntity('kitchen_trvzb');
+      const hass = createMockHass({
+        states: {
+          ...scenario.hass.states,
+          [bedroom.entity_id]: { ...bedroom, state: 'unavailable' },
+          ...createMockDaySensors('bedroom_trvzb'),
+          [kitchen.entity_id]: kitchen,
+          ...createMockDaySensors('kitchen_trvzb')
+        }
+      });
+      const callService = hass.callService;
+      hass.callService = async (domain, service, data) => {
+        if ((data as any)?.topic === 'zigbee2mqtt/kitchen_trvzb/set') {
+          throw new Error('Broker offline');
+        }
+        return callService(domain, service, data);
+      };
+      card.setConfig({ ...CONFIG, entities: [bedroom.entity_id, kitchen.entity_id] });
+      card.hass = hass;
+      await waitForUpdate(card);
+
+      (card as any)._editAll = true;
+      await waitForUpdate(card);
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect((card as any)._error).toContain('1 of 3 devices');
+      expect(queryShadow(card, '.save-result.queued')).toBeTruthy();
+    });
+  });
+
+  describe('Current Time', () => {
+    // Monday 2024-01-01 12:30 UTC, 21:30 in Tokyo
+    const NOW = new Date('2024-01-01T12:30:00Z');
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true, now: NOW });
+      card.remove();
+      card = createCard();
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = { ...scenario.hass, config: { time_zone: 'Asia/Tokyo' } };
+      await waitForUpdate(card);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should use the Home Assistant timezone', () => {
+      expect((card as any)._now).toEqual({ day: 'monday', minutes: 21 * 60 + 30 });
+    });
+
+    it('should highlight the active slot in today\'s column', async () => {
+      const weekView = queryShadow(card, 'schedule-week-view')!;
+      await (weekView as any).updateComplete;
+
+      const today = weekView.shadowRoot!.querySelectorAll('.day-column.today');
+      expect(today).toHaveLength(1);
+      expect(today[0].querySelector('.day-header')!.textContent).toContain('Mon');
+
+      // Sample Monday schedule has a 17:00 and a 22:00 transition, so 21:30 is in the 17:00 block
+      const active = weekView.shadowRoot!.querySelectorAll('.transition-block.active-slot');
+      expect(active).toHaveLength(1);
+      expect(active[0].textContent).toContain('17:00');
+    });
+
+    it('should refresh every minute', async () => {
+      vi.advanceTimersByTime(60 * 1000);
+      await waitForUpdate(card);
+
+      expect((card as any)._now).toEqual({ day: 'monday', minutes: 21 * 60 + 31 });
+    });
+
+    it('should pass the current time to the graph view', async () => {
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+
+      const graphView = queryShadow(card, 'schedule-graph-view')!;
+      expect((graphView as any).now).toEqual({ day: 'monday', minutes: 21 * 60 + 30 });
+    });
+  });
+
+  describe('Header Summary', () => {
+    /**
+     * Mount a fresh card at a given UTC time
+     */
+    async function mountAt(isoTime: string): Promise<void> {
+      vi.useFakeTimers({ shouldAdvanceTime: true, now: new Date(isoTime) });
+      card.remove();
+      card = createCard();
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = { ...scenario.hass, config: { time_zone: 'UTC' } };
+      await waitForUpdate(card);
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should show the current and next scheduled setpoint', async () => {
+      // Monday 12:00
+      await mountAt('2024-01-01T12:00:00Z');
+
+      expect(queryShadow(card, '.setpoint-summary')!.textContent).toBe('19 °C now → 22 °C at 17:00');
+    });
+
+    it('should carry the next setpoint over into tomorrow', async () => {
+      // Friday 23:00, Saturday starts at 20°C
+      await mountAt('2024-01-05T23:00:00Z');
+
+      expect(queryShadow(card, '.setpoint-summary')!.textContent).toBe('18 °C now → 20 °C tomorrow at 00:00');
+    });
+
+    it('should show the room and target temperature of the device', async () => {
+      await mountAt('2024-01-01T12:00:00Z');
+
+      expect(queryShadow(card, '.entity-temps')!.textContent).toBe('Room 20.5 °C · Target 21 °C');
+    });
+
+    it('should follow edits to the schedule', async () => {
+      await mountAt('2024-01-01T12:00:00Z');
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      dispatchCustomEvent(queryShadow(card, 'schedule-graph-view')!, 'schedule-changed', {
+        day: 'monday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 17 }, { time: '13:00', temperature: 23 }] }
+      });
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, '.setpoint-summary')!.textContent).toBe('17 °C now → 23 °C at 13:00');
+    });
+  });
+
+  describe('Manual Override', () => {
+    /**
+     * Mount a fresh card on Monday 12:00 UTC (scheduled setpoint 19°C)
+     * with the valve in the given mode and target
+     */
+    async function mountWith(hvacMode: string, target: number): Promise<void> {
+      vi.useFakeTimers({ shouldAdvanceTime: true, now: new Date('2024-01-01T12:00:00Z') });
+      const states = { ...scenario.hass.states };
+      const entity = states[scenario.entityId];
+      states[scenario.entityId] = {
+        ...entity,
+        state: hvacMode,
+        attributes: { ...entity.attributes, hvac_mode: hvacMode, temperature: target }
+      };
+
+      card.remove();
+      card = createCard();
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = { ...scenario.hass, states, config: { time_zone: 'UTC' } };
+      await waitForUpdate(card);
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should not warn when the valve follows the schedule', async () => {
+      await mountWith('auto', 19);
+
+      expect(queryShadow(card, '.override-banner')).toBeNull();
+    });
+
+    it('should warn when the valve is not in auto mode', async () => {
+      await mountWith('heat', 19);
+
+      expect(queryShadow(card, '.override-banner')!.textContent).toContain('heat mode');
+      queryShadow<HTMLButtonElement>(card, '.switch-auto-button')!.click();
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getLastCall()).toMatchObject({
+        domain: 'climate',
+        service: 'set_hvac_mode',
+        data: { entity_id: scenario.entityId, hvac_mode: 'auto' }
+      });
+    });
+
+    it('should warn when the target differs from the schedule', async () => {
+      await mountWith('auto', 23);
+
+      const banner = queryShadow(card, '.override-banner')!;
+      expect(banner.textContent).toContain('Target 23 °C differs from the scheduled 19 °C');
+      expect(queryShadow(card, '.switch-auto-button')).toBeNull();
+
+      queryShadow<HTMLButtonElement>(card, '.resume-schedule-button')!.click();
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getCalls('climate', 'set_temperature').map(call => call.data)).toEqual([
+        { entity_id: scenario.entityId, temperature: 19 }
+      ]);
+      expect(scenario.recorder.getCallCount('climate', 'set_hvac_mode')).toBe(0);
+    });
+
+    it('should switch to auto and restore the setpoint when resuming from another mode', async () => {
+      await mountWith('heat', 23);
+
+      queryShadow<HTMLButtonElement>(card, '.resume-schedule-button')!.click();
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getCalls('climate').map(call => call.service)).toEqual([
+        'set_hvac_mode',
+        'set_temperature'
+      ]);
+    });
+
+    it('should compare against the saved schedule, not unsaved edits', async () => {
+      await mountWith('auto', 19);
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      dispatchCustomEvent(queryShadow(card, 'schedule-graph-view')!, 'schedule-changed', {
+        day: 'monday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature: 25 }] }
+      });
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, '.override-banner')).toBeNull();
+    });
+  });
+
+  describe('Vacation Mode', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    /**
+     * Confirm the save diff dialog
+     */
+    async function confirmSaveDiff(): Promise<void> {
+      const dialog = queryShadow(card, 'save-diff-dialog') as any;
+      await dialog.updateComplete;
+      dialog.shadowRoot.querySelector('.confirm-save-button').click();
+      await waitForUpdate(card);
+    }
+
+    /**
+     * Start vacation mode through the dialog, then confirm the save review
+     */
+    async function startVacation(temperature: string, confirm = true): Promise<void> {
+      queryShadow<HTMLButtonElement>(card, '.vacation-button')!.click();
+      await waitForUpdate(card);
+
+      const dialog = queryShadow(card, 'vacation-dialog') as any;
+      await dialog.updateComplete;
+      const input = dialog.shadowRoot.querySelector('.vacation-input') as HTMLInputElement;
+      input.value = temperature;
+      input.dispatchEvent(new Event('input'));
+      await dialog.updateComplete;
+      dialog.shadowRoot.querySelector('.start-vacation-button').click();
+      await waitForUpdate(card);
+
+      if (confirm) {
+        await confirmSaveDiff();
+      }
+    }
+
+    /**
+     * Restore the regular schedule, then confirm the save review
+     */
+    async function restoreSchedule(): Promise<void> {
+      queryShadow<HTMLButtonElement>(card, '.restore-schedule-button')!.click();
+      await waitForUpdate(card);
+      await confirmSaveDiff();
+    }
+
+    it('should publish a flat week and keep the regular schedule', async () => {
+      await startVacation('15');
+
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(payload.weekly_schedule).toEqual({
+        sunday: '00:00/15', monday: '00:00/15', tuesday: '00:00/15', wednesday: '00:00/15',
+        thursday: '00:00/15', friday: '00:00/15', saturday: '00:00/15'
+      });
+      expect(loadVacationSnapshots()[scenario.entityId].schedule).toEqual(SAMPLE_WEEKLY_SCHEDULE);
+      expect(queryShadow(card, '.vacation-indicator')!.textContent).toContain('Vacation 15 °C');
+      expect(queryShadow(card, '.vacation-banner')).toBeTruthy();
+      expect(queryShadow<HTMLButtonElement>(card, '.vacation-button')!.disabled).toBe(true);
+    });
+
+    it('should keep snapshots another card stored after this one loaded', async () => {
+      const other = { schedule: SAMPLE_WEEKLY_SCHEDULE, temperature: 14, startedAt: 1000 };
+      saveVacationSnapshots({ 'climate.kitchen': other });
+
+      await startVacation('15');
+      expect(loadVacationSnapshots()['climate.kitchen']).toEqual(other);
+
+      await restoreSchedule();
+      expect(loadVacationSnapshots()).toEqual({ 'climate.kitchen': other });
+    });
+
+    it('should snap the set-back temperature to the device limits', async () => {
+      await startVacation('2');
+
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(payload.weekly_schedule.monday).toBe('00:00/4');
+    });
+
+    it('should restore the regular schedule after reviewing it', async () => {
+      await startVacation('15');
+
+      await restoreSchedule();
+
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(payload.weekly_schedule).toEqual(SAMPLE_WEEKLY_SCHEDULE);
+      expect(loadVacationSnapshots()).toEqual({});
+      expect(queryShadow(card, '.vacation-banner')).toBeNull();
+    });
+
+    it('should restore after a page reload', async () => {
+      saveVacationSnapshots({
+        [scenario.entityId]: { schedule: { ...SAMPLE_WEEKLY_SCHEDULE, monday: '00:00/17' }, temperature: 15, startedAt: 0 }
+      });
+      card.remove();
+      card = createCard();
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+
+      await restoreSchedule();
+
+      const payload = JSON.parse(scenario.recorder.getLastCall()?.data.payload as string);
+      expect(payload.weekly_schedule).toEqual({ monday: '00:00/17' });
+    });
+
+    it('should review the flat week before publishing it', async () => {
+      await startVacation('15', false);
+
+      const diff = (card as any)._saveDiff;
+      expect(diff.find((day: any) => day.day === 'monday').changed).toBe(true);
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(0);
+
+      dispatchCustomEvent(queryShadow(card, 'save-diff-dialog')!, 'dialog-closed', {});
+      await waitForUpdate(card);
+
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(0);
+      expect(loadVacationSnapshots()).toEqual({});
+      expect(serializeWeeklySchedule((card as any)._schedule)).toEqual(SAMPLE_WEEKLY_SCHEDULE);
+      expect((card as any)._hasUnsavedChanges).toBe(false);
+    });
+
+    it('should refuse to start vacation mode with unsaved changes', async () => {
+      (card as any)._applyEdit({ ...(card as any)._schedule, monday: { transitions: [{ time: '00:00', temperature: 19 }] } });
+      await waitForUpdate(card);
+
+      await startVacation('15', false);
+
+      expect(queryShadow(card, 'save-diff-dialog')).toBeNull();
+      expect(queryShadow(card, '.message-error')!.textContent).toContain('Save or undo changes');
+      expect(serializeWeeklySchedule((card as any)._schedule).monday).toBe('00:00/19');
+      expect(loadVacationSnapshots()).toEqual({});
+    });
+
+    it('should not start vacation mode when publishing fails', async () => {
+      card.hass = {
+        ...scenario.hass,
+        callService: async () => {
+          throw new Error('Broker offline');
+        }
+      };
+      await waitForUpdate(card);
+
+      await startVacation('15');
+
+      expect(loadVacationSnapshots()).toEqual({});
+      expect(queryShadow(card, '.vacation-banner')).toBeNull();
+      expect(queryShadow(card, '.message-error')!.textContent).toContain('Broker offline');
+    });
+  });
+
+  describe('Statistics View', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        comfort_temp: 21
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    /**
+     * Get a cell of the statistics table
+     */
+    function statsCell(row: string, column: string): string | undefined {
+      const view = queryShadow(card, 'schedule-stats-view') as any;
+      return view?.shadowRoot.querySelector(`tr[data-row="${row}"] .${column}`)?.textContent.trim();
+    }
+
+    it('should open and close the statistics view', async () => {
+      const statsButton = queryShadow<HTMLButtonElement>(card, '.stats-button')!;
+      statsButton.click();
+      await waitForUpdate(card);
+
+      expect((card as any)._viewMode).toBe('stats');
+      expect(statsButton.getAttribute('aria-pressed')).toBe('true');
+      expect(queryShadow(card, 'schedule-week-view')).toBeNull();
+
+      statsButton.click();
+      await waitForUpdate(card);
+      expect((card as any)._viewMode).toBe('week');
+    });
+
+    it('should show per-day and weekly statistics using the comfort temperature', async () => {
+      (card as any)._viewMode = 'stats';
+      await waitForUpdate(card);
+      await (queryShadow(card, 'schedule-stats-view') as any).updateComplete;
+
+      // Monday: 21°C for 2h and 22°C for 5h
+      expect(statsCell('monday', 'comfort-hours')).toBe('7 h');
+      expect(statsCell('monday', 'free-slots')).toBe('1/6');
+      expect(statsCell('sunday', 'max-temp')).toBe('22°C');
+      expect(statsCell('week', 'comfort-hours')).toBe('63 h');
+      expect(statsCell('week', 'free-slots')).toBe('11/42');
+    });
+
+    it('should reflect unsaved edits', async () => {
+      (card as any)._viewMode = 'stats';
+      await waitForUpdate(card);
+
+      const schedule = { ...(card as any)._schedule, monday: parseDaySchedule('00:00/21') };
+      (card as any)._applyEdit(schedule);
+      await waitForUpdate(card);
+      await (queryShadow(card, 'schedule-stats-view') as any).updateComplete;
+
+      expect(statsCell('monday', 'comfort-hours')).toBe('24 h');
+      expect(statsCell('monday', 'average-temp')).toBe('21°C');
+    });
+
+    it('should start in the statistics view when configured', async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        view_mode: 'stats'
+      });
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, 'schedule-stats-view')).toBeTruthy();
+    });
+  });
+
+  describe('Lint Warnings', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        max_jump: 2
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    it('should pass the configured thresholds to the day editor', async () => {
+      dispatchCustomEvent(queryShadow(card, 'schedule-week-view')!, 'day-selected', { day: 'monday' as DayOfWeek });
+      await waitForUpdate(card);
+
+      const dayEditor = queryShadow(card, 'day-schedule-editor') as any;
+      await dayEditor.updateComplete;
+      expect(dayEditor.lintOptions).toMatchObject({ maxJump: 2, comfortCap: 24, comfortTemp: 20 });
+
+      // Monday jumps 3°C at 06:00 and 17:00, and 4°C at 22:00
+      const items = dayEditor.shadowRoot.querySelectorAll('.lint-warnings li');
+      expect(Array.from(items).map((item: any) => item.dataset.code))
+        .toEqual(['large_jump', 'large_jump', 'large_jump']);
+    });
+
+    it('should not block saving a schedule with warnings', async () => {
+      const schedule = { ...(card as any)._schedule, monday: parseDaySchedule('00:00/15 08:00/25') };
+      (card as any)._applyEdit(schedule);
+      await waitForUpdate(card);
+
+      await clickSaveAndConfirm(card);
+
+      expect(scenario.recorder.getCallCount('mqtt', 'publish')).toBe(1);
+    });
+  });
+
+  describe('Simplify', () => {
+    const REDUNDANT = { ...SAMPLE_WEEKLY_SCHEDULE, tuesday: '00:00/18 06:00/18 08:00/21 09:00/21' };
+
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+      (card as any)._applyEdit(parseWeeklySchedule(REDUNDANT));
+      await waitForUpdate(card);
+    });
+
+    it('should preview the week-wide simplification and apply it as an undoable edit', async () => {
+      queryShadow<HTMLButtonElement>(card, '.simplify-button')!.click();
+      await waitForUpdate(card);
+
+      const dialog = queryShadow(card, 'simplify-dialog') as any;
+      await dialog.updateComplete;
+      const days = dialog.shadowRoot.querySelectorAll('.simplify-day');
+      expect(Array.from(days).map((day: any) => day.dataset.day)).toEqual(['tuesday']);
+      const removed = dialog.shadowRoot.querySelectorAll('.simplify-day .before .removed');
+      expect(Array.from(removed).map((el: any) => el.textContent.trim())).toEqual(['06:00/18', '09:00/21']);
+
+      dialog.shadowRoot.querySelector('.apply-simplify-button').click();
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, 'simplify-dialog')).toBeNull();
+      expect(serializeWeeklySchedule((card as any)._schedule).tuesday).toBe('00:00/18 08:00/21');
+
+      (card as any)._undo();
+      await waitForUpdate(card);
+      expect(serializeWeeklySchedule((card as any)._schedule).tuesday).toBe(REDUNDANT.tuesday);
+    });
+
+    it('should simplify a day from the day editor', async () => {
+      dispatchCustomEvent(queryShadow(card, 'schedule-week-view')!, 'day-selected', { day: 'tuesday' as DayOfWeek });
+      await waitForUpdate(card);
+
+      const dayEditor = queryShadow(card, 'day-schedule-editor') as any;
+      await dayEditor.updateComplete;
+      const button = dayEditor.shadowRoot.querySelector('.simplify-button') as HTMLButtonElement;
+      expect(button.textContent).toContain('−2');
+
+      button.click();
+      await waitForUpdate(card);
+      await dayEditor.updateComplete;
+
+      expect(serializeWeeklySchedule((card as any)._schedule).tuesday).toBe('00:00/18 08:00/21');
+      expect(dayEditor.shadowRoot.querySelector('.simplify-message').textContent).toContain('Removed 2');
+      expect((dayEditor.shadowRoot.querySelector('.simplify-button') as HTMLButtonElement).disabled).toBe(true);
+    });
+  });
+
+  describe('Multi-day Editing', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    /**
+     * Get the week view and wait for it to render
+     */
+    async function getWeekView(): Promise<any> {
+      const weekView = queryShadow(card, 'schedule-week-view') as any;
+      await weekView.updateComplete;
+      return weekView;
+    }
+
+    /**
+     * Get the open day editor and wait for it to render
+     */
+    async function getDayEditor(): Promise<any> {
+      await waitForUpdate(card);
+      const dayEditor = queryShadow(card, 'day-schedule-editor') as any;
+      await dayEditor.updateComplete;
+      return dayEditor;
+    }
+
+    it('should select days with shift-click and open a combined editor', async () => {
+      const weekView = await getWeekView();
+      const column = (day: string) => weekView.shadowRoot.querySelector(`.day-column[data-day="${day}"]`);
+
+      column('monday').dispatchEvent(new MouseEvent('click', { shiftKey: true, bubbles: true }));
+      column('wednesday').dispatchEvent(new MouseEvent('click', { ctrlKey: true, bubbles: true }));
+      await weekView.updateComplete;
+
+      expect(column('monday').classList.contains('selected')).toBe(true);
+      expect(column('wednesday').getAttribute('aria-pressed')).toBe('true');
+      expect(queryShadow(card, 'day-schedule-editor')).toBeNull();
+
+      weekView.shadowRoot.querySelector('.edit-selected-button').click();
+      const dayEditor = await getDayEditor();
+
+      expect(dayEditor.day).toBe('monday');
+      expect(dayEditor.days).toEqual(['monday', 'wednesday']);
+      expect(dayEditor.shadowRoot.querySelector('.modal-title').textContent).toContain('Mon, Wed');
+    });
+
+    it('should select weekdays and weekend with the chips', async () => {
+      const weekView = await getWeekView();
+
+      weekView.shadowRoot.querySelector('.weekend-chip').click();
+      await weekView.updateComplete;
+      const selected = Array.from(weekView.shadowRoot.querySelectorAll('.day-column.selected'))
+        .map((el: any) => el.dataset.day);
+      expect(selected).toEqual(['saturday', 'sunday']);
+
+      weekView.shadowRoot.querySelector('.weekdays-chip').click();
+      await weekView.updateComplete;
+      expect(weekView.shadowRoot.querySelectorAll('.day-column.selected')).toHaveLength(5);
+      expect(weekView.shadowRoot.querySelector('.edit-selected-button').textContent).toContain('Edit 5 days');
+    });
+
+    it('should show where the selected days disagree', async () => {
+      (card as any)._applyEdit(parseWeeklySchedule({
+        ...SAMPLE_WEEKLY_SCHEDULE,
+        wednesday: '00:00/18 06:30/21 08:00/19 17:00/22 22:00/18'
+      }));
+      await waitForUpdate(card);
+
+      dispatchCustomEvent(await getWeekView(), 'days-selected', { days: ['monday', 'tuesday', 'wednesday'] });
+      const dayEditor = await getDayEditor();
+
+      const items = dayEditor.shadowRoot.querySelectorAll('.day-disagreements li[data-day]');
+      expect(Array.from(items).map((item: any) => item.dataset.day)).toEqual(['wednesday']);
+      const changes = Array.from(items[0].querySelectorAll('.diff-change')).map((el: any) => el.textContent.trim());
+      expect(changes).toEqual(['+ 06:00  21°C', '− 06:30  21°C']);
+    });
+
+    it('should apply each change to every selected day\'s own schedule', async () => {
+      (card as any)._applyEdit(parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, friday: '00:00/17 06:00/20 09:00/19' }));
+      await waitForUpdate(card);
+
+      dispatchCustomEvent(await getWeekView(), 'days-selected', { days: ['monday', 'friday'] });
+      let dayEditor = await getDayEditor();
+
+      const transition = dayEditor.shadowRoot.querySelectorAll('transition-editor')[1];
+      dispatchCustomEvent(transition, 'transition-changed', {
+        id: transition.transition.id,
+        transition: { ...transition.transition, temperature: 23 }
+      });
+      dayEditor = await getDayEditor();
+
+      const mqtt = serializeWeeklySchedule((card as any)._schedule);
+      expect(mqtt.monday).toBe('00:00/18 06:00/23 08:00/19 17:00/22 22:00/18');
+      expect(mqtt.friday).toBe('00:00/17 06:00/23 09:00/19');
+      expect(mqtt.tuesday).toBe(SAMPLE_WEEKLY_SCHEDULE.tuesday);
+      expect(dayEditor.shadowRoot.querySelector('.day-disagreements li[data-day="friday"]')).not.toBeNull();
+
+      // One undo step reverts all days
+      (card as any)._undo();
+      await waitForUpdate(card);
+      expect(serializeWeeklySchedule((card as any)._schedule).friday).toBe('00:00/17 06:00/20 09:00/19');
+    });
+
+    it('should add and delete transitions on each selected day', async () => {
+      (card as any)._applyEdit(parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, friday: '00:00/17 08:00/19' }));
+      await waitForUpdate(card);
+
+      dispatchCustomEvent(await getWeekView(), 'days-selected', { days: ['monday', 'friday'] });
+      let dayEditor = await getDayEditor();
+
+      const transition = dayEditor.shadowRoot.querySelectorAll('transition-editor')[2];
+      dispatchCustomEvent(transition, 'transition-deleted', { id: transition.transition.id });
+      dayEditor = await getDayEditor();
+
+      const mqtt = serializeWeeklySchedule((card as any)._schedule);
+      expect(mqtt.monday).toBe('00:00/18 06:00/21 17:00/22 22:00/18');
+      expect(mqtt.friday).toBe('00:00/17');
+    });
+
+    it('should replace the other days only with apply to all', async () => {
+      (card as any)._applyEdit(parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, friday: '00:00/17' }));
+      await waitForUpdate(card);
+
+      dispatchCustomEvent(await getWeekView(), 'days-selected', { days: ['monday', 'friday'] });
+      let dayEditor = await getDayEditor();
+
+      dayEditor.shadowRoot.querySelector('.apply-all-button').click();
+      dayEditor = await getDayEditor();
+
+      const mqtt = serializeWeeklySchedule((card as any)._schedule);
+      expect(mqtt.friday).toBe(mqtt.monday);
+      expect(mqtt.tuesday).toBe(SAMPLE_WEEKLY_SCHEDULE.tuesday);
+      expect(dayEditor.shadowRoot.querySelector('.day-disagreements')).toBeNull();
+    });
+  });
+
+  describe('Localization', () => {
+    async function mountWithLanguage(language: string, config: Record<string, unknown> = {}): Promise<void> {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        ...config
+      });
+      card.hass = { ...scenario.hass, locale: { language } };
+      await waitForUpdate(card);
+    }
+
+    async function openMondayEditor(): Promise<HTMLElement & { updateComplete: Promise<boolean> }> {
+      (card as any)._editingDay = 'monday';
+      await waitForUpdate(card);
+      return queryShadow(card, 'day-schedule-editor') as any;
+    }
+
+    it('should render the card in the user language', async () => {
+      await mountWithLanguage('de');
+
+      expect(queryShadow(card, '.save-button')!.textContent!.trim()).toBe('Speichern');
+
+      const editor = await openMondayEditor();
+      await editor.updateComplete;
+      expect(editor.shadowRoot!.querySelector('.modal-title')!.textContent).toBe('Zeitplan Montag');
+    });
+
+    it('should translate validation errors', async () => {
+      await mountWithLanguage('it', { max_temp: 20 });
+
+      const editor = await openMondayEditor();
+      (editor as any)._validate();
+      await editor.updateComplete;
+
+      expect(editor.shadowRoot!.querySelector('.message-error')!.textContent).toContain('Deve essere tra 4 e 20°C');
+    });
+
+    it('should translate errors from Home Assistant calls', async () => {
+      await mountWithLanguage('de');
+      card.hass = {
+        ...card.hass,
+        callService: async () => {
+          throw new Error('Broker offline');
+        }
+      };
+      (card as any)._applyEdit({ ...(card as any)._schedule, monday: { transitions: [{ time: '00:00', temperature: 19 }] } });
+      await waitForUpdate(card);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+
+      expect(queryShadow(card, '.message-error')!.textContent).toContain(
+        'Zeitplan konnte nicht gespeichert werden: Broker offline'
+      );
+    });
+
+    it('should fall back to English for languages without a translation', async () => {
+      await mountWithLanguage('nl');
+
+      expect(queryShadow(card, '.save-button')!.textContent!.trim()).toBe('Save');
+    });
+  });
+
+  describe('12-hour Clock', () => {
+    async function mountWithTimeFormat(locale: Record<string, string>): Promise<void> {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = { ...scenario.hass, locale } as HomeAssistant;
+      await waitForUpdate(card);
+    }
+
+    /**
+     * Open the Monday editor and return the editor of its 06:00 transition
+     */
+    async function openMorningTransition(): Promise<{ editor: any; transition: any }> {
+      (card as any)._editingDay = 'monday';
+      await waitForUpdate(card);
+      const editor = queryShadow(card, 'day-schedule-editor') as any;
+      await editor.updateComplete;
+      const transition = editor.shadowRoot.querySelectorAll('transition-editor')[1];
+      await transition.updateComplete;
+      return { editor, transition };
+    }
+
+    it('should show AM/PM times in the week view', async () => {
+      await mountWithTimeFormat({ language: 'en', time_format: '12' });
+
+      const weekView = queryShadow(card, 'schedule-week-view') as any;
+      await weekView.updateComplete;
+      const times = Array.from(weekView.shadowRoot.querySelectorAll('.transition-time'))
+        .map((el: any) => el.textContent);
+      expect(times).toContain('6:00 AM');
+      expect(times).toContain('10:00 PM');
+    });
+
+    it('should keep the 24-hour clock when configured', async () => {
+      await mountWithTimeFormat({ language: 'en', time_format: '24' });
+
+      const { transition } = await openMorningTransition();
+      expect(transition.shadowRoot.querySelector('.period-select')).toBeNull();
+    });
+
+    it('should schedule the evening when PM is selected', async () => {
+      await mountWithTimeFormat({ language: 'en', time_format: '12' });
+
+      const { editor, transition } = await openMorningTransition();
+      const [hourSelect, , periodSelect] = transition.shadowRoot.querySelectorAll('select');
+      expect(hourSelect.selectedOptions[0].textContent).toBe('6');
+      expect(periodSelect.value).toBe('AM');
+
+      periodSelect.value = 'PM';
+      periodSelect.dispatchEvent(new Event('change'));
+      await editor.updateComplete;
+
+      expect(editor._workingSchedule.transitions.some((t: any) => t.time === '18:00' && t.temperature === 21)).toBe(true);
+      expect(editor._workingSchedule.transitions.some((t: any) => t.time === '06:00')).toBe(false);
+    });
+
+    it('should map 12 AM to midnight and 12 PM to noon', async () => {
+      await mountWithTimeFormat({ language: 'en', time_format: '12' });
+
+      const { editor } = await openMorningTransition();
+      const twelveOf = (index: number): string => {
+        const hourSelect = editor.shadowRoot.querySelectorAll('transition-editor')[index].shadowRoot.querySelector('select');
+        return Array.from(hourSelect.options as HTMLOptionElement[]).find(o => o.textContent === '12')!.value;
+      };
+
+      // 06:00 is in the morning, 17:00 in the afternoon
+      expect(twelveOf(1)).toBe('00');
+      expect(twelveOf(3)).toBe('12');
+    });
+
+    it('should show AM/PM times in the simplify and save review dialogs', async () => {
+      await mountWithTimeFormat({ language: 'en', time_format: '12' });
+      (card as any)._applyEdit(parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, tuesday: '00:00/18 18:00/18 20:00/21' }));
+      await waitForUpdate(card);
+
+      queryShadow<HTMLButtonElement>(card, '.simplify-button')!.click();
+      await waitForUpdate(card);
+      const simplify = queryShadow(card, 'simplify-dialog') as any;
+      await simplify.updateComplete;
+      const before = Array.from(simplify.shadowRoot.querySelectorAll('.simplify-day .before .simplify-transition'))
+        .map((el: any) => el.textContent.trim());
+      expect(before).toEqual(['12:00 AM/18', '6:00 PM/18', '8:00 PM/21']);
+      simplify.shadowRoot.querySelector('.apply-simplify-button').click();
+      await waitForUpdate(card);
+
+      queryShadow<HTMLButtonElement>(card, '.save-button')!.click();
+      await waitForUpdate(card);
+      const review = queryShadow(card, 'save-diff-dialog') as any;
+      await review.updateComplete;
+      const changes = Array.from(review.shadowRoot.querySelectorAll('.diff-change'))
+        .map((el: any) => el.textContent.trim());
+      expect(changes).toContain('+ 8:00 PM  21°C');
+      expect(changes).toContain('− 10:00 PM  18°C');
+    });
+  });
+
+  describe('First Day of Week', () => {
+    async function mountWith(config: Record<string, unknown>, locale?: Record<string, string>): Promise<void> {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId,
+        ...config
+      });
+      card.hass = (locale ? { ...scenario.hass, locale } : scenario.hass) as HomeAssistant;
+      await waitForUpdate(card);
+    }
+
+    async function weekColumns(): Promise<string[]> {
+      const weekView = queryShadow(card, 'schedule-week-view') as any;
+      await weekView.updateComplete;
+      return Array.from(weekView.shadowRoot.querySelectorAll('.day-column'))
+        .map((column: any) => column.getAttribute('data-day'));
+    }
+
+    it('should start on Monday without locale settings', async () => {
+      await mountWith({});
+      expect((await weekColumns())[0]).toBe('monday');
+    });
+
+    it('should follow the Home Assistant first weekday', async () => {
+      await mountWith({}, { language: 'en', first_weekday: 'sunday' });
+      expect((await weekColumns())[0]).toBe('sunday');
+    });
+
+    it('should let the card option override the locale', async () => {
+      await mountWith({ first_day_of_week: 'saturday' }, { language: 'en', first_weekday: 'sunday' });
+      expect(await weekColumns()).toEqual(['saturday', 'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday']);
+    });
+
+    it('should use the same order in every view', async () => {
+      await mountWith({ first_day_of_week: 'sunday' });
+
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      const graph = queryShadow(card, 'schedule-graph-view') as any;
+      await graph.updateComplete;
+      expect(graph.shadowRoot.querySelector('.day-button').textContent.trim()).toBe('Sun');
+
+      (card as any)._viewMode = 'stats';
+      await waitForUpdate(card);
+      const stats = queryShadow(card, 'schedule-stats-view') as any;
+      await stats.updateComplete;
+      expect(stats.shadowRoot.querySelector('.day-row').getAttribute('data-row')).toBe('sunday');
+
+      (card as any)._copySourceDay = 'monday';
+      (card as any)._showCopyDialog = true;
+      await waitForUpdate(card);
+      const dialog = queryShadow(card, 'copy-schedule-dialog') as any;
+      await dialog.updateComplete;
+      expect(dialog.shadowRoot.querySelector('.day-checkbox-label').textContent.trim()).toBe('Sunday');
+    });
+  });
+
+  describe('Undo/Redo', () => {
+    beforeEach(async () => {
+      card.setConfig({
+        type: 'custom:trvzb-scheduler-card',
+        entity: scenario.entityId
+      });
+      card.hass = scenario.hass;
+      await waitForUpdate(card);
+    });
+
+    /**
+     * Helper: Apply an edit to Monday through the graph view
+     */
+    async function editMonday(temperature: number, save?: boolean): Promise<void> {
+      (card as any)._viewMode = 'graph';
+      await waitForUpdate(card);
+      const graphView = queryShadow(card, 'schedule-graph-view');
+      dispatchCustomEvent(graphView!, 'schedule-changed', {
+        day: 'monday' as DayOfWeek,
+        schedule: { transitions: [{ time: '00:00', temperature }] },
+        save
+      });
+      await waitForUpdate(card);
+    }
+
+    it('should disable undo and redo buttons initially', () => {
+      const undoButton = queryShadow<HTMLButtonElement>(card, '.undo-button');
+      const redoButton = queryShadow<HTMLButtonElement>(card, '.redo-button');
+      expect(undoButton!.disabled).toBe(true);
+      expect(redoButton!.disabled).toBe(true);
+    });
+
+    it('should restore previous schedule when undo is clicked', async () => {
+      const originalMonday = (card as any)._schedule.monday;
+      await editMonday(25);
+
+      const undoButton = queryShadow<HTMLButtonElement>(card, '.undo-button');
+      expect(undoButton!.disabled).toBe(false);
+      undoButton!.click();
+      await waitForUpdate(card);
+
+      expect((card as any)._schedule.monday.transitions.map((t: any) => t.temperature))
+        .toEqual(originalMonday.transitions.map((t: any) => t.temperature));
+      expect((card as any)._hasUnsavedChanges).toBe(false);
+    });
+
+    it('should re-apply the edit when redo is clicked', async () => {
+      await editMonday(25);
+      queryShadow<HTMLButtonElement>(card, '.undo-button')!.click();
+      await waitForUpdate(card);
+
+      const redoButton = queryShadow<HTMLButtonElement>(card, '.redo-button');
+      expect(redoButton!.disabled).toBe(false);
+      redoButton!.click();
+      await waitForUpdate(card);
+
+      expect((card as any)._schedule.monday.transitions[0].temperature).toBe(25);
+      expect((card as any)._hasUnsavedChanges).toBe(true);
+    });
+
+    it('should group a whole graph drag into one undo step', async () => {
+      const originalMonday = (card as any)._schedule.monday;
+      await editMonday(19, false);
+      await editMonday(20, false);
+      await editMonday(21, false);
+      await editMonday(21, true);
+
+      queryShadow<HTMLButtonElement>(card, '.undo-button')!.click();
+      await waitForUpdate(card);
+
+      expect((card as any)._schedule.monday.transitions.length).toBe(originalMonday.transitions.length);
+      expect(queryShadow<HTMLButtonElement>(card, '.undo-button')!.disabled).toBe(true);
+    });
+
+    it('should undo with Ctrl+Z and redo with Ctrl+Shift+Z', async () => {
+      await editMonday(25);
+
+      card.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true }));
+      await waitForUpdate(card);
+      expect((card as any)._schedule.monday.transitions[0].temperature).toBe(18);
+
+      card.dispatchEvent(new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true, bubbles: true }));
+      await waitForUpdate(card);
+      expect((card as any)._schedule.monday.transitions[0].temperature).toBe(25);
+    });
+
+    it('should clear history after a successful save', async () => {
+      await editMonday(25);
+
+      await clickSaveAndConfirm(card);
+      await waitForUpdate(card);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await waitForUpdate(card);
+
+      expect(queryShadow<HTMLButtonElement>(card, '.undo-button')!.disabled).toBe(true);
+      expect(queryShadow<HTMLButtonElement>(card, '.redo-button')!.disabled).toBe(true);
+    });
+  });
+
   describe('Edge Cases and Error Handling', () => {
     it('should handle rapid entity changes gracefully', async () => {
       card.setConfig({
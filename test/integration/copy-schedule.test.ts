@@ -526,13 +526,19 @@ describe('Copy Schedule Dialog Component', () => {
         cb.querySelector('.day-checkbox-label')?.textContent?.trim().toLowerCase()
       );
 
-      // Should be in Sun-Sat order, excluding Monday
-      expect(dayLabels[0]).toBe('sunday');
-      expect(dayLabels[1]).toBe('tuesday');
-      expect(dayLabels[2]).toBe('wednesday');
-      expect(dayLabels[3]).toBe('thursday');
-      expect(dayLabels[4]).toBe('friday');
-      expect(dayLabels[5]).toBe('saturday');
+      // Should be in Mon-Sun order, excluding Monday
+      expect(dayLabels).toEqual(['tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']);
+    });
+
+    it('should start the week on the configured first day', async () => {
+      const dialog = await createDialog('monday', true);
+      dialog.firstDayOfWeek = 'sunday';
+      await waitForUpdates(dialog);
+
+      const dayLabels = querySelectorAll<HTMLLabelElement>(dialog, '.day-checkbox-label').map(label =>
+        label.textContent?.trim().toLowerCase()
+      );
+      expect(dayLabels).toEqual(['sunday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']);
     });
   });
 
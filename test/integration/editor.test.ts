@@ -496,4 +496,95 @@ describe('Editor Component', () => {
       expect(nameLabel?.textContent?.toLowerCase()).toContain('optional');
     });
   });
+
+  describe('Advanced Options', () => {
+    /**
+     * Helper: change an input or select and return the dispatched config
+     */
+    async function changeField(
+      editor: TRVZBSchedulerCardEditor,
+      selector: string,
+      value: string
+    ): Promise<TRVZBSchedulerCardConfig | undefined> {
+      const spy = vi.fn();
+      editor.addEventListener('config-changed', spy);
+
+      const field = querySelector<HTMLInputElement | HTMLSelectElement>(editor, selector)!;
+      field.value = value;
+      field.dispatchEvent(new Event('change', { bubbles: true }));
+      await editor.updateComplete;
+
+      return spy.mock.calls[0]?.[0].detail.config;
+    }
+
+    it('should parse additional devices from a comma-separated list', async () => {
+      const editor = await createEditor();
+      const config = await changeField(editor, '.entities-input', 'climate.bedroom_trvzb, climate.office_thermostat,');
+
+      expect(config?.entities).toEqual(['climate.bedroom_trvzb', 'climate.office_thermostat']);
+    });
+
+    it('should set and clear temperature limit overrides', async () => {
+      const editor = await createEditor();
+      expect((await changeField(editor, '.max-temp-input', '28'))?.max_temp).toBe(28);
+
+      const cleared = await createEditor({ max_temp: 28 });
+      const config = await changeField(cleared, '.max-temp-input', '');
+      expect(config).toBeDefined();
+      expect(config?.max_temp).toBeUndefined();
+    });
+
+    it('should set the Zigbee2MQTT base topic and device name', async () => {
+      const editor = await createEditor();
+      expect((await changeField(editor, '.base-topic-input', 'z2m'))?.base_topic).toBe('z2m');
+      expect((await changeField(editor, '.device-name-input', 'Floor1/Kitchen TRV'))?.device_name)
+        .toBe('Floor1/Kitchen TRV');
+    });
+
+    it('should set the schedule sensors template', async () => {
+      const editor = await createEditor();
+      const config = await changeField(editor, '.schedule-sensors-input', 'text.kitchen_{day}');
+
+      expect(config?.schedule_sensors).toBe('text.kitchen_{day}');
+    });
+
+    it('should not offer a template input for a per-day mapping', async () => {
+      const editor = await createEditor({ schedule_sensors: { monday: 'text.kitchen_monday' } });
+
+      expect(querySelector(editor, '.schedule-sensors-input')).toBeNull();
+    });
+
+    it('should select the text entity write method', async () => {
+      const editor = await createEditor();
+      expect(querySelector<HTMLSelectElement>(editor, '.write-method-select')!.value).toBe('mqtt');
+
+      const config = await changeField(editor, '.write-method-select', 'text');
+      expect(config?.write_method).toBe('text');
+    });
+
+    it('should set the comfort temperature', async () => {
+      const editor = await createEditor();
+      expect((await changeField(editor, '.comfort-temp-input', '19.5'))?.comfort_temp).toBe(19.5);
+    });
+
+    it('should set the comfort cap and largest jump', async () => {
+      const editor = await createEditor();
+      expect((await changeField(editor, '.comfort-cap-input', '23'))?.comfort_cap).toBe(23);
+      expect((await changeField(editor, '.max-jump-input', '4'))?.max_jump).toBe(4);
+    });
+
+    it('should set and clear the first day of the week', async () => {
+      const editor = await createEditor();
+      expect(querySelector<HTMLSelectElement>(editor, '.first-day-select')!.value).toBe('');
+
+      expect((await changeField(editor, '.first-day-select', 'sunday'))?.first_day_of_week).toBe('sunday');
+      expect((await changeField(editor, '.first-day-select', ''))?.first_day_of_week).toBeUndefined();
+    });
+
+    it('should offer the statistics view as default view', async () => {
+      const editor = await createEditor({ view_mode: 'week' });
+      const config = await changeField(editor, '.view-mode-select', 'stats');
+      expect(config?.view_mode).toBe('stats');
+    });
+  });
 });
@@ -5,8 +5,8 @@
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import '../../src/components/schedule-graph-view';
-import { createMockHass, createMockTRVZBEntity } from '../mocks/hass-mock';
-import type { HomeAssistant, WeeklySchedule, DayOfWeek } from '../../src/models/types';
+import { createMockHass, createMockTRVZBEntity, createMockHistoryStates, MockWebSocket } from '../mocks/hass-mock';
+import type { HomeAssistant, WeeklySchedule, DayOfWeek, TemperatureLimits, WeekTime } from '../../src/models/types';
 
 /**
  * Mock SVG methods that JSDOM doesn't support
@@ -34,6 +34,10 @@ interface ScheduleGraphView extends HTMLElement {
   schedule: WeeklySchedule | null;
   selectedDay: DayOfWeek;
   disabled: boolean;
+  limits: TemperatureLimits;
+  now: WeekTime | null;
+  hass?: HomeAssistant;
+  entityId: string;
   updateComplete: Promise<boolean>;
   shadowRoot: ShadowRoot | null;
 }
@@ -271,6 +275,20 @@ describe('ScheduleGraphView - Integration Tests', () => {
       expect(axisLabels.length).toBeGreaterThan(0);
     });
 
+    it('should label hours and points on the 12-hour clock', async () => {
+      const element = await createGraphView();
+      element.hour12 = true;
+      await element.updateComplete;
+
+      const hourLabels = querySelectorAll(element, '.axis-label').map(label => label.textContent!.trim());
+      expect(hourLabels.slice(0, 3)).toEqual(['12a', '1a', '2a']);
+      expect(hourLabels).toContain('6p');
+
+      const pointLabels = querySelectorAll(element, '.point-label').map(label => label.textContent!.trim());
+      expect(pointLabels).toContain('6:00 AM');
+      expect(querySelectorAll(element, '.point-group')[1].getAttribute('aria-label')).toContain('6:00 AM');
+    });
+
     it('should render draggable points with correct colors', async () => {
       const element = await createGraphView();
       const pointCircles = querySelectorAll<SVGCircleElement>(element, '.temperature-point');
@@ -643,4 +661,477 @@ describe('ScheduleGraphView - Integration Tests', () => {
       expect(fixedTimeLabels.length).toBe(1);
     });
   });
+
+  describe('Temperature Limits', () => {
+    it('should not extend the temperature axis beyond the device limits', async () => {
+      const element = await createGraphView();
+      element.limits = { min: 15, max: 24, step: 0.5 };
+      await element.updateComplete;
+
+      const range = (element as any).getTempRange();
+      expect(range.min).toBeGreaterThanOrEqual(15);
+      expect(range.max).toBeLessThanOrEqual(24);
+    });
+
+    it('should clamp and snap dragged temperatures to the device limits', async () => {
+      const element = await createGraphView();
+      element.limits = { min: 15, max: 21, step: 1 };
+      await element.updateComplete;
+
+      // Top and bottom edges of the chart map to the ends of the range
+      expect((element as any).yToTemp(-100, 300)).toBe(21);
+      expect((element as any).yToTemp(1000, 300)).toBe(15);
+      expect(Number.isInteger((element as any).yToTemp(137, 300))).toBe(true);
+    });
+  });
+
+  describe('Current Time', () => {
+    it('should draw a now-line when the selected day is today', async () => {
+      const element = await createGraphView();
+      element.now = { day: 'monday', minutes: 12 * 60 };
+      await element.updateComplete;
+
+      const line = element.shadowRoot!.querySelector('.now-line')!;
+      expect(line).toBeTruthy();
+      expect(Number(line.getAttribute('x1'))).toBeCloseTo((element as any).hourToX(12, 800));
+      expect(element.shadowRoot!.querySelector('.now-label')!.textContent).toContain('12:00');
+    });
+
+    it('should not draw a now-line for other days', async () => {
+      const element = await createGraphView();
+      element.now = { day: 'friday', minutes: 12 * 60 };
+      await element.updateComplete;
+
+      expect(element.shadowRoot!.querySelector('.now-line')).toBeNull();
+    });
+  });
+
+  describe('Lint Warnings', () => {
+    it('should not show warnings for a sensible schedule', async () => {
+      const element = await createGraphView();
+
+      expect(element.shadowRoot!.querySelector('.lint-warnings')).toBeNull();
+      expect(element.shadowRoot!.querySelectorAll('.warning-ring')).toHaveLength(0);
+    });
+
+    it('should ring the transitions with warnings and list them', async () => {
+      const element = await createGraphView();
+      element.lintOptions = { ...element.lintOptions, maxJump: 3 };
+      await element.updateComplete;
+
+      const warned = Array.from(element.shadowRoot!.querySelectorAll('.point-group.has-warning'))
+        .map(group => group.getAttribute('data-point-index'));
+      expect(warned).toEqual(['1', '2', '3', '4']);
+
+      const items = element.shadowRoot!.querySelectorAll('.lint-warnings li');
+      expect(items).toHaveLength(4);
+      expect(items[0].getAttribute('data-code')).toBe('large_jump');
+      expect(items[0].textContent).toContain('06:00');
+    });
+
+    it('should mark days with warnings in the day selector', async () => {
+      const element = await createGraphView();
+      element.lintOptions = { ...element.lintOptions, comfortTemp: 21 };
+      await element.updateComplete;
+
+      const marked = Array.from(element.shadowRoot!.querySelectorAll('.day-button.has-warnings'))
+        .map(button => button.textContent!.trim());
+      expect(marked).toEqual(['Sat', 'Sun']);
+    });
+  });
+
+  describe('Keyboard Control', () => {
+    /**
+     * Create a graph view that applies its own schedule-changed events, like the card does
+     */
+    async function createKeyboardGraphView(schedule?: WeeklySchedule): Promise<ScheduleGraphView> {
+      const element = await createGraphView(schedule);
+      element.addEventListener('schedule-changed', ((e: CustomEvent) => {
+        element.schedule = { ...element.schedule!, [e.detail.day]: e.detail.schedule };
+      }) as EventListener);
+      return element;
+    }
+
+    /**
+     * Send a key to a point and wait for the re-render
+     */
+    async function pressKey(element: ScheduleGraphView, index: number, key: string, shiftKey = false) {
+      const point = element.shadowRoot!.querySelector(`.point-group[data-point-index="${index}"]`)!;
+      const event = new KeyboardEvent('keydown', { key, shiftKey, bubbles: true, cancelable: true });
+      point.dispatchEvent(event);
+      await element.updateComplete;
+      await element.updateComplete;
+      return event;
+    }
+
+    function mondayTimes(element: ScheduleGraphView): string[] {
+      return element.schedule!.monday.transitions.map(t => `${t.time}/${t.temperature}`);
+    }
+
+    it('should make only one point reachable with Tab and label it', async () => {
+      const element = await createKeyboardGraphView();
+      const points = querySelectorAll(element, '.point-group');
+
+      expect(points.map(point => point.getAttribute('tabindex'))).toEqual(['0', '-1', '-1', '-1', '-1']);
+      expect(points[1].getAttribute('aria-label')).toBe('06:00, 22°C');
+    });
+
+    it('should move the time with left/right and the temperature with up/down', async () => {
+      const element = await createKeyboardGraphView();
+
+      await pressKey(element, 1, 'ArrowRight');
+      await pressKey(element, 1, 'ArrowUp');
+      expect(mondayTimes(element)[1]).toBe('06:15/22.5');
+
+      await pressKey(element, 1, 'ArrowLeft');
+      await pressKey(element, 1, 'ArrowDown');
+      await pressKey(element, 1, 'ArrowDown');
+      expect(mondayTimes(element)[1]).toBe('06:00/21.5');
+    });
+
+    it('should keep the first point at midnight and points between their neighbours', async () => {
+      const element = await createKeyboardGraphView();
+      const emitted = vi.fn();
+      element.addEventListener('schedule-changed', emitted);
+
+      await pressKey(element, 0, 'ArrowRight');
+      expect(emitted).not.toHaveBeenCalled();
+
+      // 06:00 can move back to 00:15 at the earliest
+      for (let i = 0; i < 30; i++) {
+        await pressKey(element, 1, 'ArrowLeft');
+      }
+      expect(mondayTimes(element)[1]).toBe('00:15/22');
+    });
+
+    it('should not move points towards a neighbour less than a step away', async () => {
+      const schedule = createMockSchedule();
+      schedule.monday = {
+        transitions: [
+          { time: '00:00', temperature: 18 },
+          { time: '06:00', temperature: 22 },
+          { time: '06:05', temperature: 20 },
+          { time: '08:00', temperature: 18 },
+        ],
+      };
+      const element = await createKeyboardGraphView(schedule);
+      const emitted = vi.fn();
+      element.addEventListener('schedule-changed', emitted);
+
+      await pressKey(element, 1, 'ArrowRight');
+      await pressKey(element, 2, 'ArrowLeft');
+      expect(emitted).not.toHaveBeenCalled();
+      expect(mondayTimes(element)).toEqual(['00:00/18', '06:00/22', '06:05/20', '08:00/18']);
+
+      // Away from each other they still move
+      await pressKey(element, 1, 'ArrowLeft');
+      await pressKey(element, 2, 'ArrowRight');
+      expect(mondayTimes(element)).toEqual(['00:00/18', '05:45/22', '06:20/20', '08:00/18']);
+    });
+
+    it('should cycle focus with Tab and show a focus ring', async () => {
+      const element = await createKeyboardGraphView();
+      (querySelector(element, '.point-group') as unknown as SVGGElement).focus();
+      await element.updateComplete;
+
+      const event = await pressKey(element, 0, 'Tab');
+      expect(event.defaultPrevented).toBe(true);
+      expect(element.shadowRoot!.activeElement?.getAttribute('data-point-index')).toBe('1');
+      expect(querySelector(element, '.point-group.focused .focus-ring')).toBeTruthy();
+
+      // Shift+Tab on the first point leaves the chart
+      expect((await pressKey(element, 0, 'Tab', true)).defaultPrevented).toBe(false);
+    });
+
+    it('should insert a point after the focused one and delete it again', async () => {
+      const element = await createKeyboardGraphView();
+
+      await pressKey(element, 1, 'Insert');
+      expect(mondayTimes(element)).toEqual(['00:00/18', '06:00/22', '07:00/22', '08:00/18', '17:00/22', '22:00/18']);
+      expect(element.shadowRoot!.activeElement?.getAttribute('data-point-index')).toBe('2');
+
+      // The sixth transition is the last one allowed
+      await pressKey(element, 2, 'Insert');
+      expect(mondayTimes(element)).toHaveLength(6);
+
+      await pressKey(element, 2, 'Delete');
+      expect(mondayTimes(element)).toHaveLength(5);
+      expect(element.shadowRoot!.activeElement?.getAttribute('data-point-index')).toBe('1');
+
+      await pressKey(element, 0, 'Delete');
+      expect(mondayTimes(element)).toHaveLength(5);
+    });
+
+    it('should switch days with PageUp and PageDown', async () => {
+      const element = await createKeyboardGraphView();
+
+      await pressKey(element, 0, 'PageDown');
+      expect(element.selectedDay).toBe('tuesday');
+
+      await pressKey(element, 0, 'PageUp');
+      await pressKey(element, 0, 'PageUp');
+      expect(element.selectedDay).toBe('sunday');
+    });
+
+    it('should ignore keys when disabled', async () => {
+      const element = await createKeyboardGraphView();
+      element.disabled = true;
+      await element.updateComplete;
+
+      await pressKey(element, 1, 'ArrowUp');
+      expect(mondayTimes(element)[1]).toBe('06:00/22');
+      expect(querySelectorAll(element, '.point-group').every(p => p.getAttribute('tabindex') === '-1')).toBe(true);
+    });
+  });
+
+  describe('Compare Mode', () => {
+    async function enableCompare(element: ScheduleGraphView): Promise<void> {
+      querySelector<HTMLButtonElement>(element, '.compare-toggle')!.click();
+      await element.updateComplete;
+    }
+
+    function ghostDays(element: ScheduleGraphView): string[] {
+      return querySelectorAll(element, '.ghost-line').map(line => line.getAttribute('data-day')!);
+    }
+
+    it('should not draw ghost lines by default', async () => {
+      const element = await createGraphView();
+
+      expect(querySelectorAll(element, '.ghost-line')).toHaveLength(0);
+      expect(querySelector(element, '.compare-legend')).toBeNull();
+    });
+
+    it('should compare a weekday with the other weekdays', async () => {
+      const schedule = createMockSchedule();
+      schedule.wednesday = { transitions: [{ time: '00:00', temperature: 17 }, { time: '07:00', temperature: 21 }] };
+      const element = await createGraphView(schedule, 'wednesday');
+
+      await enableCompare(element);
+
+      expect(ghostDays(element)).toEqual(['monday', 'tuesday', 'thursday', 'friday']);
+      expect(querySelectorAll(element, '.temperature-line')).toHaveLength(1);
+      expect(querySelector(element, '.compare-toggle')!.getAttribute('aria-pressed')).toBe('true');
+    });
+
+    it('should compare a weekend day with the weekend', async () => {
+      const element = await createGraphView(undefined, 'saturday');
+
+      await enableCompare(element);
+
+      expect(ghostDays(element)).toEqual(['sunday']);
+    });
+
+    it('should draw each day in its own color', async () => {
+      const element = await createGraphView();
+      await enableCompare(element);
+
+      const colors = querySelectorAll(element, '.ghost-line').map(line => line.getAttribute('stroke'));
+      expect(new Set(colors).size).toBe(colors.length);
+
+      const legend = querySelectorAll<HTMLElement>(element, '.legend-toggle');
+      expect(legend).toHaveLength(7);
+      const tuesdaySwatch = legend.find(toggle => toggle.dataset.day === 'tuesday')!
+        .querySelector<HTMLElement>('.legend-swatch')!;
+      const tuesdayLine = querySelectorAll(element, '.ghost-line').find(line => line.getAttribute('data-day') === 'tuesday')!;
+      expect(tuesdaySwatch.getAttribute('style')).toContain(tuesdayLine.getAttribute('stroke')!);
+    });
+
+    it('should toggle days from the legend', async () => {
+      const element = await createGraphView();
+      await enableCompare(element);
+
+      const toggle = (day: string) => querySelectorAll<HTMLButtonElement>(element, '.legend-toggle')
+        .find(button => button.dataset.day === day)!;
+
+      toggle('tuesday').click();
+      await element.updateComplete;
+      expect(ghostDays(element)).not.toContain('tuesday');
+      expect(toggle('tuesday').getAttribute('aria-pressed')).toBe('false');
+
+      toggle('sunday').click();
+      await element.updateComplete;
+      expect(ghostDays(element)).toContain('sunday');
+    });
+
+    it('should keep the selected day editable and not ghosted', async () => {
+      const element = await createGraphView();
+      await enableCompare(element);
+
+      expect(ghostDays(element)).not.toContain('monday');
+      const mondayToggle = querySelectorAll<HTMLButtonElement>(element, '.legend-toggle')
+        .find(button => button.dataset.day === 'monday')!;
+      expect(mondayToggle.disabled).toBe(true);
+      expect(mondayToggle.classList.contains('editing')).toBe(true);
+
+      // Points belong to the selected day only
+      expect(querySelectorAll(element, '.point-group')).toHaveLength(5);
+
+      // Switching days ghosts the previous day and edits the new one
+      querySelectorAll<HTMLButtonElement>(element, '.day-button')[1].click();
+      await element.updateComplete;
+      expect(ghostDays(element)).toContain('monday');
+      expect(ghostDays(element)).not.toContain('tuesday');
+    });
+
+    it('should fit ghost lines into the temperature range', async () => {
+      const schedule = createMockSchedule();
+      schedule.tuesday = { transitions: [{ time: '00:00', temperature: 30 }] };
+      const element = await createGraphView(schedule, 'monday');
+      const before = (element as any).getTempRange().max;
+
+      await enableCompare(element);
+
+      expect((element as any).getTempRange().max).toBeGreaterThan(before);
+      expect((element as any).getTempRange().max).toBeGreaterThanOrEqual(30);
+    });
+
+    it('should hide ghost lines when compare mode is turned off', async () => {
+      const element = await createGraphView();
+      await enableCompare(element);
+      await enableCompare(element);
+
+      expect(querySelectorAll(element, '.ghost-line')).toHaveLength(0);
+      expect(querySelector(element, '.compare-legend')).toBeNull();
+    });
+  });
+
+  describe('Temperature History', () => {
+    const ENTITY_ID = 'climate.living_room_trvzb';
+    const HISTORY = 'history/history_during_period';
+    // Wednesday 2026-10-14, 10:30 UTC; monday of this week starts 2026-10-12
+    const NOW = new Date('2026-10-14T10:30:00Z');
+    const MONDAY = new Date('2026-10-12T00:00:00Z');
+
+    let websocket: MockWebSocket;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(NOW);
+      websocket = new MockWebSocket();
+      websocket.respond(HISTORY, {
+        [ENTITY_ID]: createMockHistoryStates(MONDAY, [
+          { minutes: 0, current: 17.5, target: 18 },
+          { minutes: 360, current: 17.5, target: 22 },
+          { minutes: 450, current: 21, target: 22 },
+        ]),
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function flush(element: ScheduleGraphView): Promise<void> {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      await element.updateComplete;
+    }
+
+    async function createHistoryView(day: DayOfWeek = 'monday'): Promise<ScheduleGraphView> {
+      const element = await createGraphView(undefined, day);
+      element.now = { day: 'wednesday', minutes: 10 * 60 + 30 };
+      element.entityId = ENTITY_ID;
+      element.hass = createMockHass({ websocket, states: { [ENTITY_ID]: createMockTRVZBEntity() } });
+      await flush(element);
+      return element;
+    }
+
+    async function selectWeek(element: ScheduleGraphView, week: string): Promise<void> {
+      const select = querySelector<HTMLSelectElement>(element, '.history-select')!;
+      select.value = week;
+      select.dispatchEvent(new Event('change'));
+      await flush(element);
+    }
+
+    it('should not offer history without websocket commands', async () => {
+      const element = await createGraphView();
+      element.entityId = ENTITY_ID;
+      element.hass = createMockHass();
+      await element.updateComplete;
+
+      expect(querySelector(element, '.history-controls')).toBeNull();
+    });
+
+    it('should not fetch history until a week is selected', async () => {
+      const element = await createHistoryView();
+
+      expect(querySelector(element, '.history-select')).not.toBeNull();
+      expect(querySelector(element, '.history-line')).toBeNull();
+      expect(websocket.messages).toHaveLength(0);
+    });
+
+    it('should fetch the selected day of the current week', async () => {
+      const element = await createHistoryView();
+
+      await selectWeek(element, 'current');
+
+      expect(websocket.getMessages(HISTORY)).toEqual([expect.objectContaining({
+        start_time: '2026-10-12T00:00:00.000Z',
+        end_time: '2026-10-13T00:00:00.000Z',
+        entity_ids: [ENTITY_ID],
+      })]);
+      expect(querySelector(element, '.history-line')).not.toBeNull();
+      expect(querySelector(element, '.history-target-line')).toBeNull();
+    });
+
+    it('should fetch the selected day of the previous week', async () => {
+      const element = await createHistoryView();
+
+      await selectWeek(element, 'previous');
+
+      expect(websocket.getMessages(HISTORY)[0].start_time).toBe('2026-10-05T00:00:00.000Z');
+    });
+
+    it('should draw the history under the schedule', async () => {
+      const element = await createHistoryView();
+      await selectWeek(element, 'current');
+
+      const paths = querySelectorAll(element, '.history-line, .temperature-line').map(path => path.getAttribute('class'));
+      expect(paths).toEqual(['history-line', 'temperature-line']);
+    });
+
+    it('should draw the device target when enabled', async () => {
+      const element = await createHistoryView();
+      await selectWeek(element, 'current');
+
+      querySelector<HTMLInputElement>(element, '.history-target-toggle')!.click();
+      await element.updateComplete;
+
+      expect(querySelector(element, '.history-target-line')).not.toBeNull();
+    });
+
+    it('should fetch again when the day changes, not on every hass update', async () => {
+      const element = await createHistoryView();
+      await selectWeek(element, 'current');
+
+      element.hass = createMockHass({ websocket });
+      await flush(element);
+      expect(websocket.getMessages(HISTORY)).toHaveLength(1);
+
+      querySelectorAll<HTMLButtonElement>(element, '.day-button')[1].click();
+      await flush(element);
+      expect(websocket.getMessages(HISTORY)).toHaveLength(2);
+      expect(websocket.getMessages(HISTORY)[1].start_time).toBe('2026-10-13T00:00:00.000Z');
+    });
+
+    it('should say when a day has no recorded temperatures', async () => {
+      websocket.respond(HISTORY, {});
+      const element = await createHistoryView();
+
+      await selectWeek(element, 'current');
+
+      expect(querySelector(element, '.history-line')).toBeNull();
+      expect(querySelector(element, '.history-status')!.textContent).toContain('No room temperature recorded');
+    });
+
+    it('should show an error when the history cannot be fetched', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      websocket.fail(HISTORY, new Error('Recorder not running'));
+      const element = await createHistoryView();
+
+      await selectWeek(element, 'current');
+
+      expect(querySelector(element, '.history-line')).toBeNull();
+      expect(querySelector(element, '.history-status.error')).not.toBeNull();
+    });
+  });
 });
@@ -5,6 +5,7 @@ import type {
   DaySchedule,
   MQTTWeeklySchedule
 } from '../../src/models/types';
+import type { CompressedHistoryState } from '../../src/models/temperature-history';
 
 /**
  * Sample day schedule string in TRVZB format
@@ -184,12 +185,73 @@ export class MockServiceCallRecorder {
   }
 }
 
+/**
+ * MockWebSocket - Records messages sent through hass.callWS and answers them
+ * with the response configured for their type
+ */
+export class MockWebSocket {
+  private _messages: Record<string, unknown>[] = [];
+  private _responses = new Map<string, unknown>();
+  private _errors = new Map<string, Error>();
+
+  /**
+   * Get all sent messages
+   */
+  get messages(): Record<string, unknown>[] {
+    return [...this._messages];
+  }
+
+  /**
+   * Get the messages of one type
+   */
+  getMessages(type: string): Record<string, unknown>[] {
+    return this._messages.filter(message => message.type === type);
+  }
+
+  /**
+   * Answer messages of a type with a response
+   */
+  respond(type: string, response: unknown): void {
+    this._errors.delete(type);
+    this._responses.set(type, response);
+  }
+
+  /**
+   * Reject messages of a type with an error
+   */
+  fail(type: string, error: Error): void {
+    this._responses.delete(type);
+    this._errors.set(type, error);
+  }
+
+  /**
+   * Handle a message, as hass.callWS
+   */
+  async send<T>(message: Record<string, unknown>): Promise<T> {
+    this._messages.push(message);
+    const type = String(message.type);
+    const error = this._errors.get(type);
+    if (error) {
+      throw error;
+    }
+    return (this._responses.get(type) ?? null) as T;
+  }
+
+  /**
+   * Reset sent messages
+   */
+  reset(): void {
+    this._messages = [];
+  }
+}
+
 /**
  * Options for creating a mock HomeAssistant object
  */
 export interface MockHassOptions {
   states?: Record<string, HassEntity>;
   recorder?: MockServiceCallRecorder;
+  websocket?: MockWebSocket; // adds hass.callWS when set
 }
 
 /**
@@ -207,9 +269,34 @@ export function createMockHass(options: MockHassOptions = {}): HomeAssistant {
       recorder.record(domain, service, data);
       return Promise.resolve();
     },
+    ...(options.websocket
+      ? { callWS: <T>(message: Record<string, unknown>) => options.websocket!.send<T>(message) }
+      : {}),
   };
 }
 
+/**
+ * Create recorded states of a climate entity, as returned by
+ * history/history_during_period
+ *
+ * @param start - Start of the day
+ * @param samples - Room and target temperature at minutes since start
+ * @returns Compressed history states, oldest first
+ */
+export function createMockHistoryStates(
+  start: Date,
+  samples: { minutes: number; current?: number; target?: number }[]
+): CompressedHistoryState[] {
+  return samples.map(sample => ({
+    s: 'heat',
+    a: {
+      ...(sample.current !== undefined ? { current_temperature: sample.current } : {}),
+      ...(sample.target !== undefined ? { temperature: sample.target } : {}),
+    },
+    lu: (start.getTime() + sample.minutes * 60_000) / 1000,
+  }));
+}
+
 /**
  * Create a mock TRVZB climate entity
  *
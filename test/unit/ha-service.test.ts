@@ -0,0 +1,326 @@
+/**
+ * Unit tests for ha-service.ts
+ * Tests Zigbee2MQTT device name resolution, topics, day sensor IDs and history
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  slugify,
+  resolveDeviceName,
+  getDeviceSetTopic,
+  deriveDaySensorEntityId,
+  getConfiguredDaySensorEntityId,
+  resolveDaySensorEntityId,
+  isEntityAvailable,
+  getEntityInfo,
+  setHvacMode,
+  setTargetTemperature,
+  saveSchedule,
+  canFetchHistory,
+  fetchTemperatureHistory,
+  ServiceError
+} from '../../src/services/ha-service';
+import { parseWeeklySchedule } from '../../src/models/schedule';
+import { HomeAssistant } from '../../src/models/types';
+import {
+  createMockHass,
+  createMockTRVZBEntity,
+  createMockDaySensors,
+  createMockHistoryStates,
+  MockServiceCallRecorder,
+  MockWebSocket,
+  SAMPLE_WEEKLY_SCHEDULE
+} from '../mocks/hass-mock';
+
+const KITCHEN_ID = 'climate.kitchen';
+
+/**
+ * Create hass with a kitchen TRV registered under a Z2M friendly name
+ */
+function createRegistryHass(deviceName: string, recorder?: MockServiceCallRecorder): HomeAssistant {
+  const hass = createMockHass({
+    states: { [KITCHEN_ID]: createMockTRVZBEntity('kitchen') },
+    recorder
+  });
+  hass.entities = { [KITCHEN_ID]: { entity_id: KITCHEN_ID, device_id: 'dev1' } };
+  hass.devices = { dev1: { id: 'dev1', name: deviceName, name_by_user: 'Kitchen radiator' } };
+  return hass;
+}
+
+describe('ha-service.ts', () => {
+  describe('slugify', () => {
+    it('should convert names the way Home Assistant does', () => {
+      expect(slugify('Floor1/Kitchen TRV')).toBe('floor1_kitchen_trv');
+      expect(slugify('  Living  Room -- TRV ')).toBe('living_room_trv');
+      expect(slugify('Küche')).toBe('kuche');
+    });
+  });
+
+  describe('resolveDeviceName', () => {
+    it('should prefer the configured device name', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      expect(resolveDeviceName(hass, KITCHEN_ID, { deviceName: 'Custom' })).toBe('Custom');
+    });
+
+    it('should use the integration device name from the registry', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      expect(resolveDeviceName(hass, KITCHEN_ID)).toBe('Floor1/Kitchen TRV');
+    });
+
+    it('should fall back to the entity ID slug', () => {
+      const hass = createMockHass();
+      expect(resolveDeviceName(hass, 'climate.living_room_trvzb')).toBe('living_room_trvzb');
+    });
+  });
+
+  describe('getDeviceSetTopic', () => {
+    it('should default to the zigbee2mqtt base topic', () => {
+      expect(getDeviceSetTopic(createMockHass(), 'climate.living_room_trvzb'))
+        .toBe('zigbee2mqtt/living_room_trvzb/set');
+    });
+
+    it('should use a custom base topic without doubling slashes', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      expect(getDeviceSetTopic(hass, KITCHEN_ID, { baseTopic: 'z2m/house/' }))
+        .toBe('z2m/house/Floor1/Kitchen TRV/set');
+    });
+  });
+
+  describe('resolveDaySensorEntityId', () => {
+    it('should derive sensors from the device name', () => {
+      expect(deriveDaySensorEntityId(KITCHEN_ID, 'monday', 'Floor1/Kitchen TRV'))
+        .toBe('text.floor1_kitchen_trv_weekly_schedule_monday');
+    });
+
+    it('should use sensors named after the device when they exist', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      Object.assign(hass.states, createMockDaySensors('floor1_kitchen_trv'));
+
+      expect(resolveDaySensorEntityId(hass, KITCHEN_ID, 'monday'))
+        .toBe('text.floor1_kitchen_trv_weekly_schedule_monday');
+    });
+
+    it('should prefer configured schedule sensors', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      Object.assign(hass.states, createMockDaySensors('floor1_kitchen_trv'));
+
+      expect(resolveDaySensorEntityId(hass, KITCHEN_ID, 'monday', { scheduleSensors: 'text.renamed_{day}' }))
+        .toBe('text.renamed_monday');
+    });
+
+    it('should derive days missing from a partial mapping', () => {
+      const hass = createMockHass();
+      const options = { scheduleSensors: { monday: 'text.renamed_monday' } };
+
+      expect(resolveDaySensorEntityId(hass, KITCHEN_ID, 'monday', options)).toBe('text.renamed_monday');
+      expect(resolveDaySensorEntityId(hass, KITCHEN_ID, 'tuesday', options)).toBe('text.kitchen_weekly_schedule_tuesday');
+    });
+
+    it('should fall back to sensors named after the climate entity', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      Object.assign(hass.states, createMockDaySensors('kitchen'));
+
+      expect(resolveDaySensorEntityId(hass, KITCHEN_ID, 'monday'))
+        .toBe('text.kitchen_weekly_schedule_monday');
+    });
+  });
+
+  describe('getConfiguredDaySensorEntityId', () => {
+    it('should return null when nothing is configured', () => {
+      expect(getConfiguredDaySensorEntityId(undefined, 'monday')).toBeNull();
+    });
+
+    it('should fill in a {day} template', () => {
+      expect(getConfiguredDaySensorEntityId('text.kitchen_{day}_schedule', 'friday'))
+        .toBe('text.kitchen_friday_schedule');
+    });
+
+    it('should append the day to a prefix', () => {
+      expect(getConfiguredDaySensorEntityId('text.kitchen_schedule_', 'sunday'))
+        .toBe('text.kitchen_schedule_sunday');
+    });
+
+    it('should look up a per-day mapping', () => {
+      const mapping = { monday: 'text.kitchen_mon' };
+      expect(getConfiguredDaySensorEntityId(mapping, 'monday')).toBe('text.kitchen_mon');
+      expect(getConfiguredDaySensorEntityId(mapping, 'tuesday')).toBeNull();
+    });
+  });
+
+  describe('isEntityAvailable', () => {
+    it('should report missing and unavailable entities as unavailable', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      expect(isEntityAvailable(hass, KITCHEN_ID)).toBe(true);
+      expect(isEntityAvailable(hass, 'climate.missing')).toBe(false);
+
+      hass.states[KITCHEN_ID] = { ...hass.states[KITCHEN_ID], state: 'unavailable' };
+      expect(isEntityAvailable(hass, KITCHEN_ID)).toBe(false);
+    });
+  });
+
+  describe('getEntityInfo', () => {
+    it('should report the HVAC mode and supported modes', () => {
+      const hass = createRegistryHass('Floor1/Kitchen TRV');
+      const info = getEntityInfo(hass, KITCHEN_ID);
+      expect(info?.hvacMode).toBe('heat');
+      expect(info?.hvacModes).toEqual(['off', 'heat', 'auto']);
+    });
+  });
+
+  describe('climate services', () => {
+    it('should switch the HVAC mode', async () => {
+      const recorder = new MockServiceCallRecorder();
+      await setHvacMode(createRegistryHass('Kitchen', recorder), KITCHEN_ID, 'auto');
+      expect(recorder.getLastCall()).toMatchObject({
+        domain: 'climate',
+        service: 'set_hvac_mode',
+        data: { entity_id: KITCHEN_ID, hvac_mode: 'auto' }
+      });
+    });
+
+    it('should set the target temperature', async () => {
+      const recorder = new MockServiceCallRecorder();
+      await setTargetTemperature(createRegistryHass('Kitchen', recorder), KITCHEN_ID, 19.5);
+      expect(recorder.getLastCall()).toMatchObject({
+        domain: 'climate',
+        service: 'set_temperature',
+        data: { entity_id: KITCHEN_ID, temperature: 19.5 }
+      });
+    });
+
+    it('should throw coded errors that can be translated', async () => {
+      const hass = createMockHass();
+      hass.callService = async () => {
+        throw new Error('Entity is unavailable');
+      };
+
+      await expect(setHvacMode(hass, KITCHEN_ID, 'auto')).rejects.toMatchObject({
+        name: 'ServiceError',
+        code: 'hvac_mode_failed',
+        params: { reason: 'Entity is unavailable' },
+        message: 'Failed to set HVAC mode: Entity is unavailable'
+      });
+      await expect(setTargetTemperature(hass, KITCHEN_ID, 20)).rejects.toBeInstanceOf(ServiceError);
+    });
+  });
+
+  describe('saveSchedule', () => {
+    it('should publish to the resolved device topic', async () => {
+      const recorder = new MockServiceCallRecorder();
+      const hass = createRegistryHass('Floor1/Kitchen TRV', recorder);
+
+      await saveSchedule(hass, KITCHEN_ID, parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE), { baseTopic: 'z2m' });
+
+      expect(recorder.getLastCall()?.data.topic).toBe('z2m/Floor1/Kitchen TRV/set');
+    });
+
+    it('should publish only the requested days', async () => {
+      const recorder = new MockServiceCallRecorder();
+      const hass = createMockHass({ recorder });
+
+      const sent = await saveSchedule(
+        hass, KITCHEN_ID, parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE), {}, ['saturday', 'monday']
+      );
+
+      expect(sent).toEqual(['monday', 'saturday']);
+      const payload = JSON.parse(recorder.getLastCall()?.data.payload as string);
+      expect(Object.keys(payload.weekly_schedule)).toEqual(['monday', 'saturday']);
+    });
+
+    it('should publish nothing when no days are requested', async () => {
+      const recorder = new MockServiceCallRecorder();
+      const hass = createMockHass({ recorder });
+
+      const sent = await saveSchedule(hass, KITCHEN_ID, parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE), {}, []);
+
+      expect(sent).toEqual([]);
+      expect(recorder.getCallCount()).toBe(0);
+    });
+
+    it('should write only changed days to the text entities', async () => {
+      const recorder = new MockServiceCallRecorder();
+      const hass = createMockHass({ states: createMockDaySensors('kitchen'), recorder });
+      const schedule = parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, tuesday: '00:00/19' });
+
+      await saveSchedule(hass, KITCHEN_ID, schedule, { writeMethod: 'text' });
+
+      expect(recorder.getCallCount('mqtt', 'publish')).toBe(0);
+      expect(recorder.getCalls('text', 'set_value').map(call => call.data)).toEqual([
+        { entity_id: 'text.kitchen_weekly_schedule_tuesday', value: '00:00/19' }
+      ]);
+    });
+
+    it('should name the day that failed to write', async () => {
+      const hass = createMockHass({ states: createMockDaySensors('kitchen') });
+      hass.callService = async () => {
+        throw new Error('Not allowed');
+      };
+      const schedule = parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, friday: '00:00/19' });
+
+      await expect(saveSchedule(hass, KITCHEN_ID, schedule, { writeMethod: 'text' }))
+        .rejects.toThrow('Failed to save schedule: friday: Not allowed');
+      await expect(saveSchedule(hass, KITCHEN_ID, schedule, { writeMethod: 'text' }))
+        .rejects.toMatchObject({ code: 'save_day_failed', params: { day: 'friday', reason: 'Not allowed' } });
+    });
+
+    it('should throw a coded error when publishing fails', async () => {
+      const hass = createMockHass();
+      hass.callService = async () => {
+        throw new Error('Broker offline');
+      };
+
+      await expect(saveSchedule(hass, KITCHEN_ID, parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE)))
+        .rejects.toMatchObject({ code: 'save_failed', params: { reason: 'Broker offline' } });
+    });
+  });
+
+  describe('fetchTemperatureHistory', () => {
+    const start = new Date('2026-10-12T00:00:00Z');
+    const end = new Date('2026-10-13T00:00:00Z');
+
+    it('should need websocket commands', () => {
+      expect(canFetchHistory(createMockHass())).toBe(false);
+      expect(canFetchHistory(createMockHass({ websocket: new MockWebSocket() }))).toBe(true);
+      expect(canFetchHistory(undefined)).toBe(false);
+    });
+
+    it('should request the day with attributes', async () => {
+      const websocket = new MockWebSocket();
+      websocket.respond('history/history_during_period', {
+        [KITCHEN_ID]: createMockHistoryStates(start, [{ minutes: 30, current: 19, target: 21 }]),
+      });
+
+      const history = await fetchTemperatureHistory(createMockHass({ websocket }), KITCHEN_ID, start, end);
+
+      expect(websocket.messages).toEqual([{
+        type: 'history/history_during_period',
+        start_time: '2026-10-12T00:00:00.000Z',
+        end_time: '2026-10-13T00:00:00.000Z',
+        entity_ids: [KITCHEN_ID],
+        minimal_response: false,
+        no_attributes: false,
+        significant_changes_only: false,
+      }]);
+      expect(history).toEqual({
+        current: [{ minutes: 30, temperature: 19 }],
+        target: [{ minutes: 30, temperature: 21 }],
+      });
+    });
+
+    it('should return no samples for an entity without history', async () => {
+      const websocket = new MockWebSocket();
+      websocket.respond('history/history_during_period', {});
+
+      const history = await fetchTemperatureHistory(createMockHass({ websocket }), KITCHEN_ID, start, end);
+      expect(history).toEqual({ current: [], target: [] });
+    });
+
+    it('should report failed requests', async () => {
+      const websocket = new MockWebSocket();
+      websocket.fail('history/history_during_period', new Error('Recorder not running'));
+
+      await expect(fetchTemperatureHistory(createMockHass({ websocket }), KITCHEN_ID, start, end))
+        .rejects.toThrow('Failed to fetch history: Recorder not running');
+    });
+  });
+});
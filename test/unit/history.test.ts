@@ -0,0 +1,102 @@
+/**
+ * Unit tests for history.ts
+ * Tests the undo/redo snapshot stack for schedule edits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ScheduleHistory } from '../../src/models/history';
+import { parseWeeklySchedule, serializeWeeklySchedule } from '../../src/models/schedule';
+import { WeeklySchedule } from '../../src/models/types';
+import { createMockSchedule } from '../mocks/hass-mock';
+
+function scheduleWithMonday(monday: string): WeeklySchedule {
+  return parseWeeklySchedule({ ...createMockSchedule('minimal'), monday });
+}
+
+describe('history.ts', () => {
+  describe('ScheduleHistory', () => {
+    it('should start with nothing to undo or redo', () => {
+      const history = new ScheduleHistory();
+      expect(history.canUndo()).toBe(false);
+      expect(history.canRedo()).toBe(false);
+      expect(history.undo(scheduleWithMonday('00:00/20'))).toBeNull();
+      expect(history.redo(scheduleWithMonday('00:00/20'))).toBeNull();
+    });
+
+    it('should return the recorded schedule on undo', () => {
+      const history = new ScheduleHistory();
+      const before = scheduleWithMonday('00:00/18');
+      const after = scheduleWithMonday('00:00/22');
+
+      history.record(before);
+      const undone = history.undo(after);
+
+      expect(undone).not.toBeNull();
+      expect(serializeWeeklySchedule(undone!).monday).toBe('00:00/18');
+      expect(history.canUndo()).toBe(false);
+      expect(history.canRedo()).toBe(true);
+    });
+
+    it('should restore the undone schedule on redo', () => {
+      const history = new ScheduleHistory();
+      const before = scheduleWithMonday('00:00/18');
+      const after = scheduleWithMonday('00:00/22');
+
+      history.record(before);
+      const undone = history.undo(after)!;
+      const redone = history.redo(undone);
+
+      expect(redone).not.toBeNull();
+      expect(serializeWeeklySchedule(redone!).monday).toBe('00:00/22');
+      expect(history.canUndo()).toBe(true);
+      expect(history.canRedo()).toBe(false);
+    });
+
+    it('should discard the redo branch when a new edit is recorded', () => {
+      const history = new ScheduleHistory();
+      history.record(scheduleWithMonday('00:00/18'));
+      history.undo(scheduleWithMonday('00:00/22'));
+      expect(history.canRedo()).toBe(true);
+
+      history.record(scheduleWithMonday('00:00/18'));
+      expect(history.canRedo()).toBe(false);
+    });
+
+    it('should store snapshots independent of later mutations', () => {
+      const history = new ScheduleHistory();
+      const before = scheduleWithMonday('00:00/18');
+
+      history.record(before);
+      before.monday.transitions[0].temperature = 30;
+
+      const undone = history.undo(scheduleWithMonday('00:00/22'));
+      expect(undone!.monday.transitions[0].temperature).toBe(18);
+    });
+
+    it('should drop the oldest snapshots beyond the limit', () => {
+      const history = new ScheduleHistory(2);
+      history.record(scheduleWithMonday('00:00/16'));
+      history.record(scheduleWithMonday('00:00/17'));
+      history.record(scheduleWithMonday('00:00/18'));
+
+      let current = scheduleWithMonday('00:00/19');
+      current = history.undo(current)!;
+      current = history.undo(current)!;
+
+      expect(serializeWeeklySchedule(current).monday).toBe('00:00/17');
+      expect(history.canUndo()).toBe(false);
+    });
+
+    it('should clear both stacks', () => {
+      const history = new ScheduleHistory();
+      history.record(scheduleWithMonday('00:00/18'));
+      history.record(scheduleWithMonday('00:00/19'));
+      history.undo(scheduleWithMonday('00:00/20'));
+
+      history.clear();
+
+      expect(history.canUndo()).toBe(false);
+      expect(history.canRedo()).toBe(false);
+    });
+  });
+});
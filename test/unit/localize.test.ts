@@ -0,0 +1,162 @@
+/**
+ * Unit tests for localize.ts
+ * Tests language resolution, string lookup and message formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LANGUAGES,
+  resolveLanguage,
+  getLanguage,
+  localize,
+  localizePlural,
+  formatDayName,
+  formatDayList,
+  formatValidationError,
+  formatLintWarning
+} from '../../src/localize/localize';
+import { en } from '../../src/localize/languages/en';
+import { HomeAssistant } from '../../src/models/types';
+import { validateWeeklySchedule, lintDaySchedule } from '../../src/utils/validation';
+import { parseDaySchedule, parseWeeklySchedule } from '../../src/models/schedule';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+/**
+ * Collect the dotted keys of a translation table
+ */
+function keysOf(table: object, prefix = ''): string[] {
+  return Object.entries(table).flatMap(([key, value]) =>
+    typeof value === 'object' ? keysOf(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+  );
+}
+
+describe('localize.ts', () => {
+  describe('resolveLanguage', () => {
+    it('should resolve bundled languages', () => {
+      expect(resolveLanguage('de')).toBe('de');
+      expect(resolveLanguage('it')).toBe('it');
+      expect(resolveLanguage('fr')).toBe('fr');
+    });
+
+    it('should use the base language of regional variants', () => {
+      expect(resolveLanguage('de-CH')).toBe('de');
+      expect(resolveLanguage('it_IT')).toBe('it');
+      expect(resolveLanguage('en-GB')).toBe('en');
+    });
+
+    it('should fall back to English', () => {
+      expect(resolveLanguage('nl')).toBe('en');
+      expect(resolveLanguage('')).toBe('en');
+      expect(resolveLanguage(undefined)).toBe('en');
+    });
+  });
+
+  describe('getLanguage', () => {
+    it('should prefer the locale language', () => {
+      const hass = { language: 'fr', locale: { language: 'de' } } as unknown as HomeAssistant;
+      expect(getLanguage(hass)).toBe('de');
+    });
+
+    it('should fall back to hass.language', () => {
+      const hass = { language: 'it' } as unknown as HomeAssistant;
+      expect(getLanguage(hass)).toBe('it');
+    });
+
+    it('should use English without hass', () => {
+      expect(getLanguage(undefined)).toBe('en');
+    });
+  });
+
+  describe('localize', () => {
+    it('should translate keys', () => {
+      expect(localize('card.save')).toBe('Save');
+      expect(localize('card.save', 'de')).toBe('Speichern');
+      expect(localize('card.save', 'it')).toBe('Salva');
+    });
+
+    it('should substitute placeholders', () => {
+      expect(localize('card.sent_days', 'de', { days: 'Montag' })).toBe('Gesendet: Montag');
+    });
+
+    it('should leave unknown placeholders untouched', () => {
+      expect(localize('card.sent_days', 'en')).toBe('Sent {days}');
+    });
+
+    it('should fall back to the key for unknown strings', () => {
+      expect(localize('card.does_not_exist', 'de')).toBe('card.does_not_exist');
+    });
+
+    it('should pick plural forms by count', () => {
+      expect(localizePlural('week.edit_days', 1, 'it')).toBe('Modifica 1 giorno');
+      expect(localizePlural('week.edit_days', 3, 'it')).toBe('Modifica 3 giorni');
+    });
+  });
+
+  describe('translations', () => {
+    it('should define every English string in every language', () => {
+      const reference = keysOf(en).sort();
+      for (const [language, table] of Object.entries(LANGUAGES)) {
+        expect(keysOf(table).sort(), language).toEqual(reference);
+      }
+    });
+
+    it('should not contain empty strings', () => {
+      for (const language of Object.keys(LANGUAGES)) {
+        for (const key of keysOf(en)) {
+          expect(localize(key, language), `${language}: ${key}`).not.toBe('');
+        }
+      }
+    });
+  });
+
+  describe('day names', () => {
+    it('should format full and short day names', () => {
+      expect(formatDayName('monday', 'de')).toBe('Montag');
+      expect(formatDayName('monday', 'it', true)).toBe('Lun');
+      expect(formatDayName('saturday')).toBe('Saturday');
+    });
+
+    it('should format day lists', () => {
+      expect(formatDayList(['tuesday', 'saturday'])).toBe('Tuesday, Saturday');
+    });
+  });
+
+  describe('formatValidationError', () => {
+    const invalidMonday = parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, monday: '00:00/20 06:00/40' });
+
+    it('should keep the English messages', () => {
+      const [error] = validateWeeklySchedule(invalidMonday).errors;
+      expect(formatValidationError(error)).toBe(
+        'Monday: Transition 2: Temperature 40°C is out of range. Must be 4-35°C'
+      );
+    });
+
+    it('should translate messages and day names', () => {
+      const [error] = validateWeeklySchedule(invalidMonday).errors;
+      expect(formatValidationError(error, 'de')).toBe(
+        'Montag: Schaltpunkt 2: Temperatur 40°C liegt außerhalb des Bereichs. Erlaubt sind 4-35°C'
+      );
+      expect(formatValidationError(error, 'it')).toBe(
+        'Lunedì: Fascia 2: La temperatura di 40°C è fuori intervallo. Deve essere tra 4 e 35°C'
+      );
+    });
+
+    it('should show times on the 12-hour clock', () => {
+      const error = { code: 'not_chronological', params: { previous: '19:00', time: '07:00' }, transition: 3 };
+      expect(formatValidationError(error, 'en', true)).toContain('7:00 PM should come before 7:00 AM');
+    });
+  });
+
+  describe('formatLintWarning', () => {
+    it('should translate lint warnings', () => {
+      const [warning] = lintDaySchedule(parseDaySchedule('00:00/18 06:00/21 06:10/20'));
+      expect(formatLintWarning(warning)).toContain('10 minutes');
+      expect(formatLintWarning(warning, 'de')).toBe('06:10: nur 10 Minuten nach dem Schaltpunkt um 06:00');
+    });
+
+    it('should show times on the 12-hour clock', () => {
+      const [warning] = lintDaySchedule(parseDaySchedule('00:00/18 18:00/21 18:10/20'));
+      expect(formatLintWarning(warning, 'en', true)).toMatch(/^6:10 PM: .*6:00 PM/);
+    });
+  });
+});
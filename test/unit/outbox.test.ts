@@ -0,0 +1,118 @@
+/**
+ * Unit tests for outbox.ts
+ * Tests queueing, merging and persisting schedules for unavailable devices
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  OUTBOX_STORAGE_KEY,
+  loadOutbox,
+  saveOutbox,
+  queueSchedule,
+  removeFromOutbox
+} from '../../src/models/outbox';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+const BATHROOM_ID = 'climate.bathroom';
+
+describe('outbox.ts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('queueSchedule', () => {
+    it('should queue the schedule with the days to send', () => {
+      const outbox = queueSchedule({}, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['friday', 'monday'], 1000);
+      expect(outbox[BATHROOM_ID]).toEqual({
+        schedule: SAMPLE_WEEKLY_SCHEDULE,
+        days: ['monday', 'friday'],
+        queuedAt: 1000
+      });
+    });
+
+    it('should keep previously queued days and use the newest schedule', () => {
+      const first = queueSchedule({}, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['monday']);
+      const newer = { ...SAMPLE_WEEKLY_SCHEDULE, monday: '00:00/19', friday: '00:00/22' };
+      const outbox = queueSchedule(first, BATHROOM_ID, newer, ['friday']);
+
+      expect(outbox[BATHROOM_ID].days).toEqual(['monday', 'friday']);
+      expect(outbox[BATHROOM_ID].schedule).toEqual(newer);
+    });
+  });
+
+  describe('removeFromOutbox', () => {
+    it('should remove only the given device', () => {
+      let outbox = queueSchedule({}, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['monday']);
+      outbox = queueSchedule(outbox, 'climate.kitchen', SAMPLE_WEEKLY_SCHEDULE, ['monday']);
+
+      expect(Object.keys(removeFromOutbox(outbox, BATHROOM_ID))).toEqual(['climate.kitchen']);
+    });
+
+    it('should leave storage alone when the device is not queued', () => {
+      const outbox = queueSchedule({}, 'climate.kitchen', SAMPLE_WEEKLY_SCHEDULE, ['monday']);
+      const stored = localStorage.getItem(OUTBOX_STORAGE_KEY);
+
+      expect(removeFromOutbox({}, BATHROOM_ID)).toEqual(outbox);
+      expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBe(stored);
+    });
+  });
+
+  describe('changes from separately loaded outboxes', () => {
+    it('should keep entries queued by others since the outbox was loaded', () => {
+      const first = loadOutbox();
+      const second = loadOutbox();
+
+      queueSchedule(first, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['monday']);
+      queueSchedule(second, 'climate.kitchen', SAMPLE_WEEKLY_SCHEDULE, ['friday']);
+
+      expect(Object.keys(loadOutbox())).toEqual([BATHROOM_ID, 'climate.kitchen']);
+    });
+
+    it('should remove only the given device from storage', () => {
+      const stale = loadOutbox();
+      queueSchedule({}, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['monday']);
+      queueSchedule({}, 'climate.kitchen', SAMPLE_WEEKLY_SCHEDULE, ['friday']);
+
+      removeFromOutbox(stale, 'climate.kitchen');
+      expect(Object.keys(loadOutbox())).toEqual([BATHROOM_ID]);
+    });
+
+    it('should update the given outbox without storage', () => {
+      const outbox = queueSchedule({}, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['monday'], 1000, null);
+      const next = queueSchedule(outbox, 'climate.kitchen', SAMPLE_WEEKLY_SCHEDULE, ['friday'], 1000, null);
+
+      expect(Object.keys(next)).toEqual([BATHROOM_ID, 'climate.kitchen']);
+      expect(Object.keys(removeFromOutbox(next, BATHROOM_ID, null))).toEqual(['climate.kitchen']);
+      expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+    });
+  });
+
+  describe('loadOutbox / saveOutbox', () => {
+    it('should round-trip through localStorage', () => {
+      const outbox = queueSchedule({}, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['sunday']);
+      saveOutbox(outbox);
+      expect(loadOutbox()).toEqual(outbox);
+    });
+
+    it('should remove the storage key when the outbox is empty', () => {
+      saveOutbox(queueSchedule({}, BATHROOM_ID, SAMPLE_WEEKLY_SCHEDULE, ['sunday']));
+      saveOutbox({});
+      expect(localStorage.getItem(OUTBOX_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should ignore malformed storage content', () => {
+      localStorage.setItem(OUTBOX_STORAGE_KEY, 'not json');
+      expect(loadOutbox()).toEqual({});
+
+      localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify({
+        [BATHROOM_ID]: { schedule: { monday: '00:00/20' }, days: ['monday'], queuedAt: 1 }
+      }));
+      expect(loadOutbox()).toEqual({});
+    });
+
+    it('should work without storage', () => {
+      expect(loadOutbox(null)).toEqual({});
+      expect(() => saveOutbox({}, null)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for override.ts
+ * Tests detection of valves that are not following their schedule
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectScheduleOverride } from '../../src/models/override';
+
+const MODES = ['off', 'heat', 'auto'];
+
+describe('override.ts', () => {
+  describe('detectScheduleOverride', () => {
+    it('should report nothing when the valve follows the schedule', () => {
+      expect(detectScheduleOverride({ hvacMode: 'auto', hvacModes: MODES, targetTemp: 19 }, 19)).toBeNull();
+    });
+
+    it('should detect a valve that is not in auto mode', () => {
+      expect(detectScheduleOverride({ hvacMode: 'heat', hvacModes: MODES, targetTemp: 19 }, 19)).toEqual({
+        reasons: ['mode'],
+        hvacMode: 'heat',
+        targetTemp: 19,
+        scheduledTemp: 19
+      });
+    });
+
+    it('should not report a valve that was switched off', () => {
+      expect(detectScheduleOverride({ hvacMode: 'off', hvacModes: MODES, targetTemp: 19 }, 19)).toBeNull();
+      expect(detectScheduleOverride({ hvacMode: 'off', hvacModes: MODES, targetTemp: 5 }, 19)).toBeNull();
+    });
+
+    it('should detect a target that differs from the scheduled setpoint', () => {
+      const override = detectScheduleOverride({ hvacMode: 'auto', hvacModes: MODES, targetTemp: 23 }, 19);
+      expect(override?.reasons).toEqual(['target']);
+    });
+
+    it('should report both reasons together', () => {
+      const override = detectScheduleOverride({ hvacMode: 'heat', targetTemp: 23 }, 19);
+      expect(override?.reasons).toEqual(['mode', 'target']);
+    });
+
+    it('should ignore the mode on devices without an auto mode', () => {
+      expect(detectScheduleOverride({ hvacMode: 'heat', hvacModes: ['off', 'heat'], targetTemp: 19 }, 19)).toBeNull();
+    });
+
+    it('should skip the target check when the scheduled setpoint is unknown', () => {
+      expect(detectScheduleOverride({ hvacMode: 'auto', targetTemp: 23 }, null)).toBeNull();
+    });
+  });
+});
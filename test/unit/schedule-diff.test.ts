@@ -0,0 +1,89 @@
+/**
+ * Unit tests for schedule-diff.ts
+ * Tests per-transition and per-day comparison of schedules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffDaySchedule, diffWeeklySchedule, formatTransitionChange } from '../../src/models/schedule-diff';
+import { createMockSchedule } from '../mocks/hass-mock';
+
+describe('schedule-diff.ts', () => {
+  describe('diffDaySchedule', () => {
+    it('should report no changes for identical schedules', () => {
+      const changes = diffDaySchedule('00:00/18 06:00/21', '00:00/18 06:00/21');
+      expect(changes.every(c => c.type === 'unchanged')).toBe(true);
+      expect(changes).toHaveLength(2);
+    });
+
+    it('should detect added transitions', () => {
+      const changes = diffDaySchedule('00:00/18', '00:00/18 06:00/21');
+      expect(changes).toContainEqual({ type: 'added', time: '06:00', after: 21 });
+    });
+
+    it('should detect removed transitions', () => {
+      const changes = diffDaySchedule('00:00/18 06:00/21', '00:00/18');
+      expect(changes).toContainEqual({ type: 'removed', time: '06:00', before: 21 });
+    });
+
+    it('should detect temperature changes at the same time', () => {
+      const changes = diffDaySchedule('00:00/18 06:00/21', '00:00/18 06:00/22.5');
+      expect(changes).toContainEqual({ type: 'changed', time: '06:00', before: 21, after: 22.5 });
+    });
+
+    it('should report a moved transition as removed and added', () => {
+      const changes = diffDaySchedule('00:00/18 06:00/21', '00:00/18 07:00/21');
+      expect(changes.map(c => c.type)).toEqual(['unchanged', 'removed', 'added']);
+    });
+
+    it('should ignore formatting differences', () => {
+      const changes = diffDaySchedule('06:00/21.0 00:00/18', '00:00/18 06:00/21');
+      expect(changes.every(c => c.type === 'unchanged')).toBe(true);
+    });
+
+    it('should treat everything as added when the old schedule is unknown', () => {
+      const changes = diffDaySchedule(null, '00:00/18 06:00/21');
+      expect(changes.map(c => c.type)).toEqual(['added', 'added']);
+    });
+
+    it('should return changes in chronological order', () => {
+      const changes = diffDaySchedule('00:00/18 22:00/16', '00:00/18 06:00/21');
+      expect(changes.map(c => c.time)).toEqual(['00:00', '06:00', '22:00']);
+    });
+  });
+
+  describe('diffWeeklySchedule', () => {
+    it('should return one entry per day', () => {
+      const schedule = createMockSchedule();
+      const diff = diffWeeklySchedule(schedule, schedule);
+      expect(diff.map(d => d.day)).toEqual([
+        'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
+      ]);
+      expect(diff.every(d => !d.changed)).toBe(true);
+    });
+
+    it('should flag only days that differ', () => {
+      const before = createMockSchedule();
+      const after = { ...before, wednesday: '00:00/20' };
+      const diff = diffWeeklySchedule(before, after);
+      expect(diff.filter(d => d.changed).map(d => d.day)).toEqual(['wednesday']);
+    });
+
+    it('should flag every day when the device schedule is unknown', () => {
+      const diff = diffWeeklySchedule(null, createMockSchedule());
+      expect(diff.every(d => d.changed)).toBe(true);
+    });
+  });
+
+  describe('formatTransitionChange', () => {
+    it('should describe each kind of change', () => {
+      expect(formatTransitionChange({ type: 'added', time: '06:00', after: 21 })).toBe('+ 06:00  21°C');
+      expect(formatTransitionChange({ type: 'removed', time: '06:00', before: 21 })).toBe('− 06:00  21°C');
+      expect(formatTransitionChange({ type: 'changed', time: '17:30', before: 21, after: 22 })).toBe('~ 17:30  21°C → 22°C');
+    });
+
+    it('should show the time on the 12-hour clock', () => {
+      expect(formatTransitionChange({ type: 'changed', time: '17:30', before: 21, after: 22 }, true))
+        .toBe('~ 5:30 PM  21°C → 22°C');
+    });
+  });
+});
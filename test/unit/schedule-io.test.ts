@@ -0,0 +1,94 @@
+/**
+ * Unit tests for schedule-io.ts
+ * Tests export to and import from JSON, YAML and raw Z2M strings
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  exportSchedule,
+  parseScheduleImport,
+  detectScheduleFormat
+} from '../../src/models/schedule-io';
+import { parseWeeklySchedule } from '../../src/models/schedule';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+describe('schedule-io.ts', () => {
+  const schedule = parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE);
+
+  describe('exportSchedule', () => {
+    it('should export JSON as the MQTT weekly schedule object', () => {
+      const text = exportSchedule(schedule, 'json');
+      expect(JSON.parse(text)).toEqual(SAMPLE_WEEKLY_SCHEDULE);
+    });
+
+    it('should export YAML with one quoted line per day', () => {
+      const lines = exportSchedule(schedule, 'yaml').split('\n');
+      expect(lines).toHaveLength(7);
+      expect(lines[0]).toBe(`sunday: "${SAMPLE_WEEKLY_SCHEDULE.sunday}"`);
+      expect(lines[1]).toBe(`monday: "${SAMPLE_WEEKLY_SCHEDULE.monday}"`);
+    });
+
+    it('should export raw strings Sunday first', () => {
+      const lines = exportSchedule(schedule, 'raw').split('\n');
+      expect(lines).toHaveLength(7);
+      expect(lines[0]).toBe(SAMPLE_WEEKLY_SCHEDULE.sunday);
+      expect(lines[6]).toBe(SAMPLE_WEEKLY_SCHEDULE.saturday);
+    });
+  });
+
+  describe('detectScheduleFormat', () => {
+    it('should detect each format', () => {
+      expect(detectScheduleFormat('{"monday": ""}')).toBe('json');
+      expect(detectScheduleFormat('monday: "00:00/20"')).toBe('yaml');
+      expect(detectScheduleFormat('00:00/20 06:00/21')).toBe('raw');
+    });
+
+    it('should return null for empty input', () => {
+      expect(detectScheduleFormat('   \n ')).toBeNull();
+    });
+  });
+
+  describe('parseScheduleImport', () => {
+    it('should round-trip every export format', () => {
+      for (const format of ['json', 'yaml', 'raw'] as const) {
+        expect(parseScheduleImport(exportSchedule(schedule, format))).toEqual(SAMPLE_WEEKLY_SCHEDULE);
+      }
+    });
+
+    it('should accept a Z2M set payload', () => {
+      const text = JSON.stringify({ weekly_schedule: SAMPLE_WEEKLY_SCHEDULE });
+      expect(parseScheduleImport(text)).toEqual(SAMPLE_WEEKLY_SCHEDULE);
+    });
+
+    it('should accept YAML nested under weekly_schedule, unquoted, with comments', () => {
+      const text = [
+        '# living room',
+        'weekly_schedule:',
+        ...Object.entries(SAMPLE_WEEKLY_SCHEDULE).map(([day, value]) => `  ${day}: ${value}`)
+      ].join('\n');
+      expect(parseScheduleImport(text)).toEqual(SAMPLE_WEEKLY_SCHEDULE);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseScheduleImport('{"monday": ')).toThrow('Invalid JSON');
+    });
+
+    it('should reject a missing day', () => {
+      const { friday, ...partial } = SAMPLE_WEEKLY_SCHEDULE;
+      expect(() => parseScheduleImport(JSON.stringify(partial))).toThrow('Missing schedule for friday');
+    });
+
+    it('should reject malformed transitions', () => {
+      const text = JSON.stringify({ ...SAMPLE_WEEKLY_SCHEDULE, monday: '00:00/18 6:00/21' });
+      expect(() => parseScheduleImport(text)).toThrow('Invalid transition "6:00/21" for monday');
+    });
+
+    it('should reject raw input without seven lines', () => {
+      expect(() => parseScheduleImport('00:00/20\n00:00/21')).toThrow('Expected 7 lines');
+    });
+
+    it('should reject empty input', () => {
+      expect(() => parseScheduleImport('')).toThrow('Nothing to import');
+    });
+  });
+});
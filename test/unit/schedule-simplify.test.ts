@@ -0,0 +1,81 @@
+/**
+ * Unit tests for schedule-simplify.ts
+ * Tests removal of repeated temperatures and zero-length periods
+ */
+
+import { describe, it, expect } from 'vitest';
+import { simplifyDaySchedule, simplifyWeeklySchedule } from '../../src/models/schedule-simplify';
+import { parseDaySchedule, parseWeeklySchedule, serializeDaySchedule, serializeWeeklySchedule } from '../../src/models/schedule';
+import { DaySchedule } from '../../src/models/types';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+describe('schedule-simplify.ts', () => {
+  describe('simplifyDaySchedule', () => {
+    it('should remove transitions that repeat the previous temperature', () => {
+      const result = simplifyDaySchedule(parseDaySchedule('00:00/18 06:00/21 08:00/21 12:00/21 17:00/18 22:00/18'));
+
+      expect(serializeDaySchedule(result.schedule)).toBe('00:00/18 06:00/21 17:00/18');
+      expect(result.freedSlots).toBe(3);
+    });
+
+    it('should collapse zero-length periods', () => {
+      const day: DaySchedule = {
+        transitions: [
+          { id: 'a', time: '00:00', temperature: 18 },
+          { id: 'b', time: '06:00', temperature: 21 },
+          { id: 'c', time: '06:00', temperature: 19 },
+          { id: 'd', time: '08:00', temperature: 18 }
+        ]
+      };
+      const result = simplifyDaySchedule(day);
+
+      expect(result.schedule.transitions.map(t => t.id)).toEqual(['a', 'b', 'd']);
+      expect(result.freedSlots).toBe(1);
+    });
+
+    it('should sort before comparing and keep the first transition', () => {
+      const day: DaySchedule = {
+        transitions: [
+          { id: 'b', time: '06:00', temperature: 18 },
+          { id: 'a', time: '00:00', temperature: 18 }
+        ]
+      };
+
+      expect(simplifyDaySchedule(day).schedule.transitions.map(t => t.id)).toEqual(['a']);
+    });
+
+    it('should leave a schedule without redundancy unchanged', () => {
+      const day = parseDaySchedule(SAMPLE_WEEKLY_SCHEDULE.monday);
+      const result = simplifyDaySchedule(day);
+
+      expect(result.freedSlots).toBe(0);
+      expect(result.schedule.transitions).toEqual(day.transitions);
+    });
+  });
+
+  describe('simplifyWeeklySchedule', () => {
+    it('should report freed slots per day and in total', () => {
+      const schedule = parseWeeklySchedule({
+        ...SAMPLE_WEEKLY_SCHEDULE,
+        tuesday: '00:00/18 06:00/18 08:00/18',
+        saturday: '00:00/20 08:00/22 12:00/22 22:00/18'
+      });
+      const result = simplifyWeeklySchedule(schedule);
+
+      expect(result.freedSlots.tuesday).toBe(2);
+      expect(result.freedSlots.saturday).toBe(1);
+      expect(result.freedSlots.monday).toBe(0);
+      expect(result.totalFreed).toBe(3);
+      expect(serializeWeeklySchedule(result.schedule)).toEqual({
+        ...SAMPLE_WEEKLY_SCHEDULE,
+        tuesday: '00:00/18',
+        saturday: '00:00/20 08:00/22 22:00/18'
+      });
+    });
+
+    it('should keep unchanged days as they are', () => {
+      const schedule = parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE);
+      expect(simplifyWeeklySchedule(schedule).schedule.monday).toBe(schedule.monday);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for schedule-stats.ts
+ * Tests comfort hours, time-weighted averages, setpoint range and free slots
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDayStats,
+  calculateWeeklyStats,
+  MAX_TRANSITIONS_PER_DAY
+} from '../../src/models/schedule-stats';
+import { parseDaySchedule, parseWeeklySchedule, createEmptyWeeklySchedule } from '../../src/models/schedule';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+describe('schedule-stats.ts', () => {
+  describe('calculateDayStats', () => {
+    it('should weight setpoints by how long they are in effect', () => {
+      // 18°C for 6h, 21°C for 2h, 19°C for 9h, 22°C for 5h, 18°C for 2h
+      const stats = calculateDayStats(parseDaySchedule(SAMPLE_WEEKLY_SCHEDULE.monday), 20);
+
+      expect(stats.comfortHours).toBe(7);
+      expect(stats.averageTemp).toBeCloseTo((18 * 8 + 21 * 2 + 19 * 9 + 22 * 5) / 24);
+      expect(stats.minTemp).toBe(18);
+      expect(stats.maxTemp).toBe(22);
+      expect(stats.freeSlots).toBe(1);
+      expect(stats.totalSlots).toBe(MAX_TRANSITIONS_PER_DAY);
+    });
+
+    it('should count setpoints equal to the comfort temperature', () => {
+      const stats = calculateDayStats(parseDaySchedule('00:00/18 08:00/20 20:00/18'), 20);
+      expect(stats.comfortHours).toBe(12);
+    });
+
+    it('should use the carried-over setpoint before the first transition', () => {
+      const stats = calculateDayStats({ transitions: [{ id: 't1', time: '06:00', temperature: 21 }] }, 20, 16);
+
+      expect(stats.comfortHours).toBe(18);
+      expect(stats.averageTemp).toBeCloseTo((16 * 6 + 21 * 18) / 24);
+      expect(stats.minTemp).toBe(16);
+    });
+
+    it('should report no temperatures for an empty day', () => {
+      const stats = calculateDayStats({ transitions: [] }, 20);
+
+      expect(stats).toMatchObject({ comfortHours: 0, averageTemp: null, minTemp: null, maxTemp: null });
+      expect(stats.freeSlots).toBe(MAX_TRANSITIONS_PER_DAY);
+    });
+  });
+
+  describe('calculateWeeklyStats', () => {
+    it('should total the week', () => {
+      const stats = calculateWeeklyStats(parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE), 20);
+
+      // Weekdays: 7h at 21/22°C, weekend: 14h at 20/22°C
+      expect(stats.days.saturday.comfortHours).toBe(22);
+      expect(stats.week.comfortHours).toBe(5 * 7 + 2 * 22);
+      expect(stats.week.minTemp).toBe(18);
+      expect(stats.week.maxTemp).toBe(22);
+      expect(stats.week.freeSlots).toBe(5 * 1 + 2 * 3);
+      expect(stats.week.totalSlots).toBe(42);
+    });
+
+    it('should carry the previous day over, Saturday into Sunday', () => {
+      const schedule = createEmptyWeeklySchedule();
+      schedule.saturday = parseDaySchedule('00:00/22');
+      schedule.sunday = { transitions: [{ id: 't1', time: '12:00', temperature: 16 }] };
+
+      const stats = calculateWeeklyStats(schedule, 20);
+      expect(stats.days.sunday.comfortHours).toBe(12);
+      expect(stats.days.sunday.maxTemp).toBe(22);
+    });
+
+    it('should average the days and skip empty ones', () => {
+      const schedule = createEmptyWeeklySchedule();
+      schedule.monday = parseDaySchedule('00:00/18');
+      schedule.tuesday = { transitions: [] };
+
+      // Tuesday inherits Monday's 18°C, so only the empty-day default of 20°C elsewhere
+      const stats = calculateWeeklyStats(schedule, 20);
+      expect(stats.days.tuesday.averageTemp).toBe(18);
+      expect(stats.week.averageTemp).toBeCloseTo((18 * 2 + 20 * 5) / 7);
+
+      const empty = calculateWeeklyStats(
+        Object.fromEntries(Object.keys(schedule).map(day => [day, { transitions: [] }])) as typeof schedule,
+        20
+      );
+      expect(empty.week.averageTemp).toBeNull();
+    });
+  });
+});
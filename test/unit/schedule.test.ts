@@ -14,9 +14,13 @@ import {
   ensureMidnightTransition,
   sortTransitions,
   copyDaySchedule,
-  removeDuplicateTransitions
+  removeDuplicateTransitions,
+  applyTransitionEdit,
+  getActiveTransitionIndex,
+  getSetpointSummary
 } from '../../src/models/schedule';
 import { DaySchedule, MQTTWeeklySchedule, Transition } from '../../src/models/types';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
 
 describe('schedule.ts', () => {
   describe('parseDaySchedule', () => {
@@ -588,6 +592,61 @@ describe('schedule.ts', () => {
     });
   });
 
+  describe('applyTransitionEdit', () => {
+    const day = () => parseDaySchedule('00:00/17 06:00/20 09:00/19');
+
+    it('should add the transition to the day', () => {
+      const result = applyTransitionEdit(day(), { type: 'add', after: { time: '12:00', temperature: 21 } });
+
+      expect(serializeDaySchedule(result)).toBe('00:00/17 06:00/20 09:00/19 12:00/21');
+      expect(result.transitions[3].id).toBeDefined();
+    });
+
+    it('should not add a seventh transition', () => {
+      const full = parseDaySchedule('00:00/17 04:00/18 08:00/19 12:00/20 16:00/21 20:00/22');
+      const result = applyTransitionEdit(full, { type: 'add', after: { time: '22:00', temperature: 18 } });
+
+      expect(serializeDaySchedule(result)).toBe('00:00/17 04:00/18 08:00/19 12:00/20 16:00/21 20:00/22');
+    });
+
+    it('should change only the edited field of the transition at the same time', () => {
+      const result = applyTransitionEdit(day(), {
+        type: 'update',
+        before: { time: '06:00', temperature: 21 },
+        after: { time: '06:00', temperature: 23 }
+      });
+
+      expect(serializeDaySchedule(result)).toBe('00:00/17 06:00/23 09:00/19');
+    });
+
+    it('should move a transition and keep its own temperature', () => {
+      const result = applyTransitionEdit(day(), {
+        type: 'update',
+        before: { time: '09:00', temperature: 18 },
+        after: { time: '07:30', temperature: 18 }
+      });
+
+      expect(serializeDaySchedule(result)).toBe('00:00/17 06:00/20 07:30/19');
+    });
+
+    it('should delete the transition at the same time', () => {
+      const result = applyTransitionEdit(day(), { type: 'delete', before: { time: '06:00', temperature: 21 } });
+
+      expect(serializeDaySchedule(result)).toBe('00:00/17 09:00/19');
+    });
+
+    it('should leave the day unchanged without a transition at the edited time', () => {
+      const schedule = day();
+
+      expect(applyTransitionEdit(schedule, { type: 'delete', before: { time: '08:00', temperature: 19 } })).toBe(schedule);
+      expect(applyTransitionEdit(schedule, {
+        type: 'update',
+        before: { time: '08:00', temperature: 19 },
+        after: { time: '08:00', temperature: 22 }
+      })).toBe(schedule);
+    });
+  });
+
   describe('parseDaySchedule with duplicates', () => {
     it('should remove duplicate transitions when parsing', () => {
       const input = '00:00/20 06:00/22 06:00/24 08:00/18';
@@ -665,4 +724,65 @@ describe('schedule.ts', () => {
       expect(result).toBe('00:00/20.5 06:00/22.5');
     });
   });
+
+  describe('getActiveTransitionIndex', () => {
+    const day: DaySchedule = {
+      transitions: [
+        { time: '00:00', temperature: 18 },
+        { time: '17:00', temperature: 22 },
+        { time: '06:00', temperature: 21 }
+      ]
+    };
+
+    it('should return the last transition at or before the time', () => {
+      expect(getActiveTransitionIndex(day, 0)).toBe(0);
+      expect(getActiveTransitionIndex(day, 6 * 60)).toBe(2);
+      expect(getActiveTransitionIndex(day, 16 * 60 + 59)).toBe(2);
+      expect(getActiveTransitionIndex(day, 23 * 60 + 59)).toBe(1);
+    });
+
+    it('should return -1 when no transition has started yet', () => {
+      expect(getActiveTransitionIndex({ transitions: [{ time: '06:00', temperature: 21 }] }, 60)).toBe(-1);
+      expect(getActiveTransitionIndex({ transitions: [] }, 60)).toBe(-1);
+    });
+  });
+
+  describe('getSetpointSummary', () => {
+    const schedule = parseWeeklySchedule(SAMPLE_WEEKLY_SCHEDULE);
+
+    it('should return the current setpoint and the next one later today', () => {
+      expect(getSetpointSummary(schedule, { day: 'monday', minutes: 12 * 60 })).toEqual({
+        current: { day: 'monday', time: '08:00', temperature: 19 },
+        next: { day: 'monday', time: '17:00', temperature: 22, daysAhead: 0 }
+      });
+    });
+
+    it('should carry over into tomorrow and skip transitions that keep the temperature', () => {
+      // Monday ends at 18°C and Tuesday starts at 18°C, so the next change is Tuesday 06:00
+      expect(getSetpointSummary(schedule, { day: 'monday', minutes: 23 * 60 }).next)
+        .toEqual({ day: 'tuesday', time: '06:00', temperature: 21, daysAhead: 1 });
+    });
+
+    it('should wrap from Saturday to Sunday', () => {
+      expect(getSetpointSummary(schedule, { day: 'saturday', minutes: 23 * 60 }).next)
+        .toEqual({ day: 'sunday', time: '00:00', temperature: 20, daysAhead: 1 });
+    });
+
+    it('should continue the previous day when today has not started yet', () => {
+      const partial = { ...schedule, tuesday: { transitions: [{ time: '06:00', temperature: 21 }] } };
+      expect(getSetpointSummary(partial, { day: 'tuesday', minutes: 3 * 60 }).current)
+        .toEqual({ day: 'monday', time: '22:00', temperature: 18 });
+    });
+
+    it('should have no next setpoint when the temperature never changes', () => {
+      const flat = parseWeeklySchedule({
+        sunday: '00:00/20', monday: '00:00/20', tuesday: '00:00/20', wednesday: '00:00/20',
+        thursday: '00:00/20', friday: '00:00/20', saturday: '00:00/20'
+      });
+      expect(getSetpointSummary(flat, { day: 'monday', minutes: 600 })).toEqual({
+        current: { day: 'monday', time: '00:00', temperature: 20 },
+        next: null
+      });
+    });
+  });
 });
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for sync-status.ts
+ * Tests per-day confirmation tracking after a save
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  markDaysPending,
+  updateSyncStatus,
+  markPendingTimedOut,
+  getUnconfirmedDays
+} from '../../src/models/sync-status';
+import { MQTTWeeklySchedule } from '../../src/models/types';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+const EXPECTED: MQTTWeeklySchedule = {
+  ...SAMPLE_WEEKLY_SCHEDULE,
+  monday: '00:00/19',
+  friday: '00:00/22'
+};
+
+const BEFORE = {
+  monday: SAMPLE_WEEKLY_SCHEDULE.monday,
+  friday: SAMPLE_WEEKLY_SCHEDULE.friday
+};
+
+describe('sync-status.ts', () => {
+  describe('markDaysPending', () => {
+    it('should mark the sent days pending and keep other days', () => {
+      const status = markDaysPending(['friday'], { monday: 'confirmed', friday: 'timed_out' });
+      expect(status).toEqual({ monday: 'confirmed', friday: 'pending' });
+    });
+  });
+
+  describe('updateSyncStatus', () => {
+    it('should confirm days whose sensor reports the sent value', () => {
+      const status = markDaysPending(['monday', 'friday']);
+      const next = updateSyncStatus(status, EXPECTED, BEFORE, { ...BEFORE, monday: '00:00/19' });
+      expect(next).toEqual({ monday: 'confirmed', friday: 'pending' });
+    });
+
+    it('should flag a pending day whose sensor changes to another value', () => {
+      const status = markDaysPending(['monday']);
+      const next = updateSyncStatus(status, EXPECTED, BEFORE, { monday: '00:00/17' });
+      expect(next.monday).toBe('mismatch');
+    });
+
+    it('should keep a day pending while its sensor still has the old value', () => {
+      const status = markDaysPending(['monday']);
+      expect(updateSyncStatus(status, EXPECTED, BEFORE, BEFORE)).toBe(status);
+    });
+
+    it('should confirm a timed out day that reports late', () => {
+      const next = updateSyncStatus({ friday: 'timed_out' }, EXPECTED, BEFORE, { friday: '00:00/22' });
+      expect(next.friday).toBe('confirmed');
+    });
+  });
+
+  describe('markPendingTimedOut', () => {
+    it('should time out only pending days', () => {
+      expect(markPendingTimedOut({ monday: 'confirmed', friday: 'pending' }))
+        .toEqual({ monday: 'confirmed', friday: 'timed_out' });
+    });
+  });
+
+  describe('getUnconfirmedDays', () => {
+    it('should return mismatched and timed out days in week order', () => {
+      expect(getUnconfirmedDays({ saturday: 'timed_out', monday: 'mismatch', friday: 'pending', sunday: 'confirmed' }))
+        .toEqual(['monday', 'saturday']);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for temperature-history.ts
+ * Tests history periods of weekdays and parsing of recorded states
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getHistoryPeriod, parseTemperatureHistory } from '../../src/models/temperature-history';
+import { createMockHistoryStates } from '../mocks/hass-mock';
+
+// Wednesday 2026-10-14, 10:30 UTC
+const NOW = new Date('2026-10-14T10:30:45Z');
+const TODAY = { day: 'wednesday' as const, minutes: 10 * 60 + 30 };
+
+describe('temperature-history.ts', () => {
+  describe('getHistoryPeriod', () => {
+    it('should end today\'s period now', () => {
+      const { start, end } = getHistoryPeriod(NOW, TODAY, 'wednesday');
+      expect(start.toISOString()).toBe('2026-10-14T00:00:00.000Z');
+      expect(end).toEqual(NOW);
+    });
+
+    it('should use the most recent occurrence of earlier days', () => {
+      const { start, end } = getHistoryPeriod(NOW, TODAY, 'monday');
+      expect(start.toISOString()).toBe('2026-10-12T00:00:00.000Z');
+      expect(end.toISOString()).toBe('2026-10-13T00:00:00.000Z');
+    });
+
+    it('should go back to last week for later days', () => {
+      const { start } = getHistoryPeriod(NOW, TODAY, 'thursday');
+      expect(start.toISOString()).toBe('2026-10-08T00:00:00.000Z');
+    });
+
+    it('should go back another week for the previous week', () => {
+      const { start, end } = getHistoryPeriod(NOW, TODAY, 'wednesday', 'previous');
+      expect(start.toISOString()).toBe('2026-10-07T00:00:00.000Z');
+      expect(end.toISOString()).toBe('2026-10-08T00:00:00.000Z');
+    });
+
+    it('should follow the Home Assistant timezone of today', () => {
+      // 10:30 UTC is 12:30 in Berlin
+      const { start } = getHistoryPeriod(NOW, { day: 'wednesday', minutes: 12 * 60 + 30 }, 'wednesday');
+      expect(start.toISOString()).toBe('2026-10-13T22:00:00.000Z');
+    });
+  });
+
+  describe('parseTemperatureHistory', () => {
+    const start = new Date('2026-10-12T00:00:00Z');
+
+    it('should read room and target temperatures', () => {
+      const history = parseTemperatureHistory(
+        createMockHistoryStates(start, [
+          { minutes: 0, current: 18.5, target: 18 },
+          { minutes: 360, current: 18.5, target: 22 },
+          { minutes: 420, current: 20, target: 22 },
+        ]),
+        start
+      );
+
+      expect(history.current).toEqual([
+        { minutes: 0, temperature: 18.5 },
+        { minutes: 420, temperature: 20 },
+      ]);
+      expect(history.target).toEqual([
+        { minutes: 0, temperature: 18 },
+        { minutes: 360, temperature: 22 },
+      ]);
+    });
+
+    it('should move states recorded before the day to its start', () => {
+      const history = parseTemperatureHistory(createMockHistoryStates(start, [{ minutes: -90, current: 17 }]), start);
+      expect(history.current).toEqual([{ minutes: 0, temperature: 17 }]);
+    });
+
+    it('should keep the last value of the same minute', () => {
+      const history = parseTemperatureHistory(
+        createMockHistoryStates(start, [
+          { minutes: 60, current: 19 },
+          { minutes: 60, current: 19.5 },
+        ]),
+        start
+      );
+      expect(history.current).toEqual([{ minutes: 60, temperature: 19.5 }]);
+    });
+
+    it('should ignore missing and non-numeric values', () => {
+      const history = parseTemperatureHistory(
+        [
+          { s: 'unavailable', lu: start.getTime() / 1000 },
+          { s: 'heat', a: { current_temperature: 'unknown', temperature: '21' }, lu: start.getTime() / 1000 + 60 },
+        ],
+        start
+      );
+      expect(history.current).toEqual([]);
+      expect(history.target).toEqual([{ minutes: 1, temperature: 21 }]);
+    });
+  });
+});
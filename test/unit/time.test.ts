@@ -10,7 +10,18 @@ import {
   compareTime,
   timeToMinutes,
   minutesToTime,
-  generateTimeOptions
+  generateTimeOptions,
+  getWeekTime,
+  formatDisplayTime,
+  formatHourLabel,
+  to12Hour,
+  from12Hour,
+  uses12HourClock,
+  getDayOrder,
+  sortDays,
+  getWeekdays,
+  getWeekendDays,
+  resolveFirstDayOfWeek
 } from '../../src/utils/time';
 
 describe('time.ts', () => {
@@ -50,6 +61,70 @@ describe('time.ts', () => {
       expect(formatTime(10, 30)).toBe('10:30');
       expect(formatTime(23, 45)).toBe('23:45');
     });
+
+    it('should format on the 12-hour clock', () => {
+      expect(formatTime(7, 0, true)).toBe('7:00 AM');
+      expect(formatTime(19, 30, true)).toBe('7:30 PM');
+    });
+
+    it('should show midnight as 12 AM and noon as 12 PM', () => {
+      expect(formatTime(0, 0, true)).toBe('12:00 AM');
+      expect(formatTime(12, 15, true)).toBe('12:15 PM');
+    });
+  });
+
+  describe('12-hour clock', () => {
+    it('should convert to 12-hour hours', () => {
+      expect(to12Hour(0)).toEqual({ hours: 12, period: 'AM' });
+      expect(to12Hour(11)).toEqual({ hours: 11, period: 'AM' });
+      expect(to12Hour(12)).toEqual({ hours: 12, period: 'PM' });
+      expect(to12Hour(19)).toEqual({ hours: 7, period: 'PM' });
+    });
+
+    it('should convert back to 24-hour hours', () => {
+      expect(from12Hour(12, 'AM')).toBe(0);
+      expect(from12Hour(12, 'PM')).toBe(12);
+      expect(from12Hour(7, 'AM')).toBe(7);
+      expect(from12Hour(7, 'PM')).toBe(19);
+    });
+
+    it('should round-trip every hour', () => {
+      for (let hour = 0; hour < 24; hour++) {
+        const { hours, period } = to12Hour(hour);
+        expect(from12Hour(hours, period)).toBe(hour);
+      }
+    });
+
+    it('should format display times', () => {
+      expect(formatDisplayTime('19:00', true)).toBe('7:00 PM');
+      expect(formatDisplayTime('19:00', false)).toBe('19:00');
+      expect(formatDisplayTime('invalid', true)).toBe('invalid');
+    });
+
+    it('should format compact hour labels', () => {
+      expect(formatHourLabel(6)).toBe('6');
+      expect(formatHourLabel(0, true)).toBe('12a');
+      expect(formatHourLabel(12, true)).toBe('12p');
+      expect(formatHourLabel(18, true)).toBe('6p');
+      expect(formatHourLabel(24, true)).toBe('12a');
+    });
+  });
+
+  describe('uses12HourClock', () => {
+    it('should follow an explicit time format', () => {
+      expect(uses12HourClock({ language: 'de', time_format: '12' })).toBe(true);
+      expect(uses12HourClock({ language: 'en', time_format: '24' })).toBe(false);
+    });
+
+    it('should follow the language by default', () => {
+      expect(uses12HourClock({ language: 'en' })).toBe(true);
+      expect(uses12HourClock({ language: 'en-GB', time_format: 'language' })).toBe(false);
+      expect(uses12HourClock({ language: 'de', time_format: 'language' })).toBe(false);
+    });
+
+    it('should use the 24-hour clock without locale settings', () => {
+      expect(uses12HourClock(undefined)).toBe(false);
+    });
   });
 
   describe('parseTime', () => {
@@ -365,4 +440,69 @@ describe('time.ts', () => {
       expect(uniqueOptions.size).toBe(options.length);
     });
   });
+
+  describe('getWeekTime', () => {
+    // Monday 2024-01-01 12:30 UTC
+    const date = new Date('2024-01-01T12:30:00Z');
+
+    it('should convert to the given timezone', () => {
+      expect(getWeekTime(date, 'Asia/Tokyo')).toEqual({ day: 'monday', minutes: 21 * 60 + 30 });
+      expect(getWeekTime(date, 'UTC')).toEqual({ day: 'monday', minutes: 12 * 60 + 30 });
+    });
+
+    it('should move to the previous day west of UTC', () => {
+      expect(getWeekTime(new Date('2024-01-01T03:00:00Z'), 'America/Los_Angeles'))
+        .toEqual({ day: 'sunday', minutes: 19 * 60 });
+    });
+
+    it('should fall back to the browser clock for unknown or missing timezones', () => {
+      const local = { day: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][date.getDay()],
+        minutes: date.getHours() * 60 + date.getMinutes() };
+      expect(getWeekTime(date, 'Not/AZone')).toEqual(local);
+      expect(getWeekTime(date)).toEqual(local);
+    });
+  });
+
+  describe('day order', () => {
+    it('should start the week on Monday by default', () => {
+      expect(getDayOrder()).toEqual(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']);
+    });
+
+    it('should start the week on any day', () => {
+      expect(getDayOrder('sunday')).toEqual(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']);
+      expect(getDayOrder('saturday')[0]).toBe('saturday');
+      expect(getDayOrder('saturday')[6]).toBe('friday');
+    });
+
+    it('should sort days into display order', () => {
+      expect(sortDays(['sunday', 'friday', 'monday'])).toEqual(['monday', 'friday', 'sunday']);
+      expect(sortDays(['sunday', 'friday', 'monday'], 'sunday')).toEqual(['sunday', 'monday', 'friday']);
+    });
+
+    it('should order the weekday and weekend presets', () => {
+      expect(getWeekdays('sunday')).toEqual(['monday', 'tuesday', 'wednesday', 'thursday', 'friday']);
+      expect(getWeekendDays()).toEqual(['saturday', 'sunday']);
+      expect(getWeekendDays('sunday')).toEqual(['sunday', 'saturday']);
+    });
+  });
+
+  describe('resolveFirstDayOfWeek', () => {
+    it('should prefer the card option', () => {
+      expect(resolveFirstDayOfWeek('saturday', { language: 'de', first_weekday: 'sunday' })).toBe('saturday');
+    });
+
+    it('should use the Home Assistant first weekday', () => {
+      expect(resolveFirstDayOfWeek(undefined, { language: 'de', first_weekday: 'sunday' })).toBe('sunday');
+    });
+
+    it('should follow the language by default', () => {
+      expect(resolveFirstDayOfWeek(undefined, { language: 'de', first_weekday: 'language' })).toBe('monday');
+      expect(resolveFirstDayOfWeek(undefined, { language: 'en-US' })).toBe('sunday');
+    });
+
+    it('should start on Monday without locale settings', () => {
+      expect(resolveFirstDayOfWeek()).toBe('monday');
+      expect(resolveFirstDayOfWeek(undefined, { language: 'not a language' })).toBe('monday');
+    });
+  });
 });
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for vacation.ts
+ * Tests the set-back schedule and persistence of regular schedule snapshots
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  VACATION_STORAGE_KEY,
+  createVacationSchedule,
+  loadVacationSnapshots,
+  saveVacationSnapshots,
+  updateVacationSnapshot
+} from '../../src/models/vacation';
+import { serializeWeeklySchedule } from '../../src/models/schedule';
+import { DAYS_OF_WEEK } from '../../src/models/types';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+describe('vacation.ts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createVacationSchedule', () => {
+    it('should hold one temperature all day, every day', () => {
+      const mqtt = serializeWeeklySchedule(createVacationSchedule(15));
+      for (const day of DAYS_OF_WEEK) {
+        expect(mqtt[day]).toBe('00:00/15');
+      }
+    });
+  });
+
+  describe('loadVacationSnapshots / saveVacationSnapshots', () => {
+    it('should round-trip through localStorage', () => {
+      const snapshots = {
+        'climate.bathroom': { schedule: SAMPLE_WEEKLY_SCHEDULE, temperature: 15, startedAt: 1000 }
+      };
+      saveVacationSnapshots(snapshots);
+      expect(loadVacationSnapshots()).toEqual(snapshots);
+    });
+
+    it('should remove the storage key when no vacation is active', () => {
+      saveVacationSnapshots({
+        'climate.bathroom': { schedule: SAMPLE_WEEKLY_SCHEDULE, temperature: 15, startedAt: 1000 }
+      });
+      saveVacationSnapshots({});
+      expect(localStorage.getItem(VACATION_STORAGE_KEY)).toBeNull();
+    });
+
+    it('should ignore malformed snapshots', () => {
+      localStorage.setItem(VACATION_STORAGE_KEY, JSON.stringify({
+        'climate.bathroom': { schedule: SAMPLE_WEEKLY_SCHEDULE, temperature: '15' },
+        'climate.kitchen': { schedule: SAMPLE_WEEKLY_SCHEDULE, temperature: 16, startedAt: 1 }
+      }));
+      expect(Object.keys(loadVacationSnapshots())).toEqual(['climate.kitchen']);
+
+      localStorage.setItem(VACATION_STORAGE_KEY, '[');
+      expect(loadVacationSnapshots()).toEqual({});
+    });
+  });
+
+  describe('updateVacationSnapshot', () => {
+    const snapshot = { schedule: SAMPLE_WEEKLY_SCHEDULE, temperature: 15, startedAt: 1000 };
+
+    it('should keep snapshots stored by others since the map was loaded', () => {
+      const first = loadVacationSnapshots();
+      const second = loadVacationSnapshots();
+
+      updateVacationSnapshot(first, 'climate.bathroom', snapshot);
+      const stored = updateVacationSnapshot(second, 'climate.kitchen', { ...snapshot, temperature: 16 });
+
+      expect(Object.keys(stored)).toEqual(['climate.bathroom', 'climate.kitchen']);
+      expect(loadVacationSnapshots()).toEqual(stored);
+    });
+
+    it('should clear only the given entity', () => {
+      saveVacationSnapshots({ 'climate.bathroom': snapshot, 'climate.kitchen': snapshot });
+
+      updateVacationSnapshot({}, 'climate.bathroom', undefined);
+      expect(Object.keys(loadVacationSnapshots())).toEqual(['climate.kitchen']);
+    });
+
+    it('should update the given snapshots without storage', () => {
+      const stored = updateVacationSnapshot({ 'climate.kitchen': snapshot }, 'climate.bathroom', snapshot, null);
+      expect(Object.keys(stored)).toEqual(['climate.kitchen', 'climate.bathroom']);
+    });
+  });
+});
@@ -7,11 +7,19 @@ import { describe, it, expect } from 'vitest';
 import {
   isValidTime,
   isValidTemperature,
+  clampTemperature,
+  alignTemperatureLimits,
   validateTransition,
   validateDaySchedule,
-  validateWeeklySchedule
+  validateWeeklySchedule,
+  lintDaySchedule,
+  lintWeeklySchedule
 } from '../../src/utils/validation';
-import { DaySchedule, Transition, WeeklySchedule } from '../../src/models/types';
+import { DaySchedule, Transition, WeeklySchedule, TemperatureLimits } from '../../src/models/types';
+import { parseDaySchedule, parseWeeklySchedule } from '../../src/models/schedule';
+import { SAMPLE_WEEKLY_SCHEDULE } from '../mocks/hass-mock';
+
+const POLICY_LIMITS: TemperatureLimits = { min: 5, max: 28, step: 0.5 };
 
 describe('validation.ts', () => {
   describe('isValidTime', () => {
@@ -130,6 +138,72 @@ describe('validation.ts', () => {
     });
   });
 
+  describe('isValidTemperature with device limits', () => {
+    it('should accept temperatures within the device range', () => {
+      expect(isValidTemperature(5, POLICY_LIMITS)).toBe(true);
+      expect(isValidTemperature(28, POLICY_LIMITS)).toBe(true);
+    });
+
+    it('should reject temperatures outside the device range', () => {
+      expect(isValidTemperature(4.5, POLICY_LIMITS)).toBe(false);
+      expect(isValidTemperature(35, POLICY_LIMITS)).toBe(false);
+    });
+
+    it('should use the device step', () => {
+      const wholeDegrees: TemperatureLimits = { min: 7, max: 30, step: 1 };
+      expect(isValidTemperature(21, wholeDegrees)).toBe(true);
+      expect(isValidTemperature(21.5, wholeDegrees)).toBe(false);
+    });
+
+    it('should tolerate floating point noise with fine steps', () => {
+      const tenths: TemperatureLimits = { min: 4, max: 35, step: 0.1 };
+      expect(isValidTemperature(20.3, tenths)).toBe(true);
+      expect(isValidTemperature(20.35, tenths)).toBe(false);
+    });
+  });
+
+  describe('clampTemperature', () => {
+    it('should clamp to the default range', () => {
+      expect(clampTemperature(2)).toBe(4);
+      expect(clampTemperature(40)).toBe(35);
+    });
+
+    it('should clamp to device limits', () => {
+      expect(clampTemperature(35, POLICY_LIMITS)).toBe(28);
+      expect(clampTemperature(4, POLICY_LIMITS)).toBe(5);
+    });
+
+    it('should round to the nearest step', () => {
+      expect(clampTemperature(20.3)).toBe(20.5);
+      expect(clampTemperature(20.2)).toBe(20);
+      expect(clampTemperature(20.6, { min: 7, max: 30, step: 1 })).toBe(21);
+      expect(clampTemperature(20.33, { min: 4, max: 35, step: 0.1 })).toBe(20.3);
+    });
+
+    it('should stay within limits that are not on a step', () => {
+      expect(clampTemperature(4, { min: 5.2, max: 28, step: 0.5 })).toBe(5.2);
+    });
+  });
+
+  describe('alignTemperatureLimits', () => {
+    it('should move limits inwards to a step', () => {
+      expect(alignTemperatureLimits({ min: 4.2, max: 29.8, step: 0.5 })).toEqual({ min: 4.5, max: 29.5, step: 0.5 });
+      expect(alignTemperatureLimits({ min: 4.5, max: 30, step: 1 })).toEqual({ min: 5, max: 30, step: 1 });
+    });
+
+    it('should keep limits that are on a step', () => {
+      expect(alignTemperatureLimits(POLICY_LIMITS)).toEqual(POLICY_LIMITS);
+      expect(alignTemperatureLimits({ min: 4.3, max: 35, step: 0.1 })).toEqual({ min: 4.3, max: 35, step: 0.1 });
+    });
+
+    it('should make every step between the limits valid', () => {
+      const limits = alignTemperatureLimits({ min: 4.2, max: 6, step: 0.5 });
+      for (let temp = limits.min; temp <= limits.max; temp += limits.step) {
+        expect(isValidTemperature(temp, limits), `${temp}`).toBe(true);
+      }
+    });
+  });
+
   describe('validateTransition', () => {
     it('should validate correct transition', () => {
       const transition: Transition = { time: '06:00', temperature: 22 };
@@ -153,7 +227,7 @@ describe('validation.ts', () => {
 
       expect(result.valid).toBe(false);
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain('Invalid time format');
+      expect(result.errors[0]).toMatchObject({ code: 'invalid_time', params: { time: '6:00' } });
     });
 
     it('should reject temperature out of range (too low)', () => {
@@ -162,8 +236,7 @@ describe('validation.ts', () => {
 
       expect(result.valid).toBe(false);
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain('out of range');
-      expect(result.errors[0]).toContain('4-35');
+      expect(result.errors[0]).toMatchObject({ code: 'temperature_out_of_range', params: { min: 4, max: 35 } });
     });
 
     it('should reject temperature out of range (too high)', () => {
@@ -172,7 +245,7 @@ describe('validation.ts', () => {
 
       expect(result.valid).toBe(false);
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain('out of range');
+      expect(result.errors[0].code).toBe('temperature_out_of_range');
     });
 
     it('should reject invalid temperature step', () => {
@@ -181,7 +254,23 @@ describe('validation.ts', () => {
 
       expect(result.valid).toBe(false);
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain('0.5°C steps');
+      expect(result.errors[0]).toMatchObject({ code: 'temperature_off_step', params: { step: 0.5 } });
+    });
+
+    it('should report the device range in the error', () => {
+      const transition: Transition = { time: '06:00', temperature: 30 };
+      const result = validateTransition(transition, POLICY_LIMITS);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].params).toMatchObject({ min: 5, max: 28 });
+    });
+
+    it('should report the device step in the error', () => {
+      const transition: Transition = { time: '06:00', temperature: 20.5 };
+      const result = validateTransition(transition, { min: 7, max: 30, step: 1 });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].params).toMatchObject({ step: 1 });
     });
 
     it('should reject both invalid time and temperature', () => {
@@ -229,7 +318,7 @@ describe('validation.ts', () => {
 
       expect(result.valid).toBe(false);
       expect(result.errors).toHaveLength(1);
-      expect(result.errors[0]).toContain('at least 1 transition');
+      expect(result.errors[0].code).toBe('no_transitions');
     });
 
     it('should reject too many transitions (>6)', () => {
@@ -248,8 +337,7 @@ describe('validation.ts', () => {
       const result = validateDaySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('Too many transitions'))).toBe(true);
-      expect(result.errors.some(e => e.includes('Maximum is 6'))).toBe(true);
+      expect(result.errors).toContainEqual({ code: 'too_many_transitions', params: { count: 7, max: 6 } });
     });
 
     it('should reject schedule without midnight transition', () => {
@@ -263,7 +351,7 @@ describe('validation.ts', () => {
       const result = validateDaySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('First transition must be at 00:00'))).toBe(true);
+      expect(result.errors.some(e => e.code === 'first_not_midnight')).toBe(true);
     });
 
     it('should reject duplicate times', () => {
@@ -278,7 +366,7 @@ describe('validation.ts', () => {
       const result = validateDaySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('Duplicate transition times'))).toBe(true);
+      expect(result.errors.some(e => e.code === 'duplicate_times')).toBe(true);
     });
 
     it('should reject out-of-order times', () => {
@@ -293,7 +381,7 @@ describe('validation.ts', () => {
       const result = validateDaySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('chronological order'))).toBe(true);
+      expect(result.errors.some(e => e.code === 'not_chronological')).toBe(true);
     });
 
     it('should reject transitions with equal consecutive times', () => {
@@ -323,7 +411,7 @@ describe('validation.ts', () => {
       const result = validateDaySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('Transition 2'))).toBe(true);
+      expect(result.errors.some(e => e.transition === 2)).toBe(true);
     });
 
     it('should validate transitions with invalid time format', () => {
@@ -337,7 +425,7 @@ describe('validation.ts', () => {
       const result = validateDaySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('Transition 2') && e.includes('Invalid time format'))).toBe(true);
+      expect(result.errors.some(e => e.transition === 2 && e.code === 'invalid_time')).toBe(true);
     });
 
     it('should report multiple validation errors', () => {
@@ -434,7 +522,7 @@ describe('validation.ts', () => {
       const result = validateWeeklySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('Sunday'))).toBe(true);
+      expect(result.errors.some(e => e.day === 'sunday')).toBe(true);
     });
 
     it('should report errors for multiple invalid days', () => {
@@ -451,12 +539,12 @@ describe('validation.ts', () => {
       const result = validateWeeklySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors.some(e => e.includes('Sunday'))).toBe(true);
-      expect(result.errors.some(e => e.includes('Monday'))).toBe(true);
-      expect(result.errors.some(e => e.includes('Tuesday'))).toBe(true);
+      expect(result.errors.some(e => e.day === 'sunday')).toBe(true);
+      expect(result.errors.some(e => e.day === 'monday')).toBe(true);
+      expect(result.errors.some(e => e.day === 'tuesday')).toBe(true);
     });
 
-    it('should prefix errors with day name', () => {
+    it('should tag errors with their day', () => {
       const schedule: WeeklySchedule = {
         sunday: { transitions: [{ time: '00:00', temperature: 20 }] },
         monday: { transitions: [] },
@@ -470,10 +558,10 @@ describe('validation.ts', () => {
       const result = validateWeeklySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors[0]).toMatch(/^Monday:/);
+      expect(result.errors[0].day).toBe('monday');
     });
 
-    it('should capitalize day names in error messages', () => {
+    it('should tag errors with the failing day only', () => {
       const schedule: WeeklySchedule = {
         sunday: { transitions: [{ time: '00:00', temperature: 20 }] },
         monday: { transitions: [{ time: '00:00', temperature: 20 }] },
@@ -487,7 +575,8 @@ describe('validation.ts', () => {
       const result = validateWeeklySchedule(schedule);
 
       expect(result.valid).toBe(false);
-      expect(result.errors[0]).toMatch(/^Wednesday:/);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].day).toBe('wednesday');
     });
 
     it('should validate all 7 days', () => {
@@ -506,5 +595,77 @@ describe('validation.ts', () => {
       expect(result.valid).toBe(false);
       expect(result.errors).toHaveLength(7);
     });
+
+    it('should apply device limits to every day', () => {
+      const day: DaySchedule = { transitions: [{ time: '00:00', temperature: 30 }] };
+      const schedule: WeeklySchedule = {
+        sunday: day, monday: day, tuesday: day, wednesday: day,
+        thursday: day, friday: day, saturday: day
+      };
+
+      expect(validateWeeklySchedule(schedule).valid).toBe(true);
+      const result = validateWeeklySchedule(schedule, POLICY_LIMITS);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(7);
+    });
+  });
+
+  describe('lintDaySchedule', () => {
+    /**
+     * Lint a day string and return the warning codes
+     */
+    function codes(day: string, options = {}): string[] {
+      return lintDaySchedule(parseDaySchedule(day), options).map(warning => warning.code);
+    }
+
+    it('should not warn about a sensible schedule', () => {
+      expect(codes(SAMPLE_WEEKLY_SCHEDULE.monday)).toEqual([]);
+    });
+
+    it('should warn about intervals shorter than 15 minutes', () => {
+      const warnings = lintDaySchedule(parseDaySchedule('00:00/18 06:00/21 06:10/20'));
+      expect(warnings[0]).toMatchObject({ code: 'short_interval', index: 2 });
+      expect(warnings[0].params).toMatchObject({ interval: 10, previous: '06:00' });
+      expect(codes('00:00/18 06:00/21 06:15/20')).toEqual([]);
+    });
+
+    it('should warn about transitions that keep the previous temperature', () => {
+      const warnings = lintDaySchedule(parseDaySchedule('00:00/18 06:00/21 08:00/21'));
+      expect(warnings).toEqual([
+        expect.objectContaining({ code: 'repeated_temperature', index: 2 })
+      ]);
+    });
+
+    it('should warn about jumps larger than the configured delta', () => {
+      expect(codes('00:00/16 06:00/22')).toEqual(['large_jump']);
+      expect(codes('00:00/16 06:00/22', { maxJump: 6 })).toEqual([]);
+    });
+
+    it('should warn about setpoints above the comfort cap', () => {
+      expect(codes('00:00/18 06:00/22.5', { comfortCap: 22 })).toEqual(['above_comfort_cap']);
+    });
+
+    it('should warn about days that never reach the comfort temperature', () => {
+      const warnings = lintDaySchedule(parseDaySchedule('00:00/15'));
+      expect(warnings).toEqual([expect.objectContaining({ code: 'below_comfort' })]);
+      expect(warnings[0].index).toBeUndefined();
+      expect(codes('00:00/15', { comfortTemp: 15 })).toEqual([]);
+    });
+
+    it('should not affect validity', () => {
+      const day = parseDaySchedule('00:00/18 06:00/18 06:05/30');
+      expect(lintDaySchedule(day).length).toBeGreaterThan(0);
+      expect(validateDaySchedule(day).valid).toBe(true);
+    });
+  });
+
+  describe('lintWeeklySchedule', () => {
+    it('should lint every day', () => {
+      const schedule = parseWeeklySchedule({ ...SAMPLE_WEEKLY_SCHEDULE, friday: '00:00/15' });
+      const warnings = lintWeeklySchedule(schedule);
+
+      expect(warnings.monday).toEqual([]);
+      expect(warnings.friday.map(warning => warning.code)).toEqual(['below_comfort']);
+    });
   });
 });